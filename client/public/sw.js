@@ -0,0 +1,88 @@
+/**
+ * Service worker that lets supervisors open the daily work sheet without signal.
+ *
+ * - Pages fall back to the cached app shell when the network is unreachable
+ * - Built assets (content-hashed under /assets/) are served from cache once fetched
+ * - Only the API reads the work sheet needs are cached, network first
+ * - Work logs captured offline are queued in IndexedDB by the page (client/src/lib/offlineQueue.ts);
+ *   a background sync event asks any open page to flush that queue
+ */
+
+const SHELL_CACHE = "empcare-shell-v1";
+const API_CACHE = "empcare-api-v1";
+const SHELL_URLS = ["/", "/manifest.webmanifest", "/favicon.png"];
+
+// Reads needed to render the work sheet offline; nothing else from /api is kept on the device
+const OFFLINE_API_PATTERN = /^\/api\/(user|my-permissions|projects|projects\/[^/]+\/(labourers|pay-rates|work-logs))$/;
+const LOGOUT_PATTERN = /^\/api\/(logout|labourer\/logout)$/;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then((cache) => cache.addAll(SHELL_URLS)));
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys.filter((key) => key !== SHELL_CACHE && key !== API_CACHE).map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+async function networkFirst(request, cacheName, fallbackUrl) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(fallbackUrl || request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(fallbackUrl || request);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  // Signing out must not leave one user's project data behind for the next person on a shared phone
+  if (LOGOUT_PATTERN.test(url.pathname)) {
+    event.waitUntil(caches.delete(API_CACHE));
+    return;
+  }
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request, SHELL_CACHE, "/"));
+  } else if (url.pathname.startsWith("/assets/")) {
+    event.respondWith(cacheFirst(request));
+  } else if (OFFLINE_API_PATTERN.test(url.pathname)) {
+    event.respondWith(networkFirst(request, API_CACHE));
+  }
+});
+
+self.addEventListener("sync", (event) => {
+  if (event.tag === "work-log-queue") {
+    event.waitUntil(
+      self.clients.matchAll({ type: "window" }).then((clients) => {
+        clients.forEach((client) => client.postMessage({ type: "sync-work-logs" }));
+      })
+    );
+  }
+});
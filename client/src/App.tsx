@@ -18,13 +18,19 @@ import WorkLogPage from "@/pages/work-log";
 import PaymentsPage from "@/pages/payments";
 import AuditPage from "@/pages/audit";
 import RolesPage from "@/pages/roles";
+import LoginLockoutsPage from "@/pages/login-lockouts";
+import AccessPage from "@/pages/access";
+import LabourerDuplicatesPage from "@/pages/labourer-duplicates";
+import WorkLogDuplicatesPage from "@/pages/work-log-duplicates";
 import LabourerDashboard from "@/pages/labourer-dashboard";
 import LabourerLogin from "@/pages/labourer-login";
 import NotFound from "@/pages/not-found";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Loader2 } from "lucide-react";
+import { discardQueuedWorkLogs, getQueuedWorkLogs, syncQueuedWorkLogs } from "@/lib/offlineQueue";
 import type { User } from "@shared/schema";
+import type { Permission } from "@shared/permissions";
 
 function LoginPage() {
   const handleLogin = () => {
@@ -48,7 +54,7 @@ function LoginPage() {
             Sign in with Google
           </Button>
           <p className="text-xs text-center text-muted-foreground">
-            Access restricted to @mooya.co.za and @mooyawireless.co.za email addresses
+            Access restricted to approved company email addresses and invited users
           </p>
         </CardContent>
       </Card>
@@ -56,6 +62,22 @@ function LoginPage() {
   );
 }
 
+// Work logs queued on this device would otherwise be synced later under whoever signs in next;
+// try to send them first and only sign out with captures left if the user agrees to discard them
+async function signOut(user: User) {
+  if ((await getQueuedWorkLogs(user.id).catch(() => [])).length > 0) {
+    await syncQueuedWorkLogs(user.id).catch(console.error);
+    const unsynced = (await getQueuedWorkLogs(user.id).catch(() => [])).length;
+    if (unsynced > 0) {
+      if (!confirm(`${unsynced} work log(s) captured on this device have not been saved to the server. Sign out anyway and discard them?`)) {
+        return;
+      }
+      await discardQueuedWorkLogs(user.id);
+    }
+  }
+  window.location.href = "/api/logout";
+}
+
 function AuthenticatedApp({ user }: { user: User }) {
   const style = {
     "--sidebar-width": "20rem",
@@ -72,7 +94,7 @@ function AuthenticatedApp({ user }: { user: User }) {
           currentPath={window.location.pathname}
           onNavigate={(path) => (window.location.href = path)}
           onLogout={() => {
-            window.location.href = "/api/logout";
+            signOut(user).catch(console.error);
           }}
         />
         <div className="flex flex-col flex-1">
@@ -91,11 +113,15 @@ function AuthenticatedApp({ user }: { user: User }) {
                 <Route path="/projects" component={() => <ProjectsPage user={user} />} />
                 <Route path="/pay-rates" component={() => <PayRatesPage user={user} />} />
                 <Route path="/labourers" component={LabourersPage} />
+                <Route path="/labourer-duplicates" component={() => <LabourerDuplicatesPage user={user} />} />
                 <Route path="/reports" component={() => <Reports user={user} />} />
                 <Route path="/work-log" component={() => <WorkLogPage user={user} />} />
+                <Route path="/work-log-duplicates" component={() => <WorkLogDuplicatesPage user={user} />} />
                 <Route path="/payments" component={() => <PaymentsPage user={user} />} />
                 <Route path="/audit" component={() => <AuditPage user={user} />} />
-                <Route path="/roles" component={RolesPage} />
+                <Route path="/roles" component={() => <RolesPage user={user} />} />
+                <Route path="/login-lockouts" component={() => <LoginLockoutsPage user={user} />} />
+                <Route path="/access" component={() => <AccessPage user={user} />} />
                 <Route component={NotFound} />
               </Switch>
             </div>
@@ -117,6 +143,14 @@ function AppContent() {
     queryFn: getQueryFn({ on401: "returnNull" }),
     retry: false,
     enabled: !isLabourerRoute, // Only query for staff routes
+    networkMode: "offlineFirst", // Let the service worker answer from cache so supervisors can open the app offline
+  });
+
+  // Pages gate features on the role's permissions, so load them before rendering any page
+  const { isLoading: permissionsLoading } = useQuery<Permission[]>({
+    queryKey: ["/api/my-permissions"],
+    enabled: !!user,
+    networkMode: "offlineFirst",
   });
 
   // Public labourer login route
@@ -130,7 +164,7 @@ function AppContent() {
   }
 
   // Staff routes - require OIDC authentication
-  if (isLoading) {
+  if (isLoading || permissionsLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
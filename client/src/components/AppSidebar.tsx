@@ -10,8 +10,10 @@ import {
   SidebarHeader,
   SidebarFooter,
 } from "@/components/ui/sidebar";
-import { LayoutDashboard, Briefcase, Users, DollarSign, FileText, Settings, LogOut } from "lucide-react";
+import { LayoutDashboard, Briefcase, Users, UsersRound, DollarSign, FileText, CopyX, Settings, Lock, KeyRound, LogOut, type LucideIcon } from "lucide-react";
 import RoleBadge from "./RoleBadge";
+import { usePermissions } from "@/hooks/use-permissions";
+import type { Permission } from "@shared/permissions";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import mooyaLogo from "@assets/Mooya Logo_1761683789909.png";
 
@@ -26,61 +28,36 @@ interface AppSidebarProps {
   onLogout: () => void;
 }
 
-const menuItems = {
-  super_admin: [
-    { title: "Dashboard", icon: LayoutDashboard, path: "/dashboard" },
-    { title: "Projects", icon: Briefcase, path: "/projects" },
-    { title: "Pay Rates", icon: DollarSign, path: "/pay-rates" },
-    { title: "Labourers", icon: Users, path: "/labourers" },
-    { title: "Reports", icon: FileText, path: "/reports" },
-    { title: "Payments", icon: DollarSign, path: "/payments" },
-    { title: "Audit Trail", icon: FileText, path: "/audit" },
-    { title: "Users", icon: Users, path: "/users" },
-    { title: "Employee Types", icon: FileText, path: "/employee-types" },
-    { title: "Settings", icon: Settings, path: "/settings" },
-  ],
-  admin: [
-    { title: "Dashboard", icon: LayoutDashboard, path: "/dashboard" },
-    { title: "Projects", icon: Briefcase, path: "/projects" },
-    { title: "Pay Rates", icon: DollarSign, path: "/pay-rates" },
-    { title: "Labourers", icon: Users, path: "/labourers" },
-    { title: "Reports", icon: FileText, path: "/reports" },
-    { title: "Payments", icon: DollarSign, path: "/payments" },
-    { title: "Audit Trail", icon: FileText, path: "/audit" },
-    { title: "Daily Work", icon: FileText, path: "/work-log" },
-    { title: "Users", icon: Users, path: "/users" },
-    { title: "Employee Types", icon: FileText, path: "/employee-types" },
-  ],
-  project_manager: [
-    { title: "Dashboard", icon: LayoutDashboard, path: "/dashboard" },
-    { title: "Projects", icon: Briefcase, path: "/projects" },
-    { title: "Pay Rates", icon: DollarSign, path: "/pay-rates" },
-    { title: "Labourers", icon: Users, path: "/labourers" },
-    { title: "Reports", icon: FileText, path: "/reports" },
-    { title: "Payments", icon: DollarSign, path: "/payments" },
-    { title: "Audit Trail", icon: FileText, path: "/audit" },
-  ],
-  supervisor: [
-    { title: "Dashboard", icon: LayoutDashboard, path: "/dashboard" },
-    { title: "Labourers", icon: Users, path: "/labourers" },
-    { title: "Daily Work", icon: FileText, path: "/work-log" },
-    { title: "Reports", icon: FileText, path: "/reports" },
-    { title: "Payments", icon: DollarSign, path: "/payments" },
-    { title: "Audit Trail", icon: FileText, path: "/audit" },
-  ],
-  project_admin: [
-    { title: "Dashboard", icon: LayoutDashboard, path: "/dashboard" },
-    { title: "Projects", icon: Briefcase, path: "/projects" },
-    { title: "Labourers", icon: Users, path: "/labourers" },
-    { title: "Reports", icon: FileText, path: "/reports" },
-    { title: "Payments", icon: DollarSign, path: "/payments" },
-    { title: "Audit Trail", icon: FileText, path: "/audit" },
-  ],
-  labourer: [
-    { title: "Dashboard", icon: LayoutDashboard, path: "/dashboard" },
-    { title: "Work History", icon: FileText, path: "/work-history" },
-  ],
-};
+interface MenuItem {
+  title: string;
+  icon: LucideIcon;
+  path: string;
+  permission?: Permission; // Shown to everyone when omitted
+}
+
+// Staff navigation; each item is shown when the user's role holds its permission
+const staffMenuItems: MenuItem[] = [
+  { title: "Dashboard", icon: LayoutDashboard, path: "/dashboard" },
+  { title: "Projects", icon: Briefcase, path: "/projects", permission: "project.view" },
+  { title: "Pay Rates", icon: DollarSign, path: "/pay-rates", permission: "pay_rate.manage" },
+  { title: "Labourers", icon: Users, path: "/labourers", permission: "labourer.view" },
+  { title: "Duplicate Labourers", icon: UsersRound, path: "/labourer-duplicates", permission: "labourer.merge" },
+  { title: "Daily Work", icon: FileText, path: "/work-log", permission: "work_log.create" },
+  { title: "Duplicate Work Logs", icon: CopyX, path: "/work-log-duplicates", permission: "work_log.edit" },
+  { title: "Reports", icon: FileText, path: "/reports", permission: "report.view" },
+  { title: "Payments", icon: DollarSign, path: "/payments", permission: "payment_period.view" },
+  { title: "Audit Trail", icon: FileText, path: "/audit" },
+  { title: "Users", icon: Users, path: "/users", permission: "user.manage" },
+  { title: "Employee Types", icon: FileText, path: "/employee-types", permission: "employee_type.manage" },
+  { title: "Roles & Permissions", icon: Settings, path: "/roles", permission: "role.manage" },
+  { title: "Sign-in Access", icon: KeyRound, path: "/access", permission: "access.manage" },
+  { title: "Login Lockouts", icon: Lock, path: "/login-lockouts", permission: "login.unlock" },
+];
+
+const labourerMenuItems: MenuItem[] = [
+  { title: "Dashboard", icon: LayoutDashboard, path: "/dashboard" },
+  { title: "Work History", icon: FileText, path: "/work-history" },
+];
 
 export default function AppSidebar({
   userRole,
@@ -90,7 +67,10 @@ export default function AppSidebar({
   onNavigate,
   onLogout
 }: AppSidebarProps) {
-  const items = menuItems[userRole];
+  const { can } = usePermissions();
+  const items = userRole === "labourer"
+    ? labourerMenuItems
+    : staffMenuItems.filter(item => !item.permission || can(item.permission));
   const initials = userName.split(' ').map(n => n[0]).join('').toUpperCase();
 
   return (
@@ -0,0 +1,144 @@
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+  FormDescription,
+} from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+import { z } from "zod";
+
+const pinField = z.string().regex(/^\d{4,6}$/, "PIN must be 4 to 6 digits");
+
+const pinFormSchema = z.object({
+  currentPin: z.string(),
+  code: z.string(),
+  pin: pinField,
+  confirmPin: z.string(),
+}).refine((data) => data.pin === data.confirmPin, {
+  message: "PINs do not match",
+  path: ["confirmPin"],
+});
+
+type PinFormData = z.infer<typeof pinFormSchema>;
+
+interface LabourerPinDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Changing an existing PIN asks for the current one; without one the code sent to the phone is needed
+  hasPin: boolean;
+}
+
+export default function LabourerPinDialog({ open, onOpenChange, hasPin }: LabourerPinDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<PinFormData>({
+    resolver: zodResolver(pinFormSchema),
+    defaultValues: { currentPin: "", code: "", pin: "", confirmPin: "" },
+  });
+
+  const pinMutation = useMutation({
+    mutationFn: async (data: PinFormData) => {
+      return apiRequest("POST", "/api/labourer/pin", {
+        pin: data.pin,
+        ...(hasPin ? { currentPin: data.currentPin } : { code: data.code }),
+      });
+    },
+    onSuccess: () => {
+      // Pages that were blocked until a PIN was set can load now
+      queryClient.invalidateQueries({ queryKey: ["/api/my-labourer-profile"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/my-work-logs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/my-payments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/my-current-period"] });
+      toast({
+        title: hasPin ? "PIN changed" : "PIN saved",
+        description: "Use your new PIN the next time you sign in",
+      });
+      form.reset();
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save PIN",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const pinInput = (name: keyof PinFormData, label: string, testId: string, description?: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              {...field}
+              type={name === "code" ? "text" : "password"}
+              inputMode="numeric"
+              autoComplete={name === "currentPin" ? "current-password" : name === "code" ? "one-time-code" : "new-password"}
+              maxLength={6}
+              data-testid={testId}
+            />
+          </FormControl>
+          {description && <FormDescription>{description}</FormDescription>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent data-testid="dialog-labourer-pin">
+        <DialogHeader>
+          <DialogTitle>{hasPin ? "Change PIN" : "Set Your PIN"}</DialogTitle>
+          <DialogDescription>
+            {hasPin
+              ? "Enter your current PIN and choose a new one"
+              : "Your PIN was reset. Enter the code sent to your phone and choose a new PIN"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => pinMutation.mutate(data))} className="space-y-4">
+            {hasPin
+              ? pinInput("currentPin", "Current PIN", "input-current-pin")
+              : pinInput("code", "Code from SMS", "input-pin-code")}
+            {pinInput("pin", "New PIN", "input-new-pin", "4 to 6 digits. Avoid repeated digits and sequences like 1234")}
+            {pinInput("confirmPin", "Confirm New PIN", "input-confirm-pin")}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-pin">
+                Cancel
+              </Button>
+              <Button type="submit" disabled={pinMutation.isPending} data-testid="button-save-pin">
+                {pinMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save PIN
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,401 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Loader2, CheckCircle, XCircle, Trash2 } from "lucide-react";
+import { z } from "zod";
+import type { User, PaymentPeriod, PaymentPeriodEntry, PaymentAdjustment, LabourerAdvance } from "@shared/schema";
+
+export const ADJUSTMENT_TYPE_LABELS: Record<PaymentAdjustment["type"], string> = {
+  bonus: "Bonus",
+  advance_repayment: "Advance Repayment",
+  ppe_deduction: "PPE Deduction",
+  equipment_deduction: "Equipment Deduction",
+  other_deduction: "Other Deduction",
+};
+
+const amountSchema = z.string().regex(/^\d+(\.\d{1,2})?$/, "Enter an amount like 150.00");
+
+const adjustmentFormSchema = z.object({
+  type: z.enum(["bonus", "ppe_deduction", "equipment_deduction", "other_deduction"]),
+  amount: amountSchema,
+  reason: z.string().min(1, "Reason is required"),
+});
+
+const advanceFormSchema = z.object({
+  amount: amountSchema,
+  instalmentAmount: amountSchema,
+  reason: z.string().min(1, "Reason is required"),
+});
+
+type AdjustmentFormData = z.infer<typeof adjustmentFormSchema>;
+type AdvanceFormData = z.infer<typeof advanceFormSchema>;
+
+interface PaymentAdjustmentsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  period: PaymentPeriod;
+  entry: PaymentPeriodEntry;
+  user: User;
+}
+
+export default function PaymentAdjustmentsDialog({
+  open,
+  onOpenChange,
+  period,
+  entry,
+  user,
+}: PaymentAdjustmentsDialogProps) {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const canReview = can("adjustment.approve");
+  const canRecordAdvance = can("advance.create");
+  const editable = period.status === "open" || period.status === "rejected";
+
+  const { data: adjustments, isLoading } = useQuery<PaymentAdjustment[]>({
+    queryKey: ["/api/payment-periods", period.id, "adjustments"],
+    enabled: open,
+  });
+
+  const { data: advances } = useQuery<(LabourerAdvance & { recovered: number; outstanding: number })[]>({
+    queryKey: ["/api/labourers", entry.labourerId, "advances"],
+    enabled: open && can("advance.view"),
+  });
+
+  const labourerAdjustments = adjustments?.filter(a => a.labourerId === entry.labourerId) || [];
+
+  const adjustmentForm = useForm<AdjustmentFormData>({
+    resolver: zodResolver(adjustmentFormSchema),
+    defaultValues: { type: "ppe_deduction", amount: "", reason: "" },
+  });
+
+  const advanceForm = useForm<AdvanceFormData>({
+    resolver: zodResolver(advanceFormSchema),
+    defaultValues: { amount: "", instalmentAmount: "", reason: "" },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/payment-periods", period.id, "adjustments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/payment-periods", period.id, "entries"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/payment-periods/all"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update adjustments",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: AdjustmentFormData) => {
+      return apiRequest("POST", `/api/payment-period-entries/${entry.id}/adjustments`, data);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Adjustment added",
+        description: "It will apply to net pay once approved",
+      });
+      adjustmentForm.reset();
+    },
+    onError,
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: "approved" | "rejected" }) => {
+      return apiRequest("PUT", `/api/payment-adjustments/${id}`, { status });
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Success",
+        description: "Adjustment reviewed",
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/payment-adjustments/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Success",
+        description: "Adjustment removed",
+      });
+    },
+    onError,
+  });
+
+  const advanceMutation = useMutation({
+    mutationFn: async (data: AdvanceFormData) => {
+      return apiRequest("POST", `/api/labourers/${entry.labourerId}/advances`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/labourers", entry.labourerId, "advances"] });
+      toast({
+        title: "Advance recorded",
+        description: "Instalments will be deducted from the labourer's next payment periods",
+      });
+      advanceForm.reset();
+    },
+    onError,
+  });
+
+  const gross = parseFloat(entry.totalEarnings);
+  const net = parseFloat(entry.netAmount ?? entry.totalEarnings);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto" data-testid="dialog-payment-adjustments">
+        <DialogHeader>
+          <DialogTitle>Deductions & Adjustments</DialogTitle>
+          <DialogDescription>
+            Gross R {gross.toFixed(2)} + bonuses R {parseFloat(entry.bonusesTotal).toFixed(2)} - deductions R {parseFloat(entry.deductionsTotal).toFixed(2)} = net R {net.toFixed(2)}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : labourerAdjustments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No adjustments for this period</p>
+        ) : (
+          <div className="border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {labourerAdjustments.map(adjustment => (
+                  <TableRow key={adjustment.id} data-testid={`row-adjustment-${adjustment.id}`}>
+                    <TableCell>{ADJUSTMENT_TYPE_LABELS[adjustment.type]}</TableCell>
+                    <TableCell className="max-w-xs truncate">{adjustment.reason}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {adjustment.type === "bonus" ? "+" : "-"}R {parseFloat(adjustment.amount).toFixed(2)}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="capitalize">{adjustment.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {editable && (
+                        <div className="flex justify-end gap-1">
+                          {canReview && adjustment.status === "pending" && adjustment.createdBy !== user.id && (
+                            <>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                onClick={() => reviewMutation.mutate({ id: adjustment.id, status: "approved" })}
+                                disabled={reviewMutation.isPending}
+                                data-testid={`button-approve-adjustment-${adjustment.id}`}
+                              >
+                                <CheckCircle className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                onClick={() => reviewMutation.mutate({ id: adjustment.id, status: "rejected" })}
+                                disabled={reviewMutation.isPending}
+                                data-testid={`button-reject-adjustment-${adjustment.id}`}
+                              >
+                                <XCircle className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => deleteMutation.mutate(adjustment.id)}
+                            disabled={deleteMutation.isPending}
+                            data-testid={`button-delete-adjustment-${adjustment.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {editable && (
+          <Form {...adjustmentForm}>
+            <form onSubmit={adjustmentForm.handleSubmit((data) => createMutation.mutate(data))} className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+              <FormField
+                control={adjustmentForm.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-adjustment-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {adjustmentFormSchema.shape.type.options.map(type => (
+                          <SelectItem key={type} value={type}>
+                            {ADJUSTMENT_TYPE_LABELS[type]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={adjustmentForm.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Amount (R)</FormLabel>
+                    <FormControl>
+                      <Input inputMode="decimal" placeholder="0.00" {...field} data-testid="input-adjustment-amount" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={adjustmentForm.control}
+                name="reason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reason</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Safety boots" {...field} data-testid="input-adjustment-reason" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" disabled={createMutation.isPending} data-testid="button-add-adjustment">
+                {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Add
+              </Button>
+            </form>
+          </Form>
+        )}
+
+        <div className="space-y-3 border-t pt-4">
+          <h3 className="font-semibold">Advances</h3>
+          {advances && advances.length > 0 ? (
+            <div className="space-y-1">
+              {advances.map(advance => (
+                <div key={advance.id} className="flex justify-between text-sm" data-testid={`advance-${advance.id}`}>
+                  <span>{advance.reason} ({advance.status})</span>
+                  <span className="font-mono">
+                    R {advance.recovered.toFixed(2)} of R {parseFloat(advance.amount).toFixed(2)} recovered
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No advances recorded</p>
+          )}
+
+          {canRecordAdvance && (
+            <Form {...advanceForm}>
+              <form onSubmit={advanceForm.handleSubmit((data) => advanceMutation.mutate(data))} className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+                <FormField
+                  control={advanceForm.control}
+                  name="amount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Advance (R)</FormLabel>
+                      <FormControl>
+                        <Input inputMode="decimal" placeholder="0.00" {...field} data-testid="input-advance-amount" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={advanceForm.control}
+                  name="instalmentAmount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Per Period (R)</FormLabel>
+                      <FormControl>
+                        <Input inputMode="decimal" placeholder="0.00" {...field} data-testid="input-advance-instalment" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={advanceForm.control}
+                  name="reason"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Reason</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., Cash advance" {...field} data-testid="input-advance-reason" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" variant="outline" disabled={advanceMutation.isPending} data-testid="button-record-advance">
+                  {advanceMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Record Advance
+                </Button>
+              </form>
+            </Form>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
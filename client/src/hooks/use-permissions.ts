@@ -0,0 +1,15 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Permission } from "@shared/permissions";
+
+/**
+ * Permissions the signed-in staff user's role holds in the role permission matrix
+ */
+export function usePermissions() {
+  const { data: permissions = [], isLoading } = useQuery<Permission[]>({
+    queryKey: ["/api/my-permissions"],
+  });
+
+  const can = (permission: Permission) => permissions.includes(permission);
+
+  return { permissions, can, isLoading };
+}
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  QUEUE_CHANGED_EVENT,
+  getQueuedWorkLogs,
+  syncQueuedWorkLogs,
+  type QueuedWorkLog,
+} from "@/lib/offlineQueue";
+
+/**
+ * The user's work logs waiting in the offline queue; syncs when the device reconnects or the service worker asks
+ */
+export function useWorkLogQueue(userId: string) {
+  const [entries, setEntries] = useState<QueuedWorkLog[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  const refresh = useCallback(() => {
+    getQueuedWorkLogs(userId).then(setEntries).catch(console.error);
+  }, [userId]);
+
+  const sync = useCallback(() => syncQueuedWorkLogs(userId), [userId]);
+
+  useEffect(() => {
+    const onOnline = () => {
+      setIsOnline(true);
+      sync().catch(console.error);
+    };
+    const onOffline = () => setIsOnline(false);
+    const onWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === "sync-work-logs") sync().catch(console.error);
+    };
+
+    window.addEventListener(QUEUE_CHANGED_EVENT, refresh);
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+    navigator.serviceWorker?.addEventListener("message", onWorkerMessage);
+
+    refresh();
+    if (navigator.onLine) sync().catch(console.error);
+
+    return () => {
+      window.removeEventListener(QUEUE_CHANGED_EVENT, refresh);
+      window.removeEventListener("online", onOnline);
+      window.removeEventListener("offline", onOffline);
+      navigator.serviceWorker?.removeEventListener("message", onWorkerMessage);
+    };
+  }, [refresh, sync]);
+
+  return {
+    entries,
+    pending: entries.filter(entry => entry.status === "pending"),
+    needsAttention: entries.filter(entry => entry.status !== "pending"),
+    isOnline,
+    sync,
+  };
+}
@@ -0,0 +1,258 @@
+import type { AdditionalWorkItem, WorkLog } from "@shared/schema";
+
+/**
+ * IndexedDB queue for work logs captured on site. Every capture gets an idempotency key when it is queued,
+ * so the server applies it once however many times the sync is retried.
+ * The queue lives on the device, which supervisors may share; each capture is kept for the user who made it
+ * and only synced, listed or discarded in that user's session.
+ */
+
+const DB_NAME = "empcare-offline";
+const STORE = "work-log-queue";
+const SYNC_TAG = "work-log-queue";
+export const QUEUE_CHANGED_EVENT = "work-log-queue-changed";
+
+export interface WorkLogPayload {
+  projectId: string;
+  labourerId: string;
+  workDate: string;
+  openTrenchingMeters: string;
+  closeTrenchingMeters: string;
+  additionalItems?: AdditionalWorkItem[]; // Missing on captures queued before custom items were on the sheet
+}
+
+// Mirrors WorkLogConflict in server/workLogSyncService.ts
+export interface WorkLogConflict {
+  reason: "edited" | "duplicate";
+  existing: WorkLog;
+}
+
+export interface QueuedWorkLog {
+  key: string;
+  // The user who captured it; captures queued before this was kept have none and are never synced
+  userId?: string;
+  labourerName: string;
+  payload: WorkLogPayload;
+  queuedAt: string;
+  // pending: waiting to sync; conflict and rejected wait for the supervisor to resolve them
+  status: "pending" | "conflict" | "rejected";
+  message?: string;
+  conflict?: WorkLogConflict;
+  // Set when the supervisor chose how to treat another user's log for the same labourer and day
+  onExisting?: "replace" | "add";
+}
+
+export interface SyncResult {
+  synced: number;
+  needsAttention: number;
+  pending: number;
+}
+
+// Mirrors WorkLogBatchRowResult in server/workLogBatchService.ts
+interface BatchRowResult {
+  index: number;
+  status: "created" | "updated" | "replayed" | "valid" | "failed";
+  message?: string;
+  conflict?: WorkLogConflict;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: "key" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> {
+  const database = await openDatabase();
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const transaction = database.transaction(STORE, mode);
+      const request = run(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(request ? request.result : undefined);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    database.close();
+  }
+}
+
+function notifyChanged() {
+  window.dispatchEvent(new Event(QUEUE_CHANGED_EVENT));
+}
+
+/**
+ * The captures the given user has queued on this device, oldest first
+ */
+export async function getQueuedWorkLogs(userId: string): Promise<QueuedWorkLog[]> {
+  const entries = (await withStore<QueuedWorkLog[]>("readonly", store => store.getAll())) ?? [];
+  return entries
+    .filter(entry => entry.userId === userId)
+    .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+}
+
+async function putQueuedWorkLog(entry: QueuedWorkLog): Promise<void> {
+  await withStore("readwrite", store => { store.put(entry); });
+}
+
+export async function removeQueuedWorkLog(key: string): Promise<void> {
+  await withStore("readwrite", store => { store.delete(key); });
+  notifyChanged();
+}
+
+/**
+ * Queue the user's captures and ask the browser to sync them once it has a connection.
+ * A new capture replaces any queued one for the same labourer and day, since the server keeps one log per day.
+ */
+export async function enqueueWorkLogs(userId: string, entries: { labourerName: string; payload: WorkLogPayload }[]): Promise<QueuedWorkLog[]> {
+  const queuedAt = new Date().toISOString();
+  const queued = entries.map(entry => ({ ...entry, key: crypto.randomUUID(), userId, queuedAt, status: "pending" as const }));
+  const superseded = (await getQueuedWorkLogs(userId)).filter(existing =>
+    queued.some(entry =>
+      entry.payload.projectId === existing.payload.projectId &&
+      entry.payload.labourerId === existing.payload.labourerId &&
+      entry.payload.workDate === existing.payload.workDate
+    )
+  );
+  await withStore("readwrite", store => {
+    superseded.forEach(entry => store.delete(entry.key));
+    queued.forEach(entry => store.put(entry));
+  });
+  notifyChanged();
+
+  const registration = await navigator.serviceWorker?.getRegistration().catch(() => undefined);
+  const syncManager = (registration as (ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } }) | undefined)?.sync;
+  await syncManager?.register(SYNC_TAG).catch(() => undefined);
+  return queued;
+}
+
+/**
+ * Retry an entry that needed attention, optionally replacing or adding to the labourer's existing log for the day
+ */
+export async function retryQueuedWorkLog(entry: QueuedWorkLog, onExisting?: "replace" | "add"): Promise<void> {
+  await putQueuedWorkLog({ ...entry, status: "pending", message: undefined, conflict: undefined, onExisting });
+  notifyChanged();
+}
+
+/**
+ * Drop everything the user has queued, when they choose to sign out without syncing
+ */
+export async function discardQueuedWorkLogs(userId: string): Promise<void> {
+  const entries = await getQueuedWorkLogs(userId);
+  await withStore("readwrite", store => { entries.forEach(entry => store.delete(entry.key)); });
+  notifyChanged();
+}
+
+let running: Promise<SyncResult> | null = null;
+
+/**
+ * Send every pending capture of the signed-in user. Stops at the first network failure or expired session
+ * and leaves the rest queued.
+ */
+export function syncQueuedWorkLogs(userId: string): Promise<SyncResult> {
+  if (!running) {
+    running = flush(userId).finally(() => {
+      running = null;
+      notifyChanged();
+    });
+  }
+  return running;
+}
+
+/**
+ * Send one project day as a single batch. Rows the server rejects are set aside for the supervisor and
+ * the rest are sent again, since the batch is all or nothing. keepGoing is false when syncing should stop for now.
+ */
+async function flushBatch(entries: QueuedWorkLog[]): Promise<{ synced: number; keepGoing: boolean }> {
+  let batch = entries;
+  while (batch.length > 0) {
+    const { projectId, workDate } = batch[0].payload;
+
+    let res: Response;
+    try {
+      res = await fetch("/api/work-logs/batch", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          projectId,
+          workDate,
+          rows: batch.map(entry => ({
+            labourerId: entry.payload.labourerId,
+            openTrenchingMeters: entry.payload.openTrenchingMeters,
+            closeTrenchingMeters: entry.payload.closeTrenchingMeters,
+            additionalItems: entry.payload.additionalItems,
+            idempotencyKey: entry.key,
+            // The server judges the work date by the entry window at capture time, so late syncs still go through
+            capturedAt: entry.queuedAt,
+            onExisting: entry.onExisting,
+          })),
+        }),
+        credentials: "include",
+      });
+    } catch {
+      return { synced: 0, keepGoing: false }; // Still offline
+    }
+
+    const body = await res.json().catch(() => ({}));
+    const results: BatchRowResult[] | undefined = body.results;
+
+    if (res.ok) {
+      await withStore("readwrite", store => { batch.forEach(entry => store.delete(entry.key)); });
+      return { synced: batch.length, keepGoing: true };
+    }
+
+    // Signed out, a server fault or a concurrent delivery: keep everything and try again later
+    if (res.status === 401 || res.status >= 500 || (res.status === 409 && !results)) {
+      return { synced: 0, keepGoing: false };
+    }
+
+    // The whole request was refused (e.g. no access to the project); every row needs attention
+    if (!results) {
+      await withStore("readwrite", store => {
+        batch.forEach(entry => store.put({ ...entry, status: "rejected", message: body.message || res.statusText }));
+      });
+      return { synced: 0, keepGoing: true };
+    }
+
+    const failed = results.filter(result => result.status === "failed");
+    await withStore("readwrite", store => {
+      failed.forEach(result => store.put({
+        ...batch[result.index],
+        status: result.conflict ? "conflict" : "rejected",
+        message: result.message,
+        conflict: result.conflict,
+      }));
+    });
+    const failedIndexes = new Set(failed.map(result => result.index));
+    batch = batch.filter((_, index) => !failedIndexes.has(index));
+  }
+  return { synced: 0, keepGoing: true };
+}
+
+async function flush(userId: string): Promise<SyncResult> {
+  const groups = new Map<string, QueuedWorkLog[]>();
+  for (const entry of await getQueuedWorkLogs(userId)) {
+    if (entry.status !== "pending") continue;
+    const groupKey = `${entry.payload.projectId}:${entry.payload.workDate}`;
+    groups.set(groupKey, [...(groups.get(groupKey) ?? []), entry]);
+  }
+
+  let synced = 0;
+  for (const entries of Array.from(groups.values())) {
+    const outcome = await flushBatch(entries);
+    synced += outcome.synced;
+    if (!outcome.keepGoing) break;
+  }
+
+  const remaining = await getQueuedWorkLogs(userId);
+  return {
+    synced,
+    needsAttention: remaining.filter(entry => entry.status !== "pending").length,
+    pending: remaining.filter(entry => entry.status === "pending").length,
+  };
+}
@@ -0,0 +1,466 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Plus, Mail, Ban, RotateCcw, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import type { AllowedDomain, Project, StaffInvitation, User, UserRole } from "@shared/schema";
+
+// Roles a domain or invitation can grant; super admins come from SUPER_ADMIN_EMAILS only
+const grantableRoles: { value: UserRole; label: string }[] = [
+  { value: "admin", label: "Admin" },
+  { value: "project_manager", label: "Project Manager" },
+  { value: "supervisor", label: "Supervisor" },
+  { value: "project_admin", label: "Project Administrator" },
+];
+
+const roleLabel = (role: UserRole) => grantableRoles.find(r => r.value === role)?.label ?? role;
+
+interface AccessPageProps {
+  user: User;
+}
+
+export default function AccessPage({ user }: AccessPageProps) {
+  // Check authorization - only roles with access.manage can access
+  const { can } = usePermissions();
+  if (!can("access.manage")) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Card className="w-full max-w-md">
+          <CardContent className="p-6 text-center">
+            <h2 className="text-xl font-semibold mb-2">Access Denied</h2>
+            <p className="text-muted-foreground">
+              You don't have permission to access this page.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { toast } = useToast();
+  const [domainDialogOpen, setDomainDialogOpen] = useState(false);
+  const [domainForm, setDomainForm] = useState({ domain: "", defaultRole: "supervisor" as UserRole });
+  const [inviteDialogOpen, setInviteDialogOpen] = useState(false);
+  const [inviteForm, setInviteForm] = useState({ email: "", role: "supervisor" as UserRole, projectId: "none" });
+
+  const { data: domains = [], isLoading: domainsLoading } = useQuery<AllowedDomain[]>({
+    queryKey: ["/api/allowed-domains"],
+  });
+
+  const { data: invitations = [], isLoading: invitationsLoading } = useQuery<StaffInvitation[]>({
+    queryKey: ["/api/staff-invitations"],
+  });
+
+  const { data: projects = [] } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+  });
+
+  const showError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const addDomainMutation = useMutation({
+    mutationFn: async (data: typeof domainForm) => {
+      return apiRequest("POST", "/api/allowed-domains", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/allowed-domains"] });
+      toast({
+        title: "Domain added",
+        description: "Staff with this email domain can now sign in.",
+      });
+      setDomainDialogOpen(false);
+      setDomainForm({ domain: "", defaultRole: "supervisor" });
+    },
+    onError: showError("Failed to add domain"),
+  });
+
+  const updateDomainMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Partial<Pick<AllowedDomain, "defaultRole" | "isActive">> }) => {
+      return apiRequest("PUT", `/api/allowed-domains/${id}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/allowed-domains"] });
+      toast({
+        title: "Domain updated",
+        description: "The sign-in rule has been updated.",
+      });
+    },
+    onError: showError("Failed to update domain"),
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async (data: typeof inviteForm) => {
+      return apiRequest("POST", "/api/staff-invitations", {
+        email: data.email,
+        role: data.role,
+        projectId: data.projectId === "none" ? null : data.projectId,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/staff-invitations"] });
+      toast({
+        title: "Invitation created",
+        description: "The invited user gets this role the first time they sign in.",
+      });
+      setInviteDialogOpen(false);
+      setInviteForm({ email: "", role: "supervisor", projectId: "none" });
+    },
+    onError: showError("Failed to create invitation"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/staff-invitations/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/staff-invitations"] });
+      toast({
+        title: "Invitation revoked",
+        description: "The email can no longer sign in through this invitation.",
+      });
+    },
+    onError: showError("Failed to revoke invitation"),
+  });
+
+  const projectName = (projectId: string | null) =>
+    projectId ? projects.find(p => p.id === projectId)?.name ?? "Unknown project" : "—";
+
+  const invitationStatus = (invitation: StaffInvitation) => {
+    if (invitation.revokedAt) return <Badge variant="secondary">Revoked</Badge>;
+    if (invitation.acceptedAt) return <Badge variant="default">Accepted</Badge>;
+    return <Badge variant="outline">Pending</Badge>;
+  };
+
+  if (domainsLoading || invitationsLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Sign-in Access</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Control which staff emails can sign in and the role new accounts start with
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle>Allowed Domains ({domains.length})</CardTitle>
+              <CardDescription>
+                Anyone with an email on an active domain can sign in. New accounts get the domain's default role.
+              </CardDescription>
+            </div>
+            <Button onClick={() => setDomainDialogOpen(true)} data-testid="button-add-domain">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Domain
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {domains.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Domain</TableHead>
+                  <TableHead>Default Role</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {domains.map((domain) => (
+                  <TableRow key={domain.id} data-testid={`row-domain-${domain.id}`}>
+                    <TableCell className="font-medium font-mono">@{domain.domain}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={domain.defaultRole}
+                        onValueChange={(defaultRole) =>
+                          updateDomainMutation.mutate({ id: domain.id, data: { defaultRole: defaultRole as UserRole } })
+                        }
+                        disabled={updateDomainMutation.isPending}
+                      >
+                        <SelectTrigger className="w-[200px]" data-testid={`select-domain-role-${domain.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {grantableRoles.map((role) => (
+                            <SelectItem key={role.value} value={role.value}>{role.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      {domain.isActive ? (
+                        <Badge variant="default">Active</Badge>
+                      ) : (
+                        <Badge variant="secondary">Inactive</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => updateDomainMutation.mutate({ id: domain.id, data: { isActive: !domain.isActive } })}
+                        disabled={updateDomainMutation.isPending}
+                        data-testid={`button-toggle-domain-${domain.id}`}
+                      >
+                        {domain.isActive ? (
+                          <>
+                            <Ban className="h-4 w-4 mr-2" />
+                            Deactivate
+                          </>
+                        ) : (
+                          <>
+                            <RotateCcw className="h-4 w-4 mr-2" />
+                            Reactivate
+                          </>
+                        )}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="text-center py-12 text-muted-foreground">
+              No domains allowed. Only invited users and configured super admins can sign in.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle>Invitations ({invitations.length})</CardTitle>
+              <CardDescription>
+                Invite individual emails, including those outside the allowed domains, with a role and project.
+              </CardDescription>
+            </div>
+            <Button onClick={() => setInviteDialogOpen(true)} data-testid="button-invite-user">
+              <Mail className="h-4 w-4 mr-2" />
+              Invite User
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {invitations.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Project</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Invited</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invitations.map((invitation) => (
+                  <TableRow key={invitation.id} data-testid={`row-invitation-${invitation.id}`}>
+                    <TableCell className="font-medium">{invitation.email}</TableCell>
+                    <TableCell>{roleLabel(invitation.role)}</TableCell>
+                    <TableCell>{projectName(invitation.projectId)}</TableCell>
+                    <TableCell>{invitationStatus(invitation)}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {invitation.createdAt ? format(new Date(invitation.createdAt), "d MMM yyyy") : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {!invitation.revokedAt && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => revokeMutation.mutate(invitation.id)}
+                          disabled={revokeMutation.isPending}
+                          data-testid={`button-revoke-invitation-${invitation.id}`}
+                        >
+                          <Ban className="h-4 w-4 mr-2" />
+                          Revoke
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="text-center py-12 text-muted-foreground">
+              No invitations yet.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add Domain Dialog */}
+      <Dialog open={domainDialogOpen} onOpenChange={setDomainDialogOpen}>
+        <DialogContent data-testid="dialog-add-domain">
+          <DialogHeader>
+            <DialogTitle>Add Allowed Domain</DialogTitle>
+            <DialogDescription>
+              Everyone with an email address on this domain will be able to sign in.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="domain">Domain</Label>
+              <Input
+                id="domain"
+                placeholder="subcontractor.co.za"
+                value={domainForm.domain}
+                onChange={(e) => setDomainForm({ ...domainForm, domain: e.target.value })}
+                data-testid="input-domain"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Default Role</Label>
+              <Select
+                value={domainForm.defaultRole}
+                onValueChange={(defaultRole) => setDomainForm({ ...domainForm, defaultRole: defaultRole as UserRole })}
+              >
+                <SelectTrigger data-testid="select-domain-default-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {grantableRoles.map((role) => (
+                    <SelectItem key={role.value} value={role.value}>{role.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDomainDialogOpen(false)} data-testid="button-cancel-domain">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => addDomainMutation.mutate(domainForm)}
+              disabled={addDomainMutation.isPending || !domainForm.domain.trim()}
+              data-testid="button-save-domain"
+            >
+              {addDomainMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Add Domain
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Invite Dialog */}
+      <Dialog open={inviteDialogOpen} onOpenChange={setInviteDialogOpen}>
+        <DialogContent data-testid="dialog-invite-user">
+          <DialogHeader>
+            <DialogTitle>Invite User</DialogTitle>
+            <DialogDescription>
+              The user signs in with their own Google account; the role and project apply on their first sign-in.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="invite-email">Email</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                placeholder="name@company.co.za"
+                value={inviteForm.email}
+                onChange={(e) => setInviteForm({ ...inviteForm, email: e.target.value })}
+                data-testid="input-invite-email"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select
+                value={inviteForm.role}
+                onValueChange={(role) => setInviteForm({ ...inviteForm, role: role as UserRole })}
+              >
+                <SelectTrigger data-testid="select-invite-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {grantableRoles.map((role) => (
+                    <SelectItem key={role.value} value={role.value}>{role.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Project</Label>
+              <Select
+                value={inviteForm.projectId}
+                onValueChange={(projectId) => setInviteForm({ ...inviteForm, projectId })}
+              >
+                <SelectTrigger data-testid="select-invite-project">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No project</SelectItem>
+                  {projects.map((project) => (
+                    <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Project managers are assigned as managers; supervisors and project administrators as supervisors.
+              </p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setInviteDialogOpen(false)} data-testid="button-cancel-invite">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => inviteMutation.mutate(inviteForm)}
+              disabled={inviteMutation.isPending || !inviteForm.email.trim()}
+              data-testid="button-send-invite"
+            >
+              {inviteMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Invite
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -40,6 +40,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Plus, Loader2, CheckCircle, XCircle, FileText, Clock } from "lucide-react";
 import { insertCorrectionRequestSchema } from "@shared/schema";
@@ -67,6 +68,9 @@ const actionColors: Record<string, string> = {
   SUBMIT: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
   APPROVE: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
   REJECT: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  LOGIN_FAILED: "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200",
+  LOCK: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  UNLOCK: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
 };
 
 const statusLabels: Record<string, string> = {
@@ -78,8 +82,9 @@ const statusLabels: Record<string, string> = {
 export default function AuditPage({ user }: AuditPageProps) {
   const { toast } = useToast();
   const canCreate = true; // All authenticated users can create correction requests
-  const canReview = user.role === "super_admin" || user.role === "admin" || user.role === "project_manager";
-  const canViewAudit = user.role === "super_admin" || user.role === "admin";
+  const { can } = usePermissions();
+  const canReview = can("correction.review");
+  const canViewAudit = can("audit.view");
   
   const [activeTab, setActiveTab] = useState<"audit" | "corrections">(canViewAudit ? "audit" : "corrections");
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
@@ -149,6 +154,8 @@ export default function AuditPage({ user }: AuditPageProps) {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/correction-requests"] });
+      // Approved corrections are applied to the target record and audited
+      queryClient.invalidateQueries({ queryKey: ["/api/audit-logs"] });
       toast({
         title: "Success",
         description: "Correction request reviewed successfully",
@@ -289,7 +296,7 @@ export default function AuditPage({ user }: AuditPageProps) {
                       </TableCell>
                       <TableCell>
                         <div>
-                          <div className="font-medium">{log.userName || 'Unknown'}</div>
+                          <div className="font-medium">{log.userId ? log.userName || 'Unknown' : 'Anonymous'}</div>
                           <div className="text-sm text-muted-foreground">{log.userEmail}</div>
                         </div>
                       </TableCell>
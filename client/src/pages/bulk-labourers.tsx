@@ -19,6 +19,7 @@ interface LabourerRow {
   firstName: string;
   surname: string;
   idNumber: string;
+  idIssuingCountry: string;
   dateOfBirth: string;
   contactNumber: string;
   employeeTypeId: string;
@@ -55,6 +56,7 @@ export default function BulkLabourers({ user }: BulkLabourersProps) {
         firstName: "",
         surname: "",
         idNumber: "",
+        idIssuingCountry: "",
         dateOfBirth: "",
         contactNumber: "",
         employeeTypeId: "",
@@ -111,6 +113,7 @@ export default function BulkLabourers({ user }: BulkLabourersProps) {
           accountNumber: parts[10] || "",
           accountType: parts[11] || "savings",
           branchCode: parts[12] || "",
+          idIssuingCountry: parts[13] || "",
         });
       }
     });
@@ -243,7 +246,7 @@ export default function BulkLabourers({ user }: BulkLabourersProps) {
           <CardHeader>
             <CardTitle>CSV Import</CardTitle>
             <CardDescription>
-              Paste CSV data with columns: First Name, Surname, ID Number, Date of Birth (YYYY-MM-DD), Contact Number, Employee Type ID, Email, Gender, Address, Bank Name, Account Number, Account Type, Branch Code
+              Paste CSV data with columns: First Name, Surname, ID Number, Date of Birth (YYYY-MM-DD), Contact Number, Employee Type ID, Email, Gender, Address, Bank Name, Account Number, Account Type, Branch Code, Issuing Country (passports only)
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -315,6 +318,16 @@ export default function BulkLabourers({ user }: BulkLabourersProps) {
                         data-testid={`input-idNumber-${index}`}
                       />
                     </div>
+                    <div>
+                      <Label>Issuing Country</Label>
+                      <Input
+                        value={labourer.idIssuingCountry}
+                        onChange={(e) => updateRow(index, "idIssuingCountry", e.target.value)}
+                        placeholder="Passports only, e.g. ZWE"
+                        maxLength={3}
+                        data-testid={`input-idIssuingCountry-${index}`}
+                      />
+                    </div>
                     <div>
                       <Label>Date of Birth *</Label>
                       <Input
@@ -1,42 +1,41 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQueries, useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Loader2 } from "lucide-react";
-import type { User, Project, PaymentPeriod, Labourer, WorkLog } from "@shared/schema";
+import { usePermissions } from "@/hooks/use-permissions";
+import type { User, Project, PaymentPeriod, Labourer } from "@shared/schema";
 
 interface DashboardProps {
   user: User;
 }
 
 export default function Dashboard({ user }: DashboardProps) {
-  // Fetch user-specific data based on role - ALL HOOKS AT TOP LEVEL
+  // The dashboard follows the permission matrix: approvers get the payments overview, project viewers their
+  // projects and site staff their project's labourers. Labourer accounts use the labourer dashboard instead.
+  const { can, isLoading: permissionsLoading } = usePermissions();
+  const view = can("payment_period.approve") ? "overview"
+    : can("project.view") ? "projects"
+    : can("labourer.view") ? "site"
+    : null;
+
   const { data: projects, isLoading: projectsLoading } = useQuery<Project[]>({
     queryKey: ["/api/projects"],
-    enabled: ["super_admin", "admin", "project_manager", "supervisor", "project_admin"].includes(user.role),
+    enabled: view !== null,
   });
 
-  const { data: paymentPeriods, isLoading: periodsLoading } = useQuery<PaymentPeriod[]>({
-    queryKey: ["/api/payment-periods"],
-    enabled: ["super_admin", "admin", "project_manager", "supervisor", "project_admin"].includes(user.role),
+  const periodQueries = useQueries({
+    queries: (can("payment_period.view") ? projects ?? [] : []).map(project => ({
+      queryKey: [`/api/projects/${project.id}/payment-periods`],
+    })),
   });
+  const paymentPeriods = periodQueries.flatMap(query => (query.data as PaymentPeriod[] | undefined) ?? []);
 
   const projectId = projects?.[0]?.id;
   const { data: labourers, isLoading: labourersLoading } = useQuery<Labourer[]>({
-    queryKey: projectId ? [`/api/projects/${projectId}/labourers`] : [],
-    enabled: user.role === "supervisor" && !!projectId,
-  });
-
-  // Labourer-specific queries - hoisted to top level
-  const { data: labourerProfile } = useQuery<Labourer>({
-    queryKey: [`/api/users/${user.id}/labourer-profile`],
-    enabled: user.role === "labourer",
+    queryKey: [`/api/projects/${projectId}/labourers`],
+    enabled: view === "site" && !!projectId,
   });
 
-  const { data: workLogs } = useQuery<WorkLog[]>({
-    queryKey: labourerProfile ? [`/api/labourers/${labourerProfile.id}/work-logs`] : [],
-    enabled: user.role === "labourer" && !!labourerProfile,
-  });
-
-  const isLoading = projectsLoading || periodsLoading || labourersLoading;
+  const isLoading = permissionsLoading || projectsLoading || labourersLoading || periodQueries.some(query => query.isLoading);
 
   if (isLoading) {
     return (
@@ -46,8 +45,7 @@ export default function Dashboard({ user }: DashboardProps) {
     );
   }
 
-  // Super Admin and Admin see Project Manager dashboard
-  if (["super_admin", "admin", "project_manager"].includes(user.role)) {
+  if (view === "overview") {
     return (
       <Card>
         <CardHeader className="space-y-1">
@@ -67,7 +65,7 @@ export default function Dashboard({ user }: DashboardProps) {
             <Card>
               <CardContent className="p-6">
                 <div className="text-2xl font-bold">
-                  {paymentPeriods?.filter((p) => p.status === "submitted").length || 0}
+                  {paymentPeriods.filter((p) => p.status === "submitted").length}
                 </div>
                 <p className="text-xs text-muted-foreground">Pending Approvals</p>
               </CardContent>
@@ -89,7 +87,7 @@ export default function Dashboard({ user }: DashboardProps) {
     );
   }
 
-  if (user.role === "supervisor") {
+  if (view === "site") {
     const project = projects?.[0];
     
     if (!project) {
@@ -110,7 +108,7 @@ export default function Dashboard({ user }: DashboardProps) {
         <div>
           <h1 className="text-2xl font-semibold">{project.name}</h1>
           <p className="text-sm text-muted-foreground mt-1">
-            Supervisor Dashboard - {project.location}
+            Site Dashboard - {project.location}
           </p>
         </div>
 
@@ -124,7 +122,7 @@ export default function Dashboard({ user }: DashboardProps) {
           <Card>
             <CardContent className="p-6">
               <div className="text-2xl font-bold">
-                {paymentPeriods?.filter((p) => p.status === "open").length || 0}
+                {paymentPeriods.filter((p) => p.status === "open").length}
               </div>
               <p className="text-xs text-muted-foreground">Open Payment Periods</p>
             </CardContent>
@@ -165,82 +163,7 @@ export default function Dashboard({ user }: DashboardProps) {
     );
   }
 
-  if (user.role === "labourer") {
-    // Calculate metrics from work logs (queries hoisted to top level)
-    const totalEarnings = workLogs?.reduce((sum, log) => sum + Number(log.totalEarnings || 0), 0) || 0;
-    const daysWorked = workLogs?.length || 0;
-    const totalMeters = workLogs?.reduce((sum, log) => 
-      sum + Number(log.openTrenchingMeters || 0) + Number(log.closeTrenchingMeters || 0), 0
-    ) || 0;
-
-    return (
-      <div className="space-y-6">
-        <div>
-          <h1 className="text-2xl font-semibold">
-            Welcome, {user.firstName} {user.lastName}
-          </h1>
-          <p className="text-sm text-muted-foreground mt-1">Your Work Dashboard</p>
-        </div>
-
-        <div className="grid gap-4 md:grid-cols-3">
-          <Card>
-            <CardContent className="p-6">
-              <div className="text-2xl font-bold">R {totalEarnings.toLocaleString()}</div>
-              <p className="text-xs text-muted-foreground">Total Earnings</p>
-            </CardContent>
-          </Card>
-          <Card>
-            <CardContent className="p-6">
-              <div className="text-2xl font-bold">{daysWorked}</div>
-              <p className="text-xs text-muted-foreground">Days Worked</p>
-            </CardContent>
-          </Card>
-          <Card>
-            <CardContent className="p-6">
-              <div className="text-2xl font-bold">{totalMeters.toFixed(1)} m</div>
-              <p className="text-xs text-muted-foreground">Total Meters</p>
-            </CardContent>
-          </Card>
-        </div>
-
-        <Card>
-          <CardHeader>
-            <h3 className="text-lg font-semibold">Work History</h3>
-          </CardHeader>
-          <CardContent>
-            {workLogs && workLogs.length > 0 ? (
-              <div className="space-y-2">
-                {workLogs.slice(0, 10).map((log) => (
-                  <div
-                    key={log.id}
-                    className="flex items-center justify-between p-3 rounded-md border"
-                  >
-                    <div>
-                      <div className="font-medium">{log.workDate}</div>
-                      <div className="text-sm text-muted-foreground">
-                        Open: {Number(log.openTrenchingMeters || 0).toFixed(1)}m, 
-                        Close: {Number(log.closeTrenchingMeters || 0).toFixed(1)}m
-                      </div>
-                    </div>
-                    <div className="text-right">
-                      <div className="font-medium">R {Number(log.totalEarnings || 0).toLocaleString()}</div>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            ) : (
-              <div className="text-sm text-muted-foreground">
-                No work logs recorded yet
-              </div>
-            )}
-          </CardContent>
-        </Card>
-      </div>
-    );
-  }
-
-  // Project Admin dashboard
-  if (user.role === "project_admin") {
+  if (view === "projects") {
     const activeProjects = projects?.filter((p) => p.status === "active").length || 0;
     const totalBudget = projects?.reduce((sum, p) => sum + (Number(p.budget) || 0), 0) || 0;
 
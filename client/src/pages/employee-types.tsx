@@ -32,6 +32,7 @@ import {
 } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Search, Plus, Edit, Trash2, Loader2 } from "lucide-react";
 import { insertEmployeeTypeSchema } from "@shared/schema";
@@ -45,8 +46,9 @@ interface EmployeeTypesPageProps {
 type EmployeeTypeFormData = z.infer<typeof insertEmployeeTypeSchema>;
 
 export default function EmployeeTypesPage({ user }: EmployeeTypesPageProps) {
-  // Check authorization - only super_admin and admin can access
-  const canManage = user.role === "super_admin" || user.role === "admin";
+  // Check authorization - only roles with employee_type.manage can access
+  const { can } = usePermissions();
+  const canManage = can("employee_type.manage");
 
   if (!canManage) {
     return (
@@ -1,6 +1,8 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import {
   Table,
   TableBody,
@@ -10,7 +12,8 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Loader2, User, Calendar, DollarSign, Briefcase, CheckCircle, Clock, XCircle } from "lucide-react";
+import { Loader2, User, Calendar, DollarSign, Briefcase, CheckCircle, Clock, XCircle, FileText, KeyRound } from "lucide-react";
+import LabourerPinDialog from "@/components/LabourerPinDialog";
 import type { User as UserType, Labourer } from "@shared/schema";
 import { format } from "date-fns";
 
@@ -19,7 +22,9 @@ interface LabourerDashboardProps {
 }
 
 export default function LabourerDashboard({ user }: LabourerDashboardProps) {
-  const { data: profile, isLoading: profileLoading, error: profileError } = useQuery<Labourer>({
+  const [pinDialogOpen, setPinDialogOpen] = useState(false);
+
+  const { data: profile, isLoading: profileLoading, error: profileError } = useQuery<Labourer & { hasPin: boolean }>({
     queryKey: ["/api/my-labourer-profile"],
   });
 
@@ -44,6 +49,27 @@ export default function LabourerDashboard({ user }: LabourerDashboardProps) {
     );
   }
 
+  // The PIN was reset during this session; the server blocks everything else until a new one is chosen
+  if (profileError && (profileError as Error).message.includes("PIN_SETUP_REQUIRED")) {
+    return (
+      <div className="space-y-4">
+        <Card>
+          <CardContent className="p-6 space-y-4">
+            <p className="font-medium">Set your PIN to continue</p>
+            <p className="text-sm text-muted-foreground">
+              Your PIN was reset. Choose a new personal PIN to use when you sign in.
+            </p>
+            <Button onClick={() => setPinDialogOpen(true)} data-testid="button-set-pin">
+              <KeyRound className="h-4 w-4 mr-2" />
+              Set PIN
+            </Button>
+          </CardContent>
+        </Card>
+        <LabourerPinDialog open={pinDialogOpen} onOpenChange={setPinDialogOpen} hasPin={false} />
+      </div>
+    );
+  }
+
   if (profileError) {
     return (
       <div className="space-y-4">
@@ -97,6 +123,16 @@ export default function LabourerDashboard({ user }: LabourerDashboardProps) {
               </CardTitle>
               <CardDescription>ID: {profile.idNumber}</CardDescription>
             </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="ml-auto"
+              onClick={() => setPinDialogOpen(true)}
+              data-testid="button-change-pin"
+            >
+              <KeyRound className="h-4 w-4 mr-2" />
+              Change PIN
+            </Button>
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -275,6 +311,7 @@ export default function LabourerDashboard({ user }: LabourerDashboardProps) {
                       <TableHead className="text-right">Close Meters</TableHead>
                       <TableHead className="text-right">Amount</TableHead>
                       <TableHead>Status</TableHead>
+                      <TableHead />
                     </TableRow>
                   </TableHeader>
                   <TableBody>
@@ -293,7 +330,23 @@ export default function LabourerDashboard({ user }: LabourerDashboardProps) {
                           {Number(payment.entry.closeMeters).toFixed(1)}
                         </TableCell>
                         <TableCell className="text-right font-mono font-semibold text-green-600 dark:text-green-400">
-                          R{Number(payment.entry.amount).toFixed(2)}
+                          R{Number(payment.entry.netAmount ?? payment.entry.totalEarnings).toFixed(2)}
+                          {(payment.adjustments?.length > 0 || Number(payment.entry.uifEmployee) > 0) && (
+                            <div className="text-xs font-normal text-muted-foreground" data-testid={`text-payment-adjustments-${payment.entry.id}`}>
+                              Gross R{Number(payment.entry.totalEarnings).toFixed(2)}
+                              {payment.adjustments?.map((a: any) => (
+                                <div key={a.id}>
+                                  {a.type === "bonus" ? "+" : "-"}R{Number(a.amount).toFixed(2)} {a.reason}
+                                </div>
+                              ))}
+                              {Number(payment.entry.uifEmployee) > 0 && (
+                                <div>-R{Number(payment.entry.uifEmployee).toFixed(2)} UIF</div>
+                              )}
+                              {Number(payment.entry.payeAmount) > 0 && (
+                                <div>-R{Number(payment.entry.payeAmount).toFixed(2)} PAYE</div>
+                              )}
+                            </div>
+                          )}
                         </TableCell>
                         <TableCell>
                           <Badge 
@@ -311,6 +364,20 @@ export default function LabourerDashboard({ user }: LabourerDashboardProps) {
                             {payment.period.status}
                           </Badge>
                         </TableCell>
+                        <TableCell className="text-right">
+                          {(payment.period.status === "approved" || payment.period.status === "paid") && (
+                            <Button size="sm" variant="ghost" asChild>
+                              <a
+                                href={`/api/my-payslips/${payment.entry.id}`}
+                                download
+                                data-testid={`button-payslip-${payment.entry.id}`}
+                              >
+                                <FileText className="h-4 w-4 mr-1" />
+                                Payslip
+                              </a>
+                            </Button>
+                          )}
+                        </TableCell>
                       </TableRow>
                     ))}
                   </TableBody>
@@ -320,6 +387,8 @@ export default function LabourerDashboard({ user }: LabourerDashboardProps) {
           </Card>
         </TabsContent>
       </Tabs>
+
+      <LabourerPinDialog open={pinDialogOpen} onOpenChange={setPinDialogOpen} hasPin={profile.hasPin} />
     </div>
   );
 }
@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Loader2, Merge } from "lucide-react";
+import { format } from "date-fns";
+import type { Labourer, Project, User } from "@shared/schema";
+
+interface LabourerDuplicatesPageProps {
+  user: User;
+}
+
+// Mirrors DuplicateField and LabourerDuplicatePair in server/labourerDuplicateService.ts
+type DuplicateField = "idNumber" | "contactNumber" | "email" | "bankAccount";
+
+interface LabourerDuplicatePair {
+  first: Labourer;
+  second: Labourer;
+  fields: DuplicateField[];
+}
+
+const fieldLabels: Record<DuplicateField, string> = {
+  idNumber: "Same ID number",
+  contactNumber: "Same phone",
+  email: "Same email",
+  bankAccount: "Same bank account",
+};
+
+interface PendingMerge {
+  survivor: Labourer;
+  duplicate: Labourer;
+}
+
+export default function LabourerDuplicatesPage({ user }: LabourerDuplicatesPageProps) {
+  // Check authorization - only roles with labourer.merge can access
+  const { can } = usePermissions();
+  if (!can("labourer.merge")) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Card className="w-full max-w-md">
+          <CardContent className="p-6 text-center">
+            <h2 className="text-xl font-semibold mb-2">Access Denied</h2>
+            <p className="text-muted-foreground">
+              You don't have permission to access this page.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { toast } = useToast();
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
+
+  const { data: pairs = [], isLoading } = useQuery<LabourerDuplicatePair[]>({
+    queryKey: ["/api/labourer-duplicates"],
+  });
+
+  const { data: projects = [] } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ survivor, duplicate }: PendingMerge) => {
+      const res = await apiRequest("POST", "/api/labourer-duplicates/merge", {
+        survivorId: survivor.id,
+        duplicateId: duplicate.id,
+      });
+      return res.json() as Promise<{ workLogs: number; paymentEntries: number }>;
+    },
+    onSuccess: (result, { survivor }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/labourer-duplicates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/labourers"] });
+      toast({
+        title: "Labourers merged",
+        description: `${result.workLogs} work log(s) and ${result.paymentEntries} payment entr${result.paymentEntries === 1 ? "y" : "ies"} moved to ${survivor.firstName} ${survivor.surname}.`,
+      });
+      setPendingMerge(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to merge labourers",
+        variant: "destructive",
+      });
+      setPendingMerge(null);
+    },
+  });
+
+  const projectName = (projectId: string | null) =>
+    projects.find((p) => p.id === projectId)?.name || "Unassigned";
+
+  const renderLabourer = (labourer: Labourer, other: Labourer) => (
+    <div className="flex-1 space-y-1 p-3 border rounded" data-testid={`duplicate-labourer-${labourer.id}`}>
+      <div className="font-medium">
+        {labourer.firstName} {labourer.surname}
+        {!labourer.isActive && <Badge variant="destructive" className="ml-2">Inactive</Badge>}
+      </div>
+      <div className="text-sm text-muted-foreground">ID: {labourer.idNumber}</div>
+      <div className="text-sm text-muted-foreground">Phone: {labourer.contactNumber}</div>
+      {labourer.email && <div className="text-sm text-muted-foreground">Email: {labourer.email}</div>}
+      <div className="text-sm text-muted-foreground">
+        Bank: {labourer.bankName} {labourer.accountNumber} ({labourer.branchCode})
+      </div>
+      <div className="text-sm text-muted-foreground">Project: {projectName(labourer.projectId)}</div>
+      {labourer.createdAt && (
+        <div className="text-sm text-muted-foreground">
+          Onboarded {format(new Date(labourer.createdAt), "d MMM yyyy")}
+        </div>
+      )}
+      <Button
+        variant="outline"
+        size="sm"
+        className="mt-2"
+        onClick={() => setPendingMerge({ survivor: labourer, duplicate: other })}
+        disabled={mergeMutation.isPending}
+        data-testid={`button-keep-${labourer.id}`}
+      >
+        <Merge className="h-4 w-4 mr-2" />
+        Keep this record
+      </Button>
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Duplicate Labourers</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Labourers sharing an ID number, phone number, email or bank account
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Probable Duplicates ({pairs.length})</CardTitle>
+          <CardDescription>
+            Merging keeps the chosen record and moves the other's work logs, payment history and advances onto it.
+            Labourers who legitimately share a phone or bank account can be left as they are.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {pairs.length > 0 ? (
+            <div className="space-y-4">
+              {pairs.map((pair) => (
+                <div
+                  key={`${pair.first.id}-${pair.second.id}`}
+                  className="space-y-2 border-b pb-4 last:border-b-0"
+                  data-testid={`duplicate-pair-${pair.first.id}-${pair.second.id}`}
+                >
+                  <div className="flex flex-wrap gap-2">
+                    {pair.fields.map((field) => (
+                      <Badge key={field} variant={field === "idNumber" ? "destructive" : "secondary"}>
+                        {fieldLabels[field]}
+                      </Badge>
+                    ))}
+                  </div>
+                  <div className="flex flex-col md:flex-row gap-4">
+                    {renderLabourer(pair.first, pair.second)}
+                    {renderLabourer(pair.second, pair.first)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-12 text-muted-foreground">
+              No probable duplicates found.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!pendingMerge} onOpenChange={(open) => !open && setPendingMerge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Merge labourers?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingMerge && (
+                <>
+                  {pendingMerge.duplicate.firstName} {pendingMerge.duplicate.surname} ({pendingMerge.duplicate.idNumber}) will be
+                  deleted and their history moved to {pendingMerge.survivor.firstName} {pendingMerge.survivor.surname} (
+                  {pendingMerge.survivor.idNumber}). This cannot be undone.
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-merge">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingMerge && mergeMutation.mutate(pendingMerge)}
+              data-testid="button-confirm-merge"
+            >
+              Merge
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -5,37 +5,68 @@ import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, User, Lock } from "lucide-react";
+import { Loader2, User, Lock, KeyRound } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 
+type LoginStep = "login" | "forgot" | "reset";
+
+const STEP_DESCRIPTIONS: Record<LoginStep, string> = {
+  "login": "Enter your phone number or email and your PIN",
+  "forgot": "We will send a code to your registered phone number so you can choose a PIN",
+  "reset": "Enter the code we sent you and choose your PIN",
+};
+
 export default function LabourerLogin() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const [step, setStep] = useState<LoginStep>("login");
   const [identifier, setIdentifier] = useState("");
   const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [pin, setPin] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
   const [isLoading, setIsLoading] = useState(false);
 
+  // apiRequest errors read "<status>: <json body>"; show just the server's message
+  const errorMessage = (error: any, fallback: string) => {
+    const match = /^\d+: ([\s\S]*)$/.exec(error?.message || "");
+    try {
+      return match ? JSON.parse(match[1]).message || fallback : error?.message || fallback;
+    } catch {
+      return match?.[1] || fallback;
+    }
+  };
+
+  const pinsMatch = () => {
+    if (pin !== confirmPin) {
+      toast({ title: "PINs do not match", description: "Enter the same PIN twice", variant: "destructive" });
+      return false;
+    }
+    return true;
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
 
     try {
-      const response: any = await apiRequest("POST", "/api/labourer/login", {
+      const response = await apiRequest("POST", "/api/labourer/login", {
         identifier: identifier.trim(),
         password: password.trim(),
       });
+      const result = await response.json();
 
-      if (response.success) {
+      if (result.success) {
         toast({
           title: "Login successful",
-          description: `Welcome back, ${response.labourer.firstName}!`,
+          description: `Welcome back, ${result.labourer.firstName}!`,
         });
         setLocation("/labourer-dashboard");
       }
     } catch (error: any) {
       toast({
         title: "Login failed",
-        description: error.message || "Invalid phone/email or RSA ID/passport number",
+        description: errorMessage(error, "Invalid phone/email or PIN"),
         variant: "destructive",
       });
     } finally {
@@ -43,6 +74,126 @@ export default function LabourerLogin() {
     }
   };
 
+  const handleRequestCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      await apiRequest("POST", "/api/labourer/pin-reset/request", { identifier: identifier.trim() });
+      toast({ title: "Code sent", description: "If your details are registered, you will receive a code shortly." });
+      setCode("");
+      setPin("");
+      setConfirmPin("");
+      setStep("reset");
+    } catch (error: any) {
+      toast({ title: "Could not send code", description: errorMessage(error, "Failed to send reset code"), variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pinsMatch()) return;
+    setIsLoading(true);
+
+    try {
+      await apiRequest("POST", "/api/labourer/pin-reset/confirm", {
+        identifier: identifier.trim(),
+        code: code.trim(),
+        pin,
+      });
+      toast({ title: "PIN saved", description: "Sign in with your new PIN." });
+      setPassword("");
+      setStep("login");
+    } catch (error: any) {
+      toast({ title: "Reset failed", description: errorMessage(error, "Failed to reset PIN"), variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const pinFields = (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="pin">New PIN</Label>
+        <div className="relative">
+          <KeyRound className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+          <Input
+            id="pin"
+            type="password"
+            inputMode="numeric"
+            autoComplete="new-password"
+            placeholder="4 to 6 digits"
+            value={pin}
+            onChange={(e) => setPin(e.target.value.replace(/\D/g, "").slice(0, 6))}
+            required
+            disabled={isLoading}
+            className="pl-10"
+            data-testid="input-new-pin"
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Avoid repeated digits and sequences like 1234. Do not use your ID number.
+        </p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="confirm-pin">Confirm PIN</Label>
+        <div className="relative">
+          <KeyRound className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+          <Input
+            id="confirm-pin"
+            type="password"
+            inputMode="numeric"
+            autoComplete="new-password"
+            value={confirmPin}
+            onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, "").slice(0, 6))}
+            required
+            disabled={isLoading}
+            className="pl-10"
+            data-testid="input-confirm-pin"
+          />
+        </div>
+      </div>
+    </>
+  );
+
+  const submitButton = (label: string, busyLabel: string, testId: string) => (
+    <Button type="submit" className="w-full" disabled={isLoading} data-testid={testId}>
+      {isLoading ? (
+        <>
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          {busyLabel}
+        </>
+      ) : (
+        label
+      )}
+    </Button>
+  );
+
+  const identifierField = (
+    <div className="space-y-2">
+      <Label htmlFor="identifier">Phone Number or Email</Label>
+      <div className="relative">
+        <User className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+        <Input
+          id="identifier"
+          type="text"
+          placeholder="0821234567 or email@example.com"
+          value={identifier}
+          onChange={(e) => setIdentifier(e.target.value)}
+          required
+          disabled={isLoading}
+          className="pl-10"
+          data-testid="input-identifier"
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Use your registered phone number or email address
+      </p>
+    </div>
+  );
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background px-4">
       <Card className="w-full max-w-md">
@@ -52,76 +203,88 @@ export default function LabourerLogin() {
               <User className="h-8 w-8 text-primary" />
             </div>
           </div>
-          <CardTitle className="text-2xl text-center">Labourer Login</CardTitle>
+          <CardTitle className="text-2xl text-center">
+            {step === "login" ? "Labourer Login" : "Set Up or Reset Your PIN"}
+          </CardTitle>
           <CardDescription className="text-center">
-            Enter your phone number or email and RSA ID/passport number
+            {STEP_DESCRIPTIONS[step]}
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="identifier">Phone Number or Email</Label>
-              <div className="relative">
-                <User className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                <Input
-                  id="identifier"
-                  type="text"
-                  placeholder="0821234567 or email@example.com"
-                  value={identifier}
-                  onChange={(e) => setIdentifier(e.target.value)}
-                  required
-                  disabled={isLoading}
-                  className="pl-10"
-                  data-testid="input-identifier"
-                />
+          {step === "login" && (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {identifierField}
+
+              <div className="space-y-2">
+                <Label htmlFor="password">PIN</Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder="Enter your PIN"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    disabled={isLoading}
+                    className="pl-10"
+                    data-testid="input-password"
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  First time signing in? Get a code on your phone to choose a PIN
+                </p>
               </div>
-              <p className="text-xs text-muted-foreground">
-                Use your registered phone number or email address
-              </p>
-            </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="password">RSA ID or Passport Number</Label>
-              <div className="relative">
-                <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+              {submitButton("Sign In", "Signing in...", "button-login")}
+
+              <div className="text-center text-sm text-muted-foreground pt-4">
+                <button
+                  type="button"
+                  className="text-primary hover:underline"
+                  onClick={() => setStep("forgot")}
+                  data-testid="button-forgot-pin"
+                >
+                  Set up or reset PIN
+                </button>
+                <p className="mt-2">Locked out? Contact your supervisor or project manager</p>
+              </div>
+            </form>
+          )}
+
+          {step === "forgot" && (
+            <form onSubmit={handleRequestCode} className="space-y-4">
+              {identifierField}
+              {submitButton("Send Code", "Sending...", "button-send-code")}
+              <Button type="button" variant="ghost" className="w-full" onClick={() => setStep("login")} data-testid="button-back-to-login">
+                Back to login
+              </Button>
+            </form>
+          )}
+
+          {step === "reset" && (
+            <form onSubmit={handleReset} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="code">Code</Label>
                 <Input
-                  id="password"
-                  type="password"
-                  placeholder="Enter your ID or passport number"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
+                  id="code"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder="6-digit code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value.replace(/\D/g, "").slice(0, 6))}
                   required
                   disabled={isLoading}
-                  className="pl-10"
-                  data-testid="input-password"
+                  data-testid="input-reset-code"
                 />
               </div>
-              <p className="text-xs text-muted-foreground">
-                Your RSA ID (13 digits) or passport number
-              </p>
-            </div>
-
-            <Button
-              type="submit"
-              className="w-full"
-              disabled={isLoading}
-              data-testid="button-login"
-            >
-              {isLoading ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Signing in...
-                </>
-              ) : (
-                "Sign In"
-              )}
-            </Button>
-
-            <div className="text-center text-sm text-muted-foreground pt-4">
-              <p>Need help accessing your account?</p>
-              <p className="mt-1">Contact your supervisor or project manager</p>
-            </div>
-          </form>
+              {pinFields}
+              {submitButton("Save PIN", "Saving...", "button-reset-pin")}
+              <Button type="button" variant="ghost" className="w-full" onClick={() => setStep("forgot")} data-testid="button-resend-code">
+                Send a new code
+              </Button>
+            </form>
+          )}
         </CardContent>
       </Card>
     </div>
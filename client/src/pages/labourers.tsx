@@ -37,14 +37,26 @@ import {
 } from "@/components/ui/table";
 import { Textarea } from "@/components/ui/textarea";
 import { FileUpload } from "@/components/file-upload";
+import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { validateSAId, formatDateForInput } from "@/lib/saIdValidation";
-import { insertLabourerSchema, type Labourer, type Project, type EmployeeType, type User } from "@shared/schema";
+import { validateSAId, formatDateForInput, inferIdDocumentType, ID_DOCUMENT_TYPES, ID_DOCUMENT_TYPE_LABELS } from "@shared/identityDocument";
+import { insertLabourerSchema, updateLabourerSchema, type Labourer, type LabourerAssignmentTimelineEntry, type Project, type EmployeeType, type User } from "@shared/schema";
 import { z } from "zod";
-import { UserPlus, Search, Eye, Info, Pencil } from "lucide-react";
+import { UserPlus, Search, Eye, Info, Pencil, KeyRound, Loader2, UserX, UserCheck } from "lucide-react";
 import { format } from "date-fns";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 
 type LabourerFormData = z.infer<typeof insertLabourerSchema>;
 
@@ -88,13 +100,23 @@ export default function LabourersPage() {
   });
 
   // Determine if user can create labourers
-  const canCreate = currentUser?.role && ["super_admin", "admin", "project_manager", "supervisor", "project_admin"].includes(currentUser.role);
+  const { can } = usePermissions();
+  const canCreate = can("labourer.create");
+  const canEdit = can("labourer.edit");
+  const canViewBanking = can("labourer.banking.view");
+  const canResetPin = can("labourer.pin_reset");
 
   // Fetch projects
   const { data: projects } = useQuery<Project[]>({
     queryKey: ["/api/projects"],
   });
 
+  // Project timeline of the labourer open in the view dialog
+  const { data: assignmentTimeline } = useQuery<LabourerAssignmentTimelineEntry[]>({
+    queryKey: ["/api/labourers", selectedLabourer?.id, "assignments"],
+    enabled: viewDialogOpen && !!selectedLabourer,
+  });
+
   // Fetch employee types
   const { data: employeeTypes, isLoading: isLoadingEmployeeTypes } = useQuery<EmployeeType[]>({
     queryKey: ["/api/employee-types"],
@@ -155,6 +177,8 @@ export default function LabourersPage() {
       firstName: "",
       surname: "",
       idNumber: "",
+      idDocumentType: "sa_id",
+      idIssuingCountry: "",
       dateOfBirth: "",
       gender: "",
       contactNumber: "",
@@ -173,10 +197,11 @@ export default function LabourersPage() {
 
   // Watch ID number for auto-population (only for SA IDs, not passports)
   const idNumber = form.watch("idNumber");
+  const idDocumentType = form.watch("idDocumentType");
   const bankName = form.watch("bankName");
 
   useEffect(() => {
-    if (idNumber && idNumber.length >= 6) {
+    if (idDocumentType === "sa_id" && idNumber && idNumber.length >= 6) {
       const idInfo = validateSAId(idNumber);
       
       // Clear previous ID errors
@@ -193,7 +218,7 @@ export default function LabourersPage() {
         form.setError("idNumber", { message: idInfo.error });
       }
     }
-  }, [idNumber, form]);
+  }, [idNumber, idDocumentType, form]);
 
   // Auto-populate branch code when bank is selected
   useEffect(() => {
@@ -205,9 +230,12 @@ export default function LabourersPage() {
     }
   }, [bankName, form]);
 
+  // Onboarding held back because it looks like an existing labourer; staff can confirm and create anyway
+  const [possibleDuplicate, setPossibleDuplicate] = useState<{ data: LabourerFormData; message: string } | null>(null);
+
   const createMutation = useMutation({
-    mutationFn: async (data: LabourerFormData) => {
-      return apiRequest("POST", "/api/labourers", { ...data, createdBy: currentUser?.id });
+    mutationFn: async ({ data, allowDuplicates = false }: { data: LabourerFormData; allowDuplicates?: boolean }) => {
+      return apiRequest("POST", "/api/labourers", { ...data, createdBy: currentUser?.id, allowDuplicates });
     },
     onSuccess: () => {
       toast({
@@ -259,7 +287,23 @@ export default function LabourersPage() {
       };
       fetchAllLabourers();
     },
-    onError: (error: Error) => {
+    onError: (error: Error, { data }) => {
+      // 409 bodies carry the matching labourers; only an ID number match is final
+      const match = /^409: ([\s\S]*)$/.exec(error.message || "");
+      if (match) {
+        try {
+          const body = JSON.parse(match[1]);
+          const sameId = (body.duplicates || []).some((d: { fields: string[] }) => d.fields.includes("idNumber"));
+          if (!sameId) {
+            setPossibleDuplicate({ data, message: body.message });
+            return;
+          }
+          toast({ title: "Already registered", description: body.message, variant: "destructive" });
+          return;
+        } catch {
+          // Fall through to the raw message
+        }
+      }
       toast({
         title: "Error",
         description: error.message || "Failed to onboard labourer",
@@ -269,12 +313,12 @@ export default function LabourersPage() {
   });
 
   const onSubmit = (data: LabourerFormData) => {
-    createMutation.mutate(data);
+    createMutation.mutate({ data });
   };
 
   // Edit form
   const editForm = useForm<LabourerFormData>({
-    resolver: zodResolver(insertLabourerSchema.partial()),
+    resolver: zodResolver(updateLabourerSchema),
     defaultValues: {
       userId: undefined,
       projectId: "",
@@ -282,6 +326,8 @@ export default function LabourersPage() {
       firstName: "",
       surname: "",
       idNumber: "",
+      idDocumentType: "sa_id",
+      idIssuingCountry: "",
       dateOfBirth: "",
       gender: "",
       contactNumber: "",
@@ -299,11 +345,12 @@ export default function LabourersPage() {
 
   // Watch edit form fields for auto-population
   const editIdNumber = editForm.watch("idNumber");
+  const editIdDocumentType = editForm.watch("idDocumentType");
   const editBankName = editForm.watch("bankName");
 
   // Auto-populate DOB and gender from ID number in edit form
   useEffect(() => {
-    if (editIdNumber && editIdNumber.length >= 6) {
+    if (editIdDocumentType === "sa_id" && editIdNumber && editIdNumber.length >= 6) {
       const idInfo = validateSAId(editIdNumber);
       
       editForm.clearErrors("idNumber");
@@ -317,7 +364,7 @@ export default function LabourersPage() {
         editForm.setError("idNumber", { message: idInfo.error });
       }
     }
-  }, [editIdNumber, editForm]);
+  }, [editIdNumber, editIdDocumentType, editForm]);
 
   // Auto-populate branch code in edit form
   useEffect(() => {
@@ -339,6 +386,8 @@ export default function LabourersPage() {
         firstName: selectedLabourer.firstName,
         surname: selectedLabourer.surname,
         idNumber: selectedLabourer.idNumber,
+        idDocumentType: selectedLabourer.idDocumentType || inferIdDocumentType(selectedLabourer.idNumber),
+        idIssuingCountry: selectedLabourer.idIssuingCountry || "",
         dateOfBirth: selectedLabourer.dateOfBirth || "",
         gender: selectedLabourer.gender || "",
         contactNumber: selectedLabourer.contactNumber,
@@ -355,6 +404,56 @@ export default function LabourersPage() {
     }
   }, [selectedLabourer, editDialogOpen, editForm]);
 
+  const resetPinMutation = useMutation({
+    mutationFn: async (labourerId: string) => {
+      const response = await apiRequest("POST", `/api/labourers/${labourerId}/pin-reset`);
+      return response.json() as Promise<{ sentTo: string }>;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "PIN code sent",
+        description: `A code was sent to ${result.sentTo}. The labourer uses it to choose a PIN before signing in.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reset PIN",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The labourer list is held locally, so swap the changed record in rather than refetching every project
+  const replaceLabourer = (labourer: Labourer) => {
+    setAllLabourers((current) => current.map((l) => (l.id === labourer.id ? labourer : l)));
+    setSelectedLabourer(labourer);
+  };
+
+  const setActiveMutation = useMutation({
+    mutationFn: async ({ labourerId, isActive }: { labourerId: string; isActive: boolean }) => {
+      const response = await apiRequest("POST", `/api/labourers/${labourerId}/${isActive ? "reactivate" : "deactivate"}`);
+      const result = await response.json();
+      return (isActive ? { labourer: result } : result) as { labourer: Labourer; sessionsRevoked?: number };
+    },
+    onSuccess: (result) => {
+      replaceLabourer(result.labourer);
+      toast({
+        title: result.labourer.isActive ? "Labourer reactivated" : "Labourer deactivated",
+        description: result.labourer.isActive
+          ? "The labourer can sign in to the portal again."
+          : `The labourer can no longer sign in. ${result.sessionsRevoked ?? 0} session(s) were signed out.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update labourer status",
+        variant: "destructive",
+      });
+    },
+  });
+
   const updateMutation = useMutation({
     mutationFn: async (data: Partial<LabourerFormData>) => {
       if (!selectedLabourer) throw new Error("No labourer selected");
@@ -451,7 +550,7 @@ export default function LabourersPage() {
               <Alert className="bg-blue-50 dark:bg-blue-950 border-blue-200 dark:border-blue-800">
                 <Info className="h-4 w-4 text-blue-600 dark:text-blue-400" />
                 <AlertDescription className="text-sm text-blue-900 dark:text-blue-100">
-                  A login account will be automatically created for this labourer. They can log in using their <strong>contact number or email</strong> as username and <strong>ID number/passport</strong> as password.
+                  The labourer signs in with their <strong>contact number or email</strong> and a PIN. To choose their first PIN they request a code on the login page, or you send one with <strong>Send PIN Code</strong> in their details.
                 </AlertDescription>
               </Alert>
 
@@ -546,17 +645,66 @@ export default function LabourersPage() {
                       )}
                     />
 
+                    {/* Document Type */}
+                    <FormField
+                      control={form.control}
+                      name="idDocumentType"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Document Type *</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value || "sa_id"}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-id-document-type">
+                                <SelectValue placeholder="Select document type" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {ID_DOCUMENT_TYPES.map((type) => (
+                                <SelectItem key={type} value={type}>
+                                  {ID_DOCUMENT_TYPE_LABELS[type]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    {/* Issuing Country (passports only; SA documents are issued by ZAF) */}
+                    {idDocumentType === "passport" && (
+                      <FormField
+                        control={form.control}
+                        name="idIssuingCountry"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Issuing Country *</FormLabel>
+                            <FormControl>
+                              <Input
+                                {...field}
+                                value={field.value || ""}
+                                placeholder="Three-letter code, e.g. ZWE"
+                                maxLength={3}
+                                data-testid="input-id-issuing-country"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
                     {/* ID Number */}
                     <FormField
                       control={form.control}
                       name="idNumber"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>SA ID Number / Passport *</FormLabel>
+                          <FormLabel>ID Number *</FormLabel>
                           <FormControl>
                             <Input
                               {...field}
-                              placeholder="13-digit SA ID or passport"
+                              placeholder="SA ID, passport or permit number"
                               data-testid="input-id-number"
                             />
                           </FormControl>
@@ -912,6 +1060,9 @@ export default function LabourersPage() {
                     <TableRow key={labourer.id} data-testid={`row-labourer-${labourer.id}`}>
                       <TableCell className="font-medium">
                         {labourer.firstName} {labourer.surname}
+                        {!labourer.isActive && (
+                          <Badge variant="destructive" className="ml-2">Inactive</Badge>
+                        )}
                       </TableCell>
                       <TableCell className="text-muted-foreground">{labourer.idNumber}</TableCell>
                       <TableCell>{labourer.contactNumber}</TableCell>
@@ -930,7 +1081,7 @@ export default function LabourersPage() {
                           >
                             <Eye className="h-4 w-4" />
                           </Button>
-                          {canCreate && (
+                          {canEdit && (
                             <Button
                               variant="ghost"
                               size="sm"
@@ -977,8 +1128,13 @@ export default function LabourersPage() {
               
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <p className="text-sm font-medium text-muted-foreground">ID Number</p>
-                  <p className="font-medium">{selectedLabourer.idNumber}</p>
+                  <p className="text-sm font-medium text-muted-foreground">
+                    {ID_DOCUMENT_TYPE_LABELS[selectedLabourer.idDocumentType || inferIdDocumentType(selectedLabourer.idNumber)]}
+                  </p>
+                  <p className="font-medium">
+                    {selectedLabourer.idNumber}
+                    {selectedLabourer.idIssuingCountry && ` (${selectedLabourer.idIssuingCountry})`}
+                  </p>
                 </div>
                 <div>
                   <p className="text-sm font-medium text-muted-foreground">Date of Birth</p>
@@ -1028,6 +1184,30 @@ export default function LabourersPage() {
                 </div>
               </div>
               
+              {/* Project Timeline Section */}
+              <div className="border-t pt-4">
+                <h4 className="font-semibold mb-2">Project Timeline</h4>
+                {assignmentTimeline && assignmentTimeline.length > 0 ? (
+                  <div className="space-y-2">
+                    {assignmentTimeline.map((entry) => (
+                      <div
+                        key={`${entry.projectId}-${entry.effectiveFrom}`}
+                        className="flex items-center justify-between gap-4 p-2 border rounded"
+                        data-testid={`timeline-${entry.projectId}-${entry.effectiveFrom}`}
+                      >
+                        <span className="font-medium">{entry.projectName}</span>
+                        <span className="text-sm text-muted-foreground">
+                          {entry.effectiveFrom ? format(new Date(entry.effectiveFrom), "MMM d, yyyy") : "Unknown"} –{" "}
+                          {entry.effectiveTo ? format(new Date(entry.effectiveTo), "MMM d, yyyy") : "present"}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">Not assigned to any project yet.</p>
+                )}
+              </div>
+
               {/* Documents Section */}
               {(selectedLabourer.idDocumentPath || selectedLabourer.bankingProofPath) && (
                 <div className="border-t pt-4">
@@ -1064,6 +1244,58 @@ export default function LabourersPage() {
                   </div>
                 </div>
               )}
+
+              {/* Login Section */}
+              {canResetPin && (
+                <div className="border-t pt-4 flex items-center justify-between gap-4">
+                  <div>
+                    <h4 className="font-semibold">Login PIN</h4>
+                    <p className="text-sm text-muted-foreground">
+                      {selectedLabourer.lockedUntil && new Date(selectedLabourer.lockedUntil) > new Date()
+                        ? `Locked after failed attempts until ${format(new Date(selectedLabourer.lockedUntil), "HH:mm")}`
+                        : "Clears any PIN and lockout, and texts the labourer a code to choose a PIN. New labourers get their first PIN this way"}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    onClick={() => resetPinMutation.mutate(selectedLabourer.id)}
+                    disabled={resetPinMutation.isPending}
+                    data-testid="button-reset-pin"
+                  >
+                    {resetPinMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <KeyRound className="w-4 h-4 mr-2" />}
+                    Send PIN Code
+                  </Button>
+                </div>
+              )}
+
+              {/* Account Status Section */}
+              {canEdit && (
+                <div className="border-t pt-4 flex items-center justify-between gap-4">
+                  <div>
+                    <h4 className="font-semibold">Account Status</h4>
+                    <p className="text-sm text-muted-foreground">
+                      {selectedLabourer.isActive
+                        ? "Deactivating blocks portal sign-in and signs the labourer out everywhere"
+                        : `Deactivated${selectedLabourer.deactivatedAt ? ` on ${format(new Date(selectedLabourer.deactivatedAt), "d MMM yyyy")}` : ""}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant={selectedLabourer.isActive ? "destructive" : "outline"}
+                    onClick={() => setActiveMutation.mutate({ labourerId: selectedLabourer.id, isActive: !selectedLabourer.isActive })}
+                    disabled={setActiveMutation.isPending}
+                    data-testid={selectedLabourer.isActive ? "button-deactivate-labourer" : "button-reactivate-labourer"}
+                  >
+                    {setActiveMutation.isPending ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : selectedLabourer.isActive ? (
+                      <UserX className="w-4 h-4 mr-2" />
+                    ) : (
+                      <UserCheck className="w-4 h-4 mr-2" />
+                    )}
+                    {selectedLabourer.isActive ? "Deactivate" : "Reactivate"}
+                  </Button>
+                </div>
+              )}
             </div>
           </DialogContent>
         </Dialog>
@@ -1165,17 +1397,66 @@ export default function LabourersPage() {
                     )}
                   />
 
+                  {/* Document Type */}
+                  <FormField
+                    control={editForm.control}
+                    name="idDocumentType"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Document Type *</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value || "sa_id"}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-edit-id-document-type">
+                              <SelectValue placeholder="Select document type" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {ID_DOCUMENT_TYPES.map((type) => (
+                              <SelectItem key={type} value={type}>
+                                {ID_DOCUMENT_TYPE_LABELS[type]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {/* Issuing Country (passports only; SA documents are issued by ZAF) */}
+                  {editIdDocumentType === "passport" && (
+                    <FormField
+                      control={editForm.control}
+                      name="idIssuingCountry"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Issuing Country *</FormLabel>
+                          <FormControl>
+                            <Input
+                              {...field}
+                              value={field.value || ""}
+                              placeholder="Three-letter code, e.g. ZWE"
+                              maxLength={3}
+                              data-testid="input-edit-id-issuing-country"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
                   {/* ID Number */}
                   <FormField
                     control={editForm.control}
                     name="idNumber"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>SA ID Number / Passport *</FormLabel>
+                        <FormLabel>ID Number *</FormLabel>
                         <FormControl>
                           <Input
                             {...field}
-                            placeholder="13-digit SA ID or passport"
+                            placeholder="SA ID, passport or permit number"
                             data-testid="input-edit-id-number"
                           />
                         </FormControl>
@@ -1278,85 +1559,87 @@ export default function LabourersPage() {
                 />
 
                 {/* Banking Details Section */}
-                <div className="border-t pt-4">
-                  <h3 className="font-semibold mb-4">Banking Details</h3>
-                  <div className="grid grid-cols-2 gap-4">
-                    <FormField
-                      control={editForm.control}
-                      name="bankName"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Bank Name *</FormLabel>
-                          <Select onValueChange={field.onChange} value={field.value}>
+                {canViewBanking && (
+                  <div className="border-t pt-4">
+                    <h3 className="font-semibold mb-4">Banking Details</h3>
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={editForm.control}
+                        name="bankName"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Bank Name *</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger data-testid="select-edit-bank-name">
+                                  <SelectValue placeholder="Select a bank" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {SA_BANKS.map((bank) => (
+                                  <SelectItem key={bank.name} value={bank.name}>
+                                    {bank.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={editForm.control}
+                        name="accountType"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Account Type *</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger data-testid="select-edit-account-type">
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="cheque">Cheque</SelectItem>
+                                <SelectItem value="savings">Savings</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={editForm.control}
+                        name="accountNumber"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Account Number *</FormLabel>
                             <FormControl>
-                              <SelectTrigger data-testid="select-edit-bank-name">
-                                <SelectValue placeholder="Select a bank" />
-                              </SelectTrigger>
+                              <Input {...field} placeholder="e.g., 1234567890" data-testid="input-edit-account-number" />
                             </FormControl>
-                            <SelectContent>
-                              {SA_BANKS.map((bank) => (
-                                <SelectItem key={bank.name} value={bank.name}>
-                                  {bank.name}
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
 
-                    <FormField
-                      control={editForm.control}
-                      name="accountType"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Account Type *</FormLabel>
-                          <Select onValueChange={field.onChange} value={field.value}>
+                      <FormField
+                        control={editForm.control}
+                        name="branchCode"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Branch Code * (Auto-filled)</FormLabel>
                             <FormControl>
-                              <SelectTrigger data-testid="select-edit-account-type">
-                                <SelectValue />
-                              </SelectTrigger>
+                              <Input {...field} disabled className="bg-muted" data-testid="input-edit-branch-code" />
                             </FormControl>
-                            <SelectContent>
-                              <SelectItem value="cheque">Cheque</SelectItem>
-                              <SelectItem value="savings">Savings</SelectItem>
-                            </SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-
-                    <FormField
-                      control={editForm.control}
-                      name="accountNumber"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Account Number *</FormLabel>
-                          <FormControl>
-                            <Input {...field} placeholder="e.g., 1234567890" data-testid="input-edit-account-number" />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-
-                    <FormField
-                      control={editForm.control}
-                      name="branchCode"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Branch Code * (Auto-filled)</FormLabel>
-                          <FormControl>
-                            <Input {...field} disabled className="bg-muted" data-testid="input-edit-branch-code" />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
                   </div>
-                </div>
+                )}
 
                 {/* File Uploads Section */}
                 <div className="border-t pt-4">
@@ -1443,6 +1726,31 @@ export default function LabourersPage() {
           </DialogContent>
         </Dialog>
       )}
+
+      <AlertDialog open={!!possibleDuplicate} onOpenChange={(open) => !open && setPossibleDuplicate(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Possible duplicate labourer</AlertDialogTitle>
+            <AlertDialogDescription>
+              {possibleDuplicate?.message}. Check this is a different person before creating a new record.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-duplicate">Go Back</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (possibleDuplicate) {
+                  createMutation.mutate({ data: possibleDuplicate.data, allowDuplicates: true });
+                }
+                setPossibleDuplicate(null);
+              }}
+              data-testid="button-create-anyway"
+            >
+              Create Anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
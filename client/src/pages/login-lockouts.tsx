@@ -0,0 +1,177 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Loader2, Unlock } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import type { User } from "@shared/schema";
+
+interface LoginLockoutsPageProps {
+  user: User;
+}
+
+// Mirrors LockedLogin in server/loginThrottleService.ts
+interface LockedLogin {
+  kind: "identifier" | "ip" | "labourer";
+  id: string;
+  key: string;
+  flow: "staff" | "labourer";
+  failures: number | null;
+  lockedUntil: string;
+  lockedAt: string | null;
+  labourerName?: string;
+}
+
+const kindLabels: Record<LockedLogin["kind"], string> = {
+  identifier: "Phone / email",
+  ip: "IP address",
+  labourer: "Labourer account",
+};
+
+export default function LoginLockoutsPage({ user }: LoginLockoutsPageProps) {
+  // Check authorization - only roles with login.unlock can access
+  const { can } = usePermissions();
+  const canUnlock = can("login.unlock");
+
+  if (!canUnlock) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Card className="w-full max-w-md">
+          <CardContent className="p-6 text-center">
+            <h2 className="text-xl font-semibold mb-2">Access Denied</h2>
+            <p className="text-muted-foreground">
+              You don't have permission to access this page.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { toast } = useToast();
+
+  const { data: lockouts = [], isLoading } = useQuery<LockedLogin[]>({
+    queryKey: ["/api/login-lockouts"],
+    // Lockouts expire by themselves, so keep the list current while the page is open
+    refetchInterval: 60 * 1000,
+  });
+
+  const releaseMutation = useMutation({
+    mutationFn: async (lockout: LockedLogin) => {
+      return apiRequest("POST", `/api/login-lockouts/${lockout.kind}/${lockout.id}/release`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/login-lockouts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/audit-logs"] });
+      toast({
+        title: "Unlocked",
+        description: "The login can be used again straight away.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to release lockout",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Login Lockouts</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Phone numbers, emails, IP addresses and labourer accounts locked after repeated failed sign-ins
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Locked Now ({lockouts.length})</CardTitle>
+          <CardDescription>
+            Lockouts lift by themselves when they expire. Failed attempts are listed in the audit trail.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {lockouts.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Login</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Sign-in</TableHead>
+                  <TableHead>Failed Attempts</TableHead>
+                  <TableHead>Locked Until</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lockouts.map((lockout) => (
+                  <TableRow key={`${lockout.kind}-${lockout.id}`} data-testid={`row-lockout-${lockout.id}`}>
+                    <TableCell className="font-medium">
+                      {lockout.labourerName ? (
+                        <div>
+                          <div>{lockout.labourerName}</div>
+                          <div className="text-sm text-muted-foreground">{lockout.key}</div>
+                        </div>
+                      ) : (
+                        <span className="font-mono">{lockout.key}</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{kindLabels[lockout.kind]}</Badge>
+                    </TableCell>
+                    <TableCell className="capitalize">{lockout.flow}</TableCell>
+                    <TableCell>{lockout.failures ?? "—"}</TableCell>
+                    <TableCell>
+                      <div>{format(new Date(lockout.lockedUntil), "HH:mm, d MMM")}</div>
+                      <div className="text-sm text-muted-foreground">
+                        in {formatDistanceToNow(new Date(lockout.lockedUntil))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => releaseMutation.mutate(lockout)}
+                        disabled={releaseMutation.isPending}
+                        data-testid={`button-unlock-${lockout.id}`}
+                      >
+                        <Unlock className="h-4 w-4 mr-2" />
+                        Unlock
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="text-center py-12 text-muted-foreground">
+              No logins are locked.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -38,6 +38,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Plus, Loader2, DollarSign, History } from "lucide-react";
 import { insertPayRateSchema } from "@shared/schema";
@@ -75,10 +76,8 @@ export default function PayRatesPage({ user }: PayRatesPageProps) {
     rates: PayRate[];
   } | null>(null);
 
-  const canManage = 
-    user.role === "super_admin" || 
-    user.role === "admin" || 
-    user.role === "project_manager";
+  const { can } = usePermissions();
+  const canManage = can("pay_rate.manage");
 
   const form = useForm<PayRateFormData>({
     resolver: zodResolver(insertPayRateSchema),
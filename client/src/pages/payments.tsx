@@ -29,6 +29,7 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import {
   Dialog,
   DialogContent,
@@ -37,14 +38,51 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import PaymentAdjustmentsDialog from "@/components/PaymentAdjustmentsDialog";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { Plus, Loader2, CheckCircle, XCircle, Send, Calendar, DollarSign, Download } from "lucide-react";
+import { Plus, Loader2, CheckCircle, XCircle, Send, Calendar, DollarSign, Download, RotateCcw, Banknote, CalendarPlus, AlertTriangle, RefreshCw, Upload, FileText } from "lucide-react";
 import { insertPaymentPeriodSchema } from "@shared/schema";
-import type { User, Project, PaymentPeriod, PaymentPeriodEntry, Labourer } from "@shared/schema";
+import { getAvailablePaymentPeriodTransitions, type PaymentPeriodStatus } from "@shared/paymentPeriodWorkflow";
+import type { AdditionalWorkItem, User, Project, PaymentPeriod, PaymentPeriodEntry, Labourer, PaymentBatch } from "@shared/schema";
 import type { z } from "zod";
+
+// Mirrors PaymentPeriodRecalculation in server/paymentPeriodService.ts
+interface EntryTotals {
+  daysWorked: number;
+  openMeters: number;
+  closeMeters: number;
+  totalMeters: number;
+  additionalItems: AdditionalWorkItem[];
+  totalEarnings: number;
+}
+
+interface PaymentPeriodRecalculation {
+  periodId: string;
+  previousTotal: number;
+  newTotal: number;
+  totalDelta: number;
+  hasChanges: boolean;
+  deltas: {
+    labourerId: string;
+    change: "added" | "removed" | "changed" | "unchanged";
+    previous: EntryTotals | null;
+    current: EntryTotals | null;
+    earningsDelta: number;
+  }[];
+}
 import { format, parseISO } from "date-fns";
 
+// Mirrors ExcludedPaymentEntry in server/paymentFileExporters.ts
+interface ExcludedPaymentEntry {
+  entryId: string;
+  labourerId: string;
+  labourerName: string;
+  amountCents: number;
+  reason: string;
+}
+
 interface PaymentsPageProps {
   user: User;
 }
@@ -67,6 +105,22 @@ const statusLabels: Record<string, string> = {
   paid: "Paid",
 };
 
+const transitionIcons: Record<PaymentPeriodStatus, typeof Send> = {
+  open: RotateCcw,
+  submitted: Send,
+  approved: CheckCircle,
+  rejected: XCircle,
+  paid: Banknote,
+};
+
+const transitionTestIds: Record<PaymentPeriodStatus, string> = {
+  open: "reopen",
+  submitted: "submit",
+  approved: "approve",
+  rejected: "reject",
+  paid: "mark-paid",
+};
+
 export default function PaymentsPage({ user }: PaymentsPageProps) {
   const { toast } = useToast();
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
@@ -74,10 +128,19 @@ export default function PaymentsPage({ user }: PaymentsPageProps) {
   const [selectedPeriod, setSelectedPeriod] = useState<PaymentPeriod | null>(null);
   const [selectedProjectId, setSelectedProjectId] = useState<string>("all");
   const [selectedStatus, setSelectedStatus] = useState<string>("all");
+  const [recalculation, setRecalculation] = useState<PaymentPeriodRecalculation | null>(null);
+  const [paymentFileFormat, setPaymentFileFormat] = useState<string>("project");
+  // Entries the last downloaded payment file left out
+  const [excludedFromFile, setExcludedFromFile] = useState<ExcludedPaymentEntry[]>([]);
+  const [adjustingEntry, setAdjustingEntry] = useState<PaymentPeriodEntry | null>(null);
 
-  const canCreate = user.role === "super_admin" || user.role === "admin" || user.role === "project_manager";
-  const canApprove = user.role === "super_admin" || user.role === "admin" || user.role === "project_manager";
-  const canSubmit = true; // Any authenticated user can submit
+  const { permissions, can } = usePermissions();
+  const canCreate = can("payment_period.manage");
+  const canReconcile = can("payment_batch.reconcile");
+  const canAdjust = can("adjustment.manage");
+  const canDownload = can("payment_file.download");
+  // Only approved periods produce the file sent to the bank; earlier statuses get an unrecorded draft
+  const isFinalPaymentFile = selectedPeriod?.status === "approved";
 
   const createForm = useForm<PaymentPeriodFormData>({
     resolver: zodResolver(insertPaymentPeriodSchema),
@@ -120,6 +183,104 @@ export default function PaymentsPage({ user }: PaymentsPageProps) {
     enabled: !!selectedPeriod && detailsDialogOpen,
   });
 
+  const { data: batches } = useQuery<PaymentBatch[]>({
+    queryKey: ["/api/payment-periods", selectedPeriod?.id, "batches"],
+    enabled: !!selectedPeriod && detailsDialogOpen && canDownload,
+  });
+
+  const reconcileMutation = useMutation({
+    mutationFn: async ({ batchId, file }: { batchId: string; file: File }) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      const res = await fetch(`/api/payment-batches/${batchId}/reconcile`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to reconcile payment batch");
+      }
+      return res.json() as Promise<{
+        paid: number;
+        failed: number;
+        mismatched: number;
+        pending: number;
+        unmatchedRows: unknown[];
+        periodMarkedPaid: boolean;
+      }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/payment-periods", selectedPeriod?.id, "batches"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/payment-periods/all"] });
+      const problems = result.failed + result.mismatched + result.unmatchedRows.length;
+      toast({
+        title: result.periodMarkedPaid ? "Payment period paid" : "Bank response imported",
+        description: `${result.paid} paid, ${result.failed} failed, ${result.mismatched} amount mismatches, ${result.pending} still pending, ${result.unmatchedRows.length} unmatched rows`,
+        variant: problems > 0 ? "destructive" : "default",
+      });
+      if (result.periodMarkedPaid) {
+        setDetailsDialogOpen(false);
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reconcile payment batch",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const voidBatchMutation = useMutation({
+    mutationFn: async ({ batchId, reason }: { batchId: string; reason: string }) => {
+      return apiRequest("POST", `/api/payment-batches/${batchId}/void`, { reason });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/payment-periods", selectedPeriod?.id, "batches"] });
+      toast({ title: "Payment batch voided", description: "A new payment file can now be generated for this period." });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to void payment batch",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { data: paymentFileFormats } = useQuery<{ format: string; label: string; extension: string }[]>({
+    queryKey: ["/api/payment-file-formats"],
+  });
+
+  // Work days in the selected project that no payment period covers
+  const { data: coverage } = useQuery<{ uncoveredDates: { workDate: string; logCount: number; totalEarnings: number }[] }>({
+    queryKey: ["/api/projects", selectedProjectId, "payment-periods", "coverage"],
+    enabled: selectedProjectId !== "all",
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: async (projectId: string) => {
+      const res = await apiRequest("POST", `/api/projects/${projectId}/payment-periods/generate`);
+      return res.json() as Promise<{ created: PaymentPeriod[]; skipped: { startDate: string; endDate: string }[] }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/payment-periods/all"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", selectedProjectId, "payment-periods", "coverage"] });
+      toast({
+        title: "Success",
+        description: `Generated ${result.created.length} payment period(s)${result.skipped.length ? `, skipped ${result.skipped.length} overlapping` : ""}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to generate payment periods",
+        variant: "destructive",
+      });
+    },
+  });
+
   const createMutation = useMutation({
     mutationFn: async (data: PaymentPeriodFormData) => {
       // Backend will auto-calculate totalAmount from work logs
@@ -127,6 +288,7 @@ export default function PaymentsPage({ user }: PaymentsPageProps) {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/payment-periods/all"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", selectedProjectId, "payment-periods", "coverage"] });
       toast({
         title: "Success",
         description: "Payment period created successfully",
@@ -144,18 +306,9 @@ export default function PaymentsPage({ user }: PaymentsPageProps) {
   });
 
   const updateStatusMutation = useMutation({
-    mutationFn: async ({ id, status, userId }: { id: string; status: string; userId: string }) => {
-      const updateData: any = { status };
-      
-      if (status === "submitted") {
-        updateData.submittedBy = userId;
-        updateData.submittedAt = new Date().toISOString();
-      } else if (status === "approved") {
-        updateData.approvedBy = userId;
-        updateData.approvedAt = new Date().toISOString();
-      }
-      
-      return apiRequest("PUT", `/api/payment-periods/${id}`, updateData);
+    mutationFn: async ({ id, status }: { id: string; status: PaymentPeriodStatus }) => {
+      // Server validates the transition and stamps the acting user/timestamp
+      return apiRequest("PUT", `/api/payment-periods/${id}`, { status });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/payment-periods/all"] });
@@ -174,6 +327,46 @@ export default function PaymentsPage({ user }: PaymentsPageProps) {
     },
   });
 
+  const previewRecalculationMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("GET", `/api/payment-periods/${id}/recalculate`);
+      return res.json() as Promise<PaymentPeriodRecalculation>;
+    },
+    onSuccess: (result) => {
+      setRecalculation(result);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to preview recalculation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const recalculateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("POST", `/api/payment-periods/${id}/recalculate`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/payment-periods/all"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/payment-periods", selectedPeriod?.id, "entries"] });
+      toast({
+        title: "Success",
+        description: "Payment period entries recalculated",
+      });
+      setRecalculation(null);
+      setDetailsDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to recalculate payment period",
+        variant: "destructive",
+      });
+    },
+  });
+
   const filteredPeriods = allPeriods?.filter(period => {
     if (selectedProjectId !== "all" && period.projectId !== selectedProjectId) return false;
     if (selectedStatus !== "all" && period.status !== selectedStatus) return false;
@@ -186,31 +379,12 @@ export default function PaymentsPage({ user }: PaymentsPageProps) {
 
   const handleViewDetails = (period: PaymentPeriod) => {
     setSelectedPeriod(period);
+    setExcludedFromFile([]);
     setDetailsDialogOpen(true);
   };
 
-  const handleSubmit = (period: PaymentPeriod) => {
-    updateStatusMutation.mutate({
-      id: period.id,
-      status: "submitted",
-      userId: user.id,
-    });
-  };
-
-  const handleApprove = (period: PaymentPeriod) => {
-    updateStatusMutation.mutate({
-      id: period.id,
-      status: "approved",
-      userId: user.id,
-    });
-  };
-
-  const handleReject = (period: PaymentPeriod) => {
-    updateStatusMutation.mutate({
-      id: period.id,
-      status: "rejected",
-      userId: user.id,
-    });
+  const handleTransition = (period: PaymentPeriod, status: PaymentPeriodStatus) => {
+    updateStatusMutation.mutate({ id: period.id, status });
   };
 
   return (
@@ -256,8 +430,36 @@ export default function PaymentsPage({ user }: PaymentsPageProps) {
             <SelectItem value="paid">Paid</SelectItem>
           </SelectContent>
         </Select>
+
+        {canCreate && selectedProjectId !== "all" && (
+          <Button
+            variant="outline"
+            onClick={() => generateMutation.mutate(selectedProjectId)}
+            disabled={generateMutation.isPending}
+            data-testid="button-generate-periods"
+          >
+            {generateMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <CalendarPlus className="mr-2 h-4 w-4" />
+            )}
+            Generate Periods
+          </Button>
+        )}
       </div>
 
+      {selectedProjectId !== "all" && coverage && coverage.uncoveredDates.length > 0 && (
+        <Alert variant="destructive" data-testid="alert-uncovered-work">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Work days without a payment period</AlertTitle>
+          <AlertDescription>
+            {coverage.uncoveredDates.length} day(s) of logged work (R {coverage.uncoveredDates.reduce((sum, d) => sum + d.totalEarnings, 0).toFixed(2)}) are not covered by any payment period:{" "}
+            {coverage.uncoveredDates.slice(0, 10).map(d => format(parseISO(d.workDate), "dd MMM yyyy")).join(", ")}
+            {coverage.uncoveredDates.length > 10 && ` and ${coverage.uncoveredDates.length - 10} more`}
+          </AlertDescription>
+        </Alert>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Payment Periods</CardTitle>
@@ -314,42 +516,22 @@ export default function PaymentsPage({ user }: PaymentsPageProps) {
                         >
                           View Details
                         </Button>
-                        {canSubmit && period.status === "open" && (
-                          <Button
-                            variant="default"
-                            size="sm"
-                            onClick={() => handleSubmit(period)}
-                            disabled={updateStatusMutation.isPending}
-                            data-testid={`button-submit-${period.id}`}
-                          >
-                            <Send className="mr-2 h-4 w-4" />
-                            Submit
-                          </Button>
-                        )}
-                        {canApprove && period.status === "submitted" && (
-                          <>
-                            <Button
-                              variant="default"
-                              size="sm"
-                              onClick={() => handleApprove(period)}
-                              disabled={updateStatusMutation.isPending}
-                              data-testid={`button-approve-${period.id}`}
-                            >
-                              <CheckCircle className="mr-2 h-4 w-4" />
-                              Approve
-                            </Button>
+                        {getAvailablePaymentPeriodTransitions(period.status, permissions).map(transition => {
+                          const Icon = transitionIcons[transition.to];
+                          return (
                             <Button
-                              variant="destructive"
+                              key={transition.to}
+                              variant={transition.to === "rejected" ? "destructive" : "default"}
                               size="sm"
-                              onClick={() => handleReject(period)}
+                              onClick={() => handleTransition(period, transition.to)}
                               disabled={updateStatusMutation.isPending}
-                              data-testid={`button-reject-${period.id}`}
+                              data-testid={`button-${transitionTestIds[transition.to]}-${period.id}`}
                             >
-                              <XCircle className="mr-2 h-4 w-4" />
-                              Reject
+                              <Icon className="mr-2 h-4 w-4" />
+                              {transition.label}
                             </Button>
-                          </>
-                        )}
+                          );
+                        })}
                       </div>
                     </TableCell>
                   </TableRow>
@@ -471,7 +653,7 @@ export default function PaymentsPage({ user }: PaymentsPageProps) {
                   <div>
                     <p className="text-sm text-muted-foreground">Total Amount</p>
                     <p className="text-2xl font-bold">
-                      R {entries ? entries.reduce((sum, entry) => sum + parseFloat(entry.totalEarnings), 0).toFixed(2) : "0.00"}
+                      R {entries ? entries.reduce((sum, entry) => sum + parseFloat(entry.netAmount ?? entry.totalEarnings), 0).toFixed(2) : "0.00"}
                     </p>
                   </div>
                 </div>
@@ -488,7 +670,12 @@ export default function PaymentsPage({ user }: PaymentsPageProps) {
                             <TableHead className="text-right">Open (m)</TableHead>
                             <TableHead className="text-right">Close (m)</TableHead>
                             <TableHead className="text-right">Total (m)</TableHead>
-                            <TableHead className="text-right">Earnings</TableHead>
+                            <TableHead>Other Work</TableHead>
+                            <TableHead className="text-right">Gross</TableHead>
+                            <TableHead className="text-right">Adjustments</TableHead>
+                            <TableHead className="text-right">UIF / PAYE</TableHead>
+                            <TableHead className="text-right">Net</TableHead>
+                            {(canAdjust || canDownload) && <TableHead />}
                           </TableRow>
                         </TableHeader>
                         <TableBody>
@@ -499,9 +686,118 @@ export default function PaymentsPage({ user }: PaymentsPageProps) {
                               <TableCell className="text-right font-mono">{parseFloat(entry.openMeters || "0").toFixed(2)}</TableCell>
                               <TableCell className="text-right font-mono">{parseFloat(entry.closeMeters || "0").toFixed(2)}</TableCell>
                               <TableCell className="text-right font-mono">{parseFloat(entry.totalMeters).toFixed(2)}</TableCell>
+                              <TableCell className="text-sm text-muted-foreground" data-testid={`text-entry-items-${entry.id}`}>
+                                {entry.additionalItems?.length
+                                  ? entry.additionalItems.map(item => `${item.categoryName} ${item.quantity}`).join(", ")
+                                  : "-"}
+                              </TableCell>
                               <TableCell className="text-right font-mono">
                                 R {parseFloat(entry.totalEarnings).toFixed(2)}
                               </TableCell>
+                              <TableCell className="text-right font-mono">
+                                {(parseFloat(entry.bonusesTotal) - parseFloat(entry.deductionsTotal)).toFixed(2)}
+                              </TableCell>
+                              <TableCell
+                                className="text-right font-mono"
+                                title={`Employer UIF R ${parseFloat(entry.uifEmployer).toFixed(2)}, SDL R ${parseFloat(entry.sdlAmount).toFixed(2)}`}
+                              >
+                                -{(parseFloat(entry.uifEmployee) + parseFloat(entry.payeAmount)).toFixed(2)}
+                              </TableCell>
+                              <TableCell className="text-right font-mono font-semibold">
+                                R {parseFloat(entry.netAmount ?? entry.totalEarnings).toFixed(2)}
+                              </TableCell>
+                              {(canAdjust || canDownload) && (
+                                <TableCell className="text-right">
+                                  {canAdjust && (
+                                    <Button
+                                      size="sm"
+                                      variant="ghost"
+                                      onClick={() => setAdjustingEntry(entry)}
+                                      data-testid={`button-adjust-entry-${entry.id}`}
+                                    >
+                                      Adjust
+                                    </Button>
+                                  )}
+                                  {canDownload && (
+                                    <Button size="sm" variant="ghost" asChild>
+                                      <a
+                                        href={`/api/payment-period-entries/${entry.id}/payslip`}
+                                        download
+                                        data-testid={`button-payslip-entry-${entry.id}`}
+                                      >
+                                        Payslip
+                                      </a>
+                                    </Button>
+                                  )}
+                                </TableCell>
+                              )}
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </div>
+                )}
+
+                {batches && batches.length > 0 && (
+                  <div>
+                    <h3 className="font-semibold mb-2">Payment Batches</h3>
+                    <div className="border rounded-md">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Generated</TableHead>
+                            <TableHead>File</TableHead>
+                            <TableHead className="text-right">Lines</TableHead>
+                            <TableHead className="text-right">Total</TableHead>
+                            <TableHead>Status</TableHead>
+                            <TableHead className="text-right">Actions</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {batches.map(batch => (
+                            <TableRow key={batch.id} data-testid={`row-batch-${batch.id}`}>
+                              <TableCell>{batch.generatedAt ? format(new Date(batch.generatedAt), "MMM d, yyyy HH:mm") : "-"}</TableCell>
+                              <TableCell className="font-mono text-xs" title={`SHA-256 ${batch.checksum}`}>{batch.filename}</TableCell>
+                              <TableCell className="text-right">{batch.lineCount}</TableCell>
+                              <TableCell className="text-right font-mono">R {parseFloat(batch.totalAmount).toFixed(2)}</TableCell>
+                              <TableCell className="capitalize">{batch.status}</TableCell>
+                              <TableCell className="text-right space-x-3">
+                                {batch.status === "generated" && (
+                                  <button
+                                    type="button"
+                                    className="inline-flex items-center text-sm text-destructive hover:underline"
+                                    onClick={() => {
+                                      const reason = prompt(`Void ${batch.filename}? Only do this if the bank has not received it. Reason:`);
+                                      if (reason?.trim()) voidBatchMutation.mutate({ batchId: batch.id, reason: reason.trim() });
+                                    }}
+                                    disabled={voidBatchMutation.isPending}
+                                    data-testid={`button-void-batch-${batch.id}`}
+                                  >
+                                    <XCircle className="h-4 w-4 mr-1" />
+                                    Void
+                                  </button>
+                                )}
+                                {canReconcile && batch.status !== "reconciled" && batch.status !== "void" && (
+                                  <label>
+                                    <input
+                                      type="file"
+                                      accept=".csv,text/csv"
+                                      className="hidden"
+                                      onChange={(e) => {
+                                        const file = e.target.files?.[0];
+                                        if (file) reconcileMutation.mutate({ batchId: batch.id, file });
+                                        e.target.value = "";
+                                      }}
+                                      data-testid={`input-reconcile-${batch.id}`}
+                                    />
+                                    <span className="inline-flex items-center text-sm text-primary cursor-pointer hover:underline">
+                                      <Upload className="h-4 w-4 mr-1" />
+                                      Import
+                                    </span>
+                                  </label>
+                                )}
+                              </TableCell>
                             </TableRow>
                           ))}
                         </TableBody>
@@ -513,61 +809,221 @@ export default function PaymentsPage({ user }: PaymentsPageProps) {
             )}
           </div>
 
+          {excludedFromFile.length > 0 && (
+            <Alert variant="destructive" data-testid="alert-excluded-from-file">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Left out of the payment file</AlertTitle>
+              <AlertDescription>
+                <ul className="list-disc pl-4">
+                  {excludedFromFile.map(entry => (
+                    <li key={entry.entryId} data-testid={`excluded-entry-${entry.entryId}`}>
+                      {entry.labourerName} (R {(entry.amountCents / 100).toFixed(2)}): {entry.reason}
+                    </li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
           <DialogFooter className="flex-col sm:flex-row gap-2">
-            <Button 
-              variant="default"
-              onClick={async () => {
-                if (!selectedPeriod) return;
-                try {
-                  const response = await fetch(`/api/payment-periods/${selectedPeriod.id}/payment-file`);
-                  if (!response.ok) {
-                    const error = await response.json();
-                    toast({
-                      title: "Error generating payment file",
-                      description: error.message || "Failed to generate payment file",
-                      variant: "destructive",
-                    });
-                    return;
-                  }
-                  // Get filename from Content-Disposition header
-                  const contentDisposition = response.headers.get('Content-Disposition');
-                  const filenameMatch = contentDisposition?.match(/filename="(.+)"/);
-                  const filename = filenameMatch ? filenameMatch[1] : 'payment_file.csv';
-                  
-                  // Download the file
-                  const blob = await response.blob();
-                  const url = window.URL.createObjectURL(blob);
-                  const a = document.createElement('a');
-                  a.href = url;
-                  a.download = filename;
-                  document.body.appendChild(a);
-                  a.click();
-                  window.URL.revokeObjectURL(url);
-                  document.body.removeChild(a);
-                  
-                  toast({
-                    title: "Payment file downloaded",
-                    description: `Successfully generated ${filename}`,
-                  });
-                } catch (error: any) {
-                  toast({
-                    title: "Download failed",
-                    description: error.message || "Failed to download payment file",
-                    variant: "destructive",
-                  });
-                }
-              }}
-              data-testid="button-download-payment-file"
-            >
-              <Download className="h-4 w-4 mr-2" />
-              Download Payment File
-            </Button>
+            {canDownload && (
+              <>
+                <Select value={paymentFileFormat} onValueChange={setPaymentFileFormat}>
+                  <SelectTrigger className="sm:w-56" data-testid="select-payment-file-format">
+                    <SelectValue placeholder="File format" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="project">Project default format</SelectItem>
+                    {paymentFileFormats?.map(f => (
+                      <SelectItem key={f.format} value={f.format}>
+                        {f.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button 
+                  variant="default"
+                  onClick={async () => {
+                    if (!selectedPeriod) return;
+                    try {
+                      // Approved periods generate the file for the bank and record it as a batch; other periods download a draft
+                      const format = paymentFileFormat === "project" ? undefined : paymentFileFormat;
+                      const response = isFinalPaymentFile
+                        ? await fetch(`/api/payment-periods/${selectedPeriod.id}/payment-file`, {
+                            method: "POST",
+                            headers: { "Content-Type": "application/json" },
+                            body: JSON.stringify({ format }),
+                            credentials: "include",
+                          })
+                        : await fetch(`/api/payment-periods/${selectedPeriod.id}/payment-file${format ? `?format=${format}` : ""}`);
+                      if (!response.ok) {
+                        const error = await response.json();
+                        toast({
+                          title: "Error generating payment file",
+                          description: error.message || "Failed to generate payment file",
+                          variant: "destructive",
+                        });
+                        return;
+                      }
+                      // Get filename from Content-Disposition header
+                      const contentDisposition = response.headers.get('Content-Disposition');
+                      const filenameMatch = contentDisposition?.match(/filename="(.+)"/);
+                      const filename = filenameMatch ? filenameMatch[1] : 'payment_file.csv';
+                      const excludedHeader = response.headers.get('X-Payment-File-Excluded');
+                      const excluded: ExcludedPaymentEntry[] = excludedHeader ? JSON.parse(decodeURIComponent(excludedHeader)) : [];
+                      setExcludedFromFile(excluded);
+                      
+                      // Download the file
+                      const blob = await response.blob();
+                      const url = window.URL.createObjectURL(blob);
+                      const a = document.createElement('a');
+                      a.href = url;
+                      a.download = filename;
+                      document.body.appendChild(a);
+                      a.click();
+                      window.URL.revokeObjectURL(url);
+                      document.body.removeChild(a);
+                      
+                      toast({
+                        title: isFinalPaymentFile ? "Payment file generated" : "Draft payment file downloaded",
+                        description: excluded.length > 0
+                          ? `Generated ${filename}; ${excluded.length} labourer(s) were left out and are not paid by this file`
+                          : `Successfully generated ${filename}`,
+                        variant: excluded.length > 0 ? "destructive" : "default",
+                      });
+                      queryClient.invalidateQueries({ queryKey: ["/api/payment-periods", selectedPeriod.id, "batches"] });
+                    } catch (error: any) {
+                      toast({
+                        title: "Download failed",
+                        description: error.message || "Failed to download payment file",
+                        variant: "destructive",
+                      });
+                    }
+                  }}
+                  data-testid="button-download-payment-file"
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  {isFinalPaymentFile ? "Generate Payment File" : "Download Draft File"}
+                </Button>
+              </>
+            )}
+            {can("payslip.bulk_download") && selectedPeriod && (
+              <Button variant="outline" asChild>
+                <a
+                  href={`/api/payment-periods/${selectedPeriod.id}/payslips`}
+                  download
+                  data-testid="button-download-payslips"
+                >
+                  <FileText className="h-4 w-4 mr-2" />
+                  Download Payslips
+                </a>
+              </Button>
+            )}
+            {canCreate && selectedPeriod && (selectedPeriod.status === "open" || selectedPeriod.status === "rejected") && (
+              <Button
+                variant="outline"
+                onClick={() => previewRecalculationMutation.mutate(selectedPeriod.id)}
+                disabled={previewRecalculationMutation.isPending}
+                data-testid="button-recalculate-period"
+              >
+                {previewRecalculationMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                )}
+                Recalculate
+              </Button>
+            )}
             <Button variant="outline" onClick={() => setDetailsDialogOpen(false)}>
               Close
             </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {selectedPeriod && adjustingEntry && (
+        <PaymentAdjustmentsDialog
+          open={!!adjustingEntry}
+          onOpenChange={(open) => !open && setAdjustingEntry(null)}
+          period={selectedPeriod}
+          entry={entries?.find(e => e.id === adjustingEntry.id) ?? adjustingEntry}
+          user={user}
+        />
+      )}
+
+      {/* Recalculation Preview Dialog */}
+      <Dialog open={!!recalculation} onOpenChange={(open) => !open && setRecalculation(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col" data-testid="dialog-recalculate-period">
+          <DialogHeader>
+            <DialogTitle>Recalculate Payment Entries</DialogTitle>
+            <DialogDescription>
+              {recalculation && (
+                <>
+                  Total R {recalculation.previousTotal.toFixed(2)} → R {recalculation.newTotal.toFixed(2)} (
+                  {recalculation.totalDelta >= 0 ? "+" : ""}{recalculation.totalDelta.toFixed(2)})
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex-1 overflow-y-auto">
+            {recalculation && !recalculation.hasChanges ? (
+              <div className="text-center p-8 text-muted-foreground">
+                Entries already match the current work logs
+              </div>
+            ) : (
+              <div className="border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Labourer</TableHead>
+                      <TableHead>Change</TableHead>
+                      <TableHead className="text-right">Days</TableHead>
+                      <TableHead className="text-right">Total (m)</TableHead>
+                      <TableHead className="text-right">Earnings</TableHead>
+                      <TableHead className="text-right">Delta</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {recalculation?.deltas.filter(d => d.change !== "unchanged").map(delta => (
+                      <TableRow key={delta.labourerId} data-testid={`row-recalculation-${delta.labourerId}`}>
+                        <TableCell>{delta.labourerId}</TableCell>
+                        <TableCell className="capitalize">{delta.change}</TableCell>
+                        <TableCell className="text-right">
+                          {delta.previous?.daysWorked ?? 0} → {delta.current?.daysWorked ?? 0}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {(delta.previous?.totalMeters ?? 0).toFixed(2)} → {(delta.current?.totalMeters ?? 0).toFixed(2)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          R {(delta.current?.totalEarnings ?? 0).toFixed(2)}
+                        </TableCell>
+                        <TableCell className={`text-right font-mono ${delta.earningsDelta < 0 ? "text-destructive" : ""}`}>
+                          {delta.earningsDelta >= 0 ? "+" : ""}{delta.earningsDelta.toFixed(2)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRecalculation(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => recalculation && recalculateMutation.mutate(recalculation.periodId)}
+              disabled={!recalculation?.hasChanges || recalculateMutation.isPending}
+              data-testid="button-confirm-recalculate"
+            >
+              {recalculateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Apply Recalculation
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -21,8 +21,10 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
 import { Loader2, ArrowLeft, UserPlus, MapPin, Calendar, DollarSign, TrendingUp, AlertTriangle, FileEdit, ChevronLeft, ChevronRight, MoreHorizontal, Trash2, MoveRight } from "lucide-react";
 import { useState } from "react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -56,6 +58,7 @@ export default function ProjectDetails({ user }: ProjectDetailsProps) {
   const params = useParams();
   const projectId = params.id as string;
   const { toast } = useToast();
+  const { can } = usePermissions();
   const [addLabourerDialogOpen, setAddLabourerDialogOpen] = useState(false);
   const [selectedLabourerIds, setSelectedLabourerIds] = useState<string[]>([]);
   const [correctionDialogOpen, setCorrectionDialogOpen] = useState(false);
@@ -66,6 +69,7 @@ export default function ProjectDetails({ user }: ProjectDetailsProps) {
   const [reassignDialogOpen, setReassignDialogOpen] = useState(false);
   const [labourerToReassign, setLabourerToReassign] = useState<Labourer | null>(null);
   const [targetProjectId, setTargetProjectId] = useState<string>("");
+  const [transferDate, setTransferDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
 
   const { data: project, isLoading: projectLoading } = useQuery<Project>({
     queryKey: [`/api/projects/${projectId}`],
@@ -109,7 +113,7 @@ export default function ProjectDetails({ user }: ProjectDetailsProps) {
   // Remove labourer from project mutation
   const removeLabourerMutation = useMutation({
     mutationFn: async (labourerId: string) => {
-      return apiRequest("PUT", `/api/labourers/${labourerId}`, { projectId: null });
+      return apiRequest("POST", `/api/labourers/${labourerId}/transfer`, { projectId: null });
     },
     onSuccess: () => {
       toast({
@@ -130,8 +134,8 @@ export default function ProjectDetails({ user }: ProjectDetailsProps) {
 
   // Reassign labourer mutation
   const reassignLabourerMutation = useMutation({
-    mutationFn: async ({ labourerId, newProjectId }: { labourerId: string; newProjectId: string }) => {
-      return apiRequest("PUT", `/api/labourers/${labourerId}`, { projectId: newProjectId });
+    mutationFn: async ({ labourerId, newProjectId, effectiveDate }: { labourerId: string; newProjectId: string; effectiveDate: string }) => {
+      return apiRequest("POST", `/api/labourers/${labourerId}/transfer`, { projectId: newProjectId, effectiveDate });
     },
     onSuccess: () => {
       toast({
@@ -143,6 +147,7 @@ export default function ProjectDetails({ user }: ProjectDetailsProps) {
       setReassignDialogOpen(false);
       setLabourerToReassign(null);
       setTargetProjectId("");
+      setTransferDate(format(new Date(), "yyyy-MM-dd"));
     },
     onError: (error: Error) => {
       toast({
@@ -164,7 +169,8 @@ export default function ProjectDetails({ user }: ProjectDetailsProps) {
     }
     reassignLabourerMutation.mutate({ 
       labourerId: labourerToReassign.id, 
-      newProjectId: targetProjectId 
+      newProjectId: targetProjectId,
+      effectiveDate: transferDate,
     });
   };
 
@@ -237,7 +243,7 @@ export default function ProjectDetails({ user }: ProjectDetailsProps) {
     );
   }
 
-  const canManage = user.role === "super_admin" || user.role === "admin" || user.role === "project_manager" || user.role === "project_admin";
+  const canManage = can("labourer.assign");
 
   const totalMetersOpened = workLogs.reduce((sum: number, log: any) => sum + (Number(log.openTrenchingMeters) || 0), 0);
   const totalMetersClosed = workLogs.reduce((sum: number, log: any) => sum + (Number(log.closeTrenchingMeters) || 0), 0);
@@ -950,6 +956,19 @@ export default function ProjectDetails({ user }: ProjectDetailsProps) {
                 </SelectContent>
               </Select>
             </div>
+            <div>
+              <label className="text-sm font-medium mb-2 block">Effective From</label>
+              <Input
+                type="date"
+                value={transferDate}
+                max={format(new Date(), "yyyy-MM-dd")}
+                onChange={(e) => setTransferDate(e.target.value)}
+                data-testid="input-transfer-date"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Work logged from this date counts towards the new project in the labourer's history
+              </p>
+            </div>
           </div>
 
           <DialogFooter>
@@ -30,6 +30,7 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import {
   Dialog,
   DialogContent,
@@ -39,10 +40,13 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { Search, Plus, Edit, Users, Loader2, Eye } from "lucide-react";
+import { Search, Plus, Edit, Users, Loader2, Eye, X } from "lucide-react";
+import { format } from "date-fns";
 import { insertProjectSchema } from "@shared/schema";
-import type { User, Project } from "@shared/schema";
+import type { User, Project, ProjectAssignmentHistoryEntry, ProjectTeamRole } from "@shared/schema";
+import { DEFAULT_PROJECT_TIMEZONE } from "@shared/workDate";
 import type { z } from "zod";
 import {
   Tabs,
@@ -90,9 +94,11 @@ export default function ProjectsPage({ user }: ProjectsPageProps) {
   };
 
   // Separate permissions for different operations
-  const canCreate = user.role === "super_admin" || user.role === "admin" || user.role === "project_manager";
-  const canAssignTeam = user.role === "super_admin" || user.role === "admin";
-  const canEditStatus = user.role === "super_admin" || user.role === "admin" || user.role === "project_manager";
+  const { can } = usePermissions();
+  const canCreate = can("project.create");
+  const canAssignTeam = can("project.assign_manager");
+  const canEditDetails = can("project.edit");
+  const canEditStatus = can("project.edit_status");
 
   const addForm = useForm<ProjectFormData>({
     resolver: zodResolver(insertProjectSchema),
@@ -102,6 +108,7 @@ export default function ProjectsPage({ user }: ProjectsPageProps) {
       budget: "",
       status: "active",
       paymentPeriod: "fortnightly",
+      timezone: DEFAULT_PROJECT_TIMEZONE,
       createdBy: "",
     },
   });
@@ -126,6 +133,11 @@ export default function ProjectsPage({ user }: ProjectsPageProps) {
     enabled: (teamDialogOpen || addDialogOpen) && canAssignTeam,
   });
 
+  const { data: paymentFileFormats } = useQuery<{ format: string; label: string }[]>({
+    queryKey: ["/api/payment-file-formats"],
+    enabled: addDialogOpen || editDialogOpen,
+  });
+
   const { data: projectManagers } = useQuery<User[]>({
     queryKey: ["/api/projects", selectedProject?.id, "managers"],
     enabled: teamDialogOpen && !!selectedProject,
@@ -136,6 +148,33 @@ export default function ProjectsPage({ user }: ProjectsPageProps) {
     enabled: teamDialogOpen && !!selectedProject,
   });
 
+  const { data: teamHistory } = useQuery<ProjectAssignmentHistoryEntry[]>({
+    queryKey: ["/api/projects", selectedProject?.id, "team-history"],
+    enabled: teamDialogOpen && !!selectedProject,
+  });
+
+  const unassignMutation = useMutation({
+    mutationFn: async ({ projectId, userId, relation }: { projectId: string; userId: string; relation: ProjectTeamRole }) => {
+      return apiRequest("DELETE", `/api/projects/${projectId}/${relation}s/${userId}`);
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", variables.projectId, `${variables.relation}s`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", variables.projectId, "team-history"] });
+      toast({
+        title: variables.relation === "manager" ? "Manager removed" : "Supervisor removed",
+        description: "They no longer have access to this project. Their past work stays on record.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove team member",
+        variant: "destructive",
+      });
+    },
+  });
+
   const assignManagerMutation = useMutation({
     mutationFn: async ({ projectId, userId }: { projectId: string; userId: string }) => {
       return apiRequest("POST", `/api/projects/${projectId}/managers`, { userId });
@@ -143,6 +182,7 @@ export default function ProjectsPage({ user }: ProjectsPageProps) {
     onSuccess: (_data, variables) => {
       queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
       queryClient.invalidateQueries({ queryKey: ["/api/projects", variables.projectId, "managers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", variables.projectId, "team-history"] });
       toast({
         title: "Manager assigned",
         description: "The project manager has been assigned successfully.",
@@ -165,6 +205,7 @@ export default function ProjectsPage({ user }: ProjectsPageProps) {
     onSuccess: (_data, variables) => {
       queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
       queryClient.invalidateQueries({ queryKey: ["/api/projects", variables.projectId, "supervisors"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", variables.projectId, "team-history"] });
       toast({
         title: "Supervisor assigned",
         description: "The supervisor has been assigned successfully.",
@@ -257,10 +298,12 @@ export default function ProjectsPage({ user }: ProjectsPageProps) {
       budget: projectData.budget === "" ? undefined : projectData.budget,
     };
     
-    // PMs can only update status, admins can update all fields
-    const updateData = canCreate 
-      ? cleanedData 
-      : { status: cleanedData.status };
+    // Only send the fields the user's role is allowed to change
+    const { status, ...details } = cleanedData;
+    const updateData = {
+      ...(canEditDetails ? details : {}),
+      ...(canEditStatus ? { status } : {}),
+    };
     
     updateMutation.mutate({
       id: selectedProject.id,
@@ -276,6 +319,11 @@ export default function ProjectsPage({ user }: ProjectsPageProps) {
       budget: project.budget ? String(project.budget) : "",
       status: project.status,
       paymentPeriod: project.paymentPeriod || "fortnightly",
+      paymentFileFormat: project.paymentFileFormat,
+      paymentReferenceTemplate: project.paymentReferenceTemplate || "",
+      payeEnabled: project.payeEnabled,
+      timezone: project.timezone,
+      workLogGraceUntil: project.workLogGraceUntil || "",
       createdBy: project.createdBy,
     });
     setEditDialogOpen(true);
@@ -395,7 +443,7 @@ export default function ProjectsPage({ user }: ProjectsPageProps) {
                             <Users className="h-4 w-4" />
                           </Button>
                         )}
-                        {canEditStatus && (
+                        {(canEditDetails || canEditStatus) && (
                           <Button
                             variant="ghost"
                             size="icon"
@@ -518,6 +566,117 @@ export default function ProjectsPage({ user }: ProjectsPageProps) {
                   </FormItem>
                 )}
               />
+              <FormField
+                control={addForm.control}
+                name="paymentFileFormat"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Bank Payment File Format</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value || "generic_csv"}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-payment-file-format">
+                          <SelectValue placeholder="Select file format" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {paymentFileFormats?.map((f) => (
+                          <SelectItem key={f.format} value={f.format}>
+                            {f.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      Default format of the bulk payment file downloaded for this project
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={addForm.control}
+                name="paymentReferenceTemplate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Payment Reference Template</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="mooyawireless"
+                        {...field}
+                        value={field.value || ""}
+                        data-testid="input-payment-reference-template"
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Placeholders: {"{project}"}, {"{periodStart}"}, {"{periodEnd}"}, {"{idSuffix}"}, {"{surname}"}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={addForm.control}
+                name="payeEnabled"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between gap-4 rounded-md border p-3">
+                    <div className="space-y-1">
+                      <FormLabel>Withhold PAYE</FormLabel>
+                      <FormDescription>
+                        UIF and SDL are always calculated; PAYE is deducted from the configured tax tables
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={!!field.value}
+                        onCheckedChange={field.onChange}
+                        data-testid="switch-paye-enabled"
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={addForm.control}
+                name="timezone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Timezone</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder={DEFAULT_PROJECT_TIMEZONE}
+                        {...field}
+                        value={field.value || ""}
+                        data-testid="input-timezone"
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Decides which day counts as today when supervisors capture work
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={addForm.control}
+                name="workLogGraceUntil"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Late Capture Until</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="time"
+                        {...field}
+                        value={field.value || ""}
+                        data-testid="input-work-log-grace-until"
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Yesterday's work can still be captured until this time the next morning. Leave empty to allow today only.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               
               <div className="space-y-4">
                 <div>
@@ -529,7 +688,7 @@ export default function ProjectsPage({ user }: ProjectsPageProps) {
                     <SelectContent>
                       <SelectItem value="none">None (assign later)</SelectItem>
                       {users
-                        ?.filter((u) => u.role === "supervisor")
+                        ?.filter((u) => u.role === "supervisor" && u.isActive)
                         .map((supervisor) => (
                           <SelectItem key={supervisor.id} value={supervisor.id}>
                             {supervisor.firstName} {supervisor.lastName} ({supervisor.email})
@@ -599,12 +758,12 @@ export default function ProjectsPage({ user }: ProjectsPageProps) {
           <DialogHeader>
             <DialogTitle>Edit Project</DialogTitle>
             <DialogDescription>
-              {canCreate ? "Update project details and settings." : "Update project status."}
+              {canEditDetails ? "Update project details and settings." : "Update project status."}
             </DialogDescription>
           </DialogHeader>
           <Form {...editForm}>
             <form onSubmit={editForm.handleSubmit(handleEdit)} className="space-y-4">
-              {canCreate && (
+              {canEditDetails && (
                 <>
                   <FormField
                     control={editForm.control}
@@ -667,6 +826,117 @@ export default function ProjectsPage({ user }: ProjectsPageProps) {
                       </FormItem>
                     )}
                   />
+                  <FormField
+                    control={editForm.control}
+                    name="paymentFileFormat"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Bank Payment File Format</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value || "generic_csv"}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-edit-payment-file-format">
+                              <SelectValue placeholder="Select file format" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {paymentFileFormats?.map((f) => (
+                              <SelectItem key={f.format} value={f.format}>
+                                {f.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>
+                          Default format of the bulk payment file downloaded for this project
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={editForm.control}
+                    name="paymentReferenceTemplate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Payment Reference Template</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="mooyawireless"
+                            {...field}
+                            value={field.value || ""}
+                            data-testid="input-edit-payment-reference-template"
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          Placeholders: {"{project}"}, {"{periodStart}"}, {"{periodEnd}"}, {"{idSuffix}"}, {"{surname}"}
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={editForm.control}
+                    name="payeEnabled"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between gap-4 rounded-md border p-3">
+                        <div className="space-y-1">
+                          <FormLabel>Withhold PAYE</FormLabel>
+                          <FormDescription>
+                            UIF and SDL are always calculated; PAYE is deducted from the configured tax tables
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch
+                            checked={!!field.value}
+                            onCheckedChange={field.onChange}
+                            data-testid="switch-edit-paye-enabled"
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={editForm.control}
+                    name="timezone"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Timezone</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder={DEFAULT_PROJECT_TIMEZONE}
+                            {...field}
+                            value={field.value || ""}
+                            data-testid="input-edit-timezone"
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          Decides which day counts as today when supervisors capture work
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={editForm.control}
+                    name="workLogGraceUntil"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Late Capture Until</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="time"
+                            {...field}
+                            value={field.value || ""}
+                            data-testid="input-edit-work-log-grace-until"
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          Yesterday's work can still be captured until this time the next morning. Leave empty to allow today only.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 </>
               )}
               <FormField
@@ -675,7 +945,7 @@ export default function ProjectsPage({ user }: ProjectsPageProps) {
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Status</FormLabel>
-                    <Select onValueChange={field.onChange} value={field.value}>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={!canEditStatus}>
                       <FormControl>
                         <SelectTrigger data-testid="select-edit-project-status">
                           <SelectValue placeholder="Select status" />
@@ -726,9 +996,10 @@ export default function ProjectsPage({ user }: ProjectsPageProps) {
           
           {canAssignTeam ? (
             <Tabs defaultValue="managers" className="w-full">
-              <TabsList className="grid w-full grid-cols-2">
+              <TabsList className="grid w-full grid-cols-3">
                 <TabsTrigger value="managers">Project Managers</TabsTrigger>
                 <TabsTrigger value="supervisors">Supervisors</TabsTrigger>
+                <TabsTrigger value="history">History</TabsTrigger>
               </TabsList>
               
               <TabsContent value="managers" className="space-y-4 mt-4">
@@ -739,6 +1010,20 @@ export default function ProjectsPage({ user }: ProjectsPageProps) {
                       {projectManagers.map((manager) => (
                         <div key={manager.id} className="flex items-center justify-between p-2 border rounded" data-testid={`assigned-manager-${manager.id}`}>
                           <span className="text-sm">{manager.firstName} {manager.lastName} ({manager.email})</span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => selectedProject && unassignMutation.mutate({
+                              projectId: selectedProject.id,
+                              userId: manager.id,
+                              relation: "manager",
+                            })}
+                            disabled={unassignMutation.isPending}
+                            title="Remove from project"
+                            data-testid={`button-unassign-manager-${manager.id}`}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
                         </div>
                       ))}
                     </div>
@@ -754,7 +1039,7 @@ export default function ProjectsPage({ user }: ProjectsPageProps) {
                       <SelectValue placeholder="Select a manager to assign" />
                     </SelectTrigger>
                     <SelectContent>
-                      {users?.filter(u => u.role === "project_manager").map((u) => (
+                      {users?.filter(u => u.role === "project_manager" && u.isActive).map((u) => (
                         <SelectItem key={u.id} value={u.id}>
                           {u.firstName} {u.lastName} ({u.email})
                         </SelectItem>
@@ -793,6 +1078,20 @@ export default function ProjectsPage({ user }: ProjectsPageProps) {
                       {projectSupervisors.map((supervisor) => (
                         <div key={supervisor.id} className="flex items-center justify-between p-2 border rounded" data-testid={`assigned-supervisor-${supervisor.id}`}>
                           <span className="text-sm">{supervisor.firstName} {supervisor.lastName} ({supervisor.email})</span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => selectedProject && unassignMutation.mutate({
+                              projectId: selectedProject.id,
+                              userId: supervisor.id,
+                              relation: "supervisor",
+                            })}
+                            disabled={unassignMutation.isPending}
+                            title="Remove from project"
+                            data-testid={`button-unassign-supervisor-${supervisor.id}`}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
                         </div>
                       ))}
                     </div>
@@ -808,7 +1107,7 @@ export default function ProjectsPage({ user }: ProjectsPageProps) {
                       <SelectValue placeholder="Select a supervisor to assign" />
                     </SelectTrigger>
                     <SelectContent>
-                      {users?.filter(u => u.role === "supervisor").map((u) => (
+                      {users?.filter(u => u.role === "supervisor" && u.isActive).map((u) => (
                         <SelectItem key={u.id} value={u.id}>
                           {u.firstName} {u.lastName} ({u.email})
                         </SelectItem>
@@ -838,6 +1137,37 @@ export default function ProjectsPage({ user }: ProjectsPageProps) {
                   Select a user with Supervisor role to assign to this project.
                 </p>
               </TabsContent>
+
+              <TabsContent value="history" className="space-y-2 mt-4">
+                {teamHistory && teamHistory.length > 0 ? (
+                  <div className="max-h-80 overflow-y-auto space-y-2">
+                    {teamHistory.map((entry) => (
+                      <div
+                        key={`${entry.relation}-${entry.userId}-${entry.assignedFrom}`}
+                        className="flex items-center justify-between gap-4 p-2 border rounded"
+                        data-testid={`history-${entry.relation}-${entry.userId}`}
+                      >
+                        <div>
+                          <div className="text-sm font-medium">
+                            {entry.user.firstName} {entry.user.lastName}
+                            {!entry.user.isActive && <span className="text-muted-foreground"> (deactivated)</span>}
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {format(new Date(entry.assignedFrom), "d MMM yyyy")} –{" "}
+                            {entry.assignedTo ? format(new Date(entry.assignedTo), "d MMM yyyy") : "present"}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline" className="capitalize">{entry.relation}</Badge>
+                          {!entry.assignedTo && <Badge>Current</Badge>}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="py-6 text-center text-sm text-muted-foreground">No team assignments recorded yet.</p>
+                )}
+              </TabsContent>
             </Tabs>
           ) : (
             <div className="py-6 text-center text-muted-foreground">
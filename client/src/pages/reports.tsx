@@ -8,9 +8,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
 import { Download, FileText, Loader2, TrendingUp } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
-import type { Project, User, Labourer } from "@shared/schema";
+import type { AdditionalWorkItem, Project, User, Labourer } from "@shared/schema";
 
 interface ReportsProps {
   user: User;
@@ -22,7 +23,13 @@ interface PayrollReportEntry {
   idNumber: string;
   totalOpenMeters: number;
   totalCloseMeters: number;
+  additionalItems: AdditionalWorkItem[];
   totalEarnings: number;
+  uifEmployee: number;
+  uifEmployer: number;
+  sdl: number;
+  paye: number;
+  netPay: number;
 }
 
 interface PayrollReport {
@@ -33,8 +40,15 @@ interface PayrollReport {
   paymentPeriod: string;
   openRate: number;
   closeRate: number;
+  itemNames: string[]; // Custom rate items recorded in the range
   entries: PayrollReportEntry[];
   grandTotal: number;
+  statutoryTotals: {
+    uifEmployee: number;
+    uifEmployer: number;
+    sdl: number;
+    paye: number;
+  };
 }
 
 interface WorkerActivityRow {
@@ -47,6 +61,7 @@ interface WorkerActivityRow {
   openMeters: number;
   closeMeters: number;
   totalMeters: number;
+  additionalItems: AdditionalWorkItem[];
   earnings: number;
   daysWorked?: number;
 }
@@ -57,11 +72,13 @@ interface WorkerActivityReport {
   startDate: string;
   endDate: string;
   groupBy: string;
+  itemNames: string[];
   data: WorkerActivityRow[];
   totals: {
     openMeters: number;
     closeMeters: number;
     totalMeters: number;
+    additionalItems: AdditionalWorkItem[];
     earnings: number;
   };
 }
@@ -92,8 +109,12 @@ interface WorkerMatrixReport {
   rows: WorkerMatrixRow[];
 }
 
+const itemQuantity = (items: AdditionalWorkItem[], categoryName: string) =>
+  items.find(item => item.categoryName === categoryName)?.quantity ?? 0;
+
 export default function Reports({ user }: ReportsProps) {
   const { toast } = useToast();
+  const { can } = usePermissions();
   
   // Payroll Report State
   const [selectedProjectId, setSelectedProjectId] = useState<string>("");
@@ -101,6 +122,7 @@ export default function Reports({ user }: ReportsProps) {
   const [endDate, setEndDate] = useState<string>("");
   const [report, setReport] = useState<PayrollReport | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [uifMonth, setUifMonth] = useState<string>("");
 
   // Worker Activity Report State
   const [activityProjectId, setActivityProjectId] = useState<string>("");
@@ -238,15 +260,29 @@ export default function Reports({ user }: ReportsProps) {
   const exportToCSV = () => {
     if (!report) return;
 
-    const headers = ["Worker Name", "ID Number", "Open Trenches (m)", "Close Trenches (m)", "Earnings"];
+    const headers = ["Worker Name", "ID Number", "Open Trenches (m)", "Close Trenches (m)", ...report.itemNames, "Earnings", "UIF", "PAYE", "Net Pay"];
     const rows = report.entries.map(entry => [
       entry.labourerName,
       entry.idNumber,
       entry.totalOpenMeters.toFixed(2),
       entry.totalCloseMeters.toFixed(2),
+      ...report.itemNames.map(name => itemQuantity(entry.additionalItems, name).toString()),
       `R ${entry.totalEarnings.toFixed(2)}`,
+      `R ${entry.uifEmployee.toFixed(2)}`,
+      `R ${entry.paye.toFixed(2)}`,
+      `R ${entry.netPay.toFixed(2)}`,
+    ]);
+    rows.push([
+      "",
+      "",
+      "",
+      "Total",
+      ...report.itemNames.map(name => report.entries.reduce((sum, e) => sum + itemQuantity(e.additionalItems, name), 0).toString()),
+      `R ${report.grandTotal.toFixed(2)}`,
+      `R ${report.statutoryTotals.uifEmployee.toFixed(2)}`,
+      `R ${report.statutoryTotals.paye.toFixed(2)}`,
+      `R ${(report.grandTotal - report.statutoryTotals.uifEmployee - report.statutoryTotals.paye).toFixed(2)}`,
     ]);
-    rows.push(["", "", "", "Total", `R ${report.grandTotal.toFixed(2)}`]);
 
     const csvContent = [
       headers.join(","),
@@ -322,7 +358,7 @@ export default function Reports({ user }: ReportsProps) {
     let rows: string[][];
 
     if (activityGroupBy === 'daily') {
-      headers = ["Date", "Worker Name", "ID Number", "Open Trenches (m)", "Close Trenches (m)", "Total Trenches (m)", "Earnings"];
+      headers = ["Date", "Worker Name", "ID Number", "Open Trenches (m)", "Close Trenches (m)", "Total Trenches (m)", ...activityReport.itemNames, "Earnings"];
       rows = activityReport.data.map(row => [
         row.workDate || "",
         row.labourerName,
@@ -330,10 +366,11 @@ export default function Reports({ user }: ReportsProps) {
         row.openMeters.toFixed(2),
         row.closeMeters.toFixed(2),
         row.totalMeters.toFixed(2),
+        ...activityReport.itemNames.map(name => itemQuantity(row.additionalItems, name).toString()),
         `R ${row.earnings.toFixed(2)}`,
       ]);
     } else if (activityGroupBy === 'weekly') {
-      headers = ["Week Start", "Worker Name", "ID Number", "Days Worked", "Open Trenches (m)", "Close Trenches (m)", "Total Trenches (m)", "Earnings"];
+      headers = ["Week Start", "Worker Name", "ID Number", "Days Worked", "Open Trenches (m)", "Close Trenches (m)", "Total Trenches (m)", ...activityReport.itemNames, "Earnings"];
       rows = activityReport.data.map(row => [
         row.weekStart || "",
         row.labourerName,
@@ -342,10 +379,11 @@ export default function Reports({ user }: ReportsProps) {
         row.openMeters.toFixed(2),
         row.closeMeters.toFixed(2),
         row.totalMeters.toFixed(2),
+        ...activityReport.itemNames.map(name => itemQuantity(row.additionalItems, name).toString()),
         `R ${row.earnings.toFixed(2)}`,
       ]);
     } else {
-      headers = ["Month", "Worker Name", "ID Number", "Days Worked", "Open Trenches (m)", "Close Trenches (m)", "Total Trenches (m)", "Earnings"];
+      headers = ["Month", "Worker Name", "ID Number", "Days Worked", "Open Trenches (m)", "Close Trenches (m)", "Total Trenches (m)", ...activityReport.itemNames, "Earnings"];
       rows = activityReport.data.map(row => [
         row.month || "",
         row.labourerName,
@@ -354,6 +392,7 @@ export default function Reports({ user }: ReportsProps) {
         row.openMeters.toFixed(2),
         row.closeMeters.toFixed(2),
         row.totalMeters.toFixed(2),
+        ...activityReport.itemNames.map(name => itemQuantity(row.additionalItems, name).toString()),
         `R ${row.earnings.toFixed(2)}`,
       ]);
     }
@@ -366,6 +405,7 @@ export default function Reports({ user }: ReportsProps) {
       activityReport.totals.openMeters.toFixed(2),
       activityReport.totals.closeMeters.toFixed(2),
       activityReport.totals.totalMeters.toFixed(2),
+      ...activityReport.itemNames.map(name => itemQuantity(activityReport.totals.additionalItems, name).toString()),
       `R ${activityReport.totals.earnings.toFixed(2)}`,
     ]);
 
@@ -670,13 +710,19 @@ export default function Reports({ user }: ReportsProps) {
                     <TableHead>ID Number</TableHead>
                     <TableHead className="text-right">Open Trenches (m)</TableHead>
                     <TableHead className="text-right">Close Trenches (m)</TableHead>
+                    {report.itemNames.map((name) => (
+                      <TableHead key={name} className="text-right">{name}</TableHead>
+                    ))}
                     <TableHead className="text-right">Earnings</TableHead>
+                    <TableHead className="text-right">UIF</TableHead>
+                    <TableHead className="text-right">PAYE</TableHead>
+                    <TableHead className="text-right">Net Pay</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {!report.entries || report.entries.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      <TableCell colSpan={8 + report.itemNames.length} className="text-center text-muted-foreground">
                         No work logs found for this period
                       </TableCell>
                     </TableRow>
@@ -688,9 +734,15 @@ export default function Reports({ user }: ReportsProps) {
                           <TableCell className="font-mono text-sm">{entry.idNumber}</TableCell>
                           <TableCell className="text-right">{entry.totalOpenMeters.toFixed(2)}</TableCell>
                           <TableCell className="text-right">{entry.totalCloseMeters.toFixed(2)}</TableCell>
+                          {report.itemNames.map((name) => (
+                            <TableCell key={name} className="text-right">{itemQuantity(entry.additionalItems, name)}</TableCell>
+                          ))}
                           <TableCell className="text-right font-semibold">
                             R {entry.totalEarnings.toFixed(2)}
                           </TableCell>
+                          <TableCell className="text-right">R {entry.uifEmployee.toFixed(2)}</TableCell>
+                          <TableCell className="text-right">R {entry.paye.toFixed(2)}</TableCell>
+                          <TableCell className="text-right font-semibold">R {entry.netPay.toFixed(2)}</TableCell>
                         </TableRow>
                       ))}
                       <TableRow className="bg-muted/50 font-bold">
@@ -701,15 +753,68 @@ export default function Reports({ user }: ReportsProps) {
                         <TableCell className="text-right">
                           {(report.entries || []).reduce((sum, e) => sum + e.totalCloseMeters, 0).toFixed(2)}
                         </TableCell>
+                        {report.itemNames.map((name) => (
+                          <TableCell key={name} className="text-right">
+                            {(report.entries || []).reduce((sum, e) => sum + itemQuantity(e.additionalItems, name), 0)}
+                          </TableCell>
+                        ))}
                         <TableCell className="text-right" data-testid="text-grand-total">
                           R {report.grandTotal.toFixed(2)}
                         </TableCell>
+                        <TableCell className="text-right">R {report.statutoryTotals.uifEmployee.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">R {report.statutoryTotals.paye.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">
+                          R {(report.grandTotal - report.statutoryTotals.uifEmployee - report.statutoryTotals.paye).toFixed(2)}
+                        </TableCell>
                       </TableRow>
                     </>
                   )}
                 </TableBody>
               </Table>
             </div>
+            <p className="text-sm text-muted-foreground mt-4" data-testid="text-employer-contributions">
+              Employer contributions: UIF R {report.statutoryTotals.uifEmployer.toFixed(2)} • SDL R {report.statutoryTotals.sdl.toFixed(2)}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {can("report.statutory") && (
+        <Card>
+          <CardHeader>
+            <CardTitle>UIF Declaration</CardTitle>
+            <CardDescription>
+              Monthly uFiling CSV covering approved and paid periods ending in the month, across all projects
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col md:flex-row gap-4 md:items-end">
+            <div className="space-y-2">
+              <Label htmlFor="uifMonth">Month</Label>
+              <Input
+                id="uifMonth"
+                type="month"
+                value={uifMonth}
+                onChange={(e) => setUifMonth(e.target.value)}
+                data-testid="input-uif-month"
+              />
+            </div>
+            {uifMonth ? (
+              <Button variant="outline" asChild>
+                <a
+                  href={`/api/reports/uif-declaration?month=${uifMonth}`}
+                  download
+                  data-testid="button-download-uif-declaration"
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  Download uFiling CSV
+                </a>
+              </Button>
+            ) : (
+              <Button variant="outline" disabled data-testid="button-download-uif-declaration">
+                <Download className="w-4 h-4 mr-2" />
+                Download uFiling CSV
+              </Button>
+            )}
           </CardContent>
         </Card>
       )}
@@ -853,13 +958,16 @@ export default function Reports({ user }: ReportsProps) {
                         <TableHead className="text-right">Open Trenches (m)</TableHead>
                         <TableHead className="text-right">Close Trenches (m)</TableHead>
                         <TableHead className="text-right">Total Trenches (m)</TableHead>
+                        {activityReport.itemNames.map((name) => (
+                          <TableHead key={name} className="text-right">{name}</TableHead>
+                        ))}
                         <TableHead className="text-right">Earnings</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
                       {!activityReport.data || activityReport.data.length === 0 ? (
                         <TableRow>
-                          <TableCell colSpan={activityGroupBy === 'daily' ? 7 : 8} className="text-center text-muted-foreground">
+                          <TableCell colSpan={(activityGroupBy === 'daily' ? 7 : 8) + activityReport.itemNames.length} className="text-center text-muted-foreground">
                             No work activity found for this period
                           </TableCell>
                         </TableRow>
@@ -876,6 +984,9 @@ export default function Reports({ user }: ReportsProps) {
                               <TableCell className="text-right">{row.openMeters.toFixed(2)}</TableCell>
                               <TableCell className="text-right">{row.closeMeters.toFixed(2)}</TableCell>
                               <TableCell className="text-right font-medium">{row.totalMeters.toFixed(2)}</TableCell>
+                              {activityReport.itemNames.map((name) => (
+                                <TableCell key={name} className="text-right">{itemQuantity(row.additionalItems, name)}</TableCell>
+                              ))}
                               <TableCell className="text-right font-semibold">R {row.earnings.toFixed(2)}</TableCell>
                             </TableRow>
                           ))}
@@ -884,6 +995,9 @@ export default function Reports({ user }: ReportsProps) {
                             <TableCell className="text-right">{activityReport.totals.openMeters.toFixed(2)}</TableCell>
                             <TableCell className="text-right">{activityReport.totals.closeMeters.toFixed(2)}</TableCell>
                             <TableCell className="text-right">{activityReport.totals.totalMeters.toFixed(2)}</TableCell>
+                            {activityReport.itemNames.map((name) => (
+                              <TableCell key={name} className="text-right">{itemQuantity(activityReport.totals.additionalItems, name)}</TableCell>
+                            ))}
                             <TableCell className="text-right" data-testid="text-activity-total">
                               R {activityReport.totals.earnings.toFixed(2)}
                             </TableCell>
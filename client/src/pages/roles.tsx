@@ -1,25 +1,52 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Shield, Users, Briefcase, ClipboardList, UserCog, User, Check } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Shield, Users, Briefcase, ClipboardList, UserCog, User, Check, Loader2 } from "lucide-react";
+import {
+  LOCKED_ROLE_PERMISSIONS,
+  type Permission,
+  type PermissionDefinition,
+} from "@shared/permissions";
+import type { User as AppUser, UserRole } from "@shared/schema";
 
-const roles = [
+interface RolesPageProps {
+  user: AppUser;
+}
+
+interface PermissionMatrixResponse {
+  permissions: Record<Permission, PermissionDefinition>;
+  roles: Record<UserRole, Permission[]>;
+}
+
+const roles: {
+  name: string;
+  value: UserRole;
+  icon: typeof Shield;
+  color: string;
+  description: string;
+  notes?: string;
+}[] = [
   {
     name: "Super Admin",
     value: "super_admin",
     icon: Shield,
     color: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
     description: "Full system access with all permissions",
-    permissions: [
-      "Manage all users and assign roles",
-      "Create, edit, and delete projects",
-      "Assign project managers and supervisors",
-      "Manage employee types and pay rates",
-      "Create and edit work logs",
-      "Manage payment periods and approve payments",
-      "Review and approve correction requests",
-      "Access all reports and data"
-    ],
-    notes: "Reserved for kholofelo@mooya.co.za. Highest level of access."
+    notes: "Reserved for the emails configured in SUPER_ADMIN_EMAILS. Highest level of access."
   },
   {
     name: "Admin",
@@ -27,19 +54,6 @@ const roles = [
     icon: Users,
     color: "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200",
     description: "Full operational access to manage the system",
-    permissions: [
-      "Manage users and assign roles (except Super Admin)",
-      "Create, edit, and delete projects",
-      "Assign project managers and supervisors",
-      "Manage employee types and pay rates",
-      "Create and edit work logs",
-      "Manage payment periods and approve payments",
-      "Review and approve correction requests",
-      "Access all reports and data"
-    ],
-    restrictions: [
-      "Cannot assign Super Admin role to users"
-    ],
     notes: "Default role for @xnext.co.za emails. Has full access except for Super Admin role assignment."
   },
   {
@@ -48,25 +62,7 @@ const roles = [
     icon: Briefcase,
     color: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
     description: "Manages projects with controlled editing permissions",
-    permissions: [
-      "Create new projects",
-      "View all projects they manage",
-      "Update project status only (cannot edit other fields)",
-      "Assign supervisors to projects",
-      "Onboard and manage labourers",
-      "Manage pay rates",
-      "Create work logs (today only)",
-      "Edit their own work logs",
-      "Create and manage payment periods",
-      "Approve payment periods",
-      "View all reports",
-      "Review and approve correction requests"
-    ],
-    restrictions: [
-      "Cannot edit project details after creation (name, location, budget)",
-      "Cannot assign project managers"
-    ],
-    notes: "Focused on operational oversight with controlled permissions. Note: Daily work logging UI may not be visible in navigation but the capability exists."
+    notes: "Focused on operational oversight with controlled permissions."
   },
   {
     name: "Supervisor",
@@ -74,18 +70,6 @@ const roles = [
     icon: ClipboardList,
     color: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
     description: "Field-focused role for daily work tracking",
-    permissions: [
-      "View assigned projects only",
-      "Create work logs for today",
-      "Onboard labourers (register new workers)",
-      "Submit correction requests for historical data"
-    ],
-    restrictions: [
-      "Cannot create or edit projects",
-      "Cannot manage payment periods",
-      "Cannot access all projects",
-      "Cannot edit past work logs (must submit correction request)"
-    ],
     notes: "Default role for @mooya.co.za and @mooyawireless.co.za emails. Designed for mobile field use."
   },
   {
@@ -94,16 +78,6 @@ const roles = [
     icon: UserCog,
     color: "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200",
     description: "Team management focused on labourer onboarding",
-    permissions: [
-      "Onboard labourers (register new workers)",
-      "View assigned projects",
-      "Create work logs for today"
-    ],
-    restrictions: [
-      "Cannot create or edit projects",
-      "Cannot manage payment periods",
-      "Limited to team management tasks"
-    ],
     notes: "Similar to supervisor but focused on team administration."
   },
   {
@@ -112,37 +86,94 @@ const roles = [
     icon: User,
     color: "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200",
     description: "Limited access for workers in the field",
-    permissions: [
-      "View their assigned project only",
-      "Create work logs for today only"
-    ],
-    restrictions: [
-      "Cannot view other projects",
-      "Cannot edit past work logs",
-      "Cannot submit correction requests",
-      "Cannot manage any system data"
-    ],
     notes: "Primarily a data entity. Most labourers don't have user accounts."
   }
 ];
 
-export default function RolesPage() {
+export default function RolesPage({ user }: RolesPageProps) {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const canEdit = can("role.manage");
+  const [draft, setDraft] = useState<Record<UserRole, Permission[]> | null>(null);
+
+  const { data: matrix, isLoading } = useQuery<PermissionMatrixResponse>({
+    queryKey: ["/api/permissions"],
+  });
+
+  useEffect(() => {
+    if (matrix) setDraft(matrix.roles);
+  }, [matrix]);
+
+  const changedRoles = matrix && draft
+    ? roles.filter(role => {
+        const saved = [...(matrix.roles[role.value] || [])].sort().join(",");
+        return saved !== [...(draft[role.value] || [])].sort().join(",");
+      })
+    : [];
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!draft) return;
+      // One request per edited role so each change gets its own audit entry
+      for (const role of changedRoles) {
+        await apiRequest("PUT", `/api/roles/${role.value}/permissions`, { permissions: draft[role.value] });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/permissions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/my-permissions"] });
+      toast({
+        title: "Permissions updated",
+        description: "The role permission matrix has been saved.",
+      });
+    },
+    onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/permissions"] });
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update permissions",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isLocked = (role: UserRole, permission: Permission) =>
+    LOCKED_ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+
+  const togglePermission = (role: UserRole, permission: Permission, granted: boolean) => {
+    if (!draft) return;
+    const current = draft[role] || [];
+    setDraft({
+      ...draft,
+      [role]: granted ? [...current, permission] : current.filter(p => p !== permission),
+    });
+  };
+
+  // Catalogue rows grouped in the order the server defines them
+  const groups = matrix
+    ? Object.entries(matrix.permissions).reduce((acc, [key, definition]) => {
+        (acc[definition.group] ||= []).push({ key: key as Permission, ...definition });
+        return acc;
+      }, {} as Record<string, (PermissionDefinition & { key: Permission })[]>)
+    : {};
+
   return (
     <div className="container mx-auto p-6 max-w-7xl" data-testid="page-roles">
       <div className="mb-8">
         <h1 className="text-3xl font-bold mb-2" data-testid="heading-roles">System Roles & Permissions</h1>
         <p className="text-muted-foreground" data-testid="text-roles-description">
           Mooya EMPCare uses role-based access control (RBAC) to manage permissions. 
-          Below is a complete overview of each role and what they can do in the system.
+          Each role is granted permissions from the matrix below, which the server and the navigation both read.
         </p>
       </div>
 
       <div className="mb-6 p-4 bg-muted rounded-lg">
         <h2 className="font-semibold mb-2">Role Assignment Rules</h2>
         <ul className="space-y-1 text-sm text-muted-foreground">
-          <li><strong>kholofelo@mooya.co.za</strong> → Always assigned Super Admin (cannot be changed)</li>
-          <li><strong>@xnext.co.za emails</strong> → Default to Admin role</li>
-          <li><strong>@mooya.co.za and @mooyawireless.co.za emails</strong> → Default to Supervisor role</li>
+          <li><strong>SUPER_ADMIN_EMAILS</strong> → Always assigned Super Admin (cannot be changed)</li>
+          <li><strong>Invitations</strong> → New accounts get the invited role and project</li>
+          <li><strong>Allowed domains</strong> → New accounts get the domain's default role</li>
+          <li><strong>Existing accounts</strong> → Keep their role while their domain or invitation stays active</li>
           <li><strong>OIDC role claims</strong> → Override default assignments (useful for testing)</li>
         </ul>
       </div>
@@ -150,6 +181,7 @@ export default function RolesPage() {
       <div className="grid gap-6 md:grid-cols-1 lg:grid-cols-2">
         {roles.map((role) => {
           const Icon = role.icon;
+          const granted = matrix?.roles[role.value] || [];
           return (
             <Card key={role.value} className="flex flex-col" data-testid={`card-role-${role.value}`}>
               <CardHeader className="pb-4">
@@ -167,6 +199,7 @@ export default function RolesPage() {
                       </Badge>
                     </div>
                   </div>
+                  {user.role === role.value && <Badge variant="secondary">Your role</Badge>}
                 </div>
                 <CardDescription data-testid={`text-role-description-${role.value}`}>
                   {role.description}
@@ -177,39 +210,25 @@ export default function RolesPage() {
                   <h3 className="font-semibold text-sm mb-2 text-green-700 dark:text-green-400">
                     ✓ Permissions
                   </h3>
-                  <ul className="space-y-1.5">
-                    {role.permissions.map((permission, index) => (
-                      <li 
-                        key={index} 
-                        className="text-sm flex items-start gap-2"
-                        data-testid={`text-permission-${role.value}-${index}`}
-                      >
-                        <Check className="h-4 w-4 text-green-600 dark:text-green-400 mt-0.5 flex-shrink-0" />
-                        <span>{permission}</span>
-                      </li>
-                    ))}
-                  </ul>
-                </div>
-
-                {role.restrictions && (
-                  <div>
-                    <h3 className="font-semibold text-sm mb-2 text-red-700 dark:text-red-400">
-                      ✗ Restrictions
-                    </h3>
+                  {isLoading ? (
+                    <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                  ) : granted.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No staff permissions</p>
+                  ) : (
                     <ul className="space-y-1.5">
-                      {role.restrictions.map((restriction, index) => (
+                      {granted.map((permission) => (
                         <li 
-                          key={index} 
-                          className="text-sm text-muted-foreground flex items-start gap-2"
-                          data-testid={`text-restriction-${role.value}-${index}`}
+                          key={permission} 
+                          className="text-sm flex items-start gap-2"
+                          data-testid={`text-permission-${role.value}-${permission}`}
                         >
-                          <span className="text-red-600 dark:text-red-400">✗</span>
-                          <span>{restriction}</span>
+                          <Check className="h-4 w-4 text-green-600 dark:text-green-400 mt-0.5 flex-shrink-0" />
+                          <span>{matrix?.permissions[permission]?.label ?? permission}</span>
                         </li>
                       ))}
                     </ul>
-                  </div>
-                )}
+                  )}
+                </div>
 
                 {role.notes && (
                   <div className="pt-2 border-t">
@@ -224,14 +243,93 @@ export default function RolesPage() {
         })}
       </div>
 
+      <Card className="mt-8" data-testid="card-permission-matrix">
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div>
+            <CardTitle>Permission Matrix</CardTitle>
+            <CardDescription>
+              {canEdit
+                ? "Tick the permissions each role should have and save. Changes apply on the users' next page load."
+                : "Only roles with permission to edit the matrix can change it."}
+            </CardDescription>
+          </div>
+          {canEdit && (
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => matrix && setDraft(matrix.roles)}
+                disabled={changedRoles.length === 0 || saveMutation.isPending}
+                data-testid="button-reset-permissions"
+              >
+                Reset
+              </Button>
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={changedRoles.length === 0 || saveMutation.isPending}
+                data-testid="button-save-permissions"
+              >
+                {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save Changes
+              </Button>
+            </div>
+          )}
+        </CardHeader>
+        <CardContent>
+          {isLoading || !draft ? (
+            <div className="flex justify-center p-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="border rounded-md overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Permission</TableHead>
+                    {roles.map(role => (
+                      <TableHead key={role.value} className="text-center whitespace-nowrap">{role.name}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {Object.entries(groups).flatMap(([group, permissions]) => [
+                    <TableRow key={group} className="bg-muted/50 hover:bg-muted/50">
+                      <TableCell colSpan={roles.length + 1} className="font-semibold text-sm">{group}</TableCell>
+                    </TableRow>,
+                    ...permissions.map(permission => (
+                      <TableRow key={permission.key} data-testid={`row-permission-${permission.key}`}>
+                        <TableCell>
+                          <div className="text-sm">{permission.label}</div>
+                          <div className="text-xs text-muted-foreground font-mono">{permission.key}</div>
+                        </TableCell>
+                        {roles.map(role => (
+                          <TableCell key={role.value} className="text-center">
+                            <Checkbox
+                              checked={draft[role.value]?.includes(permission.key) ?? false}
+                              disabled={!canEdit || isLocked(role.value, permission.key)}
+                              onCheckedChange={(checked) => togglePermission(role.value, permission.key, checked === true)}
+                              data-testid={`checkbox-${role.value}-${permission.key}`}
+                            />
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    )),
+                  ])}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       <div className="mt-8 p-4 bg-blue-50 dark:bg-blue-950 border border-blue-200 dark:border-blue-800 rounded-lg">
         <h2 className="font-semibold mb-2 text-blue-900 dark:text-blue-100">
           Security Features
         </h2>
         <ul className="space-y-1 text-sm text-blue-800 dark:text-blue-200">
           <li><strong>Defense-in-depth:</strong> Permissions enforced at both frontend (UI visibility) and backend (API validation)</li>
+          <li><strong>Single permission matrix:</strong> The server middleware and the navigation read the same stored matrix, so they cannot disagree</li>
           <li><strong>Domain restrictions:</strong> Only @mooya.co.za, @mooyawireless.co.za, and @xnext.co.za emails can access the system</li>
-          <li><strong>Audit trails:</strong> All corrections tracked through formal review process</li>
+          <li><strong>Audit trails:</strong> All corrections and permission changes are tracked in the audit log</li>
           <li><strong>Today-only work logs:</strong> Supervisors can only create work logs for today (historical edits require correction requests)</li>
         </ul>
       </div>
@@ -30,9 +30,10 @@ import {
 } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
 import { queryClient } from "@/lib/queryClient";
 import { apiRequest } from "@/lib/queryClient";
-import { Search, UserPlus, Edit, Loader2 } from "lucide-react";
+import { Search, UserPlus, Edit, Loader2, UserX, UserCheck } from "lucide-react";
 import type { User, UserRole } from "@shared/schema";
 
 const roleLabels: Record<UserRole, string> = {
@@ -53,13 +54,32 @@ const roleBadgeColors: Record<UserRole, string> = {
   labourer: "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200",
 };
 
+// Mirrors ProjectAssignment in server/offboardingService.ts
+interface ProjectAssignment {
+  projectId: string;
+  projectName: string;
+  relation: "manager" | "supervisor";
+}
+
+interface OffboardingReview {
+  user: User;
+  assignments: ProjectAssignment[];
+  candidates: User[];
+}
+
+// Select value for dropping a project link instead of handing it over
+const REMOVE_ASSIGNMENT = "remove";
+
+const assignmentKey = (assignment: ProjectAssignment) => `${assignment.relation}:${assignment.projectId}`;
+
 interface UsersPageProps {
   user: User;
 }
 
 export default function UsersPage({ user }: UsersPageProps) {
-  // Check authorization - only super_admin and admin can access
-  if (user.role !== "super_admin" && user.role !== "admin") {
+  // Check authorization - only roles with user.manage can access
+  const { can } = usePermissions();
+  if (!can("user.manage")) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
         <Card className="w-full max-w-md">
@@ -84,6 +104,8 @@ export default function UsersPage({ user }: UsersPageProps) {
     email: "",
     role: "" as UserRole | "",
   });
+  const [offboardingUser, setOffboardingUser] = useState<User | null>(null);
+  const [reassignments, setReassignments] = useState<Record<string, string>>({});
 
   const { data: users, isLoading } = useQuery<User[]>({
     queryKey: ["/api/users"],
@@ -112,6 +134,63 @@ export default function UsersPage({ user }: UsersPageProps) {
     },
   });
 
+  const { data: offboarding, isLoading: isLoadingOffboarding } = useQuery<OffboardingReview>({
+    queryKey: ["/api/users", offboardingUser?.id, "offboarding"],
+    enabled: !!offboardingUser,
+  });
+
+  const deactivateUserMutation = useMutation({
+    mutationFn: async (target: User) => {
+      const assignments = (offboarding?.assignments ?? []).map((assignment) => {
+        const choice = reassignments[assignmentKey(assignment)];
+        return {
+          projectId: assignment.projectId,
+          relation: assignment.relation,
+          reassignTo: choice && choice !== REMOVE_ASSIGNMENT ? choice : null,
+        };
+      });
+      const res = await apiRequest("POST", `/api/users/${target.id}/deactivate`, { assignments });
+      return res.json() as Promise<{ reassigned: number; removed: number; sessionsRevoked: number }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      toast({
+        title: "User deactivated",
+        description: `${result.reassigned} project assignment(s) handed over, ${result.removed} removed and ${result.sessionsRevoked} session(s) signed out.`,
+      });
+      setOffboardingUser(null);
+      setReassignments({});
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to deactivate user",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reactivateUserMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      return apiRequest("POST", `/api/users/${userId}/reactivate`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "User reactivated",
+        description: "The user can sign in again. Assign them to projects as needed.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reactivate user",
+        variant: "destructive",
+      });
+    },
+  });
+
   const filteredUsers = users?.filter((user) => {
     // Exclude labourers - they are data entities, not system users
     if (user.role === "labourer") return false;
@@ -208,6 +287,7 @@ export default function UsersPage({ user }: UsersPageProps) {
                     <TableHead>User</TableHead>
                     <TableHead>Email</TableHead>
                     <TableHead>Role</TableHead>
+                    <TableHead>Status</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -234,23 +314,57 @@ export default function UsersPage({ user }: UsersPageProps) {
                             {roleLabels[tableUser.role]}
                           </Badge>
                         </TableCell>
+                        <TableCell>
+                          {tableUser.isActive ? (
+                            <Badge variant="outline">Active</Badge>
+                          ) : (
+                            <Badge variant="destructive">Inactive</Badge>
+                          )}
+                        </TableCell>
                         <TableCell className="text-right">
                           {tableUser.id !== user.id && (
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleEditUser(tableUser)}
-                              data-testid={`button-edit-user-${tableUser.id}`}
-                            >
-                              <Edit className="h-4 w-4" />
-                            </Button>
+                            <div className="flex justify-end gap-1">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleEditUser(tableUser)}
+                                data-testid={`button-edit-user-${tableUser.id}`}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              {tableUser.isActive ? (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => {
+                                    setReassignments({});
+                                    setOffboardingUser(tableUser);
+                                  }}
+                                  title="Deactivate"
+                                  data-testid={`button-deactivate-user-${tableUser.id}`}
+                                >
+                                  <UserX className="h-4 w-4" />
+                                </Button>
+                              ) : (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => reactivateUserMutation.mutate(tableUser.id)}
+                                  disabled={reactivateUserMutation.isPending}
+                                  title="Reactivate"
+                                  data-testid={`button-reactivate-user-${tableUser.id}`}
+                                >
+                                  <UserCheck className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </div>
                           )}
                         </TableCell>
                       </TableRow>
                     ))
                   ) : (
                     <TableRow>
-                      <TableCell colSpan={4} className="text-center py-12 text-muted-foreground">
+                      <TableCell colSpan={5} className="text-center py-12 text-muted-foreground">
                         No users found
                       </TableCell>
                     </TableRow>
@@ -340,6 +454,79 @@ export default function UsersPage({ user }: UsersPageProps) {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={!!offboardingUser} onOpenChange={(open) => !open && setOffboardingUser(null)}>
+        <DialogContent className="max-w-2xl" data-testid="dialog-offboard-user">
+          <DialogHeader>
+            <DialogTitle>Deactivate {offboardingUser?.firstName} {offboardingUser?.lastName}</DialogTitle>
+            <DialogDescription>
+              They will be signed out everywhere and blocked from signing in. Choose who takes over each project
+              they manage or supervise; assignments left on "Remove" are dropped.
+            </DialogDescription>
+          </DialogHeader>
+          {isLoadingOffboarding ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : offboarding && offboarding.assignments.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Project</TableHead>
+                  <TableHead>Assigned As</TableHead>
+                  <TableHead>Hand Over To</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {offboarding.assignments.map((assignment) => (
+                  <TableRow key={assignmentKey(assignment)} data-testid={`row-assignment-${assignmentKey(assignment)}`}>
+                    <TableCell className="font-medium">{assignment.projectName}</TableCell>
+                    <TableCell className="capitalize">{assignment.relation}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={reassignments[assignmentKey(assignment)] ?? REMOVE_ASSIGNMENT}
+                        onValueChange={(value) => setReassignments({ ...reassignments, [assignmentKey(assignment)]: value })}
+                      >
+                        <SelectTrigger className="w-56" data-testid={`select-reassign-${assignmentKey(assignment)}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={REMOVE_ASSIGNMENT}>Remove</SelectItem>
+                          {offboarding.candidates.map((candidate) => (
+                            <SelectItem key={candidate.id} value={candidate.id}>
+                              {candidate.firstName} {candidate.lastName} ({roleLabels[candidate.role]})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="py-4 text-sm text-muted-foreground">This user has no project assignments.</p>
+          )}
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setOffboardingUser(null)}
+              data-testid="button-cancel-deactivate"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => offboardingUser && deactivateUserMutation.mutate(offboardingUser)}
+              disabled={isLoadingOffboarding || deactivateUserMutation.isPending}
+              data-testid="button-confirm-deactivate"
+            >
+              {deactivateUserMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Deactivate
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
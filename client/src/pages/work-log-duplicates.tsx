@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import type { User, WorkLog } from "@shared/schema";
+
+interface WorkLogDuplicatesPageProps {
+  user: User;
+}
+
+// Mirrors DuplicateWorkLogGroup and DuplicateWorkLogResolution in server/workLogDuplicateService.ts
+interface DuplicateWorkLogGroup {
+  labourerId: string;
+  labourerName: string;
+  projectId: string;
+  projectName: string;
+  workDate: string;
+  logs: WorkLog[];
+}
+
+type DuplicateWorkLogResolution = "keep" | "combine";
+
+interface PendingResolution {
+  group: DuplicateWorkLogGroup;
+  keep: WorkLog;
+  resolution: DuplicateWorkLogResolution;
+}
+
+const sumMeters = (logs: WorkLog[], field: "openTrenchingMeters" | "closeTrenchingMeters") =>
+  logs.reduce((sum, log) => sum + parseFloat(log[field] ?? "0"), 0).toFixed(2);
+
+export default function WorkLogDuplicatesPage({ user }: WorkLogDuplicatesPageProps) {
+  // Check authorization - only roles with work_log.edit can access
+  const { can } = usePermissions();
+  if (!can("work_log.edit")) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Card className="w-full max-w-md">
+          <CardContent className="p-6 text-center">
+            <h2 className="text-xl font-semibold mb-2">Access Denied</h2>
+            <p className="text-muted-foreground">
+              You don't have permission to access this page.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { toast } = useToast();
+  const [pending, setPending] = useState<PendingResolution | null>(null);
+
+  const { data: groups = [], isLoading } = useQuery<DuplicateWorkLogGroup[]>({
+    queryKey: ["/api/work-logs/duplicates"],
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ group, keep, resolution }: PendingResolution) => {
+      const res = await apiRequest("POST", "/api/work-logs/duplicates/resolve", {
+        labourerId: group.labourerId,
+        projectId: group.projectId,
+        workDate: group.workDate,
+        keepId: keep.id,
+        resolution,
+      });
+      return res.json() as Promise<WorkLog>;
+    },
+    onSuccess: (log, { group }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/work-logs/duplicates"] });
+      toast({
+        title: "Duplicate work logs resolved",
+        description: `${group.labourerName} now has one log for ${format(new Date(`${group.workDate}T00:00:00`), "d MMM yyyy")}: ${log.openTrenchingMeters} m open, ${log.closeTrenchingMeters} m close.`,
+      });
+      setPending(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to resolve duplicate work logs",
+        variant: "destructive",
+      });
+      setPending(null);
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Duplicate Work Logs</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Labourers logged more than once for the same project and day
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Duplicate Days ({groups.length})</CardTitle>
+          <CardDescription>
+            Each labourer can only have one work log per project day. Keep one log when the sheet was saved twice,
+            or add the others into it when they record separate work. Days in approved or paid periods cannot be changed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {groups.length > 0 ? (
+            <div className="space-y-4">
+              {groups.map((group) => (
+                <div
+                  key={`${group.labourerId}-${group.projectId}-${group.workDate}`}
+                  className="space-y-2 border-b pb-4 last:border-b-0"
+                  data-testid={`duplicate-work-logs-${group.labourerId}-${group.workDate}`}
+                >
+                  <div className="font-medium">
+                    {group.labourerName} · {group.projectName} · {format(new Date(`${group.workDate}T00:00:00`), "d MMM yyyy")}
+                  </div>
+                  <div className="flex flex-col md:flex-row gap-4">
+                    {group.logs.map((log) => (
+                      <div key={log.id} className="flex-1 space-y-1 p-3 border rounded" data-testid={`duplicate-work-log-${log.id}`}>
+                        <div className="text-sm">{log.openTrenchingMeters} m open, {log.closeTrenchingMeters} m close</div>
+                        <div className="text-sm text-muted-foreground">R {log.totalEarnings}</div>
+                        {log.recordedAt && (
+                          <div className="text-sm text-muted-foreground">
+                            Recorded {format(new Date(log.recordedAt), "d MMM yyyy HH:mm")}
+                          </div>
+                        )}
+                        <div className="flex gap-2 mt-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setPending({ group, keep: log, resolution: "keep" })}
+                            disabled={resolveMutation.isPending}
+                            data-testid={`button-keep-${log.id}`}
+                          >
+                            Keep Only This
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setPending({ group, keep: log, resolution: "combine" })}
+                            disabled={resolveMutation.isPending}
+                            data-testid={`button-combine-${log.id}`}
+                          >
+                            Add Others Into This
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-12 text-muted-foreground">
+              No duplicate work logs found.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!pending} onOpenChange={(open) => !open && setPending(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pending?.resolution === "combine" ? "Combine work logs?" : "Keep one work log?"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pending && (pending.resolution === "combine" ? (
+                <>
+                  {pending.group.labourerName}'s {pending.group.logs.length} logs will become one log of{" "}
+                  {sumMeters(pending.group.logs, "openTrenchingMeters")} m open and{" "}
+                  {sumMeters(pending.group.logs, "closeTrenchingMeters")} m close, with earnings recalculated.
+                </>
+              ) : (
+                <>
+                  {pending.group.labourerName}'s other {pending.group.logs.length - 1} log(s) for the day will be deleted,
+                  leaving {pending.keep.openTrenchingMeters} m open and {pending.keep.closeTrenchingMeters} m close.
+                </>
+              ))}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-resolve">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pending && resolveMutation.mutate(pending)}
+              data-testid="button-confirm-resolve"
+            >
+              {pending?.resolution === "combine" ? "Combine" : "Keep"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
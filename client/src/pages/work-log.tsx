@@ -22,10 +22,28 @@ import {
 } from "@/components/ui/table";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { CalendarIcon, Save, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { CalendarIcon, Save, Loader2, CloudOff, RefreshCw } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { Project, Labourer, PayRate, User } from "@shared/schema";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useWorkLogQueue } from "@/hooks/use-work-log-queue";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  enqueueWorkLogs,
+  getQueuedWorkLogs,
+  removeQueuedWorkLog,
+  retryQueuedWorkLog,
+  syncQueuedWorkLogs,
+  type QueuedWorkLog,
+} from "@/lib/offlineQueue";
+import type { AdditionalWorkItem, Project, Labourer, PayRate, User, WorkLog } from "@shared/schema";
+import { describeWorkLogEntryWindow, getWorkLogEntryWindow, isWorkDateOpen } from "@shared/workDate";
+
+interface CustomItemRate {
+  amount: number;
+  unit: PayRate["unit"];
+}
 
 interface WorkLogEntry {
   labourerId: string;
@@ -35,6 +53,39 @@ interface WorkLogEntry {
   closeMeters: string;
   openRate: number;
   closeRate: number;
+  // Custom rate items by categoryName: meters for per_meter items, "1" when a per_day or fixed item is ticked
+  items: Record<string, string>;
+  itemRates: Record<string, CustomItemRate>;
+}
+
+const itemUnitLabels: Record<PayRate["unit"], string> = {
+  per_meter: "m",
+  per_day: "per day",
+  fixed: "fixed",
+};
+
+// The custom rates a labourer's employee type is paid on this project
+function getCustomItemRates(payRates: PayRate[], employeeTypeId: string): Record<string, CustomItemRate> {
+  const rates: Record<string, CustomItemRate> = {};
+  for (const rate of payRates) {
+    if (rate.category !== "custom" || !rate.categoryName || rate.employeeTypeId !== employeeTypeId) continue;
+    if (!rates[rate.categoryName]) {
+      rates[rate.categoryName] = { amount: parseFloat(rate.amount), unit: rate.unit };
+    }
+  }
+  return rates;
+}
+
+function getSavedItems(log: WorkLog | undefined): Record<string, string> {
+  return Object.fromEntries((log?.additionalItems ?? []).map(item => [item.categoryName, String(item.quantity)]));
+}
+
+// The entry's custom items in the shape stored on work logs, leaving out items with nothing recorded
+function toAdditionalItems(items: Record<string, string>, itemRates: Record<string, CustomItemRate>): AdditionalWorkItem[] {
+  return Object.keys(itemRates)
+    .map(categoryName => ({ categoryName, quantity: parseFloat(items[categoryName]) || 0 }))
+    .filter(item => item.quantity > 0)
+    .sort((a, b) => a.categoryName.localeCompare(b.categoryName));
 }
 
 interface WorkLogPageProps {
@@ -43,33 +94,64 @@ interface WorkLogPageProps {
 
 export default function WorkLogPage({ user }: WorkLogPageProps) {
   const { toast } = useToast();
+  const { can } = usePermissions();
+  const queue = useWorkLogQueue(user.id);
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [selectedProjectId, setSelectedProjectId] = useState<string>("");
   const [workEntries, setWorkEntries] = useState<WorkLogEntry[]>([]);
+  // Why the last save refused a row, by labourer; those rows keep their meters so they can be fixed
+  const [rowErrors, setRowErrors] = useState<Record<string, string>>({});
   
-  // Track which project we've initialized entries for (prevents refetch resets)
+  // Track which project day we've initialized entries for (prevents refetch resets)
   const initializedProjectRef = useRef<string>("");
   
-  // Check if selected date is today (for edit restrictions)
-  const isToday = selectedDate.toDateString() === new Date().toDateString();
+  const workDate = format(selectedDate, "yyyy-MM-dd");
 
   // Fetch user's supervised projects
+  // offlineFirst: try the request even without signal so the service worker can answer from its cache
   const { data: projects, isLoading: projectsLoading } = useQuery<Project[]>({
     queryKey: ["/api/projects"],
+    networkMode: "offlineFirst",
   });
 
+  // Only the project's today (in its timezone), plus yesterday during its grace window, can be edited
+  const selectedProject = projects?.find(p => p.id === selectedProjectId);
+  const entryWindow = getWorkLogEntryWindow(selectedProject ?? {});
+  const isDateOpen = isWorkDateOpen(workDate, entryWindow);
+
   // Fetch labourers for selected project
   const { data: labourers, isLoading: labourersLoading } = useQuery<Labourer[]>({
     queryKey: selectedProjectId ? [`/api/projects/${selectedProjectId}/labourers`] : [],
     enabled: !!selectedProjectId,
+    networkMode: "offlineFirst",
   });
 
   // Fetch pay rates for selected project
   const { data: payRates } = useQuery<PayRate[]>({
     queryKey: selectedProjectId ? [`/api/projects/${selectedProjectId}/pay-rates`] : [],
     enabled: !!selectedProjectId,
+    networkMode: "offlineFirst",
   });
 
+  // Logs already saved for the day; the sheet starts from them since saving again updates them
+  const savedLogsUrl = `/api/projects/${selectedProjectId}/work-logs?startDate=${workDate}&endDate=${workDate}`;
+  const { data: savedLogs, isLoading: savedLogsLoading } = useQuery<WorkLog[]>({
+    queryKey: selectedProjectId ? [savedLogsUrl] : [],
+    enabled: !!selectedProjectId,
+    networkMode: "offlineFirst",
+  });
+  const savedByLabourer = new Map((savedLogs ?? []).map(log => [log.labourerId, log]));
+
+  // One column per custom rate configured on the project, e.g. pole holes or attendance
+  const customColumns = Array.from(
+    new Map((payRates ?? [])
+      .filter(rate => rate.category === "custom" && rate.categoryName)
+      .map(rate => [rate.categoryName!, rate.unit] as const)
+    ).entries()
+  )
+    .map(([categoryName, unit]) => ({ categoryName, unit }))
+    .sort((a, b) => a.categoryName.localeCompare(b.categoryName));
+
   // Initialize/update work entries when project data changes
   useEffect(() => {
     if (!selectedProjectId) {
@@ -79,16 +161,18 @@ export default function WorkLogPage({ user }: WorkLogPageProps) {
       return;
     }
 
-    if (!labourers || !payRates) {
+    if (!labourers || !payRates || savedLogsLoading) {
       return;
     }
 
-    // Check if this is a new project
-    const isNewProject = initializedProjectRef.current !== selectedProjectId;
+    // Check if this is a new project or day
+    const initializedKey = `${selectedProjectId}:${workDate}`;
+    const isNewProject = initializedProjectRef.current !== initializedKey;
     
     if (isNewProject) {
-      // Initialize fresh entries for new project
+      // Initialize entries for the project day from what is already saved
       const entries = labourers.map(labourer => {
+        const saved = savedLogs?.find(log => log.labourerId === labourer.id);
         const openRate = payRates.find(
           rate => rate.employeeTypeId === labourer.employeeTypeId && rate.category === "open_trenching"
         );
@@ -100,14 +184,17 @@ export default function WorkLogPage({ user }: WorkLogPageProps) {
           labourerId: labourer.id,
           labourerName: `${labourer.firstName} ${labourer.surname}`,
           employeeTypeId: labourer.employeeTypeId,
-          openMeters: "0",
-          closeMeters: "0",
+          openMeters: saved?.openTrenchingMeters ?? "0",
+          closeMeters: saved?.closeTrenchingMeters ?? "0",
           openRate: openRate ? parseFloat(openRate.amount) : 0,
           closeRate: closeRate ? parseFloat(closeRate.amount) : 0,
+          items: getSavedItems(saved),
+          itemRates: getCustomItemRates(payRates, labourer.employeeTypeId),
         };
       });
       setWorkEntries(entries);
-      initializedProjectRef.current = selectedProjectId;
+      setRowErrors({});
+      initializedProjectRef.current = initializedKey;
     } else {
       // Merge: preserve meter inputs, update rates, add new labourers
       setWorkEntries(prevEntries => {
@@ -129,65 +216,146 @@ export default function WorkLogPage({ user }: WorkLogPageProps) {
             // Preserve existing meter inputs or default to "0" for new labourers
             openMeters: existing?.openMeters ?? "0",
             closeMeters: existing?.closeMeters ?? "0",
+            items: existing?.items ?? {},
             // Always use latest pay rates
             openRate: openRate ? parseFloat(openRate.amount) : 0,
             closeRate: closeRate ? parseFloat(closeRate.amount) : 0,
+            itemRates: getCustomItemRates(payRates, labourer.employeeTypeId),
           };
         });
       });
     }
-  }, [labourers, payRates, selectedProjectId]);
+  }, [labourers, payRates, savedLogs, savedLogsLoading, selectedProjectId, workDate]);
 
+  // Rows to send: new work, or meters and items that differ from the log already saved for the day
+  const isChanged = (entry: WorkLogEntry) => {
+    const openMeters = parseFloat(entry.openMeters) || 0;
+    const closeMeters = parseFloat(entry.closeMeters) || 0;
+    const items = toAdditionalItems(entry.items, entry.itemRates);
+    const saved = savedByLabourer.get(entry.labourerId);
+    if (!saved) return openMeters > 0 || closeMeters > 0 || items.length > 0;
+    const savedItems = toAdditionalItems(getSavedItems(saved), entry.itemRates);
+    return openMeters !== parseFloat(saved.openTrenchingMeters ?? "0")
+      || closeMeters !== parseFloat(saved.closeTrenchingMeters ?? "0")
+      || JSON.stringify(items) !== JSON.stringify(savedItems);
+  };
+
+  // Entries always go through the offline queue, so a dropped connection mid-save loses nothing
   const saveWorkLogsMutation = useMutation({
     mutationFn: async (entries: WorkLogEntry[]) => {
-      const promises = entries
-        .filter(entry => parseFloat(entry.openMeters) > 0 || parseFloat(entry.closeMeters) > 0)
+      const captures = entries
+        .filter(isChanged)
         .map(entry => {
           const openMeters = parseFloat(entry.openMeters) || 0;
           const closeMeters = parseFloat(entry.closeMeters) || 0;
-          const totalEarnings = (openMeters * entry.openRate) + (closeMeters * entry.closeRate);
-
-          return apiRequest("POST", "/api/work-logs", {
-            projectId: selectedProjectId,
-            labourerId: entry.labourerId,
-            workDate: format(selectedDate, "yyyy-MM-dd"),
-            openTrenchingMeters: openMeters.toString(),
-            closeTrenchingMeters: closeMeters.toString(),
-            totalEarnings: totalEarnings.toString(),
-          });
+
+          // Earnings are calculated server-side from the rates effective on the work date
+          return {
+            labourerName: entry.labourerName,
+            payload: {
+              projectId: selectedProjectId,
+              labourerId: entry.labourerId,
+              workDate,
+              openTrenchingMeters: openMeters.toString(),
+              closeTrenchingMeters: closeMeters.toString(),
+              additionalItems: toAdditionalItems(entry.items, entry.itemRates),
+            },
+          };
         });
 
-      return Promise.all(promises);
+      const queued = await enqueueWorkLogs(user.id, captures);
+      const result = await syncQueuedWorkLogs(user.id);
+      const keys = new Set(queued.map(entry => entry.key));
+      const failed = (await getQueuedWorkLogs(user.id)).filter(entry => keys.has(entry.key) && entry.status !== "pending");
+      return { result, failed };
     },
-    onSuccess: () => {
+    onSuccess: ({ result, failed }) => {
+      const errors = Object.fromEntries(failed.map(entry => [entry.payload.labourerId, entry.message || "Not saved"]));
+      setRowErrors(errors);
+      if (result.pending > 0) {
+        toast({
+          title: "Saved on this device",
+          description: `${result.pending} work log(s) will sync when you're back online`,
+        });
+      } else if (result.needsAttention > 0) {
+        toast({
+          title: "Some work logs need attention",
+          description: `${result.synced} saved; the highlighted rows were not`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Work logs saved",
+          description: `Successfully saved work logs for ${format(selectedDate, "PPP")}`,
+        });
+      }
+      // Saved and queued rows keep showing their meters, which are now the day's values
+      queryClient.invalidateQueries({ queryKey: [savedLogsUrl] });
+    },
+    onError: (error: Error) => {
       toast({
-        title: "Work logs saved",
-        description: `Successfully saved work logs for ${format(selectedDate, "PPP")}`,
+        title: "Error",
+        description: error.message || "Failed to save work logs",
+        variant: "destructive",
       });
-      // Reset entries
-      setWorkEntries(prev => prev.map(entry => ({ ...entry, openMeters: "0", closeMeters: "0" })));
+    },
+  });
+
+  // "Keep mine" on an edited conflict writes the captured meters over the server's version
+  const overwriteMutation = useMutation({
+    mutationFn: async (entry: QueuedWorkLog) => {
+      await apiRequest("PUT", `/api/work-logs/${entry.conflict!.existing.id}`, {
+        openTrenchingMeters: entry.payload.openTrenchingMeters,
+        closeTrenchingMeters: entry.payload.closeTrenchingMeters,
+        additionalItems: entry.payload.additionalItems,
+      });
+      await removeQueuedWorkLog(entry.key);
+    },
+    onSuccess: () => {
+      toast({ title: "Work log updated", description: "Your captured meters replaced the server's version" });
     },
     onError: (error: Error) => {
       toast({
         title: "Error",
-        description: error.message || "Failed to save work logs",
+        description: error.message || "Failed to update work log",
         variant: "destructive",
       });
     },
   });
 
+  const describeQueued = (entry: QueuedWorkLog) => {
+    const { openTrenchingMeters, closeTrenchingMeters, workDate, additionalItems = [] } = entry.payload;
+    const items = additionalItems.map(item => `, ${item.categoryName} ${item.quantity}`).join("");
+    return `${format(new Date(`${workDate}T00:00:00`), "PPP")}: ${openTrenchingMeters} m open, ${closeTrenchingMeters} m close${items}`;
+  };
+
   const handleMeterChange = (labourerId: string, field: "openMeters" | "closeMeters", value: string) => {
     setWorkEntries(prev =>
       prev.map(entry =>
         entry.labourerId === labourerId ? { ...entry, [field]: value } : entry
       )
     );
+    setRowErrors(({ [labourerId]: _, ...rest }) => rest);
   };
 
+  const handleItemChange = (labourerId: string, categoryName: string, value: string) => {
+    setWorkEntries(prev =>
+      prev.map(entry =>
+        entry.labourerId === labourerId ? { ...entry, items: { ...entry.items, [categoryName]: value } } : entry
+      )
+    );
+    setRowErrors(({ [labourerId]: _, ...rest }) => rest);
+  };
+
+  // Estimate only; mirrors the unit pricing in server/earningsService.ts
   const calculateEarnings = (entry: WorkLogEntry) => {
     const openMeters = parseFloat(entry.openMeters) || 0;
     const closeMeters = parseFloat(entry.closeMeters) || 0;
-    return (openMeters * entry.openRate) + (closeMeters * entry.closeRate);
+    const itemEarnings = toAdditionalItems(entry.items, entry.itemRates).reduce((sum, item) => {
+      const rate = entry.itemRates[item.categoryName];
+      return sum + (rate.unit === "per_meter" ? item.quantity * rate.amount : rate.amount);
+    }, 0);
+    return (openMeters * entry.openRate) + (closeMeters * entry.closeRate) + itemEarnings;
   };
 
   const totalDailyEarnings = workEntries.reduce((sum, entry) => sum + calculateEarnings(entry), 0);
@@ -202,20 +370,20 @@ export default function WorkLogPage({ user }: WorkLogPageProps) {
       return;
     }
 
-    // Enforce that only today's work can be saved (client-side guard)
-    if (!isToday) {
+    // Enforce the project's entry window (client-side guard; the server checks it again)
+    if (!isDateOpen) {
       toast({
         title: "Cannot Edit Historical Date",
-        description: "You can only edit today's work logs. Please submit a correction request to modify historical data.",
+        description: `You can only edit work logs for ${describeWorkLogEntryWindow(entryWindow)}. Please submit a correction request to modify historical data.`,
         variant: "destructive",
       });
       return;
     }
 
-    if (workEntries.every(e => parseFloat(e.openMeters) === 0 && parseFloat(e.closeMeters) === 0)) {
+    if (!workEntries.some(isChanged)) {
       toast({
-        title: "No work entered",
-        description: "Please enter at least one meter reading",
+        title: "No changes to save",
+        description: "Please enter or change at least one meter reading or item",
         variant: "destructive",
       });
       return;
@@ -224,14 +392,13 @@ export default function WorkLogPage({ user }: WorkLogPageProps) {
     saveWorkLogsMutation.mutate(workEntries);
   };
 
-  const selectedProject = projects?.find(p => p.id === selectedProjectId);
 
   return (
     <div className="space-y-6">
       <div>
         <h1 className="text-2xl font-semibold">Daily Work Log</h1>
         <p className="text-sm text-muted-foreground mt-1">
-          Record daily opening and closing trench meters for labourers
+          Record daily trench meters and other paid work for labourers
         </p>
       </div>
 
@@ -246,6 +413,7 @@ export default function WorkLogPage({ user }: WorkLogPageProps) {
               <Select value={selectedProjectId} onValueChange={(value) => {
                 setSelectedProjectId(value);
                 setWorkEntries([]);
+                setRowErrors({});
               }} disabled={projectsLoading}>
                 <SelectTrigger id="project" data-testid="select-project">
                   <SelectValue placeholder={projectsLoading ? "Loading projects..." : "Select a project"} />
@@ -289,10 +457,10 @@ export default function WorkLogPage({ user }: WorkLogPageProps) {
                 </div>
               ) : workEntries.length > 0 ? (
                 <div className="space-y-4">
-                  {!isToday && (
+                  {!isDateOpen && (
                     <div className="bg-yellow-50 dark:bg-yellow-950 border border-yellow-200 dark:border-yellow-800 rounded-md p-4">
                       <p className="text-sm text-yellow-800 dark:text-yellow-200">
-                        <strong>Historical Date Selected:</strong> You can only edit today's work logs. To modify historical data, please submit a correction request via the Audit Trail page.
+                        <strong>Historical Date Selected:</strong> You can only edit work logs for {describeWorkLogEntryWindow(entryWindow)}. To modify historical data, please submit a correction request via the Audit Trail page.
                       </p>
                     </div>
                   )}
@@ -303,13 +471,29 @@ export default function WorkLogPage({ user }: WorkLogPageProps) {
                           <TableHead>Labourer</TableHead>
                           <TableHead className="text-right">Open Trenching (m)</TableHead>
                           <TableHead className="text-right">Close Trenching (m)</TableHead>
+                          {customColumns.map((column) => (
+                            <TableHead key={column.categoryName} className="text-right">
+                              {column.categoryName} ({itemUnitLabels[column.unit]})
+                            </TableHead>
+                          ))}
                           <TableHead className="text-right">Daily Earnings</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
                         {workEntries.map((entry) => (
-                          <TableRow key={entry.labourerId} data-testid={`row-labourer-${entry.labourerId}`}>
-                            <TableCell className="font-medium">{entry.labourerName}</TableCell>
+                          <TableRow
+                            key={entry.labourerId}
+                            className={rowErrors[entry.labourerId] ? "bg-destructive/10" : undefined}
+                            data-testid={`row-labourer-${entry.labourerId}`}
+                          >
+                            <TableCell className="font-medium">
+                              {entry.labourerName}
+                              {rowErrors[entry.labourerId] && (
+                                <p className="text-xs text-destructive font-normal" data-testid={`text-row-error-${entry.labourerId}`}>
+                                  {rowErrors[entry.labourerId]}
+                                </p>
+                              )}
+                            </TableCell>
                             <TableCell className="text-right">
                               <Input
                                 type="number"
@@ -319,7 +503,7 @@ export default function WorkLogPage({ user }: WorkLogPageProps) {
                                 onChange={(e) => handleMeterChange(entry.labourerId, "openMeters", e.target.value)}
                                 className="w-28 text-right font-mono"
                                 data-testid={`input-open-meters-${entry.labourerId}`}
-                                disabled={!isToday}
+                                disabled={!isDateOpen}
                               />
                             </TableCell>
                             <TableCell className="text-right">
@@ -331,16 +515,46 @@ export default function WorkLogPage({ user }: WorkLogPageProps) {
                                 onChange={(e) => handleMeterChange(entry.labourerId, "closeMeters", e.target.value)}
                                 className="w-28 text-right font-mono"
                                 data-testid={`input-close-meters-${entry.labourerId}`}
-                                disabled={!isToday}
+                                disabled={!isDateOpen}
                               />
                             </TableCell>
+                            {customColumns.map((column) => {
+                              const rate = entry.itemRates[column.categoryName];
+                              const testId = `${column.categoryName.replace(/\W+/g, "-").toLowerCase()}-${entry.labourerId}`;
+                              return (
+                                <TableCell key={column.categoryName} className="text-right">
+                                  {!rate ? (
+                                    // Not paid to this labourer's employee type
+                                    <span className="text-muted-foreground">-</span>
+                                  ) : rate.unit === "per_meter" ? (
+                                    <Input
+                                      type="number"
+                                      step="0.1"
+                                      min="0"
+                                      value={entry.items[column.categoryName] ?? "0"}
+                                      onChange={(e) => handleItemChange(entry.labourerId, column.categoryName, e.target.value)}
+                                      className="w-28 text-right font-mono ml-auto"
+                                      data-testid={`input-item-${testId}`}
+                                      disabled={!isDateOpen}
+                                    />
+                                  ) : (
+                                    <Checkbox
+                                      checked={(parseFloat(entry.items[column.categoryName]) || 0) > 0}
+                                      onCheckedChange={(checked) => handleItemChange(entry.labourerId, column.categoryName, checked === true ? "1" : "0")}
+                                      data-testid={`checkbox-item-${testId}`}
+                                      disabled={!isDateOpen}
+                                    />
+                                  )}
+                                </TableCell>
+                              );
+                            })}
                             <TableCell className="text-right font-mono text-green-600 dark:text-green-400">
                               R {calculateEarnings(entry).toFixed(2)}
                             </TableCell>
                           </TableRow>
                         ))}
                         <TableRow className="bg-muted/50">
-                          <TableCell colSpan={3} className="font-semibold text-right">Total Daily Earnings:</TableCell>
+                          <TableCell colSpan={3 + customColumns.length} className="font-semibold text-right">Total Daily Earnings:</TableCell>
                           <TableCell className="text-right font-mono font-semibold text-green-600 dark:text-green-400">
                             R {totalDailyEarnings.toFixed(2)}
                           </TableCell>
@@ -352,12 +566,12 @@ export default function WorkLogPage({ user }: WorkLogPageProps) {
                   <div className="flex justify-end">
                     <Button
                       onClick={handleSave}
-                      disabled={!isToday || saveWorkLogsMutation.isPending}
+                      disabled={!isDateOpen || saveWorkLogsMutation.isPending}
                       data-testid="button-save-work-log"
                     >
                       {saveWorkLogsMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                       <Save className="mr-2 h-4 w-4" />
-                      {isToday ? "Save Work Log" : "Cannot Edit Historical Date"}
+                      {isDateOpen ? "Save Work Log" : "Cannot Edit Historical Date"}
                     </Button>
                   </div>
                 </div>
@@ -377,6 +591,97 @@ export default function WorkLogPage({ user }: WorkLogPageProps) {
         </CardContent>
       </Card>
 
+      {(queue.entries.length > 0 || !queue.isOnline) && (
+        <Card data-testid="card-offline-queue">
+          <CardHeader className="flex flex-row items-center justify-between gap-4">
+            <CardTitle className="flex items-center gap-2">
+              {!queue.isOnline && <CloudOff className="h-5 w-5 text-muted-foreground" />}
+              {queue.isOnline ? "Waiting to Sync" : "Offline"}
+            </CardTitle>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => queue.sync().catch(console.error)}
+              disabled={!queue.isOnline || queue.pending.length === 0}
+              data-testid="button-sync-now"
+            >
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Sync Now
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {queue.pending.length} work log(s) saved on this device
+              {queue.isOnline ? " and syncing." : ". They will sync automatically when the connection returns."}
+            </p>
+            {queue.needsAttention.map((entry) => (
+              <div
+                key={entry.key}
+                className="flex flex-col md:flex-row md:items-center justify-between gap-3 border rounded p-3"
+                data-testid={`queued-work-log-${entry.key}`}
+              >
+                <div className="space-y-1">
+                  <div className="font-medium flex items-center gap-2">
+                    {entry.labourerName}
+                    <Badge variant="destructive">
+                      {entry.conflict?.reason === "edited" ? "Changed on server" : entry.conflict ? "Already logged" : "Not saved"}
+                    </Badge>
+                  </div>
+                  <div className="text-sm text-muted-foreground">Yours: {describeQueued(entry)}</div>
+                  {entry.conflict && (
+                    <div className="text-sm text-muted-foreground">
+                      On server: {entry.conflict.existing.openTrenchingMeters} m open, {entry.conflict.existing.closeTrenchingMeters} m close
+                    </div>
+                  )}
+                  {!entry.conflict && entry.message && (
+                    <div className="text-sm text-destructive">{entry.message}</div>
+                  )}
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => removeQueuedWorkLog(entry.key).catch(console.error)}
+                    data-testid={`button-discard-${entry.key}`}
+                  >
+                    {entry.conflict ? "Keep Server Version" : "Discard"}
+                  </Button>
+                  {entry.conflict?.reason === "duplicate" && (
+                    <>
+                      <Button
+                        size="sm"
+                        onClick={() => retryQueuedWorkLog(entry, "replace").then(() => queue.sync()).catch(console.error)}
+                        data-testid={`button-replace-${entry.key}`}
+                      >
+                        Replace With Mine
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={() => retryQueuedWorkLog(entry, "add").then(() => queue.sync()).catch(console.error)}
+                        data-testid={`button-add-${entry.key}`}
+                      >
+                        Add Mine To It
+                      </Button>
+                    </>
+                  )}
+                  {entry.conflict?.reason === "edited" && can("work_log.edit") && (
+                    <Button
+                      size="sm"
+                      onClick={() => overwriteMutation.mutate(entry)}
+                      disabled={overwriteMutation.isPending}
+                      data-testid={`button-overwrite-${entry.key}`}
+                    >
+                      Keep Mine
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {selectedProject && (
         <Card>
           <CardHeader>
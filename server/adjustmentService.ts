@@ -0,0 +1,410 @@
+import { db } from "./db";
+import {
+  labourerAdvances,
+  paymentAdjustments,
+  paymentPeriodEntries,
+  paymentPeriods,
+  projects,
+  type InsertLabourerAdvance,
+  type InsertPaymentAdjustment,
+  type LabourerAdvance,
+  type PaymentAdjustment,
+  type PaymentAdjustmentType,
+  type PaymentPeriod,
+  type PaymentPeriodEntry,
+  type User,
+} from "@shared/schema";
+import { EDITABLE_PAYMENT_PERIOD_STATUSES } from "@shared/paymentPeriodWorkflow";
+import { endOfMonth } from "@shared/workDate";
+import {
+  calculateStatutoryDeductions,
+  EMPTY_UIF_MONTH_TO_DATE,
+  type StatutoryInput,
+  type UifMonthToDate,
+} from "@shared/statutory";
+import { and, eq, gt, gte, inArray, lt, lte, or } from "drizzle-orm";
+import { logAction, logCreate, logDelete } from "./auditService";
+import { getStatutoryContext } from "./statutoryService";
+
+/**
+ * Raised when an adjustment cannot be changed. Carries the HTTP status the route should respond with.
+ */
+export class AdjustmentError extends Error {
+  status: number;
+
+  constructor(message: string, status = 409) {
+    super(message);
+    this.name = "AdjustmentError";
+    this.status = status;
+    Object.setPrototypeOf(this, AdjustmentError.prototype);
+  }
+}
+
+// Either the shared db handle or the handle of an open transaction
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Bonuses are added to gross earnings; every other adjustment type is deducted
+const ADDITIVE_ADJUSTMENT_TYPES: PaymentAdjustmentType[] = ["bonus"];
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function signedAmount(adjustment: PaymentAdjustment): number {
+  const amount = Number(adjustment.amount);
+  return ADDITIVE_ADJUSTMENT_TYPES.includes(adjustment.type) ? amount : -amount;
+}
+
+/**
+ * Net amount payable for an entry. Entries created before adjustments existed have no net amount yet.
+ */
+export function getEntryNetAmount(entry: PaymentPeriodEntry): number {
+  return Number(entry.netAmount ?? entry.totalEarnings);
+}
+
+function assertPeriodEditable(period: PaymentPeriod): void {
+  if (!EDITABLE_PAYMENT_PERIOD_STATUSES.includes(period.status)) {
+    throw new AdjustmentError(`Adjustments cannot be changed while the payment period is ${period.status}`);
+  }
+}
+
+interface PeriodStatutoryInputs {
+  context: Omit<StatutoryInput, "remuneration" | "uifMonthToDate">;
+  uifMonthToDate: Map<string, UifMonthToDate>;
+}
+
+/**
+ * The statutory settings of the period's project, and the UIF each labourer already has in the month the period
+ * ends in. Periods of any project count when they end earlier in that month, or on the same day with a lower id,
+ * so two periods never both count each other.
+ */
+async function getPeriodStatutoryInputs(periodId: string, labourerIds: string[], executor: DbExecutor): Promise<PeriodStatutoryInputs> {
+  const [row] = await executor
+    .select({ period: paymentPeriods, project: projects })
+    .from(paymentPeriods)
+    .innerJoin(projects, eq(paymentPeriods.projectId, projects.id))
+    .where(eq(paymentPeriods.id, periodId));
+  const endDate = String(row.period.endDate);
+  const context = await getStatutoryContext(row.project, endDate);
+
+  const uifMonthToDate = new Map<string, UifMonthToDate>();
+  if (labourerIds.length === 0) return { context, uifMonthToDate };
+  const earlier = await executor
+    .select({ entry: paymentPeriodEntries })
+    .from(paymentPeriodEntries)
+    .innerJoin(paymentPeriods, eq(paymentPeriodEntries.periodId, paymentPeriods.id))
+    .where(and(
+      inArray(paymentPeriodEntries.labourerId, labourerIds),
+      gte(paymentPeriods.endDate, `${endDate.slice(0, 7)}-01`),
+      or(
+        lt(paymentPeriods.endDate, endDate),
+        and(eq(paymentPeriods.endDate, endDate), lt(paymentPeriods.id, periodId))
+      )
+    ));
+  for (const { entry } of earlier) {
+    const total = uifMonthToDate.get(entry.labourerId) ?? { ...EMPTY_UIF_MONTH_TO_DATE };
+    total.uifRemuneration = round2(total.uifRemuneration + Number(entry.uifRemuneration));
+    total.uifEmployee = round2(total.uifEmployee + Number(entry.uifEmployee));
+    total.uifEmployer = round2(total.uifEmployer + Number(entry.uifEmployer));
+    uifMonthToDate.set(entry.labourerId, total);
+  }
+  return { context, uifMonthToDate };
+}
+
+/**
+ * Roll approved adjustments and statutory deductions into each entry's gross-to-net columns and the period total.
+ * Later periods of the same month count this period's UIF, so those still editable are worked out again after it.
+ */
+export async function refreshPeriodNetTotals(periodId: string, executor: DbExecutor = db, refreshLater = true): Promise<PaymentPeriod> {
+  const entries = await executor
+    .select()
+    .from(paymentPeriodEntries)
+    .where(eq(paymentPeriodEntries.periodId, periodId));
+  const statutoryInputs = await getPeriodStatutoryInputs(periodId, entries.map(entry => entry.labourerId), executor);
+  const adjustments = await executor
+    .select()
+    .from(paymentAdjustments)
+    .where(and(eq(paymentAdjustments.periodId, periodId), eq(paymentAdjustments.status, "approved")));
+
+  let periodTotal = 0;
+  for (const entry of entries) {
+    const labourerAdjustments = adjustments.filter(a => a.labourerId === entry.labourerId);
+    const bonuses = round2(labourerAdjustments.filter(a => signedAmount(a) > 0).reduce((sum, a) => sum + Number(a.amount), 0));
+    const deductions = round2(labourerAdjustments.filter(a => signedAmount(a) < 0).reduce((sum, a) => sum + Number(a.amount), 0));
+    const statutory = calculateStatutoryDeductions({
+      ...statutoryInputs.context,
+      remuneration: Number(entry.totalEarnings) + bonuses,
+      uifMonthToDate: statutoryInputs.uifMonthToDate.get(entry.labourerId),
+    });
+    const net = round2(Number(entry.totalEarnings) + bonuses - deductions - statutory.uifEmployee - statutory.paye);
+    periodTotal += net;
+
+    await executor
+      .update(paymentPeriodEntries)
+      .set({
+        bonusesTotal: bonuses.toString(),
+        deductionsTotal: deductions.toString(),
+        uifRemuneration: statutory.uifRemuneration.toString(),
+        uifEmployee: statutory.uifEmployee.toString(),
+        uifEmployer: statutory.uifEmployer.toString(),
+        sdlAmount: statutory.sdl.toString(),
+        payeAmount: statutory.paye.toString(),
+        netAmount: net.toString(),
+      })
+      .where(eq(paymentPeriodEntries.id, entry.id));
+  }
+
+  const [period] = await executor
+    .update(paymentPeriods)
+    .set({ totalAmount: round2(periodTotal).toString(), updatedAt: new Date() })
+    .where(eq(paymentPeriods.id, periodId))
+    .returning();
+
+  if (refreshLater && entries.length > 0) {
+    const endDate = String(period.endDate);
+    const later = await executor
+      .selectDistinct({ id: paymentPeriods.id, endDate: paymentPeriods.endDate })
+      .from(paymentPeriods)
+      .innerJoin(paymentPeriodEntries, eq(paymentPeriodEntries.periodId, paymentPeriods.id))
+      .where(and(
+        inArray(paymentPeriodEntries.labourerId, entries.map(entry => entry.labourerId)),
+        inArray(paymentPeriods.status, EDITABLE_PAYMENT_PERIOD_STATUSES),
+        lte(paymentPeriods.endDate, endOfMonth(endDate)),
+        or(
+          gt(paymentPeriods.endDate, endDate),
+          and(eq(paymentPeriods.endDate, endDate), gt(paymentPeriods.id, periodId))
+        )
+      ))
+      .orderBy(paymentPeriods.endDate, paymentPeriods.id);
+    for (const { id } of later) {
+      await refreshPeriodNetTotals(id, executor, false);
+    }
+  }
+  return period;
+}
+
+/**
+ * Amount of an advance still to be recovered, counting approved repayments in every period
+ */
+async function getOutstandingAdvance(advance: LabourerAdvance, executor: DbExecutor): Promise<number> {
+  const repayments = await executor
+    .select()
+    .from(paymentAdjustments)
+    .where(and(eq(paymentAdjustments.advanceId, advance.id), eq(paymentAdjustments.status, "approved")));
+  const recovered = repayments.reduce((sum, r) => sum + Number(r.amount), 0);
+  return round2(Number(advance.amount) - recovered);
+}
+
+/**
+ * Schedule the next instalment of every active advance against the period's entries.
+ * An instalment never takes a labourer's net pay (after UIF and PAYE) below zero; whatever is left rolls into later periods.
+ */
+export async function scheduleAdvanceRepayments(
+  periodId: string,
+  userId: string,
+  executor: DbExecutor = db
+): Promise<PaymentAdjustment[]> {
+  const entries = await executor
+    .select()
+    .from(paymentPeriodEntries)
+    .where(eq(paymentPeriodEntries.periodId, periodId));
+  if (entries.length === 0) return [];
+
+  const advances = await executor
+    .select()
+    .from(labourerAdvances)
+    .where(and(
+      eq(labourerAdvances.status, "active"),
+      inArray(labourerAdvances.labourerId, entries.map(e => e.labourerId))
+    ))
+    .orderBy(labourerAdvances.createdAt);
+  if (advances.length === 0) return [];
+
+  const periodAdjustments = await executor
+    .select()
+    .from(paymentAdjustments)
+    .where(and(eq(paymentAdjustments.periodId, periodId), eq(paymentAdjustments.status, "approved")));
+
+  const statutoryInputs = await getPeriodStatutoryInputs(periodId, entries.map(entry => entry.labourerId), executor);
+  const scheduled: PaymentAdjustment[] = [];
+  for (const entry of entries) {
+    const current = periodAdjustments.filter(a => a.labourerId === entry.labourerId);
+    const bonuses = current.filter(a => signedAmount(a) > 0).reduce((sum, a) => sum + Number(a.amount), 0);
+    const statutory = calculateStatutoryDeductions({
+      ...statutoryInputs.context,
+      remuneration: Number(entry.totalEarnings) + bonuses,
+      uifMonthToDate: statutoryInputs.uifMonthToDate.get(entry.labourerId),
+    });
+    let available = round2(
+      Number(entry.totalEarnings) + current.reduce((sum, a) => sum + signedAmount(a), 0) - statutory.uifEmployee - statutory.paye
+    );
+
+    for (const advance of advances.filter(a => a.labourerId === entry.labourerId)) {
+      // Already scheduled for this period (e.g. the period is being recalculated)
+      if (current.some(a => a.advanceId === advance.id)) continue;
+
+      const outstanding = await getOutstandingAdvance(advance, executor);
+      if (outstanding <= 0) {
+        await executor
+          .update(labourerAdvances)
+          .set({ status: "settled", updatedAt: new Date() })
+          .where(eq(labourerAdvances.id, advance.id));
+        continue;
+      }
+
+      const instalment = round2(Math.min(Number(advance.instalmentAmount), outstanding, Math.max(available, 0)));
+      if (instalment <= 0) continue;
+
+      const [repayment] = await executor
+        .insert(paymentAdjustments)
+        .values({
+          periodId,
+          labourerId: entry.labourerId,
+          type: "advance_repayment",
+          amount: instalment.toString(),
+          reason: `Advance repayment: ${advance.reason}`,
+          advanceId: advance.id,
+          status: "approved",
+          createdBy: userId,
+          approvedBy: userId,
+          approvedAt: new Date(),
+        })
+        .returning();
+      scheduled.push(repayment);
+      available = round2(available - instalment);
+
+      if (instalment >= outstanding) {
+        await executor
+          .update(labourerAdvances)
+          .set({ status: "settled", updatedAt: new Date() })
+          .where(eq(labourerAdvances.id, advance.id));
+      }
+    }
+  }
+
+  return scheduled;
+}
+
+/**
+ * Add an adjustment to a labourer's entry. It only affects net pay once approved.
+ */
+export async function createAdjustment(
+  period: PaymentPeriod,
+  entry: PaymentPeriodEntry,
+  data: Pick<InsertPaymentAdjustment, "type" | "amount" | "reason">,
+  user: User
+): Promise<PaymentAdjustment> {
+  assertPeriodEditable(period);
+  if (data.type === "advance_repayment") {
+    throw new AdjustmentError("Advance repayments are scheduled automatically from recorded advances", 400);
+  }
+
+  const [adjustment] = await db
+    .insert(paymentAdjustments)
+    .values({
+      periodId: period.id,
+      labourerId: entry.labourerId,
+      type: data.type,
+      amount: data.amount,
+      reason: data.reason,
+      createdBy: user.id,
+    })
+    .returning();
+
+  await logCreate("payment_adjustment", adjustment.id, user.id, adjustment as any, { periodId: period.id }).catch(console.error);
+  return adjustment;
+}
+
+/**
+ * Approve or reject a pending adjustment and refresh the period's net totals
+ */
+export async function reviewAdjustment(
+  period: PaymentPeriod,
+  adjustment: PaymentAdjustment,
+  status: "approved" | "rejected",
+  user: User
+): Promise<PaymentAdjustment> {
+  assertPeriodEditable(period);
+  if (adjustment.status !== "pending") {
+    throw new AdjustmentError(`Adjustment has already been ${adjustment.status}`);
+  }
+  if (adjustment.createdBy === user.id) {
+    throw new AdjustmentError("Adjustments must be reviewed by someone other than their creator", 403);
+  }
+
+  const updated = await db.transaction(async (tx) => {
+    const [result] = await tx
+      .update(paymentAdjustments)
+      .set({ status, approvedBy: user.id, approvedAt: new Date() })
+      .where(and(eq(paymentAdjustments.id, adjustment.id), eq(paymentAdjustments.status, "pending")))
+      .returning();
+    if (!result) {
+      throw new AdjustmentError("Adjustment was reviewed by someone else. Refresh and try again.");
+    }
+    await refreshPeriodNetTotals(period.id, tx);
+    return result;
+  });
+
+  await logAction(status === "approved" ? "APPROVE" : "REJECT", "payment_adjustment", adjustment.id, user.id, {
+    periodId: period.id,
+    labourerId: adjustment.labourerId,
+    type: adjustment.type,
+    amount: adjustment.amount,
+  }).catch(console.error);
+  return updated;
+}
+
+/**
+ * Remove an adjustment from a period that is still being prepared
+ */
+export async function deleteAdjustment(period: PaymentPeriod, adjustment: PaymentAdjustment, user: User): Promise<void> {
+  assertPeriodEditable(period);
+
+  await db.transaction(async (tx) => {
+    await tx.delete(paymentAdjustments).where(eq(paymentAdjustments.id, adjustment.id));
+    await refreshPeriodNetTotals(period.id, tx);
+  });
+
+  await logDelete("payment_adjustment", adjustment.id, user.id, adjustment as any, { periodId: period.id }).catch(console.error);
+}
+
+/**
+ * Record a cash advance; it is recovered automatically from the labourer's next payment periods
+ */
+export async function createAdvance(
+  data: Pick<InsertLabourerAdvance, "labourerId" | "amount" | "instalmentAmount" | "reason">,
+  user: User
+): Promise<LabourerAdvance> {
+  if (Number(data.instalmentAmount) <= 0 || Number(data.amount) <= 0) {
+    throw new AdjustmentError("Advance and instalment amounts must be greater than zero", 400);
+  }
+  if (Number(data.instalmentAmount) > Number(data.amount)) {
+    throw new AdjustmentError("Instalment cannot be larger than the advance", 400);
+  }
+
+  const [advance] = await db
+    .insert(labourerAdvances)
+    .values({ ...data, createdBy: user.id })
+    .returning();
+
+  await logCreate("labourer_advance", advance.id, user.id, advance as any).catch(console.error);
+  return advance;
+}
+
+/**
+ * A labourer's advances with how much of each has been recovered so far
+ */
+export async function getAdvancesWithBalances(
+  labourerId: string
+): Promise<Array<LabourerAdvance & { recovered: number; outstanding: number }>> {
+  const advances = await db
+    .select()
+    .from(labourerAdvances)
+    .where(eq(labourerAdvances.labourerId, labourerId))
+    .orderBy(labourerAdvances.createdAt);
+
+  return Promise.all(advances.map(async (advance) => {
+    const outstanding = await getOutstandingAdvance(advance, db);
+    return { ...advance, recovered: round2(Number(advance.amount) - outstanding), outstanding };
+  }));
+}
@@ -1,13 +1,13 @@
 import { db } from "./db";
 import { auditLogs, users } from "@shared/schema";
-import type { InsertAuditLog } from "@shared/schema";
+import type { AuditLog, InsertAuditLog } from "@shared/schema";
 import { eq } from "drizzle-orm";
 
 interface AuditLogData {
-  action: "CREATE" | "UPDATE" | "DELETE" | "ASSIGN" | "SUBMIT" | "APPROVE" | "REJECT";
+  action: AuditLog["action"];
   entityType: string;
   entityId: string;
-  userId: string;
+  userId: string | null; // null for anonymous events such as failed logins
   changes?: Record<string, any>;
   metadata?: Record<string, any>;
 }
@@ -44,7 +44,9 @@ async function getUserInfo(userId: string) {
  */
 export async function logAuditEvent(data: AuditLogData): Promise<void> {
   try {
-    const userInfo = await getUserInfo(data.userId);
+    const userInfo = data.userId
+      ? await getUserInfo(data.userId)
+      : { userName: null, userEmail: null };
     
     const auditLogData: InsertAuditLog = {
       action: data.action,
@@ -1,12 +1,14 @@
 import { Strategy as GoogleStrategy } from "passport-google-oauth20";
 import { Strategy as LocalStrategy } from "passport-local";
-import bcrypt from "bcrypt";
 
 import passport from "passport";
 import session from "express-session";
 import type { Express, RequestHandler } from "express";
 import connectPg from "connect-pg-simple";
 import { storage } from "./storage";
+import { verifyLabourerCredentials } from "./labourerAuthService";
+import { completeStaffSignIn, resolveStaffAccess } from "./staffAccessService";
+import { getClientIp, recordLoginAttempt, throttleLogin } from "./loginThrottleService";
 
 // Extend session data to include labourer session properties
 declare module 'express-session' {
@@ -43,57 +45,20 @@ export function getSession() {
   });
 }
 
-// Domain restriction check
-function isAllowedDomain(email: string | null | undefined): boolean {
-  if (!email) return false;
-  const allowedDomains = ["@mooya.co.za", "@mooyawireless.co.za", "@xnext.co.za"];
-  return allowedDomains.some(domain => email.endsWith(domain));
-}
-
 async function upsertUser(profile: any) {
-  // Check if email is from allowed domain
-  if (!isAllowedDomain(profile.emails?.[0]?.value)) {
-    throw new Error("Access restricted to @mooya.co.za, @mooyawireless.co.za, and @xnext.co.za email addresses");
-  }
-
-  const userId = profile.id;
+  // Allowed domains, invitations and SUPER_ADMIN_EMAILS decide who may sign in and with which role
   const email = profile.emails?.[0]?.value;
-  
-  // IMPORTANT: Look up user by email (not Google ID) to handle account changes
-  // This ensures existing users keep their roles when their Google ID changes
-  const existingUser = await storage.getUserByEmail(email);
-  
-  // Determine role priority:
-  // 1. Super Admin for kholofelo@mooya.co.za (ALWAYS - cannot be overridden)
-  // 2. Existing user role (if user exists)
-  // 3. Default based on email domain:
-  //    - @xnext.co.za → admin
-  //    - @mooya.co.za, @mooyawireless.co.za → supervisor
-  let role: string;
-  
-  if (email === "kholofelo@mooya.co.za") {
-    // kholofelo is always super_admin, cannot be overridden
-    role = "super_admin";
-  } else if (existingUser?.role) {
-    // Keep existing role
-    role = existingUser.role;
-  } else {
-    // New user - assign default based on email domain
-    if (email?.endsWith("@xnext.co.za")) {
-      role = "admin";
-    } else {
-      role = "supervisor";
-    }
-  }
-  
-  await storage.upsertUser({
-    id: userId,
+  const access = await resolveStaffAccess(email);
+
+  const user = await storage.upsertUser({
+    id: profile.id,
     email: email,
     firstName: profile.name?.givenName,
     lastName: profile.name?.familyName,
     profileImageUrl: profile.photos?.[0]?.value,
-    role: role as any,
+    role: access.role,
   });
+  await completeStaffSignIn(access, user);
 }
 
 export async function setupAuth(app: Express) {
@@ -134,35 +99,21 @@ export async function setupAuth(app: Express) {
   passport.use('labourer-local', new LocalStrategy(
     {
       usernameField: 'identifier', // phone or email
-      passwordField: 'password', // RSA ID or passport
+      passwordField: 'password', // PIN
     },
     async (identifier, password, done) => {
       try {
-        // Find labourer by phone or email
-        const labourer = await storage.getLabourerByPhoneOrEmail(identifier);
-        
-        if (!labourer) {
-          return done(null, false, { message: 'Invalid credentials' });
-        }
-
-        // Check if password hash exists
-        if (!labourer.passwordHash) {
-          return done(null, false, { message: 'Account not set up for login. Please contact your supervisor.' });
-        }
-
-        // Verify password (RSA ID or Passport)
-        const isValid = await bcrypt.compare(password, labourer.passwordHash);
-        
-        if (!isValid) {
-          return done(null, false, { message: 'Invalid credentials' });
+        const result = await verifyLabourerCredentials(identifier, password);
+        if (!result.ok) {
+          return done(null, false, { message: result.message, status: result.status, labourerId: result.labourerId } as any);
         }
 
         // Return labourer info for session
         return done(null, {
-          labourerId: labourer.id,
+          labourerId: result.labourer.id,
           isLabourerSession: true,
-          firstName: labourer.firstName,
-          surname: labourer.surname,
+          firstName: result.labourer.firstName,
+          surname: result.labourer.surname,
         });
       } catch (error) {
         return done(error);
@@ -173,19 +124,30 @@ export async function setupAuth(app: Express) {
   passport.serializeUser((user: Express.User, cb) => cb(null, user));
   passport.deserializeUser((user: Express.User, cb) => cb(null, user));
 
-  app.get("/api/login", passport.authenticate('google', {
+  app.get("/api/login", throttleLogin(), passport.authenticate('google', {
     scope: ['profile', 'email']
   }));
 
-  app.get("/api/callback", 
-    passport.authenticate('google', { 
-      failureRedirect: '/login',
-    }),
-    (req, res) => {
-      // Successful authentication, redirect to home
-      res.redirect('/');
-    }
-  );
+  app.get("/api/callback", throttleLogin(), (req, res, next) => {
+    passport.authenticate('google', async (err: any, user: any) => {
+      const ipAddress = getClientIp(req);
+      if (err || !user) {
+        // Includes sign-ins from email domains that are not allowed
+        await recordLoginAttempt({ flow: "staff", ipAddress, success: false, reason: err?.message || "Google sign-in failed" })
+          .catch(console.error);
+        return res.redirect('/login');
+      }
+
+      req.logIn(user, (err) => {
+        if (err) {
+          return next(err);
+        }
+        recordLoginAttempt({ flow: "staff", identifier: user.email, ipAddress, success: true }).catch(console.error);
+        // Successful authentication, redirect to home
+        res.redirect('/');
+      });
+    })(req, res, next);
+  });
 
   app.get("/api/logout", (req, res) => {
     req.logout(() => {
@@ -194,14 +156,18 @@ export async function setupAuth(app: Express) {
   });
 
   // Labourer login routes
-  app.post("/api/labourer/login", (req, res, next) => {
-    passport.authenticate('labourer-local', (err: any, user: any, info: any) => {
+  app.post("/api/labourer/login", throttleLogin(req => req.body?.identifier), (req, res, next) => {
+    passport.authenticate('labourer-local', async (err: any, user: any, info: any) => {
       if (err) {
         return next(err);
       }
+      const attempt = { flow: "labourer" as const, identifier: req.body?.identifier, ipAddress: getClientIp(req) };
       if (!user) {
-        return res.status(401).json({ message: info?.message || 'Invalid credentials' });
+        await recordLoginAttempt({ ...attempt, success: false, reason: info?.message, labourerId: info?.labourerId })
+          .catch(console.error);
+        return res.status(info?.status || 401).json({ message: info?.message || 'Invalid credentials' });
       }
+      recordLoginAttempt({ ...attempt, success: true }).catch(console.error);
       
       // Regenerate session to prevent session fixation attacks
       req.session.regenerate((err) => {
@@ -271,6 +237,9 @@ export const isLabourerAuthenticated: RequestHandler = async (req, res, next) =>
     if (!labourer) {
       return res.status(401).json({ message: "Labourer not found" });
     }
+    if (!labourer.isActive) {
+      return res.status(401).json({ message: "Your account has been deactivated" });
+    }
     (req as any).labourer = labourer;
     next();
   } catch (error) {
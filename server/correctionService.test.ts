@@ -0,0 +1,58 @@
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+import { paymentPeriods, projects, users, type PaymentPeriod, type User } from "@shared/schema";
+import { db } from "./db";
+import { storage } from "./storage";
+import { applyCorrectionRequest } from "./correctionService";
+import { PaymentPeriodWorkflowError } from "./paymentPeriodService";
+import { prepareTestDatabase } from "./testDatabase";
+
+let reviewer: User;
+let january: PaymentPeriod;
+let february: PaymentPeriod;
+
+async function requestPeriodCorrection(fieldName: "startDate" | "endDate", oldValue: string, newValue: string) {
+  return storage.createCorrectionRequest({
+    entityType: "payment_period",
+    entityId: january.id,
+    fieldName,
+    oldValue,
+    newValue,
+    reason: "Wrong dates",
+    requestedBy: reviewer.id,
+  });
+}
+
+before(async () => {
+  await prepareTestDatabase();
+  [reviewer] = await db.insert(users).values({ email: "reviewer@corrections.test", role: "super_admin" }).returning();
+  const [project] = await db.insert(projects).values({ name: "Corrections", createdBy: reviewer.id }).returning();
+  [january, february] = await db
+    .insert(paymentPeriods)
+    .values([
+      { projectId: project.id, startDate: "2026-01-01", endDate: "2026-01-31" },
+      { projectId: project.id, startDate: "2026-02-01", endDate: "2026-02-28" },
+    ])
+    .returning();
+});
+
+test("a payment period correction that overlaps another period is refused and nothing is written", async () => {
+  const request = await requestPeriodCorrection("endDate", january.endDate, "2026-02-10");
+  await assert.rejects(applyCorrectionRequest(request, reviewer.id), PaymentPeriodWorkflowError);
+
+  assert.equal((await storage.getPaymentPeriod(january.id))?.endDate, "2026-01-31");
+  assert.equal((await storage.getCorrectionRequest(request.id))?.status, "pending");
+});
+
+test("a payment period correction that inverts the range is refused", async () => {
+  const request = await requestPeriodCorrection("startDate", january.startDate, "2026-02-05");
+  await assert.rejects(applyCorrectionRequest(request, reviewer.id), /start date must be on or before its end date/);
+});
+
+test("a payment period correction that keeps the range valid is applied", async () => {
+  const request = await requestPeriodCorrection("endDate", january.endDate, "2026-01-30");
+  await applyCorrectionRequest(request, reviewer.id);
+
+  assert.equal((await storage.getPaymentPeriod(january.id))?.endDate, "2026-01-30");
+  assert.equal((await storage.getPaymentPeriod(february.id))?.startDate, "2026-02-01");
+});
@@ -0,0 +1,201 @@
+import { db } from "./db";
+import {
+  workLogs,
+  labourers,
+  projects,
+  paymentPeriods,
+  correctionRequests,
+  workLogInputSchema,
+  updateLabourerSchema,
+  insertProjectSchema,
+  insertPaymentPeriodSchema,
+  type CorrectionRequest,
+} from "@shared/schema";
+import { and, eq, ne } from "drizzle-orm";
+import type { ZodTypeAny } from "zod";
+import { logUpdate } from "./auditService";
+import { calculateWorkLogEarnings } from "./earningsService";
+import { assertValidPeriodRange, assertWorkDateUnlocked, PaymentPeriodWorkflowError } from "./paymentPeriodService";
+import { LOCKED_PAYMENT_PERIOD_STATUSES } from "@shared/paymentPeriodWorkflow";
+
+/**
+ * Raised when a correction cannot be applied because the data changed since it was requested
+ */
+export class CorrectionConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CorrectionConflictError";
+    Object.setPrototypeOf(this, CorrectionConflictError.prototype);
+  }
+}
+
+// Either the shared db handle or the handle of an open transaction
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+type CorrectableTable = typeof workLogs | typeof labourers | typeof projects | typeof paymentPeriods;
+
+interface CorrectableEntity<TTable extends CorrectableTable = CorrectableTable> {
+  table: TTable;
+  schema: ZodTypeAny;
+  fields: string[];
+  // Checks and derived fields for the corrected record, run inside the transaction before it is written
+  prepare(tx: DbExecutor, current: TTable["$inferSelect"], update: Record<string, any>, request: CorrectionRequest): Promise<void>;
+}
+
+function correctable<TTable extends CorrectableTable>(entity: CorrectableEntity<TTable>): CorrectableEntity<TTable> {
+  return entity;
+}
+
+// Fields that may be changed through a correction request, per entity type
+const CORRECTABLE_ENTITIES: Record<string, CorrectableEntity> = {
+  work_log: correctable({
+    table: workLogs,
+    schema: workLogInputSchema.partial(),
+    fields: ["openTrenchingMeters", "closeTrenchingMeters", "workDate"],
+    // Work log pay must follow the corrected meters/date
+    async prepare(tx, log, update, request) {
+      const merged = { ...log, ...update };
+      // Neither the original nor the corrected date may fall in an approved or paid period
+      await assertWorkDateUnlocked(log.projectId, log.workDate, tx);
+      await assertWorkDateUnlocked(merged.projectId, String(merged.workDate).split("T")[0], tx);
+      if (request.fieldName === "workDate") {
+        const [occupied] = await tx
+          .select({ id: workLogs.id })
+          .from(workLogs)
+          .where(and(
+            eq(workLogs.labourerId, merged.labourerId),
+            eq(workLogs.projectId, merged.projectId),
+            eq(workLogs.workDate, String(merged.workDate).split("T")[0]),
+            ne(workLogs.id, log.id),
+          ));
+        if (occupied) {
+          throw new CorrectionConflictError("The labourer already has a work log for the corrected date. Correct that log instead.");
+        }
+      }
+      const earnings = await calculateWorkLogEarnings({
+        projectId: merged.projectId,
+        labourerId: merged.labourerId,
+        workDate: String(merged.workDate).split("T")[0],
+        openTrenchingMeters: merged.openTrenchingMeters,
+        closeTrenchingMeters: merged.closeTrenchingMeters,
+        additionalItems: merged.additionalItems,
+      }, tx);
+      update.totalEarnings = earnings.totalEarnings;
+      update.appliedRateIds = earnings.appliedRateIds;
+    },
+  }),
+  labourer: correctable({
+    table: labourers,
+    schema: updateLabourerSchema,
+    fields: ["firstName", "surname", "contactNumber", "email", "physicalAddress", "bankName", "accountNumber", "branchCode"],
+    async prepare(_tx, _labourer, update) {
+      update.updatedAt = new Date();
+    },
+  }),
+  project: correctable({
+    table: projects,
+    schema: insertProjectSchema.partial(),
+    fields: ["name", "location", "budget"],
+    async prepare(_tx, _project, update) {
+      update.updatedAt = new Date();
+    },
+  }),
+  payment_period: correctable({
+    table: paymentPeriods,
+    schema: insertPaymentPeriodSchema.partial(),
+    fields: ["startDate", "endDate"],
+    async prepare(tx, period, update) {
+      if (LOCKED_PAYMENT_PERIOD_STATUSES.includes(period.status)) {
+        throw new PaymentPeriodWorkflowError(`Payment period is ${period.status} and can no longer be changed`);
+      }
+      // The corrected range is checked in the same transaction that writes it, like a direct edit of the period
+      await assertValidPeriodRange(period.projectId, update.startDate ?? period.startDate, update.endDate ?? period.endDate, period.id, tx);
+      update.updatedAt = new Date();
+    },
+  }),
+};
+
+/**
+ * Compare the stored value with the value captured when the correction was requested.
+ * Numbers are compared numerically so "12.5" matches a stored "12.50".
+ */
+function valuesMatch(current: unknown, expected: string | null): boolean {
+  const currentStr = current === null || current === undefined ? "" : String(current);
+  const expectedStr = expected ?? "";
+
+  if (currentStr.trim() === expectedStr.trim()) return true;
+
+  const currentNum = Number(currentStr);
+  const expectedNum = Number(expectedStr);
+  return currentStr.trim() !== "" && expectedStr.trim() !== ""
+    && Number.isFinite(currentNum) && Number.isFinite(expectedNum)
+    && currentNum === expectedNum;
+}
+
+/**
+ * Apply an approved correction request to its target entity and mark the request approved.
+ * The entity update and the request status change are committed in a single transaction.
+ */
+export async function applyCorrectionRequest(
+  request: CorrectionRequest,
+  reviewerId: string,
+  reviewNotes?: string | null
+): Promise<CorrectionRequest> {
+  const entity = CORRECTABLE_ENTITIES[request.entityType];
+  if (!entity) {
+    throw new Error(`Corrections cannot be applied to entity type "${request.entityType}"`);
+  }
+  if (!entity.fields.includes(request.fieldName)) {
+    throw new Error(`Field "${request.fieldName}" cannot be changed through a correction request`);
+  }
+
+  // Re-validate the new value against the entity's insert schema
+  const update: Record<string, any> = entity.schema.parse({ [request.fieldName]: request.newValue });
+
+  const result = await db.transaction(async (tx) => {
+    const [current] = await tx
+      .select()
+      .from(entity.table)
+      .where(eq(entity.table.id, request.entityId))
+      .for("update");
+
+    if (!current) {
+      throw new Error("The record referenced by this correction request no longer exists");
+    }
+
+    const currentValues: Record<string, unknown> = current;
+    if (!valuesMatch(currentValues[request.fieldName], request.oldValue)) {
+      throw new CorrectionConflictError(
+        `Current value of ${request.fieldName} no longer matches the requested old value. Ask the requester to submit a new correction.`
+      );
+    }
+
+    await entity.prepare(tx, current, update, request);
+
+    const [updated] = await tx
+      .update(entity.table)
+      .set(update)
+      .where(eq(entity.table.id, request.entityId))
+      .returning();
+
+    const [approved] = await tx
+      .update(correctionRequests)
+      .set({
+        status: "approved",
+        reviewedBy: reviewerId,
+        reviewedAt: new Date(),
+        reviewNotes: reviewNotes ?? null,
+      })
+      .where(eq(correctionRequests.id, request.id))
+      .returning();
+
+    return { before: currentValues, after: updated, approved };
+  });
+
+  await logUpdate(request.entityType, request.entityId, reviewerId, result.before, result.after, {
+    correctionRequestId: request.id,
+    fieldName: request.fieldName,
+  }).catch(console.error);
+
+  return result.approved;
+}
@@ -1,15 +1,33 @@
+import { createRequire } from "module";
 import { Pool, neonConfig } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-serverless';
+import { drizzle, type NeonDatabase } from 'drizzle-orm/neon-serverless';
 import ws from "ws";
 import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
+// Tests run against an in-memory PGlite database (see server/testDatabase.ts); it is a dev dependency,
+// so it is only loaded here
+function createTestDatabase(): NeonDatabase<typeof schema> {
+  const require = createRequire(import.meta.url);
+  const { PGlite } = require("@electric-sql/pglite");
+  const { drizzle: drizzlePglite } = require("drizzle-orm/pglite");
+  return drizzlePglite(new PGlite(), { schema });
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
\ No newline at end of file
+function createDatabase(): NeonDatabase<typeof schema> {
+  if (process.env.NODE_ENV === "test") {
+    return createTestDatabase();
+  }
+
+  if (!process.env.DATABASE_URL) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database?",
+    );
+  }
+
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+  return drizzle({ client: pool, schema });
+}
+
+export const db = createDatabase();
@@ -0,0 +1,101 @@
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+import { employeeTypes, payRates, projects, users, type Labourer } from "@shared/schema";
+import { db } from "./db";
+import { storage } from "./storage";
+import { calculateWorkLogEarnings, EarningsCalculationError } from "./earningsService";
+import { prepareTestDatabase } from "./testDatabase";
+
+let projectId: string;
+let labourer: Labourer;
+let unratedLabourer: Labourer;
+
+before(async () => {
+  await prepareTestDatabase();
+  const [owner] = await db.insert(users).values({ email: "owner@earnings.test", role: "super_admin" }).returning();
+  const [worker, driver] = await db
+    .insert(employeeTypes)
+    .values([{ name: "General Worker" }, { name: "Driver" }])
+    .returning();
+  [{ id: projectId }] = await db.insert(projects).values({ name: "Earnings", createdBy: owner.id }).returning();
+
+  const rate = (category: "open_trenching" | "close_trenching" | "custom", unit: "per_meter" | "per_day" | "fixed", amount: string, effectiveDate: string, categoryName?: string) => ({
+    projectId,
+    employeeTypeId: worker.id,
+    category,
+    categoryName,
+    unit,
+    amount,
+    effectiveDate,
+    createdBy: owner.id,
+  });
+  await db.insert(payRates).values([
+    rate("open_trenching", "per_meter", "12.50", "2026-01-01"),
+    rate("open_trenching", "per_meter", "15.00", "2026-03-01"),
+    rate("close_trenching", "per_day", "300.00", "2026-01-01"),
+    rate("custom", "fixed", "150.00", "2026-01-01", "Cable pulling"),
+  ]);
+
+  const details = {
+    projectId,
+    idDocumentType: "passport" as const,
+    idIssuingCountry: "ZWE",
+    dateOfBirth: "1990-01-01",
+    contactNumber: "0821234567",
+    bankName: "Test Bank",
+    accountType: "savings" as const,
+    branchCode: "250655",
+    createdBy: owner.id,
+  };
+  labourer = await storage.createLabourer({ ...details, employeeTypeId: worker.id, firstName: "Thabo", surname: "Nkosi", idNumber: "P1234567", accountNumber: "100000001" });
+  unratedLabourer = await storage.createLabourer({ ...details, employeeTypeId: driver.id, firstName: "Sipho", surname: "Dlamini", idNumber: "P7654321", accountNumber: "100000002" });
+});
+
+function earnings(workDate: string, quantities: { open?: number; close?: number; additionalItems?: unknown }, forLabourer = labourer) {
+  return calculateWorkLogEarnings({
+    projectId,
+    labourerId: forLabourer.id,
+    workDate,
+    openTrenchingMeters: quantities.open,
+    closeTrenchingMeters: quantities.close,
+    additionalItems: quantities.additionalItems,
+  });
+}
+
+test("each rate unit prices its quantity", async () => {
+  const result = await earnings("2026-02-10", { open: 10, close: 4, additionalItems: [{ categoryName: "Cable pulling", quantity: 3 }] });
+
+  // Per meter multiplies; per day and fixed pay once for any work recorded
+  assert.deepEqual(result.lines.map(line => [line.unit, line.quantity, line.amount]), [
+    ["per_meter", 10, 125],
+    ["per_day", 4, 300],
+    ["fixed", 3, 150],
+  ]);
+  assert.equal(result.totalEarnings, "575.00");
+  assert.equal(result.appliedRateIds.length, 3);
+});
+
+test("per-meter amounts are rounded to the cent", async () => {
+  const result = await earnings("2026-02-10", { open: 3.333 });
+  assert.equal(result.totalEarnings, "41.66");
+});
+
+test("the rate effective on the work date applies", async () => {
+  assert.equal((await earnings("2026-02-28", { open: 10 })).totalEarnings, "125.00");
+  assert.equal((await earnings("2026-03-01", { open: 10 })).totalEarnings, "150.00");
+});
+
+test("work without an effective rate is refused", async () => {
+  await assert.rejects(earnings("2025-12-31", { open: 10 }), EarningsCalculationError);
+  await assert.rejects(earnings("2026-02-10", { additionalItems: [{ categoryName: "Blasting", quantity: 1 }] }), /No Blasting pay rate/);
+  await assert.rejects(earnings("2026-02-10", { close: 1 }, unratedLabourer), /No close trenching pay rate/);
+});
+
+test("nothing recorded needs no rate", async () => {
+  const result = await earnings("2025-12-31", { open: 0, close: 0 }, unratedLabourer);
+  assert.deepEqual([result.totalEarnings, result.lines], ["0.00", []]);
+});
+
+test("negative quantities are refused", async () => {
+  await assert.rejects(earnings("2026-02-10", { open: -1 }), /Open trenching meters must be a non-negative number/);
+});
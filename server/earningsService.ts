@@ -0,0 +1,210 @@
+import { db } from "./db";
+import { storage } from "./storage";
+import type { AdditionalWorkItem, PayRate, WorkLog } from "@shared/schema";
+import { toDateOnly } from "@shared/workDate";
+
+// Either the shared db handle or the handle of an open transaction
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface WorkLogEarningsInput {
+  projectId: string;
+  labourerId: string;
+  workDate: string;
+  openTrenchingMeters?: string | number | null;
+  closeTrenchingMeters?: string | number | null;
+  additionalItems?: unknown;
+}
+
+export interface EarningsLine {
+  payRateId: string;
+  category: PayRate["category"];
+  categoryName: string | null;
+  unit: PayRate["unit"];
+  rate: number;
+  quantity: number;
+  amount: number;
+}
+
+export interface WorkLogEarnings {
+  totalEarnings: string;
+  appliedRateIds: string[];
+  lines: EarningsLine[];
+}
+
+/**
+ * Raised when a work log cannot be priced (missing labourer, missing rate, bad input)
+ */
+export class EarningsCalculationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EarningsCalculationError";
+    Object.setPrototypeOf(this, EarningsCalculationError.prototype);
+  }
+}
+
+function toQuantity(value: string | number | null | undefined, label: string): number {
+  if (value === null || value === undefined || value === "") return 0;
+  const num = typeof value === "number" ? value : parseFloat(value);
+  if (!Number.isFinite(num) || num < 0) {
+    throw new EarningsCalculationError(`${label} must be a non-negative number`);
+  }
+  return num;
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Normalise the additionalItems JSON into a list of custom rate items
+ */
+export function parseAdditionalItems(value: unknown): AdditionalWorkItem[] {
+  if (value === null || value === undefined) return [];
+  if (!Array.isArray(value)) {
+    throw new EarningsCalculationError("additionalItems must be an array");
+  }
+
+  return value.map((item: any) => {
+    if (!item || typeof item.categoryName !== "string" || !item.categoryName.trim()) {
+      throw new EarningsCalculationError("Each additional item requires a categoryName");
+    }
+    return {
+      categoryName: item.categoryName.trim(),
+      quantity: toQuantity(item.quantity, `Quantity for ${item.categoryName}`),
+    };
+  });
+}
+
+/**
+ * Sum item lists by categoryName, e.g. a labourer's logs over a period; items with nothing recorded are left out
+ */
+export function combineAdditionalItems(...lists: unknown[]): AdditionalWorkItem[] {
+  const totals = new Map<string, number>();
+  for (const list of lists) {
+    for (const item of parseAdditionalItems(list)) {
+      totals.set(item.categoryName, roundCurrency((totals.get(item.categoryName) ?? 0) + item.quantity));
+    }
+  }
+  return Array.from(totals.entries())
+    .filter(([, quantity]) => quantity > 0)
+    .map(([categoryName, quantity]) => ({ categoryName, quantity }))
+    .sort((a, b) => a.categoryName.localeCompare(b.categoryName));
+}
+
+/**
+ * Price a quantity according to the rate's unit:
+ * - per_meter: amount × quantity
+ * - per_day / fixed: amount once, if any work was recorded against the rate
+ */
+function priceLine(rate: PayRate, quantity: number): EarningsLine {
+  const amount = parseFloat(rate.amount);
+  const lineTotal = rate.unit === "per_meter"
+    ? amount * quantity
+    : quantity > 0 ? amount : 0;
+
+  return {
+    payRateId: rate.id,
+    category: rate.category,
+    categoryName: rate.categoryName,
+    unit: rate.unit,
+    rate: amount,
+    quantity,
+    amount: roundCurrency(lineTotal),
+  };
+}
+
+/**
+ * Calculate a work log's earnings from the pay rates effective on its work date.
+ * Client-supplied totals are never trusted - callers must overwrite them with the result.
+ */
+export async function calculateWorkLogEarnings(input: WorkLogEarningsInput, executor: DbExecutor = db): Promise<WorkLogEarnings> {
+  const labourer = await storage.getLabourer(input.labourerId, executor);
+  if (!labourer) {
+    throw new EarningsCalculationError("Labourer not found");
+  }
+
+  const workDate = toDateOnly(input.workDate);
+  if (!workDate || isNaN(new Date(`${workDate}T00:00:00Z`).getTime())) {
+    throw new EarningsCalculationError("Invalid work date format");
+  }
+
+  const quantities: Array<{ category: PayRate["category"]; categoryName?: string; quantity: number; label: string }> = [
+    {
+      category: "open_trenching",
+      quantity: toQuantity(input.openTrenchingMeters, "Open trenching meters"),
+      label: "open trenching",
+    },
+    {
+      category: "close_trenching",
+      quantity: toQuantity(input.closeTrenchingMeters, "Close trenching meters"),
+      label: "close trenching",
+    },
+    ...parseAdditionalItems(input.additionalItems).map(item => ({
+      category: "custom" as const,
+      categoryName: item.categoryName,
+      quantity: item.quantity,
+      label: item.categoryName,
+    })),
+  ];
+
+  const lines: EarningsLine[] = [];
+  for (const item of quantities) {
+    if (item.quantity === 0) continue;
+
+    const rate = await storage.getPayRateForEmployeeType(
+      input.projectId,
+      labourer.employeeTypeId,
+      item.category,
+      workDate,
+      item.categoryName,
+      executor
+    );
+    if (!rate) {
+      throw new EarningsCalculationError(
+        `No ${item.label} pay rate is effective on ${input.workDate} for this labourer's employee type`
+      );
+    }
+
+    lines.push(priceLine(rate, item.quantity));
+  }
+
+  const total = roundCurrency(lines.reduce((sum, line) => sum + line.amount, 0));
+
+  return {
+    totalEarnings: total.toFixed(2),
+    appliedRateIds: Array.from(new Set(lines.map(line => line.payRateId))),
+    lines,
+  };
+}
+
+/**
+ * Re-price a stored work log with the rates recorded in its appliedRateIds, without looking rates up again.
+ * Used for payslips so the breakdown matches what the log was actually paid at.
+ */
+export function priceWorkLogFromAppliedRates(log: WorkLog, ratesById: Map<string, PayRate>): EarningsLine[] {
+  const applied = (log.appliedRateIds || [])
+    .map(id => ratesById.get(id))
+    .filter((rate): rate is PayRate => !!rate);
+
+  const quantities: Array<{ category: PayRate["category"]; categoryName?: string; quantity: number }> = [
+    { category: "open_trenching", quantity: Number(log.openTrenchingMeters || 0) },
+    { category: "close_trenching", quantity: Number(log.closeTrenchingMeters || 0) },
+    ...parseAdditionalItems(log.additionalItems).map(item => ({
+      category: "custom" as const,
+      categoryName: item.categoryName,
+      quantity: item.quantity,
+    })),
+  ];
+
+  const lines: EarningsLine[] = [];
+  for (const item of quantities) {
+    if (item.quantity === 0) continue;
+    const rate = applied.find(r =>
+      r.category === item.category && (item.category !== "custom" || r.categoryName === item.categoryName)
+    );
+    if (rate) {
+      lines.push(priceLine(rate, item.quantity));
+    }
+  }
+  return lines;
+}
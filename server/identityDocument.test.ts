@@ -0,0 +1,43 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { formatDateForInput, validateIdentityDocument, validateSAId } from "@shared/identityDocument";
+
+test("a valid SA ID gives the holder's date of birth, gender and citizenship", () => {
+  const female = validateSAId("920304 0123 08 6");
+  assert.deepEqual(
+    [female.isValid, formatDateForInput(female.dateOfBirth), female.gender, female.isCitizen],
+    [true, "1992-03-04", "female", true]
+  );
+  assert.equal(validateSAId("7811115012083").gender, "male");
+});
+
+test("an SA ID with a wrong check digit is refused", () => {
+  const info = validateSAId("9203040123087");
+  assert.equal(info.isValid, false);
+  assert.equal(info.error, "Invalid ID number checksum");
+});
+
+test("an SA ID with an impossible date of birth is refused", () => {
+  assert.equal(validateSAId("9002305000082").error, "Invalid date in ID number");
+  // 29 February only exists in leap years
+  assert.equal(validateSAId("0102295000081").error, "Invalid date in ID number");
+  assert.equal(validateSAId("0002295000083").isValid, true);
+});
+
+test("an SA ID that is not 13 digits is refused", () => {
+  assert.equal(validateSAId("920304012308").error, "SA ID number must be 13 digits");
+});
+
+test("the captured gender and date of birth must match the SA ID", () => {
+  assert.deepEqual(
+    validateIdentityDocument({ idNumber: "9203040123086", idDocumentType: "sa_id", gender: "male", dateOfBirth: "1992-04-03" }),
+    [
+      { field: "dateOfBirth", message: "Date of birth does not match the ID number" },
+      { field: "gender", message: "ID number belongs to a female holder" },
+    ]
+  );
+  assert.deepEqual(
+    validateIdentityDocument({ idNumber: "9203040123086", idDocumentType: "sa_id", gender: "female", dateOfBirth: "1992-03-04" }),
+    []
+  );
+});
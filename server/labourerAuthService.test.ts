@@ -0,0 +1,125 @@
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+import { desc, eq } from "drizzle-orm";
+import { employeeTypes, outboundMessages, sessions, users, type Labourer, type User } from "@shared/schema";
+import { db } from "./db";
+import { storage } from "./storage";
+import {
+  confirmPinReset,
+  LabourerAuthError,
+  requestPinReset,
+  resetLabourerPinBySupervisor,
+  setLabourerPin,
+  verifyLabourerCredentials,
+} from "./labourerAuthService";
+import { prepareTestDatabase } from "./testDatabase";
+
+let owner: User;
+let labourer: Labourer;
+let guessedLabourer: Labourer;
+
+// The outbox provider records every message, so the code a labourer would receive can be read back
+async function latestCode(labourerId: string): Promise<string> {
+  const [message] = await db
+    .select()
+    .from(outboundMessages)
+    .where(eq(outboundMessages.labourerId, labourerId))
+    .orderBy(desc(outboundMessages.createdAt))
+    .limit(1);
+  return /\b(\d{6})\b/.exec(message.body)![1];
+}
+
+before(async () => {
+  await prepareTestDatabase();
+  [owner] = await db.insert(users).values({ email: "owner@pins.test", role: "super_admin" }).returning();
+  const [employeeType] = await db.insert(employeeTypes).values({ name: "General Worker" }).returning();
+  const fields = {
+    employeeTypeId: employeeType.id,
+    idDocumentType: "passport" as const,
+    idIssuingCountry: "ZWE",
+    dateOfBirth: "1990-01-01",
+    bankName: "Test Bank",
+    accountType: "savings" as const,
+    branchCode: "250655",
+    createdBy: owner.id,
+  };
+  labourer = await storage.createLabourer({
+    ...fields,
+    firstName: "Thabo",
+    surname: "Nkosi",
+    idNumber: "P1234567",
+    contactNumber: "0821234567",
+    accountNumber: "100000001",
+  });
+  guessedLabourer = await storage.createLabourer({
+    ...fields,
+    firstName: "Sipho",
+    surname: "Dube",
+    idNumber: "P7654321",
+    contactNumber: "0827654321",
+    accountNumber: "100000002",
+  });
+});
+
+test("a labourer without a PIN cannot sign in with their ID number", async () => {
+  const result = await verifyLabourerCredentials(labourer.contactNumber, labourer.idNumber);
+  assert.equal(result.ok, false);
+  assert.equal(result.ok ? null : result.status, 401);
+});
+
+test("the first PIN is chosen with a code sent to the labourer's phone", async () => {
+  await requestPinReset(labourer.contactNumber, "10.0.0.1");
+  await confirmPinReset(labourer.contactNumber, await latestCode(labourer.id), "2580");
+
+  const result = await verifyLabourerCredentials(labourer.contactNumber, "2580");
+  assert.equal(result.ok, true);
+});
+
+test("repeat code requests are throttled the same way for registered and unknown numbers", async () => {
+  for (const identifier of ["0820000000", "Nobody@Example.com"]) {
+    await requestPinReset(identifier, "10.0.0.1");
+    await assert.rejects(requestPinReset(identifier, "10.0.0.2"), (error: LabourerAuthError) => error.status === 429);
+  }
+  // Same throttle for a registered number
+  await requestPinReset(guessedLabourer.contactNumber, "10.0.0.1");
+  await assert.rejects(requestPinReset(guessedLabourer.contactNumber, "10.0.0.1"), (error: LabourerAuthError) => error.status === 429);
+});
+
+test("a code stops working after too many wrong guesses", async () => {
+  const code = await latestCode(guessedLabourer.id);
+  const wrong = code === "000000" ? "111111" : "000000";
+  for (let i = 0; i < 5; i++) {
+    await assert.rejects(confirmPinReset(guessedLabourer.contactNumber, wrong, "2580"), (error: LabourerAuthError) => error.status === 401);
+  }
+
+  await assert.rejects(confirmPinReset(guessedLabourer.contactNumber, code, "2580"), (error: LabourerAuthError) => error.status === 401);
+  assert.equal((await verifyLabourerCredentials(guessedLabourer.contactNumber, "2580")).ok, false);
+});
+
+test("code requests are capped per IP address across identifiers", async () => {
+  for (let i = 0; i < 10; i++) {
+    await requestPinReset(`07100000${String(i).padStart(2, "0")}`, "10.0.0.9");
+  }
+  await assert.rejects(requestPinReset("0710000099", "10.0.0.9"), (error: LabourerAuthError) => error.status === 429);
+  await requestPinReset("0710000099", "10.0.0.10");
+});
+
+test("a supervisor reset signs the labourer out and a new PIN needs the texted code", async () => {
+  await db.insert(sessions).values({
+    sid: "labourer-session",
+    sess: { labourerId: labourer.id },
+    expire: new Date(Date.now() + 60 * 60 * 1000),
+  });
+
+  const { sessionsRevoked } = await resetLabourerPinBySupervisor(labourer, owner);
+  assert.equal(sessionsRevoked, 1);
+  assert.deepEqual(await db.select().from(sessions).where(eq(sessions.sid, "labourer-session")), []);
+
+  const reset = (await storage.getLabourer(labourer.id))!;
+  await assert.rejects(setLabourerPin(reset, "3691"), (error: LabourerAuthError) => error.status === 400);
+  const code = await latestCode(labourer.id);
+  const wrong = code === "000000" ? "111111" : "000000";
+  await assert.rejects(setLabourerPin(reset, "3691", undefined, wrong), (error: LabourerAuthError) => error.status === 401);
+  await setLabourerPin(reset, "3691", undefined, code);
+  assert.equal((await verifyLabourerCredentials(labourer.contactNumber, "3691")).ok, true);
+});
@@ -0,0 +1,333 @@
+import { randomInt } from "crypto";
+import bcrypt from "bcrypt";
+import type { RequestHandler } from "express";
+import { db } from "./db";
+import { storage } from "./storage";
+import { labourerOtps, labourers, pinResetRequests, type Labourer, type User } from "@shared/schema";
+import { and, count, desc, eq, gt, isNull, lt, sql } from "drizzle-orm";
+import { logAuditEvent } from "./auditService";
+import { getDefaultMessageChannel, sendMessage } from "./messageProviders";
+import { normaliseIdentifier } from "./loginThrottleService";
+
+// Consecutive failed logins before the account is locked, and for how long
+export const MAX_FAILED_LOGINS = 5;
+export const LOCKOUT_MINUTES = 15;
+
+const OTP_TTL_MINUTES = 10;
+const OTP_MAX_ATTEMPTS = 5;
+const OTP_RESEND_SECONDS = 60;
+// Code requests from one IP address per hour; a site crew may share a phone, a script sending texts to many numbers may not
+const PIN_RESET_REQUESTS_PER_IP_HOUR = 10;
+
+/**
+ * Raised when a PIN or OTP operation is rejected; carries the HTTP status for the route
+ */
+export class LabourerAuthError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "LabourerAuthError";
+    this.status = status;
+    Object.setPrototypeOf(this, LabourerAuthError.prototype);
+  }
+}
+
+export type LabourerLoginResult =
+  | { ok: true; labourer: Labourer }
+  | { ok: false; message: string; status: number; labourerId?: string };
+
+function maskNumber(number: string): string {
+  return `${'*'.repeat(Math.max(number.length - 3, 0))}${number.slice(-3)}`;
+}
+
+/**
+ * PINs are 4-6 digits and may not be a single repeated digit or a straight sequence
+ */
+export function validatePin(pin: unknown): string {
+  if (typeof pin !== "string" || !/^\d{4,6}$/.test(pin)) {
+    throw new LabourerAuthError("PIN must be 4 to 6 digits");
+  }
+  const digits = pin.split('').map(Number);
+  const steps = new Set(digits.slice(1).map((d, i) => d - digits[i]));
+  if (steps.size === 1 && [0, 1, -1].includes(Array.from(steps)[0])) {
+    throw new LabourerAuthError("PIN is too easy to guess. Avoid repeated digits and sequences like 1234");
+  }
+  return pin;
+}
+
+async function recordFailedLogin(labourer: Labourer): Promise<LabourerLoginResult> {
+  const attempts = labourer.failedLoginAttempts + 1;
+  const locked = attempts >= MAX_FAILED_LOGINS;
+  await db
+    .update(labourers)
+    .set({
+      failedLoginAttempts: locked ? 0 : attempts,
+      lockedUntil: locked ? new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000) : labourer.lockedUntil,
+    })
+    .where(eq(labourers.id, labourer.id));
+
+  if (locked) {
+    return {
+      ok: false,
+      status: 423,
+      message: `Too many failed attempts. Your account is locked for ${LOCKOUT_MINUTES} minutes. Ask your supervisor to reset your PIN if you have forgotten it.`,
+      labourerId: labourer.id,
+    };
+  }
+  return { ok: false, status: 401, message: "Invalid credentials", labourerId: labourer.id };
+}
+
+/**
+ * Check a labourer's login PIN. Labourers without a PIN set one with a code sent to their phone,
+ * either requested themselves or sent by a supervisor.
+ */
+export async function verifyLabourerCredentials(identifier: string, secret: string): Promise<LabourerLoginResult> {
+  const labourer = await storage.getLabourerByPhoneOrEmail(identifier);
+  if (!labourer) {
+    return { ok: false, status: 401, message: "Invalid credentials" };
+  }
+
+  if (!labourer.isActive) {
+    return {
+      ok: false,
+      status: 403,
+      message: "Your account has been deactivated. Please contact your supervisor.",
+      labourerId: labourer.id,
+    };
+  }
+
+  if (labourer.lockedUntil && labourer.lockedUntil > new Date()) {
+    return {
+      ok: false,
+      status: 423,
+      message: "Your account is locked after too many failed attempts. Try again later or ask your supervisor to reset your PIN.",
+      labourerId: labourer.id,
+    };
+  }
+
+  if (!labourer.pinHash) {
+    return {
+      ok: false,
+      status: 401,
+      message: labourer.pinSetAt
+        ? "Your PIN was reset. Use \"Set up or reset PIN\" to choose a new one with the code sent to your phone."
+        : "You have not set a PIN yet. Use \"Set up or reset PIN\" to get a code on your phone and choose one.",
+      labourerId: labourer.id,
+    };
+  }
+
+  if (!(await bcrypt.compare(secret, labourer.pinHash))) {
+    return recordFailedLogin(labourer);
+  }
+
+  if (labourer.failedLoginAttempts > 0 || labourer.lockedUntil) {
+    await db
+      .update(labourers)
+      .set({ failedLoginAttempts: 0, lockedUntil: null })
+      .where(eq(labourers.id, labourer.id));
+  }
+  return { ok: true, labourer };
+}
+
+async function storePin(labourerId: string, pin: string): Promise<void> {
+  await db
+    .update(labourers)
+    .set({
+      pinHash: await bcrypt.hash(pin, 10),
+      pinSetAt: new Date(),
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+      updatedAt: new Date(),
+    })
+    .where(eq(labourers.id, labourerId));
+}
+
+/**
+ * Set the signed-in labourer's PIN. Changing an existing PIN needs the current one; after a reset the session
+ * has no PIN to prove, so it needs the code sent to the labourer's phone instead.
+ */
+export async function setLabourerPin(labourer: Labourer, pin: unknown, currentPin?: unknown, code?: unknown): Promise<void> {
+  const newPin = validatePin(pin);
+  if (labourer.pinHash) {
+    if (typeof currentPin !== "string" || !(await bcrypt.compare(currentPin, labourer.pinHash))) {
+      throw new LabourerAuthError("Current PIN is incorrect", 403);
+    }
+  } else {
+    if (typeof code !== "string" || !code.trim()) {
+      throw new LabourerAuthError("Enter the code sent to your phone");
+    }
+    await consumePinResetOtp(labourer, code.trim());
+  }
+  await storePin(labourer.id, newPin);
+}
+
+/**
+ * Create a one-time code for setting or resetting a PIN and send it to the labourer's phone
+ */
+async function issuePinResetOtp(labourer: Labourer, requestedBy?: string): Promise<string> {
+  const code = randomInt(0, 1_000_000).toString().padStart(6, '0');
+  await db.insert(labourerOtps).values({
+    labourerId: labourer.id,
+    purpose: "pin_reset",
+    codeHash: await bcrypt.hash(code, 10),
+    expiresAt: new Date(Date.now() + OTP_TTL_MINUTES * 60 * 1000),
+    requestedBy: requestedBy ?? null,
+  });
+
+  await sendMessage({
+    channel: getDefaultMessageChannel(),
+    to: labourer.contactNumber,
+    body: `Your Mooya EMPCare code to set your PIN is ${code}. It expires in ${OTP_TTL_MINUTES} minutes. Do not share it with anyone.`,
+    labourerId: labourer.id,
+  });
+  return maskNumber(labourer.contactNumber);
+}
+
+/**
+ * Use up the labourer's latest PIN code. The code stops working after OTP_MAX_ATTEMPTS wrong guesses.
+ */
+async function consumePinResetOtp(labourer: Labourer, code: string): Promise<void> {
+  const invalid = new LabourerAuthError("Invalid or expired code", 401);
+  const [otp] = await db
+    .select()
+    .from(labourerOtps)
+    .where(and(
+      eq(labourerOtps.labourerId, labourer.id),
+      eq(labourerOtps.purpose, "pin_reset"),
+      isNull(labourerOtps.consumedAt),
+      lt(labourerOtps.attempts, OTP_MAX_ATTEMPTS),
+      gt(labourerOtps.expiresAt, new Date())
+    ))
+    .orderBy(desc(labourerOtps.createdAt))
+    .limit(1);
+  if (!otp) throw invalid;
+
+  // Each guess takes an attempt before the code is compared, so parallel guesses cannot share one
+  const [attempt] = await db
+    .update(labourerOtps)
+    .set({ attempts: sql`${labourerOtps.attempts} + 1` })
+    .where(and(eq(labourerOtps.id, otp.id), isNull(labourerOtps.consumedAt), lt(labourerOtps.attempts, OTP_MAX_ATTEMPTS)))
+    .returning({ attempts: labourerOtps.attempts });
+  if (!attempt) throw invalid;
+
+  const valid = await bcrypt.compare(code, otp.codeHash);
+  // A correct code is used up; so is a code that has run out of attempts
+  if (valid || attempt.attempts >= OTP_MAX_ATTEMPTS) {
+    const [consumed] = await db
+      .update(labourerOtps)
+      .set({ consumedAt: new Date() })
+      .where(and(eq(labourerOtps.id, otp.id), isNull(labourerOtps.consumedAt)))
+      .returning({ id: labourerOtps.id });
+    if (!consumed) throw invalid;
+  }
+  if (!valid) throw invalid;
+}
+
+/**
+ * Start a self-service PIN setup or reset. The resend throttle is applied to the identifier before the labourer is
+ * looked up and unknown identifiers are otherwise ignored, so the response never reveals who is registered.
+ * Requests are also capped per IP address so the endpoint cannot be used to send texts in bulk.
+ */
+export async function requestPinReset(identifier: string, ipAddress: string): Promise<void> {
+  const key = normaliseIdentifier(identifier);
+  if (!key) {
+    throw new LabourerAuthError("Phone number or email is required");
+  }
+
+  const [latest] = await db
+    .select({ createdAt: pinResetRequests.createdAt })
+    .from(pinResetRequests)
+    .where(and(
+      eq(pinResetRequests.identifier, key),
+      gt(pinResetRequests.createdAt, new Date(Date.now() - OTP_RESEND_SECONDS * 1000))
+    ))
+    .limit(1);
+  if (latest) {
+    throw new LabourerAuthError(`A code was requested less than ${OTP_RESEND_SECONDS} seconds ago. Please wait before requesting another.`, 429);
+  }
+
+  const [fromIp] = await db
+    .select({ requests: count() })
+    .from(pinResetRequests)
+    .where(and(
+      eq(pinResetRequests.ipAddress, ipAddress),
+      gt(pinResetRequests.createdAt, new Date(Date.now() - 60 * 60 * 1000))
+    ));
+  if (Number(fromIp?.requests ?? 0) >= PIN_RESET_REQUESTS_PER_IP_HOUR) {
+    throw new LabourerAuthError("Too many codes have been requested from this network. Please try again later.", 429);
+  }
+  await db.insert(pinResetRequests).values({ identifier: key, ipAddress });
+
+  const labourer = await storage.getLabourerByPhoneOrEmail(identifier);
+  if (!labourer?.isActive) return;
+  await issuePinResetOtp(labourer);
+}
+
+/**
+ * Finish a PIN setup or reset with the code from the latest message; the route also counts each failure
+ * against the login throttle.
+ */
+export async function confirmPinReset(identifier: string, code: string, pin: unknown): Promise<Labourer> {
+  const newPin = validatePin(pin);
+  const labourer = await storage.getLabourerByPhoneOrEmail(identifier);
+  if (!labourer?.isActive) throw new LabourerAuthError("Invalid or expired code", 401);
+
+  await consumePinResetOtp(labourer, code);
+  await storePin(labourer.id, newPin);
+  return labourer;
+}
+
+/**
+ * Supervisor-initiated reset: clears the PIN and lockout, signs the labourer out everywhere and texts them a code
+ * to choose a new PIN. For a labourer who never set a PIN this is the supervisor-issued code for their first one.
+ */
+export async function resetLabourerPinBySupervisor(labourer: Labourer, user: User): Promise<{ sentTo: string; sessionsRevoked: number }> {
+  await db
+    .update(labourers)
+    .set({
+      pinHash: null,
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+      updatedAt: new Date(),
+    })
+    .where(eq(labourers.id, labourer.id));
+  // A session opened with the old PIN, perhaps on a lost or shared phone, must not be able to choose the new one
+  const sessionsRevoked = await storage.deleteLabourerSessions(labourer.id);
+
+  const sentTo = await issuePinResetOtp(labourer, user.id);
+
+  await logAuditEvent({
+    action: "UPDATE",
+    entityType: "labourer",
+    entityId: labourer.id,
+    userId: user.id,
+    changes: { pin: { old: labourer.pinHash ? "set" : "not set", new: "reset" } },
+    metadata: {
+      operation: "pin_reset",
+      wasLocked: !!labourer.lockedUntil && labourer.lockedUntil > new Date(),
+      sentTo,
+      sessionsRevoked,
+    },
+  }).catch(console.error);
+
+  return { sentTo, sessionsRevoked };
+}
+
+/**
+ * A session without a PIN must choose one, with the code sent to the labourer's phone, before using anything else
+ */
+export const requireLabourerPin: RequestHandler = (req: any, res, next) => {
+  if (!req.labourer?.pinHash) {
+    return res.status(403).json({ message: "Set your PIN to continue", code: "PIN_SETUP_REQUIRED" });
+  }
+  next();
+};
+
+/**
+ * Labourer record without its PIN hash, for API responses
+ */
+export function withoutCredentials<T extends Labourer>(labourer: T): Omit<T, "pinHash"> & { hasPin: boolean } {
+  const { pinHash, ...rest } = labourer;
+  return { ...rest, hasPin: !!pinHash };
+}
@@ -0,0 +1,317 @@
+import { db } from "./db";
+import { storage } from "./storage";
+import {
+  labourers,
+  labourerAdvances,
+  labourerOtps,
+  labourerProjectAssignments,
+  outboundMessages,
+  paymentAdjustments,
+  paymentBatchLines,
+  paymentPeriodEntries,
+  correctionRequests,
+  workLogs,
+  type InsertLabourer,
+  type Labourer,
+  type User,
+} from "@shared/schema";
+import { normaliseIdNumber } from "@shared/identityDocument";
+import { and, eq } from "drizzle-orm";
+import { logAuditEvent, logDelete } from "./auditService";
+import { getAccessibleProjectIds } from "./projectAccess";
+
+/**
+ * Raised when onboarding matches an existing labourer or a merge is refused
+ */
+export class LabourerDuplicateError extends Error {
+  status: number;
+  duplicates: LabourerDuplicateMatch[];
+
+  constructor(message: string, status = 409, duplicates: LabourerDuplicateMatch[] = []) {
+    super(message);
+    this.name = "LabourerDuplicateError";
+    this.status = status;
+    this.duplicates = duplicates;
+    Object.setPrototypeOf(this, LabourerDuplicateError.prototype);
+  }
+}
+
+export type DuplicateField = "idNumber" | "contactNumber" | "email" | "bankAccount";
+
+const FIELD_LABELS: Record<DuplicateField, string> = {
+  idNumber: "ID number",
+  contactNumber: "phone number",
+  email: "email",
+  bankAccount: "bank account",
+};
+
+export interface LabourerDuplicateMatch {
+  labourer: Labourer;
+  fields: DuplicateField[];
+}
+
+/**
+ * Two existing labourers that look like the same person or share a bank account
+ */
+export interface LabourerDuplicatePair {
+  first: Labourer;
+  second: Labourer;
+  fields: DuplicateField[];
+}
+
+type DuplicateKeySource = Pick<InsertLabourer, "idNumber" | "contactNumber" | "email" | "accountNumber" | "branchCode">;
+
+/**
+ * South African numbers are compared on their last nine digits, so 082 123 4567 matches +27 82 123 4567
+ */
+export function normaliseContactNumber(value: string | null | undefined): string | null {
+  const digits = value?.replace(/\D/g, "") ?? "";
+  return digits.length >= 9 ? digits.slice(-9) : digits || null;
+}
+
+export function normaliseEmail(value: string | null | undefined): string | null {
+  const normalised = value?.trim().toLowerCase();
+  return normalised || null;
+}
+
+/**
+ * Account number and branch code as one key, ignoring spacing and leading zeros on the account number
+ */
+export function bankAccountKey(accountNumber: string | null | undefined, branchCode: string | null | undefined): string | null {
+  const account = accountNumber?.replace(/\D/g, "").replace(/^0+/, "");
+  const branch = branchCode?.replace(/\D/g, "");
+  return account && branch ? `${branch}:${account}` : null;
+}
+
+function duplicateKeys(labourer: DuplicateKeySource): Record<DuplicateField, string | null> {
+  return {
+    idNumber: labourer.idNumber ? normaliseIdNumber(labourer.idNumber) || null : null,
+    contactNumber: normaliseContactNumber(labourer.contactNumber),
+    email: normaliseEmail(labourer.email),
+    bankAccount: bankAccountKey(labourer.accountNumber, labourer.branchCode),
+  };
+}
+
+function matchingFields(a: Record<DuplicateField, string | null>, b: Record<DuplicateField, string | null>): DuplicateField[] {
+  return (Object.keys(a) as DuplicateField[]).filter(field => a[field] && a[field] === b[field]);
+}
+
+export function describeDuplicateFields(fields: DuplicateField[]): string {
+  return fields.map(field => FIELD_LABELS[field]).join(", ");
+}
+
+/**
+ * Existing labourers sharing a normalised ID number, phone number, email or bank account with the candidate
+ */
+export async function findDuplicateLabourers(candidate: DuplicateKeySource, excludeId?: string): Promise<LabourerDuplicateMatch[]> {
+  const keys = duplicateKeys(candidate);
+  const all = await db.select().from(labourers);
+  return all
+    .filter(labourer => labourer.id !== excludeId)
+    .map(labourer => ({ labourer, fields: matchingFields(keys, duplicateKeys(labourer)) }))
+    .filter(match => match.fields.length > 0);
+}
+
+/**
+ * Refuse to onboard a labourer who matches an existing record. A matching ID number always blocks;
+ * other matches (a shared phone or bank account) can be accepted with allowDuplicates.
+ */
+export async function assertNotDuplicate(candidate: DuplicateKeySource, allowDuplicates = false): Promise<void> {
+  const duplicates = await findDuplicateLabourers(candidate);
+  if (duplicates.length === 0) return;
+
+  const sameId = duplicates.find(match => match.fields.includes("idNumber"));
+  if (sameId) {
+    const name = `${sameId.labourer.firstName} ${sameId.labourer.surname}`;
+    throw new LabourerDuplicateError(`ID number ${candidate.idNumber} is already registered to ${name}. Transfer them to this project instead.`, 409, duplicates);
+  }
+  if (!allowDuplicates) {
+    const summary = duplicates
+      .map(match => `${match.labourer.firstName} ${match.labourer.surname} (${describeDuplicateFields(match.fields)})`)
+      .join("; ");
+    throw new LabourerDuplicateError(`Possible duplicate of ${summary}`, 409, duplicates);
+  }
+}
+
+/**
+ * Check a batch against existing labourers and against itself; returns one problem per offending row
+ */
+export async function findBatchDuplicates(
+  batch: DuplicateKeySource[],
+  allowDuplicates = false
+): Promise<{ row: number; message: string }[]> {
+  const existing = (await db.select().from(labourers)).map(labourer => ({ labourer, keys: duplicateKeys(labourer) }));
+  const problems: { row: number; message: string }[] = [];
+  const seen: { row: number; keys: Record<DuplicateField, string | null> }[] = [];
+
+  batch.forEach((candidate, index) => {
+    const keys = duplicateKeys(candidate);
+    const row = index + 1;
+    for (const { labourer, keys: other } of existing) {
+      const fields = matchingFields(keys, other);
+      if (fields.includes("idNumber") || (fields.length > 0 && !allowDuplicates)) {
+        problems.push({ row, message: `Matches ${labourer.firstName} ${labourer.surname} on ${describeDuplicateFields(fields)}` });
+        return;
+      }
+    }
+    for (const earlier of seen) {
+      const fields = matchingFields(keys, earlier.keys);
+      if (fields.includes("idNumber") || (fields.length > 0 && !allowDuplicates)) {
+        problems.push({ row, message: `Matches row ${earlier.row} on ${describeDuplicateFields(fields)}` });
+        return;
+      }
+    }
+    seen.push({ row, keys });
+  });
+  return problems;
+}
+
+/**
+ * Every pair of labourers that share an identifying field, limited to the projects the user can access
+ */
+export async function getProbableDuplicates(user: User): Promise<LabourerDuplicatePair[]> {
+  const projectIds = await getAccessibleProjectIds(user);
+  const visible = (await db.select().from(labourers))
+    .filter(labourer => projectIds === null || !labourer.projectId || projectIds.includes(labourer.projectId));
+
+  // Bucket by each normalised key so only labourers sharing a value are compared
+  const pairs = new Map<string, LabourerDuplicatePair>();
+  const buckets = new Map<string, Labourer[]>();
+  for (const labourer of visible) {
+    const keys = duplicateKeys(labourer);
+    for (const field of Object.keys(keys) as DuplicateField[]) {
+      if (!keys[field]) continue;
+      const bucketKey = `${field}|${keys[field]}`;
+      buckets.set(bucketKey, [...(buckets.get(bucketKey) ?? []), labourer]);
+    }
+  }
+
+  for (const [bucketKey, members] of Array.from(buckets.entries())) {
+    const field = bucketKey.split("|")[0] as DuplicateField;
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const [first, second] = [members[i], members[j]].sort((a, b) => a.id.localeCompare(b.id));
+        const pairKey = `${first.id}|${second.id}`;
+        const pair = pairs.get(pairKey) ?? { first, second, fields: [] };
+        if (!pair.fields.includes(field)) pair.fields.push(field);
+        pairs.set(pairKey, pair);
+      }
+    }
+  }
+
+  // Same ID number first: those are almost certainly one person
+  return Array.from(pairs.values()).sort((a, b) =>
+    Number(b.fields.includes("idNumber")) - Number(a.fields.includes("idNumber")) || b.fields.length - a.fields.length
+  );
+}
+
+// Optional details the surviving record takes from the duplicate when it has none of its own
+const FILL_FROM_DUPLICATE = [
+  "email",
+  "physicalAddress",
+  "gender",
+  "profilePhotoPath",
+  "idDocumentPath",
+  "bankingProofPath",
+  "userId",
+] as const satisfies readonly (keyof Labourer)[];
+
+export interface LabourerMergeResult {
+  labourer: Labourer;
+  workLogs: number;
+  paymentEntries: number;
+}
+
+/**
+ * Fold a duplicate labourer into the surviving record: work logs, payment entries, adjustments, advances,
+ * payment batch lines, project history and correction requests move to the survivor, then the duplicate is deleted.
+ * Refused when both records have an entry in the same payment period, since the totals would need recalculating.
+ */
+export async function mergeLabourers(survivorId: string, duplicateId: string, user: User): Promise<LabourerMergeResult> {
+  if (survivorId === duplicateId) {
+    throw new LabourerDuplicateError("Choose two different labourers to merge", 400);
+  }
+  const [survivor, duplicate] = await Promise.all([storage.getLabourer(survivorId), storage.getLabourer(duplicateId)]);
+  if (!survivor || !duplicate) {
+    throw new LabourerDuplicateError("Labourer not found", 404);
+  }
+
+  const [survivorEntries, duplicateEntries] = await Promise.all([
+    db.select({ periodId: paymentPeriodEntries.periodId }).from(paymentPeriodEntries).where(eq(paymentPeriodEntries.labourerId, survivorId)),
+    db.select({ periodId: paymentPeriodEntries.periodId }).from(paymentPeriodEntries).where(eq(paymentPeriodEntries.labourerId, duplicateId)),
+  ]);
+  const survivorPeriods = new Set(survivorEntries.map(entry => entry.periodId));
+  const shared = duplicateEntries.filter(entry => survivorPeriods.has(entry.periodId));
+  if (shared.length > 0) {
+    throw new LabourerDuplicateError(
+      `Both labourers are paid in ${shared.length} of the same payment period(s). Remove one of the entries before merging.`,
+      409
+    );
+  }
+
+  // Moving the logs across would give the survivor two logs for the same project day
+  const [survivorDays, duplicateDays] = await Promise.all([
+    db.select({ projectId: workLogs.projectId, workDate: workLogs.workDate }).from(workLogs).where(eq(workLogs.labourerId, survivorId)),
+    db.select({ projectId: workLogs.projectId, workDate: workLogs.workDate }).from(workLogs).where(eq(workLogs.labourerId, duplicateId)),
+  ]);
+  const survivorDayKeys = new Set(survivorDays.map(day => `${day.projectId}:${day.workDate}`));
+  const sharedDays = duplicateDays.filter(day => survivorDayKeys.has(`${day.projectId}:${day.workDate}`));
+  if (sharedDays.length > 0) {
+    throw new LabourerDuplicateError(
+      `Both labourers have work logs for ${sharedDays.length} of the same project day(s). Correct one of the logs before merging.`,
+      409
+    );
+  }
+
+  const fill: Partial<Labourer> = {};
+  for (const field of FILL_FROM_DUPLICATE) {
+    if (!survivor[field] && duplicate[field]) (fill as any)[field] = duplicate[field];
+  }
+
+  const result = await db.transaction(async (tx) => {
+    const movedLogs = await tx.update(workLogs).set({ labourerId: survivorId }).where(eq(workLogs.labourerId, duplicateId)).returning({ id: workLogs.id });
+    const movedEntries = await tx
+      .update(paymentPeriodEntries)
+      .set({ labourerId: survivorId })
+      .where(eq(paymentPeriodEntries.labourerId, duplicateId))
+      .returning({ id: paymentPeriodEntries.id });
+    await tx.update(paymentAdjustments).set({ labourerId: survivorId }).where(eq(paymentAdjustments.labourerId, duplicateId));
+    await tx.update(labourerAdvances).set({ labourerId: survivorId }).where(eq(labourerAdvances.labourerId, duplicateId));
+    await tx.update(paymentBatchLines).set({ labourerId: survivorId }).where(eq(paymentBatchLines.labourerId, duplicateId));
+    await tx.update(labourerProjectAssignments).set({ labourerId: survivorId }).where(eq(labourerProjectAssignments.labourerId, duplicateId));
+    await tx.update(outboundMessages).set({ labourerId: survivorId }).where(eq(outboundMessages.labourerId, duplicateId));
+    await tx
+      .update(correctionRequests)
+      .set({ entityId: survivorId })
+      .where(and(eq(correctionRequests.entityType, "labourer"), eq(correctionRequests.entityId, duplicateId)));
+    await tx.delete(labourerOtps).where(eq(labourerOtps.labourerId, duplicateId));
+    await tx.delete(labourers).where(eq(labourers.id, duplicateId));
+
+    const [labourer] = await tx
+      .update(labourers)
+      .set({ ...fill, updatedAt: new Date() })
+      .where(eq(labourers.id, survivorId))
+      .returning();
+    return { labourer, workLogs: movedLogs.length, paymentEntries: movedEntries.length };
+  });
+
+  const { pinHash, ...deletedRecord } = duplicate;
+  await logDelete("labourer", duplicateId, user.id, deletedRecord, { operation: "merge", mergedInto: survivorId })
+    .catch(console.error);
+  await logAuditEvent({
+    action: "UPDATE",
+    entityType: "labourer",
+    entityId: survivorId,
+    userId: user.id,
+    changes: Object.keys(fill).length > 0 ? fill : undefined,
+    metadata: {
+      operation: "merge",
+      mergedLabourerId: duplicateId,
+      mergedLabourerName: `${duplicate.firstName} ${duplicate.surname}`,
+      workLogs: result.workLogs,
+      paymentEntries: result.paymentEntries,
+    },
+  }).catch(console.error);
+
+  return result;
+}
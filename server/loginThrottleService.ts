@@ -0,0 +1,310 @@
+import type { Request, RequestHandler } from "express";
+import { db } from "./db";
+import {
+  labourers,
+  loginAttempts,
+  loginLockouts,
+  type LoginFlow,
+  type LoginLockout,
+  type User,
+} from "@shared/schema";
+import { and, count, desc, eq, gt, isNotNull, isNull, max } from "drizzle-orm";
+import { logAuditEvent } from "./auditService";
+
+// Failed attempts are counted over a sliding window
+export const LOGIN_WINDOW_MINUTES = 15;
+export const LOGIN_LOCKOUT_MINUTES = 30;
+
+// Per scope: failures allowed before each further attempt has to wait (doubling from 1 second),
+// and failures in the window that lock the identifier or IP address outright.
+// IP limits are looser because a whole site crew may sign in from one phone or network.
+const LIMITS = {
+  identifier: { freeFailures: 3, lockFailures: 10 },
+  ip: { freeFailures: 10, lockFailures: 30 },
+} as const;
+const MAX_DELAY_SECONDS = 60;
+
+type LockoutScope = LoginLockout["scope"];
+
+/**
+ * Raised when a login is refused by the throttle; carries the HTTP status and how long to wait
+ */
+export class LoginThrottleError extends Error {
+  status: number;
+  retryAfterSeconds: number;
+
+  constructor(message: string, status: number, retryAfterSeconds: number) {
+    super(message);
+    this.name = "LoginThrottleError";
+    this.status = status;
+    this.retryAfterSeconds = retryAfterSeconds;
+    Object.setPrototypeOf(this, LoginThrottleError.prototype);
+  }
+}
+
+export interface LoginAttemptData {
+  flow: LoginFlow;
+  identifier?: string | null;
+  ipAddress: string;
+  success: boolean;
+  reason?: string;
+  labourerId?: string;
+}
+
+/**
+ * A locked login as listed for admins: a throttle lockout on an identifier or IP address,
+ * or a labourer account locked after repeated wrong PINs
+ */
+export interface LockedLogin {
+  kind: LockoutScope | "labourer";
+  id: string; // lockout id, or labourer id for account locks
+  key: string;
+  flow: LoginFlow;
+  failures: number | null;
+  lockedUntil: Date;
+  lockedAt: Date | null;
+  labourerName?: string;
+}
+
+/**
+ * Phone numbers and emails are compared without case or spacing
+ */
+export function normaliseIdentifier(identifier: unknown): string | null {
+  if (typeof identifier !== "string") return null;
+  const normalised = identifier.replace(/\s+/g, '').toLowerCase();
+  return normalised || null;
+}
+
+export function getClientIp(req: Request): string {
+  return req.ip || req.socket.remoteAddress || "unknown";
+}
+
+function scopeColumn(scope: LockoutScope) {
+  return scope === "identifier" ? loginAttempts.identifier : loginAttempts.ipAddress;
+}
+
+async function getActiveLockout(scope: LockoutScope, key: string): Promise<LoginLockout | undefined> {
+  const [lockout] = await db
+    .select()
+    .from(loginLockouts)
+    .where(and(
+      eq(loginLockouts.scope, scope),
+      eq(loginLockouts.key, key),
+      isNull(loginLockouts.releasedAt),
+      gt(loginLockouts.lockedUntil, new Date())
+    ))
+    .orderBy(desc(loginLockouts.lockedUntil))
+    .limit(1);
+  return lockout;
+}
+
+/**
+ * Failures counted against an identifier or IP: those inside the window, after the last lockout an admin
+ * released and, for identifiers, after the last successful login
+ */
+async function getRecentFailures(scope: LockoutScope, key: string): Promise<{ failures: number; lastFailureAt: Date | null }> {
+  let since = new Date(Date.now() - LOGIN_WINDOW_MINUTES * 60 * 1000);
+
+  const [released] = await db
+    .select({ at: max(loginLockouts.releasedAt) })
+    .from(loginLockouts)
+    .where(and(eq(loginLockouts.scope, scope), eq(loginLockouts.key, key), isNotNull(loginLockouts.releasedAt)));
+  if (released?.at && released.at > since) since = released.at;
+
+  if (scope === "identifier") {
+    const [succeeded] = await db
+      .select({ at: max(loginAttempts.createdAt) })
+      .from(loginAttempts)
+      .where(and(eq(loginAttempts.identifier, key), eq(loginAttempts.success, true)));
+    if (succeeded?.at && succeeded.at > since) since = succeeded.at;
+  }
+
+  const [stats] = await db
+    .select({ failures: count(), lastFailureAt: max(loginAttempts.createdAt) })
+    .from(loginAttempts)
+    .where(and(eq(scopeColumn(scope), key), eq(loginAttempts.success, false), gt(loginAttempts.createdAt, since)));
+  return { failures: Number(stats?.failures ?? 0), lastFailureAt: stats?.lastFailureAt ?? null };
+}
+
+function delaySeconds(scope: LockoutScope, failures: number): number {
+  const over = failures - LIMITS[scope].freeFailures;
+  return over < 0 ? 0 : Math.min(2 ** over, MAX_DELAY_SECONDS);
+}
+
+/**
+ * Refuse the attempt while the identifier or IP address is locked out or still inside its progressive delay
+ */
+export async function assertLoginAllowed(identifier: string | null, ipAddress: string): Promise<void> {
+  const keys: [LockoutScope, string][] = [["ip", ipAddress]];
+  if (identifier) keys.unshift(["identifier", identifier]);
+
+  for (const [scope, key] of keys) {
+    const lockout = await getActiveLockout(scope, key);
+    if (lockout) {
+      const retryAfter = Math.ceil((lockout.lockedUntil.getTime() - Date.now()) / 1000);
+      throw new LoginThrottleError(
+        `Too many failed sign-in attempts. Try again in ${Math.ceil(retryAfter / 60)} minutes or ask an administrator to unlock the account.`,
+        423,
+        retryAfter
+      );
+    }
+
+    const { failures, lastFailureAt } = await getRecentFailures(scope, key);
+    const delay = delaySeconds(scope, failures);
+    if (delay > 0 && lastFailureAt) {
+      const retryAfter = Math.ceil((lastFailureAt.getTime() + delay * 1000 - Date.now()) / 1000);
+      if (retryAfter > 0) {
+        throw new LoginThrottleError(`Too many failed sign-in attempts. Wait ${retryAfter} seconds before trying again.`, 429, retryAfter);
+      }
+    }
+  }
+}
+
+async function lockIfOverLimit(scope: LockoutScope, key: string, flow: LoginFlow): Promise<void> {
+  const { failures } = await getRecentFailures(scope, key);
+  if (failures < LIMITS[scope].lockFailures || await getActiveLockout(scope, key)) return;
+
+  const [lockout] = await db.insert(loginLockouts).values({
+    scope,
+    key,
+    flow,
+    failures,
+    lockedUntil: new Date(Date.now() + LOGIN_LOCKOUT_MINUTES * 60 * 1000),
+  }).returning();
+
+  await logAuditEvent({
+    action: "LOCK",
+    entityType: "login_lockout",
+    entityId: lockout.id,
+    userId: null,
+    metadata: { scope, key, flow, failures, lockedUntil: lockout.lockedUntil },
+  });
+}
+
+/**
+ * Store a sign-in attempt. Failures are audited and lock the identifier or IP address once they pass the limit.
+ */
+export async function recordLoginAttempt(attempt: LoginAttemptData): Promise<void> {
+  const identifier = normaliseIdentifier(attempt.identifier);
+  await db.insert(loginAttempts).values({
+    flow: attempt.flow,
+    identifier,
+    ipAddress: attempt.ipAddress,
+    success: attempt.success,
+    reason: attempt.reason ?? null,
+  });
+  if (attempt.success) return;
+
+  await logAuditEvent({
+    action: "LOGIN_FAILED",
+    entityType: attempt.labourerId ? "labourer" : "login",
+    entityId: attempt.labourerId ?? identifier ?? attempt.ipAddress,
+    userId: null,
+    metadata: { flow: attempt.flow, identifier, ipAddress: attempt.ipAddress, reason: attempt.reason },
+  });
+
+  if (identifier) await lockIfOverLimit("identifier", identifier, attempt.flow);
+  await lockIfOverLimit("ip", attempt.ipAddress, attempt.flow);
+}
+
+/**
+ * Throttle a login route. identifierFrom picks the submitted phone/email where the route has one;
+ * the OAuth routes are throttled by IP address only.
+ */
+export function throttleLogin(identifierFrom?: (req: Request) => unknown): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      await assertLoginAllowed(normaliseIdentifier(identifierFrom?.(req)), getClientIp(req));
+      next();
+    } catch (error: any) {
+      if (error instanceof LoginThrottleError) {
+        res.set("Retry-After", String(error.retryAfterSeconds));
+        return res.status(error.status).json({ message: error.message, retryAfterSeconds: error.retryAfterSeconds });
+      }
+      console.error("Error checking login throttle:", error);
+      res.status(500).json({ message: "Failed to check login attempts" });
+    }
+  };
+}
+
+/**
+ * Every login that is currently locked, newest first
+ */
+export async function getLockedLogins(): Promise<LockedLogin[]> {
+  const now = new Date();
+  const lockouts = await db
+    .select()
+    .from(loginLockouts)
+    .where(and(isNull(loginLockouts.releasedAt), gt(loginLockouts.lockedUntil, now)))
+    .orderBy(desc(loginLockouts.createdAt));
+
+  const lockedLabourers = await db
+    .select()
+    .from(labourers)
+    .where(gt(labourers.lockedUntil, now));
+
+  return [
+    ...lockouts.map((lockout): LockedLogin => ({
+      kind: lockout.scope,
+      id: lockout.id,
+      key: lockout.key,
+      flow: lockout.flow,
+      failures: lockout.failures,
+      lockedUntil: lockout.lockedUntil,
+      lockedAt: lockout.createdAt,
+    })),
+    ...lockedLabourers.map((labourer): LockedLogin => ({
+      kind: "labourer",
+      id: labourer.id,
+      key: labourer.contactNumber,
+      flow: "labourer",
+      failures: null,
+      lockedUntil: labourer.lockedUntil!,
+      lockedAt: null,
+      labourerName: `${labourer.firstName} ${labourer.surname}`,
+    })),
+  ];
+}
+
+/**
+ * Lift a lockout before it expires. Releasing a throttle lockout also clears the failures counted against it.
+ */
+export async function releaseLockedLogin(kind: LockedLogin["kind"], id: string, user: User): Promise<void> {
+  if (kind === "labourer") {
+    const [labourer] = await db
+      .update(labourers)
+      .set({ failedLoginAttempts: 0, lockedUntil: null, updatedAt: new Date() })
+      .where(eq(labourers.id, id))
+      .returning();
+    if (!labourer) {
+      throw new LoginThrottleError("Labourer not found", 404, 0);
+    }
+    await logAuditEvent({
+      action: "UNLOCK",
+      entityType: "labourer",
+      entityId: id,
+      userId: user.id,
+      metadata: { operation: "login_unlock" },
+    });
+    return;
+  }
+
+  if (kind !== "identifier" && kind !== "ip") {
+    throw new LoginThrottleError(`Unknown lockout type: ${kind}`, 400, 0);
+  }
+  const [lockout] = await db
+    .update(loginLockouts)
+    .set({ releasedAt: new Date(), releasedBy: user.id })
+    .where(and(eq(loginLockouts.id, id), eq(loginLockouts.scope, kind), isNull(loginLockouts.releasedAt)))
+    .returning();
+  if (!lockout) {
+    throw new LoginThrottleError("Lockout not found or already released", 404, 0);
+  }
+  await logAuditEvent({
+    action: "UNLOCK",
+    entityType: "login_lockout",
+    entityId: lockout.id,
+    userId: user.id,
+    metadata: { scope: lockout.scope, key: lockout.key, flow: lockout.flow },
+  });
+}
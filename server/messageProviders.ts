@@ -0,0 +1,110 @@
+import { db } from "./db";
+import { outboundMessages, type OutboundMessage } from "@shared/schema";
+
+export type MessageChannel = OutboundMessage["channel"];
+
+export interface MessageRequest {
+  channel: MessageChannel;
+  to: string; // SA number as captured, e.g. 0821234567 or +27821234567
+  body: string;
+  labourerId?: string;
+}
+
+export interface MessageProvider {
+  name: string;
+  label: string;
+  /** Deliver the message and return the provider's message id, if it has one */
+  send(message: MessageRequest): Promise<string | null>;
+}
+
+/**
+ * Convert a local SA number to E.164 (+27...)
+ */
+export function toE164(number: string): string {
+  const digits = number.replace(/[^\d+]/g, '');
+  if (digits.startsWith('+')) return digits;
+  if (digits.startsWith('27')) return `+${digits}`;
+  return `+27${digits.replace(/^0/, '')}`;
+}
+
+// Development/test provider: nothing leaves the system, messages are only stored in outbound_messages
+const outboxProvider: MessageProvider = {
+  name: "outbox",
+  label: "Database outbox (no delivery)",
+  async send() {
+    return null;
+  },
+};
+
+// Twilio Programmable Messaging; WhatsApp uses the same API with whatsapp: prefixed numbers
+const twilioProvider: MessageProvider = {
+  name: "twilio",
+  label: "Twilio SMS / WhatsApp",
+  async send(message) {
+    const accountSid = process.env.TWILIO_ACCOUNT_SID;
+    const authToken = process.env.TWILIO_AUTH_TOKEN;
+    const from = message.channel === "whatsapp"
+      ? process.env.TWILIO_WHATSAPP_FROM
+      : process.env.TWILIO_SMS_FROM;
+    if (!accountSid || !authToken || !from) {
+      throw new Error(`Twilio is not configured for ${message.channel} messages`);
+    }
+
+    const prefix = message.channel === "whatsapp" ? "whatsapp:" : "";
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString("base64")}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({
+        From: `${prefix}${from}`,
+        To: `${prefix}${toE164(message.to)}`,
+        Body: message.body,
+      }),
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`Twilio rejected the message: ${result.message || response.statusText}`);
+    }
+    return result.sid ?? null;
+  },
+};
+
+export const MESSAGE_PROVIDERS: Record<string, MessageProvider> = {
+  outbox: outboxProvider,
+  twilio: twilioProvider,
+};
+
+/**
+ * Provider selected with MESSAGE_PROVIDER; defaults to the outbox so development never sends real messages
+ */
+export function getMessageProvider(): MessageProvider {
+  const name = process.env.MESSAGE_PROVIDER || "outbox";
+  const provider = MESSAGE_PROVIDERS[name];
+  if (!provider) {
+    throw new Error(`Unknown message provider: ${name}`);
+  }
+  return provider;
+}
+
+export function getDefaultMessageChannel(): MessageChannel {
+  return process.env.MESSAGE_CHANNEL === "whatsapp" ? "whatsapp" : "sms";
+}
+
+/**
+ * Send through the configured provider and record the message in outbound_messages
+ */
+export async function sendMessage(message: MessageRequest): Promise<OutboundMessage> {
+  const provider = getMessageProvider();
+  const providerMessageId = await provider.send(message);
+  const [stored] = await db.insert(outboundMessages).values({
+    channel: message.channel,
+    recipient: message.to,
+    body: message.body,
+    provider: provider.name,
+    providerMessageId,
+    labourerId: message.labourerId ?? null,
+  }).returning();
+  return stored;
+}
@@ -0,0 +1,52 @@
+import { db } from "./db";
+import { sql } from "drizzle-orm";
+
+/**
+ * UIF is deducted automatically from every payment period entry, so the manual "uif" adjustment type was removed.
+ * Run this before db:push: existing UIF adjustments become other deductions (their reason keeps the UIF note),
+ * pending ones are rejected so they cannot be approved on top of the automatic deduction, and approved ones
+ * in periods that are not yet approved are listed for a manager to check for double deduction.
+ */
+async function migrateUifAdjustments() {
+  const rejected = await db.execute(sql`
+    update payment_adjustments
+    set type = 'other_deduction', status = 'rejected', reason = 'UIF correction: ' || reason
+    where type = 'uif' and status = 'pending'
+    returning id
+  `);
+  const toReview = await db.execute(sql`
+    select a.id, a.amount, a.reason, l.first_name, l.surname, p.start_date, p.end_date, pr.name as project_name
+    from payment_adjustments a
+    join payment_periods p on p.id = a.period_id
+    join projects pr on pr.id = p.project_id
+    join labourers l on l.id = a.labourer_id
+    where a.type = 'uif' and a.status = 'approved' and p.status not in ('approved', 'paid')
+  `);
+  const converted = await db.execute(sql`
+    update payment_adjustments
+    set type = 'other_deduction', reason = 'UIF correction: ' || reason
+    where type = 'uif'
+    returning id
+  `);
+
+  console.log(`Rejected ${rejected.rows.length} pending UIF adjustment(s).`);
+  console.log(`Converted ${converted.rows.length} other UIF adjustment(s) to other deductions.`);
+  if (toReview.rows.length > 0) {
+    console.log(`\nThese approved UIF adjustments are in periods that are not approved yet; remove any that repeat the automatic UIF:\n`);
+    for (const row of toReview.rows as Record<string, unknown>[]) {
+      console.log(
+        `    ${row.id}  ${row.project_name}  ${row.start_date} to ${row.end_date}  ${row.first_name} ${row.surname}  R ${row.amount}  ${row.reason}`
+      );
+    }
+  }
+  console.log("\nIt is safe to run db:push.");
+}
+
+migrateUifAdjustments()
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("\nError migrating UIF adjustments:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,71 @@
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+import { projects, sessions, users, type Project, type User } from "@shared/schema";
+import { db } from "./db";
+import { storage } from "./storage";
+import { deactivateUser, OffboardingError } from "./offboardingService";
+import { prepareTestDatabase } from "./testDatabase";
+
+let owner: User;
+let leaver: User;
+let successor: User;
+let formerStaff: User;
+let managed: Project;
+let supervised: Project;
+
+before(async () => {
+  await prepareTestDatabase();
+  [owner, leaver, successor, formerStaff] = await db
+    .insert(users)
+    .values([
+      { email: "owner@offboarding.test", role: "super_admin" },
+      { email: "leaver@offboarding.test", role: "project_manager" },
+      { email: "successor@offboarding.test", role: "project_manager" },
+      { email: "former@offboarding.test", role: "supervisor", isActive: false },
+    ])
+    .returning();
+  [managed, supervised] = await db
+    .insert(projects)
+    .values([
+      { name: "Managed", createdBy: owner.id },
+      { name: "Supervised", createdBy: owner.id },
+    ])
+    .returning();
+  await storage.assignProjectManager(managed.id, leaver.id, owner.id);
+  await storage.assignProjectSupervisor(supervised.id, leaver.id, owner.id);
+  await db.insert(sessions).values({
+    sid: "leaver-session",
+    sess: { passport: { user: { id: leaver.id, email: leaver.email } } },
+    expire: new Date(Date.now() + 60 * 60 * 1000),
+  });
+});
+
+test("an invalid replacement leaves the user and every project link unchanged", async () => {
+  await assert.rejects(
+    deactivateUser(leaver.id, [
+      { projectId: managed.id, relation: "manager", reassignTo: successor.id },
+      { projectId: supervised.id, relation: "supervisor", reassignTo: formerStaff.id },
+    ], owner),
+    OffboardingError
+  );
+
+  assert.equal((await storage.getUser(leaver.id))?.isActive, true);
+  assert.deepEqual((await storage.getProjectsByManager(leaver.id)).map(project => project.id), [managed.id]);
+  assert.deepEqual(await storage.getProjectsByManager(successor.id), []);
+  assert.deepEqual((await storage.getProjectsBySupervisor(leaver.id)).map(project => project.id), [supervised.id]);
+  assert.equal((await db.select().from(sessions)).length, 1);
+});
+
+test("deactivation hands over or removes every link and revokes sessions", async () => {
+  const result = await deactivateUser(leaver.id, [
+    { projectId: managed.id, relation: "manager", reassignTo: successor.id },
+  ], owner);
+
+  assert.deepEqual(
+    { active: result.user.isActive, reassigned: result.reassigned, removed: result.removed, sessionsRevoked: result.sessionsRevoked },
+    { active: false, reassigned: 1, removed: 1, sessionsRevoked: 1 }
+  );
+  assert.deepEqual(await storage.getProjectsByManager(leaver.id), []);
+  assert.deepEqual(await storage.getProjectsBySupervisor(leaver.id), []);
+  assert.deepEqual((await storage.getProjectsByManager(successor.id)).map(project => project.id), [managed.id]);
+});
@@ -0,0 +1,213 @@
+import { db } from "./db";
+import { storage } from "./storage";
+import { logAuditEvent, logUpdate } from "./auditService";
+import { getSuperAdminEmails } from "./staffAccessService";
+import type { Labourer, ProjectTeamRole, User } from "@shared/schema";
+
+// Either the shared db handle or the handle of an open transaction
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Raised when a deactivation, reactivation or offboarding decision is rejected
+ */
+export class OffboardingError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "OffboardingError";
+    this.status = status;
+    Object.setPrototypeOf(this, OffboardingError.prototype);
+  }
+}
+
+export type AssignmentRelation = ProjectTeamRole;
+
+export interface ProjectAssignment {
+  projectId: string;
+  projectName: string;
+  relation: AssignmentRelation;
+}
+
+/**
+ * What happens to one project link of the user being offboarded; without reassignTo the link is removed
+ */
+export interface AssignmentDecision {
+  projectId: string;
+  relation: AssignmentRelation;
+  reassignTo?: string | null;
+}
+
+export interface OffboardingResult {
+  user: User;
+  reassigned: number;
+  removed: number;
+  sessionsRevoked: number;
+}
+
+async function getTargetUser(id: string): Promise<User> {
+  const user = await storage.getUser(id);
+  if (!user || user.role === "labourer") {
+    throw new OffboardingError("User not found", 404);
+  }
+  return user;
+}
+
+/**
+ * Every project the user manages or supervises, for the offboarding review screen
+ */
+export async function getProjectAssignments(userId: string): Promise<ProjectAssignment[]> {
+  const [managed, supervised] = await Promise.all([
+    storage.getProjectsByManager(userId),
+    storage.getProjectsBySupervisor(userId),
+  ]);
+  return [
+    ...managed.map(project => ({ projectId: project.id, projectName: project.name, relation: "manager" as const })),
+    ...supervised.map(project => ({ projectId: project.id, projectName: project.name, relation: "supervisor" as const })),
+  ];
+}
+
+interface PlannedAssignment {
+  assignment: ProjectAssignment;
+  replacement: User | null;
+}
+
+/**
+ * Match each project link to its decision and check every replacement before anything is changed
+ */
+async function planAssignments(target: User, decisions: AssignmentDecision[]): Promise<PlannedAssignment[]> {
+  const plan: PlannedAssignment[] = [];
+  for (const assignment of await getProjectAssignments(target.id)) {
+    const decision = decisions.find(d => d.projectId === assignment.projectId && d.relation === assignment.relation);
+    if (!decision?.reassignTo) {
+      plan.push({ assignment, replacement: null });
+      continue;
+    }
+    const replacement = await storage.getUser(decision.reassignTo);
+    if (!replacement || !replacement.isActive || replacement.role === "labourer" || replacement.id === target.id) {
+      throw new OffboardingError(`Cannot reassign ${assignment.projectName} to that user; choose an active staff member`);
+    }
+    plan.push({ assignment, replacement });
+  }
+  return plan;
+}
+
+async function applyAssignmentDecision(
+  tx: DbExecutor,
+  target: User,
+  { assignment, replacement }: PlannedAssignment,
+  actor: User
+): Promise<void> {
+  const { projectId, relation } = assignment;
+
+  if (replacement) {
+    if (relation === "manager") {
+      await storage.assignProjectManager(projectId, replacement.id, actor.id, tx);
+    } else {
+      await storage.assignProjectSupervisor(projectId, replacement.id, actor.id, tx);
+    }
+  }
+
+  if (relation === "manager") {
+    await storage.removeProjectManager(projectId, target.id, actor.id, tx);
+  } else {
+    await storage.removeProjectSupervisor(projectId, target.id, actor.id, tx);
+  }
+}
+
+/**
+ * Offboard a staff user: hand over or drop each project link, deactivate the account and revoke its sessions.
+ * Links without a decision are removed. Every replacement is checked first and the changes are made in one
+ * transaction, so a failure leaves the user and their projects untouched.
+ */
+export async function deactivateUser(userId: string, decisions: AssignmentDecision[], actor: User): Promise<OffboardingResult> {
+  const target = await getTargetUser(userId);
+  if (target.id === actor.id) {
+    throw new OffboardingError("You cannot deactivate your own account", 403);
+  }
+  if (target.role === "super_admin" && actor.role !== "super_admin") {
+    throw new OffboardingError("Only Super Admins can deactivate a Super Admin", 403);
+  }
+  if (target.email && getSuperAdminEmails().includes(target.email.toLowerCase())) {
+    throw new OffboardingError("This account is configured in SUPER_ADMIN_EMAILS; remove it there first", 403);
+  }
+
+  const plan = await planAssignments(target, decisions);
+
+  const { user, sessionsRevoked } = await db.transaction(async (tx) => {
+    for (const planned of plan) {
+      await applyAssignmentDecision(tx, target, planned, actor);
+    }
+    const user = target.isActive ? await storage.setUserActive(target.id, false, actor.id, tx) : target;
+    const sessionsRevoked = await storage.deleteUserSessions(target, tx);
+    return { user, sessionsRevoked };
+  });
+
+  for (const { assignment, replacement } of plan) {
+    await logAuditEvent({
+      action: replacement ? "ASSIGN" : "DELETE",
+      entityType: "project",
+      entityId: assignment.projectId,
+      userId: actor.id,
+      changes: { [assignment.relation]: { old: target.id, new: replacement?.id ?? null } },
+      metadata: { operation: "offboarding", relation: assignment.relation, offboardedUserId: target.id },
+    }).catch(console.error);
+  }
+
+  if (target.isActive) {
+    await logUpdate("user", target.id, actor.id, { isActive: true }, { isActive: false }, { operation: "deactivate" })
+      .catch(console.error);
+  }
+
+  await logAuditEvent({
+    action: "DELETE",
+    entityType: "user_session",
+    entityId: target.id,
+    userId: actor.id,
+    metadata: { operation: "revoke_sessions", sessionsRevoked },
+  }).catch(console.error);
+
+  const reassigned = plan.filter(planned => planned.replacement).length;
+  return { user, reassigned, removed: plan.length - reassigned, sessionsRevoked };
+}
+
+export async function reactivateUser(userId: string, actor: User): Promise<User> {
+  const target = await getTargetUser(userId);
+  if (target.isActive) return target;
+
+  const user = await storage.setUserActive(target.id, true, actor.id);
+  await logUpdate("user", target.id, actor.id, { isActive: false }, { isActive: true }, { operation: "reactivate" })
+    .catch(console.error);
+  return user;
+}
+
+/**
+ * Block a labourer from the labourer portal and sign them out everywhere
+ */
+export async function deactivateLabourer(labourer: Labourer, actor: User): Promise<{ labourer: Labourer; sessionsRevoked: number }> {
+  const updated = labourer.isActive ? await storage.setLabourerActive(labourer.id, false, actor.id) : labourer;
+  if (labourer.isActive) {
+    await logUpdate("labourer", labourer.id, actor.id, { isActive: true }, { isActive: false }, { operation: "deactivate" })
+      .catch(console.error);
+  }
+
+  const sessionsRevoked = await storage.deleteLabourerSessions(labourer.id);
+  await logAuditEvent({
+    action: "DELETE",
+    entityType: "labourer_session",
+    entityId: labourer.id,
+    userId: actor.id,
+    metadata: { operation: "revoke_sessions", sessionsRevoked },
+  }).catch(console.error);
+
+  return { labourer: updated, sessionsRevoked };
+}
+
+export async function reactivateLabourer(labourer: Labourer, actor: User): Promise<Labourer> {
+  if (labourer.isActive) return labourer;
+
+  const updated = await storage.setLabourerActive(labourer.id, true, actor.id);
+  await logUpdate("labourer", labourer.id, actor.id, { isActive: false }, { isActive: true }, { operation: "reactivate" })
+    .catch(console.error);
+  return updated;
+}
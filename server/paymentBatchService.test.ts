@@ -0,0 +1,81 @@
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+import { employeeTypes, paymentPeriodEntries, paymentPeriods, projects, users, type PaymentPeriod, type User } from "@shared/schema";
+import { db } from "./db";
+import { storage } from "./storage";
+import { buildPeriodPaymentFile, createPaymentBatch, PaymentFileError, voidPaymentBatch } from "./paymentBatchService";
+import { PaymentPeriodWorkflowError } from "./paymentPeriodService";
+import { prepareTestDatabase } from "./testDatabase";
+
+let owner: User;
+let submittedPeriod: PaymentPeriod;
+let approvedPeriod: PaymentPeriod;
+
+before(async () => {
+  await prepareTestDatabase();
+  [owner] = await db.insert(users).values({ email: "owner@batches.test", role: "super_admin" }).returning();
+  const [employeeType] = await db.insert(employeeTypes).values({ name: "General Worker" }).returning();
+  const [project] = await db.insert(projects).values({ name: "Batches", createdBy: owner.id }).returning();
+  const labourer = await storage.createLabourer({
+    employeeTypeId: employeeType.id,
+    projectId: project.id,
+    firstName: "Thabo",
+    surname: "Nkosi",
+    idNumber: "P1234567",
+    idDocumentType: "passport",
+    idIssuingCountry: "ZWE",
+    dateOfBirth: "1990-01-01",
+    contactNumber: "0821234567",
+    bankName: "Test Bank",
+    accountNumber: "100000001",
+    accountType: "savings",
+    branchCode: "250655",
+    createdBy: owner.id,
+  });
+
+  [submittedPeriod, approvedPeriod] = await db
+    .insert(paymentPeriods)
+    .values([
+      { projectId: project.id, startDate: "2026-01-01", endDate: "2026-01-15", status: "submitted", totalAmount: "100.00" },
+      { projectId: project.id, startDate: "2026-01-16", endDate: "2026-01-31", status: "approved", totalAmount: "100.00" },
+    ])
+    .returning();
+  for (const period of [submittedPeriod, approvedPeriod]) {
+    await db.insert(paymentPeriodEntries).values({
+      periodId: period.id,
+      labourerId: labourer.id,
+      daysWorked: 1,
+      totalEarnings: "100.00",
+      netAmount: "100.00",
+    });
+  }
+});
+
+test("a draft payment file records nothing", async () => {
+  const file = await buildPeriodPaymentFile(submittedPeriod);
+  assert.equal(file.lines.length, 1);
+  assert.deepEqual(await storage.getPaymentBatches(submittedPeriod.id), []);
+});
+
+test("only an approved period generates a payment batch", async () => {
+  await assert.rejects(createPaymentBatch(submittedPeriod, undefined, owner.id), PaymentPeriodWorkflowError);
+  assert.deepEqual(await storage.getPaymentBatches(submittedPeriod.id), []);
+
+  const { batch, file } = await createPaymentBatch(approvedPeriod, undefined, owner.id);
+  assert.equal(batch.lineCount, file.lines.length);
+  assert.deepEqual((await storage.getPaymentBatches(approvedPeriod.id)).map(b => b.id), [batch.id]);
+});
+
+test("a period gets no second batch until the earlier one is voided", async () => {
+  const [earlier] = await storage.getPaymentBatches(approvedPeriod.id);
+  await assert.rejects(
+    createPaymentBatch(approvedPeriod, undefined, owner.id),
+    (error: unknown) => error instanceof PaymentFileError && error.status === 409
+  );
+  assert.equal((await storage.getPaymentBatches(approvedPeriod.id)).length, 1);
+
+  const voided = await voidPaymentBatch(earlier, "Sent in the wrong format", owner);
+  assert.equal(voided.status, "void");
+  const { batch } = await createPaymentBatch(approvedPeriod, undefined, owner.id);
+  assert.deepEqual((await storage.getPaymentBatches(approvedPeriod.id)).map(b => b.id).sort(), [earlier.id, batch.id].sort());
+});
@@ -0,0 +1,488 @@
+import { createHash } from "crypto";
+import { db } from "./db";
+import { storage } from "./storage";
+import {
+  labourers,
+  paymentBatches,
+  paymentBatchLines,
+  paymentPeriodEntries,
+  paymentPeriods,
+  type PaymentBatch,
+  type PaymentBatchLine,
+  type PaymentPeriod,
+  type User,
+} from "@shared/schema";
+import { and, eq, inArray, ne } from "drizzle-orm";
+import { logAuditEvent, logCreate } from "./auditService";
+import { getEntryNetAmount } from "./adjustmentService";
+import { bankAccountKey } from "./labourerDuplicateService";
+import {
+  buildPaymentFileLines,
+  getPaymentFileExporter,
+  getPaymentOriginator,
+  type ExcludedPaymentEntry,
+  type PaymentFileExporter,
+  type PaymentFileLine,
+} from "./paymentFileExporters";
+import { PaymentPeriodWorkflowError, transitionPaymentPeriod } from "./paymentPeriodService";
+import { hasPermission } from "./permissionService";
+
+// Either the shared db handle or the handle of an open transaction
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Raised when a payment file cannot be generated; errors lists every problem found in the period
+ */
+export class PaymentFileError extends Error {
+  status: number;
+  errors: string[];
+
+  constructor(message: string, errors: string[] = [], status = 400) {
+    super(message);
+    this.name = "PaymentFileError";
+    this.status = status;
+    this.errors = errors;
+    Object.setPrototypeOf(this, PaymentFileError.prototype);
+  }
+}
+
+/**
+ * A rendered payment file and the entries it pays or leaves out
+ */
+export interface PeriodPaymentFile {
+  exporter: PaymentFileExporter;
+  filename: string;
+  content: string;
+  lines: PaymentFileLine[];
+  excluded: ExcludedPaymentEntry[];
+}
+
+/**
+ * A row from the bank's response or statement file
+ */
+export interface BankStatementRow {
+  rowNumber: number;
+  accountNumber: string;
+  amountCents: number;
+  failed: boolean;
+  reference: string | null;
+  reason: string | null;
+}
+
+export interface PaymentBatchReconciliation {
+  batch: PaymentBatch;
+  lines: PaymentBatchLine[];
+  paid: number;
+  failed: number;
+  mismatched: number;
+  pending: number;
+  unmatchedRows: BankStatementRow[];
+  periodMarkedPaid: boolean;
+}
+
+// Line statuses that mean the bank may still pay, or has already paid, the labourer
+const LIVE_LINE_STATUSES: PaymentBatchLine["status"][] = ["pending", "paid", "mismatch"];
+
+// Bank statuses that mean the credit did not reach the beneficiary
+const FAILED_STATUS_PATTERN = /fail|reject|return|unpaid|unsuccess|error|declin/i;
+
+function normalizeAccountNumber(value: string): string {
+  return value.replace(/\D/g, '').replace(/^0+/, '');
+}
+
+function toCents(value: string | number): number {
+  return Math.round(Number(value) * 100);
+}
+
+/**
+ * Check a period's entries and render its payment file in the given format, or the project's own.
+ * Nothing is recorded, so a draft file can be previewed before the period is approved.
+ */
+export async function buildPeriodPaymentFile(period: PaymentPeriod, format?: string): Promise<PeriodPaymentFile> {
+  const project = await storage.getProject(period.projectId);
+  if (!project) {
+    throw new PaymentFileError("Project not found", [], 404);
+  }
+
+  const entries = await db
+    .select({ entry: paymentPeriodEntries, labourer: labourers })
+    .from(paymentPeriodEntries)
+    .innerJoin(labourers, eq(paymentPeriodEntries.labourerId, labourers.id))
+    .where(eq(paymentPeriodEntries.periodId, period.id));
+
+  const validationErrors: string[] = [];
+  const accountNumbers = new Set<string>();
+  let totalAmount = 0;
+
+  for (const { entry, labourer } of entries) {
+    // Net pay (after deductions and bonuses) may be zero but never negative; zero-amount lines are left out of the file
+    const amount = getEntryNetAmount(entry);
+    if (amount < 0) {
+      validationErrors.push(`Entry for ${labourer.firstName} ${labourer.surname} has a negative net amount: ${amount.toFixed(2)}`);
+    }
+    totalAmount += amount;
+
+    if (!labourer.accountNumber || !labourer.accountType || !labourer.branchCode) {
+      validationErrors.push(`Missing banking details for ${labourer.firstName} ${labourer.surname}`);
+    }
+
+    // Duplicate account numbers (onboarding flags these too, see the duplicate labourers review)
+    const accountKey = bankAccountKey(labourer.accountNumber, labourer.branchCode) ?? labourer.accountNumber;
+    if (accountNumbers.has(accountKey)) {
+      validationErrors.push(`Duplicate account number: ${labourer.accountNumber}`);
+    }
+    accountNumbers.add(accountKey);
+  }
+
+  const periodTotal = parseFloat(period.totalAmount);
+  if (Math.abs(totalAmount - periodTotal) > 0.01) {
+    validationErrors.push(`Total amount mismatch: Entries sum to ${totalAmount.toFixed(2)}, period total is ${periodTotal.toFixed(2)}`);
+  }
+
+  if (validationErrors.length > 0) {
+    throw new PaymentFileError("Validation failed", validationErrors);
+  }
+
+  const requestedFormat = format || project.paymentFileFormat;
+  const exporter = getPaymentFileExporter(requestedFormat);
+  if (!exporter) {
+    throw new PaymentFileError(`Unknown payment file format: ${requestedFormat}`);
+  }
+
+  const originator = getPaymentOriginator();
+  if (exporter.format !== "generic_csv" && (!originator.accountNumber || !originator.branchCode)) {
+    throw new PaymentFileError("Validation failed", [
+      `${exporter.label} files need PAYMENT_ORIGINATOR_ACCOUNT and PAYMENT_ORIGINATOR_BRANCH to be configured`,
+    ]);
+  }
+
+  const endDate = period.endDate.replace(/-/g, '');
+  const { lines, excluded } = buildPaymentFileLines(exporter, project, period, entries);
+  const content = exporter.render({ project, period, originator, actionDate: endDate, lines });
+
+  const formatSuffix = exporter.format === "generic_csv" ? "" : `_${exporter.format.toUpperCase()}`;
+  const filename = `PAYMENT_${project.name.replace(/[^A-Z0-9]/gi, '_').toUpperCase()}_${endDate}${formatSuffix}.${exporter.extension}`;
+
+  return { exporter, filename, content, lines, excluded };
+}
+
+/**
+ * The period's batch that still has lines pending, paid or paid a different amount, if any. Voided batches
+ * never count.
+ */
+async function findLiveBatch(periodId: string, executor: DbExecutor = db): Promise<PaymentBatch | undefined> {
+  const [live] = await executor
+    .select({ batch: paymentBatches })
+    .from(paymentBatches)
+    .innerJoin(paymentBatchLines, eq(paymentBatchLines.batchId, paymentBatches.id))
+    .where(and(
+      eq(paymentBatches.periodId, periodId),
+      ne(paymentBatches.status, "void"),
+      inArray(paymentBatchLines.status, LIVE_LINE_STATUSES)
+    ))
+    .limit(1);
+  return live?.batch;
+}
+
+/**
+ * Generate the payment file sent to the bank and record it as a batch, so the bank's response can be
+ * reconciled against it. Only approved periods are paid, so only they get a batch, and only one at a
+ * time: an earlier batch must be voided before the period's labourers can be put in a new file.
+ */
+export async function createPaymentBatch(
+  period: PaymentPeriod,
+  format: string | undefined,
+  userId: string
+): Promise<{ batch: PaymentBatch; file: PeriodPaymentFile }> {
+  if (period.status !== "approved") {
+    throw new PaymentPeriodWorkflowError(`Payment period is ${period.status}; only approved periods can generate a payment batch`);
+  }
+
+  const file = await buildPeriodPaymentFile(period, format);
+  const batch = await recordPaymentBatch(period, file.exporter, file.filename, file.content, file.lines, userId);
+  return { batch, file };
+}
+
+/**
+ * Record a generated payment file, its checksum and the amount sent to each labourer
+ */
+async function recordPaymentBatch(
+  period: PaymentPeriod,
+  exporter: PaymentFileExporter,
+  filename: string,
+  content: string,
+  lines: PaymentFileLine[],
+  userId: string
+): Promise<PaymentBatch> {
+  const checksum = createHash("sha256").update(content).digest("hex");
+  const totalCents = lines.reduce((sum, line) => sum + line.amountCents, 0);
+
+  const batch = await db.transaction(async (tx) => {
+    // Lock the period so two requests cannot both find no live batch and each record one
+    await tx.select({ id: paymentPeriods.id }).from(paymentPeriods).where(eq(paymentPeriods.id, period.id)).for("update");
+    const live = await findLiveBatch(period.id, tx);
+    if (live) {
+      throw new PaymentFileError(`Payment batch ${live.filename} already covers this period; void it before generating another`, [], 409);
+    }
+
+    const [created] = await tx
+      .insert(paymentBatches)
+      .values({
+        periodId: period.id,
+        format: exporter.format,
+        filename,
+        checksum,
+        lineCount: lines.length,
+        totalAmount: (totalCents / 100).toFixed(2),
+        generatedBy: userId,
+      })
+      .returning();
+
+    if (lines.length > 0) {
+      await tx.insert(paymentBatchLines).values(lines.map(line => ({
+        batchId: created.id,
+        entryId: line.entryId,
+        labourerId: line.labourerId,
+        accountNumber: line.accountNumber,
+        branchCode: line.branchCode,
+        amount: (line.amountCents / 100).toFixed(2),
+        reference: line.reference,
+      })));
+    }
+
+    return created;
+  });
+
+  await logCreate("payment_batch", batch.id, userId, batch as any, { periodId: period.id }).catch(console.error);
+  return batch;
+}
+
+/**
+ * Withdraw a batch the bank has not paid from, so the period can be paid from a new one. Its lines are
+ * kept as a record of what the file held.
+ */
+export async function voidPaymentBatch(batch: PaymentBatch, reason: string, user: User): Promise<PaymentBatch> {
+  if (batch.status === "void") {
+    throw new PaymentFileError("Payment batch is already void", [], 409);
+  }
+  const lines = await storage.getPaymentBatchLines(batch.id);
+  if (lines.some(line => line.status === "paid" || line.status === "mismatch")) {
+    throw new PaymentFileError("The bank has already paid lines from this batch, so it cannot be voided", [], 409);
+  }
+
+  const [voided] = await db
+    .update(paymentBatches)
+    .set({ status: "void", voidedBy: user.id, voidedAt: new Date(), voidReason: reason })
+    .where(eq(paymentBatches.id, batch.id))
+    .returning();
+
+  await logAuditEvent({
+    action: "UPDATE",
+    entityType: "payment_batch",
+    entityId: batch.id,
+    userId: user.id,
+    changes: { status: { old: batch.status, new: voided.status } },
+    metadata: { operation: "void", reason },
+  }).catch(console.error);
+
+  return voided;
+}
+
+// Split one CSV line, honouring quoted fields
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',' || char === ';') {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+}
+
+/**
+ * Parse a bank response/statement CSV. The header row is located by its "account" and "amount"
+ * columns, so bank-specific preamble lines before it are ignored.
+ */
+export function parseBankStatementCsv(content: string): BankStatementRow[] {
+  const rows = content.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim() !== '').map(parseCsvLine);
+
+  const headerIndex = rows.findIndex(row =>
+    row.some(cell => /account/i.test(cell)) && row.some(cell => /amount/i.test(cell))
+  );
+  if (headerIndex === -1) {
+    throw new Error("Could not find a header row with account number and amount columns");
+  }
+
+  const header = rows[headerIndex];
+  const column = (pattern: RegExp) => header.findIndex(cell => pattern.test(cell));
+  const accountCol = column(/account/i);
+  const amountCol = column(/amount/i);
+  const statusCol = column(/status|result/i);
+  const referenceCol = column(/reference/i);
+  const reasonCol = column(/reason|description|message/i);
+
+  const parsed: BankStatementRow[] = [];
+  rows.slice(headerIndex + 1).forEach((row, index) => {
+    const accountNumber = normalizeAccountNumber(row[accountCol] || '');
+    const amount = (row[amountCol] || '').replace(/[^\d.\-]/g, '');
+    if (!accountNumber || amount === '' || isNaN(Number(amount))) return;
+
+    const status = statusCol >= 0 ? row[statusCol] || '' : '';
+    parsed.push({
+      rowNumber: headerIndex + index + 2,
+      accountNumber,
+      amountCents: toCents(Math.abs(Number(amount))),
+      failed: FAILED_STATUS_PATTERN.test(status),
+      reference: referenceCol >= 0 ? row[referenceCol] || null : null,
+      reason: reasonCol >= 0 ? row[reasonCol] || (status || null) : (status || null),
+    });
+  });
+
+  return parsed;
+}
+
+/**
+ * Every entry with a positive net amount must have a paid line in one of the period's batches
+ */
+export async function isPaymentPeriodReconciled(period: PaymentPeriod): Promise<boolean> {
+  const entries = (await storage.getPaymentPeriodEntries(period.id)).filter(e => getEntryNetAmount(e) > 0);
+  if (entries.length === 0) return false;
+
+  const batches = await storage.getPaymentBatches(period.id);
+  const paidEntryIds = new Set<string>();
+  for (const batch of batches) {
+    const lines = await storage.getPaymentBatchLines(batch.id);
+    lines
+      .filter(line => line.status === "paid" && line.entryId)
+      .forEach(line => paidEntryIds.add(line.entryId!));
+  }
+
+  return entries.every(entry => paidEntryIds.has(entry.id));
+}
+
+export async function assertPaymentPeriodReconciled(period: PaymentPeriod): Promise<void> {
+  if (!(await isPaymentPeriodReconciled(period))) {
+    throw new PaymentPeriodWorkflowError(
+      "Payment period can only be marked paid once every entry is reconciled against a bank response"
+    );
+  }
+}
+
+/**
+ * Match the bank's response rows to the batch lines by account number and amount.
+ * Failed and mismatched payments are flagged on their lines; the period moves to paid
+ * once all of its entries are reconciled.
+ */
+export async function reconcilePaymentBatch(
+  batch: PaymentBatch,
+  content: string,
+  user: User
+): Promise<PaymentBatchReconciliation> {
+  if (batch.status === "void") {
+    throw new PaymentPeriodWorkflowError("Payment batch was voided; import the bank response against the batch that replaced it");
+  }
+  const rows = parseBankStatementCsv(content);
+  const existingLines = await storage.getPaymentBatchLines(batch.id);
+  const openLines = existingLines.filter(line => line.status !== "paid");
+  const unmatchedRows: BankStatementRow[] = [];
+  const updates = new Map<string, Partial<PaymentBatchLine>>();
+  const now = new Date();
+
+  for (const row of rows) {
+    const candidates = openLines.filter(line =>
+      !updates.has(line.id) && normalizeAccountNumber(line.accountNumber) === row.accountNumber
+    );
+    const line = candidates.find(l => toCents(l.amount) === row.amountCents) || candidates[0];
+    if (!line) {
+      unmatchedRows.push(row);
+      continue;
+    }
+
+    const amountMatches = toCents(line.amount) === row.amountCents;
+    updates.set(line.id, {
+      status: row.failed ? "failed" : amountMatches ? "paid" : "mismatch",
+      bankAmount: (row.amountCents / 100).toFixed(2),
+      bankReference: row.reference,
+      failureReason: row.failed
+        ? row.reason || "Payment failed"
+        : amountMatches ? null : `Bank paid ${(row.amountCents / 100).toFixed(2)}, expected ${Number(line.amount).toFixed(2)}`,
+      reconciledAt: now,
+    });
+  }
+
+  const result = await db.transaction(async (tx) => {
+    const lines: PaymentBatchLine[] = [];
+    for (const line of existingLines) {
+      const update = updates.get(line.id);
+      if (!update) {
+        lines.push(line);
+        continue;
+      }
+      const [updated] = await tx
+        .update(paymentBatchLines)
+        .set(update)
+        .where(eq(paymentBatchLines.id, line.id))
+        .returning();
+      lines.push(updated);
+    }
+
+    const allPaid = lines.length > 0 && lines.every(line => line.status === "paid");
+    const [updatedBatch] = await tx
+      .update(paymentBatches)
+      .set({ status: allPaid ? "reconciled" : "reconciling", reconciledAt: allPaid ? now : null })
+      .where(eq(paymentBatches.id, batch.id))
+      .returning();
+
+    return { batch: updatedBatch, lines };
+  });
+
+  const count = (status: PaymentBatchLine["status"]) => result.lines.filter(line => line.status === status).length;
+  const summary = {
+    paid: count("paid"),
+    failed: count("failed"),
+    mismatched: count("mismatch"),
+    pending: count("pending"),
+  };
+
+  await logAuditEvent({
+    action: "UPDATE",
+    entityType: "payment_batch",
+    entityId: batch.id,
+    userId: user.id,
+    changes: { status: { old: batch.status, new: result.batch.status } },
+    metadata: { operation: "reconcile", ...summary, unmatchedRows: unmatchedRows.length },
+  }).catch(console.error);
+
+  // Close the period once the bank has confirmed every entry, if the user may mark periods paid
+  let periodMarkedPaid = false;
+  const period = await storage.getPaymentPeriod(batch.periodId);
+  if (
+    period && period.status === "approved" &&
+    await hasPermission(user, "payment_period.pay") &&
+    await isPaymentPeriodReconciled(period)
+  ) {
+    await transitionPaymentPeriod(period, "paid", user);
+    periodMarkedPaid = true;
+  }
+
+  return { ...result, ...summary, unmatchedRows, periodMarkedPaid };
+}
@@ -0,0 +1,123 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync, writeFileSync } from "fs";
+import { fileURLToPath } from "url";
+import path from "path";
+import type { Labourer, PaymentPeriod, PaymentPeriodEntry, Project } from "@shared/schema";
+import {
+  PAYMENT_FILE_EXPORTERS,
+  accountHashTotal,
+  buildPaymentFileLines,
+  type PaymentOriginator,
+} from "./paymentFileExporters";
+
+/**
+ * Golden-file tests: each exporter renders its fixture in server/fixtures/payment-files/<format>.json and
+ * the result must match <format>.expected.<extension> byte for byte (headers, trailers, hash totals, line endings).
+ * After an intended format change, regenerate the expected files with UPDATE_GOLDEN=1 npm test and review the diff.
+ * Fixtures marked referenceSample were laid out by hand from the bank's record specification and are never
+ * regenerated; edit them field by field instead.
+ */
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures", "payment-files");
+
+interface PaymentFileFixture {
+  format: string;
+  project: Partial<Project>;
+  period: Partial<PaymentPeriod>;
+  originator: PaymentOriginator;
+  actionDate: string;
+  referenceSample?: boolean;
+  entries: Array<{ entry: Partial<PaymentPeriodEntry>; labourer: Partial<Labourer> }>;
+  expectedExcluded: string[];
+}
+
+function loadFixture(format: string): PaymentFileFixture {
+  return JSON.parse(readFileSync(path.join(FIXTURES_DIR, `${format}.json`), "utf-8"));
+}
+
+for (const exporter of Object.values(PAYMENT_FILE_EXPORTERS)) {
+  test(`${exporter.format} payment file matches its golden file`, () => {
+    const fixture = loadFixture(exporter.format);
+    const project = fixture.project as Project;
+    const period = fixture.period as PaymentPeriod;
+    const entries = fixture.entries as Array<{ entry: PaymentPeriodEntry; labourer: Labourer }>;
+
+    const { lines, excluded } = buildPaymentFileLines(exporter, project, period, entries);
+    const content = exporter.render({ project, period, originator: fixture.originator, actionDate: fixture.actionDate, lines });
+
+    const expectedPath = path.join(FIXTURES_DIR, `${exporter.format}.expected.${exporter.extension}`);
+    if (process.env.UPDATE_GOLDEN && !fixture.referenceSample) {
+      writeFileSync(expectedPath, content, "utf-8");
+    }
+    assert.ok(readFileSync(expectedPath).equals(Buffer.from(content, "utf-8")), `${exporter.format} output differs from ${expectedPath}`);
+
+    assert.deepEqual(excluded.map(entry => entry.entryId), fixture.expectedExcluded);
+    assert.equal(lines.length + excluded.length, entries.length);
+
+    // Every record ends in CRLF; bank imports reject bare LF
+    assert.doesNotMatch(content, /(?<!\r)\n/);
+    // The trailer carries the record count and the account hash total; ACB's user trailer is checked below
+    const records = content.split("\r\n").filter(Boolean);
+    if (exporter.format !== "generic_csv" && exporter.format !== "acb") {
+      assert.ok(records[records.length - 1].includes(accountHashTotal(lines)), `${exporter.format} trailer is missing the hash total`);
+    }
+  });
+}
+
+test("acb records are all 180 characters with matching header and trailer totals", () => {
+  const exporter = PAYMENT_FILE_EXPORTERS.acb;
+  const fixture = loadFixture("acb");
+  const project = fixture.project as Project;
+  const period = fixture.period as PaymentPeriod;
+  const { lines } = buildPaymentFileLines(exporter, project, period, fixture.entries as Array<{ entry: PaymentPeriodEntry; labourer: Labourer }>);
+  const records = exporter.render({ project, period, originator: fixture.originator, actionDate: fixture.actionDate, lines })
+    .split("\r\n")
+    .filter(Boolean);
+
+  for (const record of records) assert.equal(record.length, 180);
+  assert.deepEqual(records.map(record => record.slice(0, 2)), ["02", "04", ...lines.map(() => "10"), "12", "92", "94"]);
+
+  // User trailer: the contra is the set's one debit and balances the credits
+  const contra = records[records.length - 3];
+  const userTrailer = records[records.length - 2];
+  const total = lines.reduce((sum, line) => sum + line.amountCents, 0);
+  assert.equal(Number(contra.slice(47, 58)), total, "contra amount");
+  assert.equal(userTrailer.slice(12, 18), contra.slice(23, 29), "user trailer last sequence number is the contra's");
+  assert.deepEqual(
+    [30, 36, 42].map(start => Number(userTrailer.slice(start, start + 6))),
+    [1, lines.length, 1],
+    "user trailer debit, credit and contra counts"
+  );
+  assert.equal(Number(userTrailer.slice(48, 60)), total, "user trailer debit total");
+  assert.equal(Number(userTrailer.slice(60, 72)), total, "user trailer credit total");
+  assert.equal(
+    userTrailer.slice(72, 84),
+    accountHashTotal([...lines, { accountNumber: fixture.originator.accountNumber }]),
+    "user trailer hash total includes the contra account"
+  );
+
+  const installationTrailer = records[records.length - 1];
+  assert.equal(installationTrailer.slice(2, 31), records[0].slice(2, 31), "installation trailer repeats the header");
+  assert.equal(installationTrailer.slice(31, 37), String(records.length).padStart(6, "0"), "installation trailer record count");
+  assert.equal(installationTrailer.slice(37, 43), "000002", "installation trailer user header and trailer count");
+});
+
+test("entries with nothing to pay or no bank details are excluded with a reason", () => {
+  const exporter = PAYMENT_FILE_EXPORTERS.generic_csv;
+  const project = { name: "Test", paymentReferenceTemplate: null } as Project;
+  const period = { startDate: "2026-01-01", endDate: "2026-01-15" } as PaymentPeriod;
+  const labourer = { id: "l", firstName: "A", surname: "B", idNumber: "1", accountNumber: "123", branchCode: "456", accountType: "savings" } as Labourer;
+
+  const { lines, excluded } = buildPaymentFileLines(exporter, project, period, [
+    { entry: { id: "zero", netAmount: "0.00", totalEarnings: "100.00" } as PaymentPeriodEntry, labourer },
+    { entry: { id: "no-bank", netAmount: "50.00", totalEarnings: "50.00" } as PaymentPeriodEntry, labourer: { ...labourer, accountNumber: " " } },
+    { entry: { id: "paid", netAmount: "75.00", totalEarnings: "75.00" } as PaymentPeriodEntry, labourer },
+  ]);
+
+  assert.deepEqual(lines.map(line => line.entryId), ["paid"]);
+  assert.deepEqual(excluded.map(entry => [entry.entryId, entry.reason]), [
+    ["zero", "Net amount is zero"],
+    ["no-bank", "Missing bank account number or branch code"],
+  ]);
+});
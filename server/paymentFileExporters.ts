@@ -0,0 +1,404 @@
+import type { Labourer, PaymentFileFormat, PaymentPeriod, PaymentPeriodEntry, Project } from "@shared/schema";
+import { getEntryNetAmount } from "./adjustmentService";
+
+export const DEFAULT_PAYMENT_REFERENCE_TEMPLATE = "mooyawireless";
+
+/**
+ * A single credit transfer in a bulk payment file
+ */
+export interface PaymentFileLine {
+  entryId: string;
+  labourerId: string;
+  accountNumber: string;
+  branchCode: string;
+  accountTypeCode: string; // 1 = cheque/current, 2 = savings
+  beneficiaryName: string;
+  amountCents: number;
+  reference: string;
+}
+
+/**
+ * A period entry left out of the payment file; it must be paid some other way or fixed and downloaded again
+ */
+export interface ExcludedPaymentEntry {
+  entryId: string;
+  labourerId: string;
+  labourerName: string;
+  amountCents: number;
+  reason: string;
+}
+
+export interface PaymentFileLines {
+  lines: PaymentFileLine[];
+  excluded: ExcludedPaymentEntry[];
+}
+
+/**
+ * Details of the paying (originating) account, configured through environment variables
+ */
+export interface PaymentOriginator {
+  name: string;
+  accountNumber: string;
+  branchCode: string;
+  userCode: string;
+}
+
+export interface PaymentFileContext {
+  project: Project;
+  period: PaymentPeriod;
+  originator: PaymentOriginator;
+  actionDate: string; // yyyyMMdd
+  lines: PaymentFileLine[];
+}
+
+export interface PaymentFileExporter {
+  format: PaymentFileFormat;
+  label: string;
+  extension: "csv" | "txt";
+  contentType: string;
+  maxReferenceLength: number;
+  maxNameLength: number;
+  render(context: PaymentFileContext): string;
+}
+
+export function getPaymentOriginator(): PaymentOriginator {
+  return {
+    name: process.env.PAYMENT_ORIGINATOR_NAME || "MOOYA WIRELESS",
+    accountNumber: process.env.PAYMENT_ORIGINATOR_ACCOUNT || "",
+    branchCode: process.env.PAYMENT_ORIGINATOR_BRANCH || "",
+    userCode: process.env.PAYMENT_ACB_USER_CODE || "",
+  };
+}
+
+// Helper function to escape CSV fields per RFC 4180 standard
+function escapeCsvField(field: string | number | null | undefined): string {
+  if (field == null) return '';
+  const str = String(field).trim();
+  if (str.includes(',') || str.includes('"') || str.includes('\n') || str.includes('\r')) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
+
+function csvRow(fields: Array<string | number>): string {
+  return fields.map(escapeCsvField).join(',');
+}
+
+function formatRands(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+function padLeft(value: string | number, length: number, fill = "0"): string {
+  return String(value).slice(-length).padStart(length, fill);
+}
+
+function padRight(value: string, length: number): string {
+  return value.slice(0, length).padEnd(length, " ");
+}
+
+function totalCents(lines: PaymentFileLine[]): number {
+  return lines.reduce((sum, line) => sum + line.amountCents, 0);
+}
+
+/**
+ * Hash total of the destination account numbers (last 11 digits of each, summed and
+ * truncated to 12 digits) so the bank can detect altered or dropped records
+ */
+export function accountHashTotal(lines: Pick<PaymentFileLine, "accountNumber">[]): string {
+  const sum = lines.reduce((acc, line) => {
+    const digits = line.accountNumber.replace(/\D/g, '').slice(-11);
+    return acc + BigInt(digits || "0");
+  }, BigInt(0));
+  return padLeft(sum.toString(), 12);
+}
+
+/**
+ * Expand a reference template such as "{project}-{periodEnd}-{idSuffix}".
+ * Unknown placeholders are left empty and the result is cut to the bank's reference limit.
+ */
+export function renderPaymentReference(
+  template: string,
+  values: { project: Project; period: PaymentPeriod; labourer: Labourer },
+  maxLength: number
+): string {
+  const projectCode = values.project.name.replace(/[^A-Z0-9]/gi, '').toUpperCase().slice(0, 8);
+  const tokens: Record<string, string> = {
+    project: projectCode,
+    periodStart: String(values.period.startDate).split('T')[0].replace(/-/g, ''),
+    periodEnd: String(values.period.endDate).split('T')[0].replace(/-/g, ''),
+    idSuffix: values.labourer.idNumber.replace(/\s+/g, '').slice(-4),
+    surname: values.labourer.surname.toUpperCase(),
+  };
+
+  return template
+    .replace(/\{(\w+)\}/g, (_, key: string) => tokens[key] ?? '')
+    .replace(/[^A-Za-z0-9 \-\/]/g, '')
+    .slice(0, maxLength);
+}
+
+// Original universal CSV layout, kept as the default for projects that haven't chosen a bank
+const genericCsvExporter: PaymentFileExporter = {
+  format: "generic_csv",
+  label: "Generic CSV",
+  extension: "csv",
+  contentType: "text/csv; charset=utf-8",
+  maxReferenceLength: 30,
+  maxNameLength: 50,
+  render({ lines }) {
+    const rows = ['Account Number,Beneficiary Name,Amount,Branch Code,Account Type,Reference'];
+    for (const line of lines) {
+      rows.push(csvRow([
+        line.accountNumber,
+        line.beneficiaryName,
+        formatRands(line.amountCents),
+        line.branchCode,
+        line.accountTypeCode,
+        line.reference,
+      ]));
+    }
+    return '\ufeff' + rows.join('\r\n');
+  },
+};
+
+// Fixed-width 180 character ACB credit transfer layout:
+// installation header (02), user header (04), transactions (10), contra (12), user trailer (92), installation trailer (94).
+// The contra debits the originator for the sum of the credits, so the user trailer counts it as the set's one debit.
+const acbExporter: PaymentFileExporter = {
+  format: "acb",
+  label: "ACB (fixed-width)",
+  extension: "txt",
+  contentType: "text/plain; charset=us-ascii",
+  maxReferenceLength: 20,
+  maxNameLength: 30,
+  render({ originator, actionDate, lines }) {
+    const record = (body: string) => padRight(body, 180);
+    const shortDate = actionDate.slice(2); // yyMMdd
+    const userCode = padLeft(originator.userCode, 4);
+    const total = totalCents(lines);
+    const firstSequence = 1;
+    const lastSequence = lines.length + 1; // the contra takes the last sequence number
+    const installation = `L${padLeft(originator.userCode, 4)}${shortDate}${shortDate}0001${padRight("MAGTAPE", 8)}`;
+
+    const records: string[] = [];
+    records.push(record(`02${installation}`));
+    records.push(record(`04${userCode}${shortDate}${shortDate}${shortDate}${shortDate}${padLeft(firstSequence, 6)}${padLeft(1, 4)}${padRight("SAMEDAY", 10)}`));
+
+    lines.forEach((line, index) => {
+      records.push(record([
+        "10",
+        padLeft(originator.branchCode, 6),
+        padLeft(originator.accountNumber, 11),
+        userCode,
+        padLeft(index + 1, 6),
+        padLeft(line.branchCode, 6),
+        padLeft(line.accountNumber.replace(/\D/g, ''), 11),
+        line.accountTypeCode,
+        padLeft(line.amountCents, 11),
+        shortDate,
+        "10",
+        padRight(`${padRight(originator.name, 10)}${line.reference}`, 30),
+        padRight(line.beneficiaryName, 30),
+      ].join('')));
+    });
+
+    records.push(record([
+      "12",
+      padLeft(originator.branchCode, 6),
+      padLeft(originator.accountNumber, 11),
+      userCode,
+      padLeft(lastSequence, 6),
+      padLeft(originator.branchCode, 6),
+      padLeft(originator.accountNumber, 11),
+      "1",
+      padLeft(total, 11),
+      shortDate,
+      "10",
+      padRight(`${originator.name} CONTRA`, 30),
+    ].join('')));
+
+    // Debit, credit and contra record counts, then debit and credit totals, which balance through the contra
+    records.push(record([
+      "92",
+      userCode,
+      padLeft(firstSequence, 6),
+      padLeft(lastSequence, 6),
+      shortDate,
+      shortDate,
+      padLeft(1, 6),
+      padLeft(lines.length, 6),
+      padLeft(1, 6),
+      padLeft(total, 12),
+      padLeft(total, 12),
+      accountHashTotal([...lines, { accountNumber: originator.accountNumber }]),
+    ].join('')));
+
+    // Repeats the installation header, then the record count (both installation records included)
+    // and the number of user header and trailer records
+    records.push(record(`94${installation}${padLeft(records.length + 1, 6)}${padLeft(2, 6)}`));
+
+    return records.join('\r\n') + '\r\n';
+  },
+};
+
+// FNB Online Banking bulk payment import
+const fnbCsvExporter: PaymentFileExporter = {
+  format: "fnb_csv",
+  label: "FNB Online Banking CSV",
+  extension: "csv",
+  contentType: "text/csv; charset=utf-8",
+  maxReferenceLength: 20,
+  maxNameLength: 30,
+  render({ originator, actionDate, lines }) {
+    const rows: string[] = [];
+    rows.push(csvRow(["HEADER", originator.name, originator.accountNumber, actionDate]));
+    rows.push(csvRow(["Recipient Name", "Branch Code", "Account Number", "Account Type", "Amount", "Own Reference", "Recipient Reference"]));
+    for (const line of lines) {
+      rows.push(csvRow([
+        line.beneficiaryName,
+        line.branchCode,
+        line.accountNumber,
+        line.accountTypeCode,
+        formatRands(line.amountCents),
+        line.reference,
+        line.reference,
+      ]));
+    }
+    rows.push(csvRow(["TRAILER", lines.length, formatRands(totalCents(lines)), accountHashTotal(lines)]));
+    return rows.join('\r\n');
+  },
+};
+
+// Standard Bank BizDirect bulk payment import (H/D/T records, amounts in cents)
+const standardBankExporter: PaymentFileExporter = {
+  format: "standard_bank_bizdirect",
+  label: "Standard Bank BizDirect",
+  extension: "csv",
+  contentType: "text/csv; charset=utf-8",
+  maxReferenceLength: 20,
+  maxNameLength: 30,
+  render({ originator, actionDate, lines, project }) {
+    const rows: string[] = [];
+    rows.push(csvRow(["H", originator.branchCode, originator.accountNumber, actionDate, project.name.toUpperCase().slice(0, 30)]));
+    for (const line of lines) {
+      rows.push(csvRow([
+        "D",
+        line.branchCode,
+        line.accountNumber,
+        line.accountTypeCode,
+        line.amountCents,
+        line.beneficiaryName,
+        line.reference,
+      ]));
+    }
+    rows.push(csvRow(["T", lines.length, totalCents(lines), accountHashTotal(lines)]));
+    return rows.join('\r\n');
+  },
+};
+
+// Absa Cash Focus beneficiary payment import
+const absaCashFocusExporter: PaymentFileExporter = {
+  format: "absa_cash_focus",
+  label: "Absa Cash Focus",
+  extension: "csv",
+  contentType: "text/csv; charset=utf-8",
+  maxReferenceLength: 20,
+  maxNameLength: 30,
+  render({ originator, actionDate, lines }) {
+    const rows: string[] = [];
+    rows.push(csvRow(["HEADER", originator.accountNumber, originator.name, actionDate, lines.length]));
+    lines.forEach((line, index) => {
+      rows.push(csvRow([
+        "DETAIL",
+        index + 1,
+        line.beneficiaryName,
+        line.accountNumber,
+        line.branchCode,
+        line.accountTypeCode,
+        formatRands(line.amountCents),
+        line.reference,
+        originator.name.slice(0, 20),
+      ]));
+    });
+    rows.push(csvRow(["TRAILER", lines.length, formatRands(totalCents(lines)), accountHashTotal(lines)]));
+    return rows.join('\r\n');
+  },
+};
+
+export const PAYMENT_FILE_EXPORTERS: Record<PaymentFileFormat, PaymentFileExporter> = {
+  generic_csv: genericCsvExporter,
+  acb: acbExporter,
+  fnb_csv: fnbCsvExporter,
+  standard_bank_bizdirect: standardBankExporter,
+  absa_cash_focus: absaCashFocusExporter,
+};
+
+export function getPaymentFileExporter(format: string): PaymentFileExporter | undefined {
+  return (PAYMENT_FILE_EXPORTERS as Record<string, PaymentFileExporter>)[format];
+}
+
+// Convert account type to numeric code for bank compatibility
+function formatAccountTypeCode(type: string): string {
+  const normalized = type.toLowerCase().trim();
+  if (normalized === 'savings' || normalized === 'saving') return '2';
+  return '1';
+}
+
+// Sanitize beneficiary name
+function sanitizeName(name: string, maxLength: number): string {
+  if (!name) return '';
+  return name.trim()
+    .replace(/[^\w\s\-']/g, '')
+    .replace(/\s+/g, ' ')
+    .substring(0, maxLength)
+    .toUpperCase();
+}
+
+/**
+ * Build the payment lines for a period's entries using the exporter's reference rules.
+ * Entries with nothing to pay or without usable bank details are returned as excluded, never dropped silently.
+ */
+export function buildPaymentFileLines(
+  exporter: PaymentFileExporter,
+  project: Project,
+  period: PaymentPeriod,
+  entries: Array<{ entry: PaymentPeriodEntry; labourer: Labourer }>
+): PaymentFileLines {
+  const template = project.paymentReferenceTemplate || DEFAULT_PAYMENT_REFERENCE_TEMPLATE;
+  const lines: PaymentFileLine[] = [];
+  const excluded: ExcludedPaymentEntry[] = [];
+
+  for (const { entry, labourer } of entries) {
+    const amountCents = Math.round(getEntryNetAmount(entry) * 100);
+    const accountNumber = (labourer.accountNumber?.trim() || '').replace(/\s+/g, '');
+    const branchCode = (labourer.branchCode?.trim() || '').replace(/\s+/g, '');
+    const beneficiaryName = sanitizeName(`${labourer.firstName} ${labourer.surname}`, exporter.maxNameLength);
+
+    const reason = !(amountCents > 0) ? "Net amount is zero"
+      : !accountNumber || !branchCode ? "Missing bank account number or branch code"
+      : !beneficiaryName ? "Name has no characters the bank accepts"
+      : null;
+    if (reason) {
+      excluded.push({
+        entryId: entry.id,
+        labourerId: labourer.id,
+        labourerName: `${labourer.firstName} ${labourer.surname}`,
+        amountCents,
+        reason,
+      });
+      continue;
+    }
+
+    lines.push({
+      entryId: entry.id,
+      labourerId: labourer.id,
+      accountNumber,
+      branchCode,
+      accountTypeCode: formatAccountTypeCode(labourer.accountType),
+      beneficiaryName,
+      amountCents,
+      reference: renderPaymentReference(template, { project, period, labourer }, exporter.maxReferenceLength),
+    });
+  }
+
+  return { lines, excluded };
+}
@@ -0,0 +1,446 @@
+import { db } from "./db";
+import { storage } from "./storage";
+import { paymentPeriods, paymentPeriodEntries, type AdditionalWorkItem, type PaymentPeriod, type InsertPaymentPeriod, type Project, type User } from "@shared/schema";
+import {
+  EDITABLE_PAYMENT_PERIOD_STATUSES,
+  findPaymentPeriodTransition,
+  type PaymentPeriodStatus,
+} from "@shared/paymentPeriodWorkflow";
+import { addDaysToDate, dateInTimeZone, endOfMonth, resolveTimeZone, toDateOnly } from "@shared/workDate";
+import { and, eq } from "drizzle-orm";
+import { logAction, logAuditEvent, logCreate } from "./auditService";
+import { refreshPeriodNetTotals, scheduleAdvanceRepayments } from "./adjustmentService";
+import { hasPermission } from "./permissionService";
+import { combineAdditionalItems } from "./earningsService";
+
+// Either the shared db handle or the handle of an open transaction
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Raised when a payment period workflow rule is violated.
+ * Carries the HTTP status the route should respond with.
+ */
+export class PaymentPeriodWorkflowError extends Error {
+  status: number;
+
+  constructor(message: string, status = 409) {
+    super(message);
+    this.name = "PaymentPeriodWorkflowError";
+    this.status = status;
+    Object.setPrototypeOf(this, PaymentPeriodWorkflowError.prototype);
+  }
+}
+
+/**
+ * Check that the user's role holds the permission to move the period from its current status to the target status
+ */
+export async function assertPaymentPeriodTransition(period: PaymentPeriod, to: PaymentPeriodStatus, user: User): Promise<void> {
+  const transition = findPaymentPeriodTransition(period.status, to);
+  if (!transition) {
+    throw new PaymentPeriodWorkflowError(`Cannot change payment period status from ${period.status} to ${to}`);
+  }
+  if (!(await hasPermission(user, transition.permission))) {
+    throw new PaymentPeriodWorkflowError(`You do not have permission to ${transition.label.toLowerCase()} payment periods`, 403);
+  }
+}
+
+/**
+ * Stamp the user/timestamp columns belonging to the target status
+ */
+function getTransitionStamps(to: PaymentPeriodStatus, userId: string): Partial<PaymentPeriod> {
+  const now = new Date();
+  switch (to) {
+    case "submitted":
+      return { submittedBy: userId, submittedAt: now };
+    case "approved":
+      return { approvedBy: userId, approvedAt: now };
+    case "rejected":
+      return { rejectedBy: userId, rejectedAt: now };
+    case "paid":
+      return { paidBy: userId, paidAt: now };
+    case "open":
+      // Reopening clears the previous submission/approval so the next cycle starts clean
+      return { submittedBy: null, submittedAt: null, approvedBy: null, approvedAt: null };
+  }
+}
+
+/**
+ * Move a payment period to a new status, stamping the acting user and writing an audit event.
+ * The update only succeeds if the period is still in the status the transition was validated against.
+ */
+export async function transitionPaymentPeriod(
+  period: PaymentPeriod,
+  to: PaymentPeriodStatus,
+  user: User,
+  extra: Partial<InsertPaymentPeriod> = {}
+): Promise<PaymentPeriod> {
+  await assertPaymentPeriodTransition(period, to, user);
+
+  const [updated] = await db
+    .update(paymentPeriods)
+    .set({
+      ...extra,
+      ...getTransitionStamps(to, user.id),
+      status: to,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(paymentPeriods.id, period.id), eq(paymentPeriods.status, period.status)))
+    .returning();
+
+  if (!updated) {
+    throw new PaymentPeriodWorkflowError("Payment period status was changed by someone else. Refresh and try again.");
+  }
+
+  const metadata = { fromStatus: period.status, toStatus: to, totalAmount: updated.totalAmount };
+  if (to === "submitted") {
+    await logAction("SUBMIT", "payment_period", period.id, user.id, metadata).catch(console.error);
+  } else if (to === "approved") {
+    await logAction("APPROVE", "payment_period", period.id, user.id, metadata).catch(console.error);
+  } else if (to === "rejected") {
+    await logAction("REJECT", "payment_period", period.id, user.id, metadata).catch(console.error);
+  } else {
+    await logAuditEvent({
+      action: "UPDATE",
+      entityType: "payment_period",
+      entityId: period.id,
+      userId: user.id,
+      changes: { status: { old: period.status, new: to } },
+      metadata,
+    }).catch(console.error);
+  }
+
+  return updated;
+}
+
+/**
+ * Reject changes to work dated inside an approved or paid payment period
+ */
+export async function assertWorkDateUnlocked(projectId: string, workDate: string, executor: DbExecutor = db): Promise<void> {
+  const period = await storage.getLockedPaymentPeriodForDate(projectId, workDate, executor);
+  if (period) {
+    throw new PaymentPeriodWorkflowError(
+      `Work on ${workDate} belongs to a payment period that is ${period.status} (${period.startDate} to ${period.endDate}) and can no longer be changed`
+    );
+  }
+}
+
+export interface PeriodRange {
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * Split a date range into consecutive, non-overlapping payment periods.
+ * Fortnightly periods run in 14-day blocks from the start date; monthly periods follow calendar months.
+ * When capAtEnd is false the final period keeps its full length (used for ongoing projects).
+ */
+export function buildPaymentPeriodCalendar(
+  startDate: string,
+  endDate: string,
+  frequency: Project["paymentPeriod"],
+  capAtEnd = true
+): PeriodRange[] {
+  const periods: PeriodRange[] = [];
+  let cursor = startDate;
+
+  while (cursor <= endDate) {
+    let periodEnd = frequency === "monthly" ? endOfMonth(cursor) : addDaysToDate(cursor, 13);
+    if (capAtEnd && periodEnd > endDate) {
+      periodEnd = endDate;
+    }
+    periods.push({ startDate: cursor, endDate: periodEnd });
+    cursor = addDaysToDate(periodEnd, 1);
+  }
+
+  return periods;
+}
+
+/**
+ * Reject a date range that is inverted or overlaps another period of the same project.
+ * Pass the transaction handle when the range is about to be written inside one.
+ */
+export async function assertValidPeriodRange(
+  projectId: string,
+  startDate: string,
+  endDate: string,
+  excludeId?: string,
+  executor: DbExecutor = db
+): Promise<void> {
+  if (startDate > endDate) {
+    throw new PaymentPeriodWorkflowError("Payment period start date must be on or before its end date", 400);
+  }
+
+  const overlapping = await storage.getOverlappingPaymentPeriods(projectId, startDate, endDate, excludeId, executor);
+  if (overlapping.length > 0) {
+    const ranges = overlapping.map(p => `${p.startDate} to ${p.endDate}`).join(", ");
+    throw new PaymentPeriodWorkflowError(`Payment period overlaps existing period(s): ${ranges}`);
+  }
+}
+
+/**
+ * Sum work log earnings for a project's date range
+ */
+export async function calculatePeriodTotal(projectId: string, startDate: string, endDate: string): Promise<string> {
+  const workLogs = await storage.getWorkLogsByDateRange(projectId, startDate, endDate);
+  const total = workLogs.reduce((sum, log) => sum + Number(log.totalEarnings || 0), 0);
+  return total.toString();
+}
+
+/**
+ * Create every missing payment period for a project, from its start date to its end date (or today).
+ * Calendar slots that overlap an existing period are skipped rather than adjusted.
+ */
+export async function generatePaymentPeriodCalendar(
+  project: Project,
+  userId: string
+): Promise<{ created: PaymentPeriod[]; skipped: PeriodRange[] }> {
+  const timeZone = resolveTimeZone(project.timezone);
+  const today = dateInTimeZone(new Date(), timeZone);
+  // A project without a start date starts on the day it was created, as the site saw that day
+  const startDate = toDateOnly(project.startDate ?? project.createdAt ?? new Date(), timeZone);
+  const endDate = project.endDate ? toDateOnly(project.endDate, timeZone) : today;
+
+  const calendar = buildPaymentPeriodCalendar(startDate, endDate, project.paymentPeriod, !!project.endDate);
+
+  const created: PaymentPeriod[] = [];
+  const skipped: PeriodRange[] = [];
+  for (const range of calendar) {
+    const overlapping = await storage.getOverlappingPaymentPeriods(project.id, range.startDate, range.endDate);
+    if (overlapping.length > 0) {
+      skipped.push(range);
+      continue;
+    }
+
+    const period = await storage.createPaymentPeriod({
+      projectId: project.id,
+      startDate: range.startDate,
+      endDate: range.endDate,
+      totalAmount: await calculatePeriodTotal(project.id, range.startDate, range.endDate),
+    });
+    await logCreate("payment_period", period.id, userId, period as any, { generated: true }).catch(console.error);
+    created.push(period);
+  }
+
+  return { created, skipped };
+}
+
+/**
+ * List the dates with logged work that no payment period of the project covers
+ */
+export async function getUncoveredWorkDates(
+  projectId: string
+): Promise<Array<{ workDate: string; logCount: number; totalEarnings: number }>> {
+  const [workLogs, periods] = await Promise.all([
+    storage.getWorkLogs(projectId),
+    storage.getPaymentPeriods(projectId),
+  ]);
+
+  const uncovered = new Map<string, { workDate: string; logCount: number; totalEarnings: number }>();
+  for (const log of workLogs) {
+    const workDate = toDateOnly(log.workDate);
+    const covered = periods.some(p => p.startDate <= workDate && p.endDate >= workDate);
+    if (covered) continue;
+
+    const existing = uncovered.get(workDate) || { workDate, logCount: 0, totalEarnings: 0 };
+    existing.logCount += 1;
+    existing.totalEarnings += Number(log.totalEarnings || 0);
+    uncovered.set(workDate, existing);
+  }
+
+  return Array.from(uncovered.values()).sort((a, b) => a.workDate.localeCompare(b.workDate));
+}
+
+export interface PaymentPeriodEntryTotals {
+  daysWorked: number;
+  openMeters: number;
+  closeMeters: number;
+  totalMeters: number;
+  additionalItems: AdditionalWorkItem[];
+  totalEarnings: number;
+}
+
+export interface PaymentPeriodEntryDelta {
+  labourerId: string;
+  change: "added" | "removed" | "changed" | "unchanged";
+  previous: PaymentPeriodEntryTotals | null;
+  current: PaymentPeriodEntryTotals | null;
+  earningsDelta: number;
+}
+
+export interface PaymentPeriodRecalculation {
+  periodId: string;
+  previousTotal: number;
+  newTotal: number;
+  totalDelta: number;
+  hasChanges: boolean;
+  deltas: PaymentPeriodEntryDelta[];
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Aggregate the period's work logs into one set of totals per labourer
+ */
+async function aggregatePeriodWorkLogs(period: PaymentPeriod): Promise<Map<string, PaymentPeriodEntryTotals>> {
+  const workLogs = await storage.getWorkLogsByDateRange(
+    period.projectId,
+    toDateOnly(period.startDate),
+    toDateOnly(period.endDate)
+  );
+
+  const days = new Map<string, Set<string>>();
+  const totals = new Map<string, PaymentPeriodEntryTotals>();
+  for (const log of workLogs) {
+    const current = totals.get(log.labourerId) || {
+      daysWorked: 0,
+      openMeters: 0,
+      closeMeters: 0,
+      totalMeters: 0,
+      additionalItems: [],
+      totalEarnings: 0,
+    };
+    const worked = days.get(log.labourerId) || new Set<string>();
+
+    current.openMeters = round2(current.openMeters + Number(log.openTrenchingMeters || 0));
+    current.closeMeters = round2(current.closeMeters + Number(log.closeTrenchingMeters || 0));
+    current.totalMeters = round2(current.openMeters + current.closeMeters);
+    current.additionalItems = combineAdditionalItems(current.additionalItems, log.additionalItems);
+    current.totalEarnings = round2(current.totalEarnings + Number(log.totalEarnings || 0));
+    worked.add(toDateOnly(log.workDate));
+    current.daysWorked = worked.size;
+
+    days.set(log.labourerId, worked);
+    totals.set(log.labourerId, current);
+  }
+
+  return totals;
+}
+
+function totalsMatch(a: PaymentPeriodEntryTotals, b: PaymentPeriodEntryTotals): boolean {
+  return a.daysWorked === b.daysWorked
+    && a.openMeters === b.openMeters
+    && a.closeMeters === b.closeMeters
+    && JSON.stringify(a.additionalItems) === JSON.stringify(b.additionalItems)
+    && a.totalEarnings === b.totalEarnings;
+}
+
+/**
+ * Compare the stored entries of a period with what its current work logs add up to
+ */
+export async function previewPaymentPeriodRecalculation(period: PaymentPeriod): Promise<PaymentPeriodRecalculation> {
+  const [existingEntries, calculated] = await Promise.all([
+    storage.getPaymentPeriodEntries(period.id),
+    aggregatePeriodWorkLogs(period),
+  ]);
+
+  const stored = new Map<string, PaymentPeriodEntryTotals>();
+  for (const entry of existingEntries) {
+    stored.set(entry.labourerId, {
+      daysWorked: entry.daysWorked,
+      openMeters: Number(entry.openMeters),
+      closeMeters: Number(entry.closeMeters),
+      totalMeters: Number(entry.totalMeters),
+      additionalItems: combineAdditionalItems(entry.additionalItems),
+      totalEarnings: Number(entry.totalEarnings),
+    });
+  }
+
+  const labourerIds = Array.from(new Set([...Array.from(stored.keys()), ...Array.from(calculated.keys())]));
+  const deltas: PaymentPeriodEntryDelta[] = labourerIds.map(labourerId => {
+    const previous = stored.get(labourerId) || null;
+    const current = calculated.get(labourerId) || null;
+    const change = !previous ? "added"
+      : !current ? "removed"
+      : totalsMatch(previous, current) ? "unchanged"
+      : "changed";
+    return {
+      labourerId,
+      change,
+      previous,
+      current,
+      earningsDelta: round2((current?.totalEarnings ?? 0) - (previous?.totalEarnings ?? 0)),
+    };
+  });
+
+  const previousTotal = round2(existingEntries.reduce((sum, e) => sum + Number(e.totalEarnings), 0));
+  const newTotal = round2(Array.from(calculated.values()).reduce((sum, t) => sum + t.totalEarnings, 0));
+
+  return {
+    periodId: period.id,
+    previousTotal,
+    newTotal,
+    totalDelta: round2(newTotal - previousTotal),
+    hasChanges: deltas.some(d => d.change !== "unchanged"),
+    deltas,
+  };
+}
+
+/**
+ * Replace a period's entries and total with values recalculated from its current work logs.
+ * The delete, insert and net total update are committed together so readers never see a partial set.
+ */
+export async function recalculatePaymentPeriodEntries(
+  period: PaymentPeriod,
+  user: User,
+  trigger: "manual" | "submit" = "manual"
+): Promise<{ period: PaymentPeriod; recalculation: PaymentPeriodRecalculation }> {
+  if (!EDITABLE_PAYMENT_PERIOD_STATUSES.includes(period.status)) {
+    throw new PaymentPeriodWorkflowError(`Entries of a ${period.status} payment period cannot be recalculated`);
+  }
+
+  const recalculation = await previewPaymentPeriodRecalculation(period);
+
+  const updated = await db.transaction(async (tx) => {
+    const [locked] = await tx
+      .select()
+      .from(paymentPeriods)
+      .where(eq(paymentPeriods.id, period.id))
+      .for("update");
+
+    if (!locked || locked.status !== period.status) {
+      throw new PaymentPeriodWorkflowError("Payment period status was changed by someone else. Refresh and try again.");
+    }
+
+    await tx.delete(paymentPeriodEntries).where(eq(paymentPeriodEntries.periodId, period.id));
+
+    const rows = recalculation.deltas
+      .filter(d => d.current)
+      .map(d => ({
+        periodId: period.id,
+        labourerId: d.labourerId,
+        daysWorked: d.current!.daysWorked,
+        openMeters: d.current!.openMeters.toString(),
+        closeMeters: d.current!.closeMeters.toString(),
+        totalMeters: d.current!.totalMeters.toString(),
+        additionalItems: d.current!.additionalItems,
+        totalEarnings: d.current!.totalEarnings.toString(),
+      }));
+    if (rows.length > 0) {
+      await tx.insert(paymentPeriodEntries).values(rows);
+    }
+
+    // Net pay: recover due advance instalments, then roll approved adjustments into entries and the period total
+    await scheduleAdvanceRepayments(period.id, user.id, tx);
+    return refreshPeriodNetTotals(period.id, tx);
+  });
+
+  if (recalculation.hasChanges || trigger === "manual") {
+    await logAuditEvent({
+      action: "UPDATE",
+      entityType: "payment_period",
+      entityId: period.id,
+      userId: user.id,
+      changes: { totalAmount: { old: recalculation.previousTotal, new: recalculation.newTotal } },
+      metadata: {
+        operation: "recalculate_entries",
+        trigger,
+        totalDelta: recalculation.totalDelta,
+        deltas: recalculation.deltas.filter(d => d.change !== "unchanged"),
+      },
+    }).catch(console.error);
+  }
+
+  return { period: updated, recalculation };
+}
@@ -0,0 +1,229 @@
+import PDFDocument from "pdfkit";
+import archiver from "archiver";
+import type { Writable } from "stream";
+import { storage } from "./storage";
+import type {
+  Labourer,
+  PaymentAdjustment,
+  PaymentPeriod,
+  PaymentPeriodEntry,
+  PayRate,
+  Project,
+} from "@shared/schema";
+import { priceWorkLogFromAppliedRates, type EarningsLine } from "./earningsService";
+import { getEntryNetAmount } from "./adjustmentService";
+
+export interface EmployerDetails {
+  name: string;
+  address: string;
+  registrationNumber: string;
+}
+
+export interface PayslipData {
+  employer: EmployerDetails;
+  project: Project;
+  period: PaymentPeriod;
+  labourer: Labourer;
+  entry: PaymentPeriodEntry;
+  earnings: EarningsLine[];
+  adjustments: PaymentAdjustment[];
+}
+
+const ADJUSTMENT_LABELS: Record<PaymentAdjustment["type"], string> = {
+  bonus: "Bonus",
+  advance_repayment: "Advance repayment",
+  ppe_deduction: "PPE deduction",
+  equipment_deduction: "Equipment deduction",
+  other_deduction: "Other deduction",
+};
+
+const UNIT_LABELS: Record<PayRate["unit"], string> = {
+  per_meter: "per m",
+  per_day: "per day",
+  fixed: "fixed",
+};
+
+export function getEmployerDetails(): EmployerDetails {
+  return {
+    name: process.env.EMPLOYER_NAME || process.env.PAYMENT_ORIGINATOR_NAME || "Mooya Wireless",
+    address: process.env.EMPLOYER_ADDRESS || "",
+    registrationNumber: process.env.EMPLOYER_REGISTRATION_NUMBER || "",
+  };
+}
+
+/**
+ * Combine earnings lines that were paid at the same rate across the period's work logs
+ */
+function aggregateEarningsLines(lines: EarningsLine[]): EarningsLine[] {
+  const byRate = new Map<string, EarningsLine>();
+  for (const line of lines) {
+    const existing = byRate.get(line.payRateId);
+    if (existing) {
+      existing.quantity += line.quantity;
+      existing.amount = Math.round((existing.amount + line.amount) * 100) / 100;
+    } else {
+      byRate.set(line.payRateId, { ...line });
+    }
+  }
+  return Array.from(byRate.values());
+}
+
+/**
+ * Gather everything a payslip shows for one payment period entry
+ */
+export async function getPayslipData(entry: PaymentPeriodEntry): Promise<PayslipData> {
+  const period = await storage.getPaymentPeriod(entry.periodId);
+  if (!period) throw new Error("Payment period not found");
+  const [project, labourer] = await Promise.all([
+    storage.getProject(period.projectId),
+    storage.getLabourer(entry.labourerId),
+  ]);
+  if (!project) throw new Error("Project not found");
+  if (!labourer) throw new Error("Labourer not found");
+
+  const [workLogs, rates, adjustments] = await Promise.all([
+    storage.getWorkLogsByDateRange(period.projectId, period.startDate, period.endDate),
+    storage.getPayRates(period.projectId),
+    storage.getPaymentAdjustments(period.id),
+  ]);
+  const ratesById = new Map(rates.map(rate => [rate.id, rate]));
+
+  const earnings = aggregateEarningsLines(
+    workLogs
+      .filter(log => log.labourerId === entry.labourerId)
+      .flatMap(log => priceWorkLogFromAppliedRates(log, ratesById))
+  );
+
+  return {
+    employer: getEmployerDetails(),
+    project,
+    period,
+    labourer,
+    entry,
+    earnings,
+    adjustments: adjustments.filter(a => a.labourerId === entry.labourerId && a.status === "approved"),
+  };
+}
+
+function describeEarningsLine(line: EarningsLine): string {
+  const name = line.category === "open_trenching" ? "Open trenching"
+    : line.category === "close_trenching" ? "Close trenching"
+    : line.categoryName || "Custom";
+  const quantity = line.unit === "per_meter" ? `${line.quantity.toFixed(2)} m` : `${line.quantity}`;
+  return `${name} - ${quantity} @ R ${line.rate.toFixed(2)} ${UNIT_LABELS[line.unit]}`;
+}
+
+export function getPayslipFilename(data: PayslipData): string {
+  const name = `${data.labourer.surname}_${data.labourer.firstName}`.replace(/[^A-Z0-9]/gi, '_').toUpperCase();
+  return `PAYSLIP_${name}_${String(data.period.endDate).replace(/-/g, '')}.pdf`;
+}
+
+/**
+ * Render a single A4 payslip
+ */
+export function renderPayslipPdf(data: PayslipData): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: 50 });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const { employer, project, period, labourer, entry } = data;
+    const left = doc.page.margins.left;
+    const right = doc.page.width - doc.page.margins.right;
+
+    const row = (label: string, value: string, options: { bold?: boolean } = {}) => {
+      const y = doc.y;
+      doc.font(options.bold ? "Helvetica-Bold" : "Helvetica").fontSize(10);
+      doc.text(label, left, y, { width: right - left - 120 });
+      doc.text(value, right - 120, y, { width: 120, align: "right" });
+      doc.moveDown(0.3);
+    };
+    const rule = () => {
+      doc.moveTo(left, doc.y).lineTo(right, doc.y).strokeColor("#cccccc").stroke();
+      doc.moveDown(0.5);
+    };
+
+    // Employer
+    doc.font("Helvetica-Bold").fontSize(16).text(employer.name, left, doc.y);
+    doc.font("Helvetica").fontSize(9);
+    if (employer.address) doc.text(employer.address);
+    if (employer.registrationNumber) doc.text(`Registration no. ${employer.registrationNumber}`);
+    doc.moveDown();
+
+    doc.font("Helvetica-Bold").fontSize(13).text("PAYSLIP");
+    doc.moveDown(0.5);
+    row("Employee", `${labourer.firstName} ${labourer.surname}`);
+    row("ID / Passport number", labourer.idNumber);
+    row("Project", project.name);
+    row("Pay period", `${period.startDate} to ${period.endDate}`);
+    row("Days worked", String(entry.daysWorked));
+    row("Open / close meters", `${Number(entry.openMeters).toFixed(2)} / ${Number(entry.closeMeters).toFixed(2)}`);
+    for (const item of entry.additionalItems ?? []) {
+      row(item.categoryName, String(item.quantity));
+    }
+    rule();
+
+    doc.font("Helvetica-Bold").fontSize(11).text("Earnings");
+    doc.moveDown(0.3);
+    if (data.earnings.length === 0) {
+      row("Work logged this period", `R ${Number(entry.totalEarnings).toFixed(2)}`);
+    }
+    for (const line of data.earnings) {
+      row(describeEarningsLine(line), `R ${line.amount.toFixed(2)}`);
+    }
+    row("Gross pay", `R ${Number(entry.totalEarnings).toFixed(2)}`, { bold: true });
+    rule();
+
+    if (data.adjustments.length > 0) {
+      doc.font("Helvetica-Bold").fontSize(11).text("Adjustments");
+      doc.moveDown(0.3);
+      for (const adjustment of data.adjustments) {
+        const sign = adjustment.type === "bonus" ? "" : "-";
+        row(`${ADJUSTMENT_LABELS[adjustment.type]}: ${adjustment.reason}`, `${sign}R ${Number(adjustment.amount).toFixed(2)}`);
+      }
+      rule();
+    }
+
+    doc.font("Helvetica-Bold").fontSize(11).text("Statutory deductions");
+    doc.moveDown(0.3);
+    row("UIF (employee 1%)", `-R ${Number(entry.uifEmployee).toFixed(2)}`);
+    if (Number(entry.payeAmount) > 0) {
+      row("PAYE", `-R ${Number(entry.payeAmount).toFixed(2)}`);
+    }
+    rule();
+
+    row("NET PAY", `R ${getEntryNetAmount(entry).toFixed(2)}`, { bold: true });
+    doc.moveDown();
+    doc.font("Helvetica").fontSize(9).fillColor("#666666")
+      .text(`Employer contributions: UIF R ${Number(entry.uifEmployer).toFixed(2)}, SDL R ${Number(entry.sdlAmount).toFixed(2)}`, left, doc.y);
+    doc.font("Helvetica").fontSize(9).fillColor("#666666")
+      .text(`Paid into ${labourer.bankName} account ending ${labourer.accountNumber.slice(-4)}`, left, doc.y);
+
+    doc.end();
+  });
+}
+
+/**
+ * Stream a ZIP with one payslip per entry of the period
+ */
+export async function writePeriodPayslipsZip(period: PaymentPeriod, output: Writable): Promise<number> {
+  const entries = await storage.getPaymentPeriodEntries(period.id);
+  const archive = archiver("zip", { zlib: { level: 9 } });
+  const finished = new Promise<void>((resolve, reject) => {
+    archive.on("error", reject);
+    output.on("close", resolve);
+    output.on("finish", resolve);
+  });
+  archive.pipe(output);
+
+  for (const entry of entries) {
+    const data = await getPayslipData(entry);
+    archive.append(await renderPayslipPdf(data), { name: getPayslipFilename(data) });
+  }
+
+  await archive.finalize();
+  await finished;
+  return entries.length;
+}
@@ -0,0 +1,32 @@
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+import { users, type User } from "@shared/schema";
+import { DEFAULT_ROLE_PERMISSIONS, PERMISSION_KEYS } from "@shared/permissions";
+import { db } from "./db";
+import { storage } from "./storage";
+import { getPermissionMatrix, setRolePermissions } from "./permissionService";
+import { prepareTestDatabase } from "./testDatabase";
+
+let admin: User;
+
+before(async () => {
+  await prepareTestDatabase();
+  [admin] = await db.insert(users).values({ email: "admin@matrix.test", role: "super_admin" }).returning();
+});
+
+test("the default grants are seeded once and every catalogue permission is marked", async () => {
+  const matrix = await getPermissionMatrix();
+  assert.deepEqual([...matrix.supervisor].sort(), [...DEFAULT_ROLE_PERMISSIONS.supervisor].sort());
+  assert.deepEqual((await storage.getSeededPermissions()).sort(), [...PERMISSION_KEYS].sort());
+});
+
+test("a permission revoked from every role is not granted again when the matrix reloads", async () => {
+  const matrix = await getPermissionMatrix();
+  // Every edit clears the cached matrix, so each call below reloads it the way a restart does
+  for (const [role, permissions] of Object.entries(matrix) as [User["role"], string[]][]) {
+    await setRolePermissions(role, permissions.filter(permission => permission !== "advance.view"), admin);
+  }
+
+  const reloaded = await getPermissionMatrix();
+  assert.ok(Object.values(reloaded).every(permissions => !permissions.includes("advance.view")));
+});
@@ -0,0 +1,132 @@
+import type { RequestHandler } from "express";
+import { storage } from "./storage";
+import type { User, UserRole } from "@shared/schema";
+import {
+  DEFAULT_ROLE_PERMISSIONS,
+  LOCKED_ROLE_PERMISSIONS,
+  PERMISSION_KEYS,
+  isPermission,
+  type Permission,
+} from "@shared/permissions";
+
+export type PermissionMatrix = Record<UserRole, Permission[]>;
+
+/**
+ * Raised when a permission matrix change is rejected
+ */
+export class PermissionError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "PermissionError";
+    this.status = status;
+    Object.setPrototypeOf(this, PermissionError.prototype);
+  }
+}
+
+// Loaded once per process and refreshed whenever the matrix is edited
+let matrixCache: Promise<PermissionMatrix> | null = null;
+
+async function loadPermissionMatrix(): Promise<PermissionMatrix> {
+  let rows = await storage.getRolePermissions();
+  const seeded = new Set(await storage.getSeededPermissions());
+
+  // Catalogue permissions that were never seeded (all of them on first start, new ones after an upgrade) get their
+  // default grants once. Later edits win, so a permission revoked from every role stays revoked.
+  const unseeded = PERMISSION_KEYS.filter(permission => !seeded.has(permission));
+  if (unseeded.length > 0) {
+    // Databases from before seeding was recorded already hold their grants; those permissions are only marked
+    const held = new Set(rows.map(row => row.permission));
+    const grants = (Object.entries(DEFAULT_ROLE_PERMISSIONS) as [UserRole, Permission[]][])
+      .flatMap(([role, permissions]) => permissions
+        .filter(permission => unseeded.includes(permission) && !held.has(permission))
+        .map(permission => ({ role, permission })));
+    await storage.seedRolePermissions(unseeded, grants);
+    rows = await storage.getRolePermissions();
+  }
+
+  const matrix = Object.fromEntries(
+    Object.keys(DEFAULT_ROLE_PERMISSIONS).map(role => [role, [] as Permission[]])
+  ) as PermissionMatrix;
+  for (const row of rows) {
+    // Rows for permissions removed from the catalogue are ignored
+    if (isPermission(row.permission)) matrix[row.role].push(row.permission);
+  }
+  for (const [role, locked] of Object.entries(LOCKED_ROLE_PERMISSIONS) as [UserRole, Permission[]][]) {
+    matrix[role] = Array.from(new Set([...matrix[role], ...locked]));
+  }
+  return matrix;
+}
+
+export function getPermissionMatrix(): Promise<PermissionMatrix> {
+  if (!matrixCache) {
+    matrixCache = loadPermissionMatrix().catch(error => {
+      matrixCache = null;
+      throw error;
+    });
+  }
+  return matrixCache;
+}
+
+export async function getRolePermissions(role: UserRole): Promise<Permission[]> {
+  return (await getPermissionMatrix())[role] ?? [];
+}
+
+export async function hasPermission(user: Pick<User, "role">, permission: Permission): Promise<boolean> {
+  return (await getRolePermissions(user.role)).includes(permission);
+}
+
+/**
+ * Replace everything a role is granted. Unknown keys are rejected and locked grants are kept.
+ */
+export async function setRolePermissions(role: UserRole, permissions: string[], user: User): Promise<Permission[]> {
+  if (!(role in DEFAULT_ROLE_PERMISSIONS)) {
+    throw new PermissionError(`Unknown role: ${role}`, 404);
+  }
+  const unknown = permissions.filter(p => !isPermission(p));
+  if (unknown.length > 0) {
+    throw new PermissionError(`Unknown permissions: ${unknown.join(", ")}`);
+  }
+
+  const granted = Array.from(new Set([...permissions, ...(LOCKED_ROLE_PERMISSIONS[role] ?? [])])) as Permission[];
+  await storage.setRolePermissions(role, granted, user.id);
+  matrixCache = null;
+  return getRolePermissions(role);
+}
+
+/**
+ * The signed-in user's database record, attached as req.dbUser by the first middleware that loads it.
+ * Deactivated users are treated as signed out.
+ */
+export async function getRequestUser(req: any): Promise<User | undefined> {
+  if (req.dbUser) return req.dbUser;
+  const email = req.user?.claims?.email ?? req.user?.email;
+  const dbUser = email ? await storage.getUserByEmail(email) : undefined;
+  if (!dbUser?.isActive) return undefined;
+  req.dbUser = dbUser;
+  return dbUser;
+}
+
+/**
+ * Only let the request through when the user's role holds at least one of the permissions
+ */
+export function requirePermission(...anyOf: Permission[]): RequestHandler {
+  return async (req: any, res, next) => {
+    try {
+      const dbUser = await getRequestUser(req);
+      if (!dbUser) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const granted = await getRolePermissions(dbUser.role);
+      if (!anyOf.some(permission => granted.includes(permission))) {
+        return res.status(403).json({ message: "Forbidden: Insufficient permissions" });
+      }
+      next();
+    } catch (error: any) {
+      console.error("Error checking permissions:", error);
+      res.status(500).json({ message: "Failed to check permissions" });
+    }
+  };
+}
@@ -0,0 +1,566 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import {
+  employeeTypes,
+  paymentBatches,
+  paymentPeriodEntries,
+  paymentPeriods,
+  payRates,
+  projectManagers,
+  projectSupervisors,
+  projects,
+  users,
+  workLogs,
+  type CorrectionRequest,
+  type Labourer,
+  type PaymentBatch,
+  type PaymentPeriod,
+  type PaymentPeriodEntry,
+  type User,
+  type UserRole,
+  type WorkLog,
+} from "@shared/schema";
+import { DEFAULT_ROLE_PERMISSIONS, LOCKED_ROLE_PERMISSIONS, type Permission } from "@shared/permissions";
+import { addDaysToDate, dateInTimeZone } from "@shared/workDate";
+import { db } from "./db";
+import { storage } from "./storage";
+import { createAdjustment } from "./adjustmentService";
+import { GLOBAL_PROJECT_ROLES } from "./projectAccess";
+import { prepareTestDatabase } from "./testDatabase";
+
+/**
+ * Role × route matrix for every route that acts on one project. Each role calls each route twice: as a user
+ * assigned to the project and as one assigned to another project. Roles without the route's permission get a 403,
+ * so do users of other projects unless their role sees every project; everyone else gets a 2xx.
+ * Expectations follow the default permission matrix, which is what a fresh database is seeded with.
+ */
+
+const ROLES = Object.keys(DEFAULT_ROLE_PERMISSIONS) as UserRole[];
+
+interface RouteRequest {
+  url: string;
+  body?: unknown;
+  form?: FormData;
+}
+
+interface RouteSpec {
+  method: "GET" | "POST" | "PUT" | "DELETE";
+  path: string;
+  // Any one of these lets a role through; null when the route only checks project access
+  permissions: Permission[] | null;
+  // Called once per caller, so writes get fresh records and every allowed caller can succeed
+  request: () => Promise<RouteRequest>;
+}
+
+interface Caller {
+  role: UserRole;
+  assigned: boolean;
+  user: User;
+}
+
+let sequence = 0;
+
+let server: Server;
+let baseUrl: string;
+let owner: User;
+let projectId: string;
+let otherProjectId: string;
+let employeeTypeId: string;
+let labourer: Labourer;
+let workLog: WorkLog;
+let openPeriod: PaymentPeriod;
+let openEntry: PaymentPeriodEntry;
+let approvedPeriod: PaymentPeriod;
+let approvedEntry: PaymentPeriodEntry;
+let batch: PaymentBatch;
+let correctionRequest: CorrectionRequest;
+const callers: Caller[] = [];
+
+function today(): string {
+  return dateInTimeZone(new Date());
+}
+
+async function insertUser(role: UserRole, name: string): Promise<User> {
+  const [user] = await db
+    .insert(users)
+    .values({ email: `${name}-${++sequence}@matrix.test`, firstName: name, lastName: "Test", role })
+    .returning();
+  return user;
+}
+
+// Every labourer gets its own passport number, phone number and bank account so duplicate checks stay quiet
+function labourerFields() {
+  const n = ++sequence;
+  return {
+    employeeTypeId,
+    firstName: "Matrix",
+    surname: `Labourer${n}`,
+    idNumber: `P${String(n).padStart(7, "0")}`,
+    idDocumentType: "passport" as const,
+    idIssuingCountry: "ZWE",
+    dateOfBirth: "1990-01-01",
+    contactNumber: `08${String(n).padStart(8, "0")}`,
+    bankName: "Test Bank",
+    accountNumber: String(100000000 + n),
+    accountType: "savings" as const,
+    branchCode: "250655",
+  };
+}
+
+function insertLabourer(onProjectId: string | null, userId?: string): Promise<Labourer> {
+  return storage.createLabourer({ ...labourerFields(), projectId: onProjectId, userId, createdBy: owner.id });
+}
+
+// Week-long periods from 2020 on, one week apart, so no two of them overlap
+async function insertPeriod(status: PaymentPeriod["status"], amount = "0"): Promise<PaymentPeriod> {
+  const startDate = addDaysToDate("2020-01-01", 7 * ++sequence);
+  const [period] = await db
+    .insert(paymentPeriods)
+    .values({ projectId, startDate, endDate: addDaysToDate(startDate, 6), status, totalAmount: amount })
+    .returning();
+  return period;
+}
+
+async function insertEntry(period: PaymentPeriod, amount: string): Promise<PaymentPeriodEntry> {
+  const [entry] = await db
+    .insert(paymentPeriodEntries)
+    .values({ periodId: period.id, labourerId: labourer.id, daysWorked: 1, totalEarnings: amount, netAmount: amount })
+    .returning();
+  return entry;
+}
+
+async function insertBatch(): Promise<PaymentBatch> {
+  const [created] = await db
+    .insert(paymentBatches)
+    .values({ periodId: approvedPeriod.id, format: "generic_csv", filename: "matrix.csv", checksum: "0".repeat(64), generatedBy: owner.id })
+    .returning();
+  return created;
+}
+
+function insertCorrectionRequest(): Promise<CorrectionRequest> {
+  return storage.createCorrectionRequest({
+    entityType: "work_log",
+    entityId: workLog.id,
+    fieldName: "openTrenchingMeters",
+    oldValue: "0",
+    newValue: "2",
+    reason: "Measured again",
+    requestedBy: owner.id,
+  });
+}
+
+function createPendingAdjustment() {
+  return createAdjustment(openPeriod, openEntry, { type: "bonus", amount: "5.00", reason: "Matrix bonus" }, owner);
+}
+
+// Assign a user to a project the way their role is assigned in the app
+async function assignToProject(user: User, toProjectId: string): Promise<void> {
+  switch (user.role) {
+    case "project_manager":
+      await db.insert(projectManagers).values({ projectId: toProjectId, userId: user.id });
+      break;
+    case "supervisor":
+    case "project_admin":
+      await db.insert(projectSupervisors).values({ projectId: toProjectId, userId: user.id });
+      break;
+    case "labourer":
+      await insertLabourer(toProjectId, user.id);
+      break;
+  }
+}
+
+const ROUTES: RouteSpec[] = [
+  // Projects
+  { method: "GET", path: "/api/projects/:id", permissions: ["project.view"], request: async () => ({ url: `/api/projects/${projectId}` }) },
+  { method: "GET", path: "/api/projects/:id/managers", permissions: ["project.view"], request: async () => ({ url: `/api/projects/${projectId}/managers` }) },
+  { method: "GET", path: "/api/projects/:id/team-history", permissions: ["project.view"], request: async () => ({ url: `/api/projects/${projectId}/team-history` }) },
+  { method: "GET", path: "/api/projects/:id/supervisors", permissions: ["project.view"], request: async () => ({ url: `/api/projects/${projectId}/supervisors` }) },
+  {
+    method: "PUT",
+    path: "/api/projects/:id",
+    permissions: ["project.edit_status"],
+    request: async () => ({ url: `/api/projects/${projectId}`, body: { status: "active" } }),
+  },
+  {
+    method: "POST",
+    path: "/api/projects/:id/managers",
+    permissions: ["project.assign_manager"],
+    request: async () => ({ url: `/api/projects/${projectId}/managers`, body: { userId: (await insertUser("project_manager", "new-manager")).id } }),
+  },
+  {
+    method: "DELETE",
+    path: "/api/projects/:id/managers/:userId",
+    permissions: ["project.assign_manager"],
+    request: async () => {
+      const manager = await insertUser("project_manager", "leaving-manager");
+      await storage.assignProjectManager(projectId, manager.id, owner.id);
+      return { url: `/api/projects/${projectId}/managers/${manager.id}` };
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/projects/:id/supervisors",
+    permissions: ["project.assign_supervisor"],
+    request: async () => ({ url: `/api/projects/${projectId}/supervisors`, body: { userId: (await insertUser("supervisor", "new-supervisor")).id } }),
+  },
+  {
+    method: "DELETE",
+    path: "/api/projects/:id/supervisors/:userId",
+    permissions: ["project.assign_supervisor"],
+    request: async () => {
+      const supervisor = await insertUser("supervisor", "leaving-supervisor");
+      await storage.assignProjectSupervisor(projectId, supervisor.id, owner.id);
+      return { url: `/api/projects/${projectId}/supervisors/${supervisor.id}` };
+    },
+  },
+
+  // Labourers
+  { method: "GET", path: "/api/projects/:projectId/labourers", permissions: ["labourer.view"], request: async () => ({ url: `/api/projects/${projectId}/labourers` }) },
+  { method: "GET", path: "/api/labourers/:id", permissions: ["labourer.view"], request: async () => ({ url: `/api/labourers/${labourer.id}` }) },
+  { method: "GET", path: "/api/labourers/:id/assignments", permissions: ["labourer.view"], request: async () => ({ url: `/api/labourers/${labourer.id}/assignments` }) },
+  {
+    method: "POST",
+    path: "/api/labourers",
+    permissions: ["labourer.create"],
+    request: async () => ({ url: "/api/labourers", body: { ...labourerFields(), projectId } }),
+  },
+  {
+    method: "POST",
+    path: "/api/labourers/bulk",
+    permissions: ["labourer.create"],
+    request: async () => ({ url: "/api/labourers/bulk", body: { labourers: [{ ...labourerFields(), projectId }] } }),
+  },
+  {
+    method: "PUT",
+    path: "/api/labourers/:id",
+    permissions: ["labourer.edit"],
+    request: async () => ({ url: `/api/labourers/${labourer.id}`, body: { firstName: "Renamed" } }),
+  },
+  {
+    method: "POST",
+    path: "/api/projects/:projectId/labourers",
+    permissions: ["labourer.assign"],
+    request: async () => ({ url: `/api/projects/${projectId}/labourers`, body: { labourerIds: [(await insertLabourer(null)).id] } }),
+  },
+  {
+    method: "POST",
+    path: "/api/labourers/:id/transfer",
+    permissions: ["labourer.assign"],
+    request: async () => ({ url: `/api/labourers/${(await insertLabourer(projectId)).id}/transfer`, body: { projectId: null } }),
+  },
+  {
+    method: "POST",
+    path: "/api/labourers/:id/pin-reset",
+    permissions: ["labourer.pin_reset"],
+    request: async () => ({ url: `/api/labourers/${(await insertLabourer(projectId)).id}/pin-reset` }),
+  },
+  {
+    method: "POST",
+    path: "/api/labourers/:id/deactivate",
+    permissions: ["labourer.edit"],
+    request: async () => ({ url: `/api/labourers/${(await insertLabourer(projectId)).id}/deactivate` }),
+  },
+  {
+    method: "POST",
+    path: "/api/labourers/:id/reactivate",
+    permissions: ["labourer.edit"],
+    request: async () => {
+      const inactive = await insertLabourer(projectId);
+      await storage.setLabourerActive(inactive.id, false, owner.id);
+      return { url: `/api/labourers/${inactive.id}/reactivate` };
+    },
+  },
+  { method: "GET", path: "/api/labourers/:id/advances", permissions: ["advance.view"], request: async () => ({ url: `/api/labourers/${labourer.id}/advances` }) },
+  {
+    method: "POST",
+    path: "/api/labourers/:id/advances",
+    permissions: ["advance.create"],
+    request: async () => ({ url: `/api/labourers/${labourer.id}/advances`, body: { amount: "100.00", instalmentAmount: "50.00", reason: "School fees" } }),
+  },
+
+  // Reports
+  ...["payroll", "worker-activity", "worker-activity-matrix"].map((report): RouteSpec => ({
+    method: "GET",
+    path: `/api/reports/${report}`,
+    permissions: ["report.view"],
+    request: async () => ({ url: `/api/reports/${report}?projectId=${projectId}&startDate=2020-01-01&endDate=${today()}` }),
+  })),
+
+  // Pay rates and work logs
+  { method: "GET", path: "/api/projects/:projectId/pay-rates", permissions: null, request: async () => ({ url: `/api/projects/${projectId}/pay-rates` }) },
+  {
+    method: "POST",
+    path: "/api/pay-rates",
+    permissions: ["pay_rate.manage"],
+    request: async () => ({
+      url: "/api/pay-rates",
+      body: { projectId, employeeTypeId, category: "close_trenching", amount: "12.50", effectiveDate: "2019-01-01" },
+    }),
+  },
+  { method: "GET", path: "/api/projects/:projectId/work-logs", permissions: null, request: async () => ({ url: `/api/projects/${projectId}/work-logs` }) },
+  { method: "GET", path: "/api/labourers/:labourerId/work-logs", permissions: null, request: async () => ({ url: `/api/labourers/${labourer.id}/work-logs` }) },
+  {
+    method: "POST",
+    path: "/api/work-logs",
+    permissions: ["work_log.create"],
+    request: async () => ({
+      url: "/api/work-logs",
+      body: { projectId, labourerId: (await insertLabourer(projectId)).id, workDate: today(), openTrenchingMeters: "3" },
+    }),
+  },
+  {
+    method: "POST",
+    path: "/api/work-logs/batch",
+    permissions: ["work_log.create"],
+    request: async () => ({
+      url: "/api/work-logs/batch",
+      body: { projectId, workDate: today(), rows: [{ labourerId: (await insertLabourer(projectId)).id, openTrenchingMeters: "3" }] },
+    }),
+  },
+  {
+    method: "PUT",
+    path: "/api/work-logs/:id",
+    permissions: ["work_log.edit"],
+    request: async () => ({ url: `/api/work-logs/${workLog.id}`, body: { openTrenchingMeters: "4" } }),
+  },
+  {
+    method: "POST",
+    path: "/api/work-logs/duplicates/resolve",
+    permissions: ["work_log.edit"],
+    request: async () => ({
+      url: "/api/work-logs/duplicates/resolve",
+      body: { labourerId: labourer.id, projectId, workDate: workLog.workDate, keepId: workLog.id, resolution: "keep" },
+    }),
+  },
+
+  // Payment periods
+  { method: "GET", path: "/api/projects/:projectId/payment-periods", permissions: ["payment_period.view"], request: async () => ({ url: `/api/projects/${projectId}/payment-periods` }) },
+  { method: "GET", path: "/api/projects/:projectId/payment-periods/coverage", permissions: ["payment_period.view"], request: async () => ({ url: `/api/projects/${projectId}/payment-periods/coverage` }) },
+  { method: "GET", path: "/api/payment-periods/:id", permissions: ["payment_period.view"], request: async () => ({ url: `/api/payment-periods/${openPeriod.id}` }) },
+  { method: "GET", path: "/api/payment-periods/:id/entries", permissions: ["payment_period.view"], request: async () => ({ url: `/api/payment-periods/${openPeriod.id}/entries` }) },
+  {
+    method: "POST",
+    path: "/api/payment-periods",
+    permissions: ["payment_period.manage"],
+    request: async () => {
+      const startDate = addDaysToDate("2020-01-01", 7 * ++sequence);
+      return { url: "/api/payment-periods", body: { projectId, startDate, endDate: addDaysToDate(startDate, 6) } };
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/projects/:projectId/payment-periods/generate",
+    permissions: ["payment_period.manage"],
+    request: async () => ({ url: `/api/projects/${projectId}/payment-periods/generate` }),
+  },
+  {
+    // The route accepts any workflow permission; submitting an open period needs payment_period.submit
+    method: "PUT",
+    path: "/api/payment-periods/:id",
+    permissions: ["payment_period.submit"],
+    request: async () => ({ url: `/api/payment-periods/${(await insertPeriod("open")).id}`, body: { status: "submitted" } }),
+  },
+  { method: "GET", path: "/api/payment-periods/:id/recalculate", permissions: ["payment_period.manage"], request: async () => ({ url: `/api/payment-periods/${openPeriod.id}/recalculate` }) },
+  {
+    method: "POST",
+    path: "/api/payment-periods/:id/recalculate",
+    permissions: ["payment_period.manage"],
+    request: async () => ({ url: `/api/payment-periods/${(await insertPeriod("open")).id}/recalculate` }),
+  },
+
+  // Adjustments
+  { method: "GET", path: "/api/payment-periods/:id/adjustments", permissions: ["adjustment.manage"], request: async () => ({ url: `/api/payment-periods/${openPeriod.id}/adjustments` }) },
+  {
+    method: "POST",
+    path: "/api/payment-period-entries/:entryId/adjustments",
+    permissions: ["adjustment.manage"],
+    request: async () => ({ url: `/api/payment-period-entries/${openEntry.id}/adjustments`, body: { type: "ppe_deduction", amount: "5.00", reason: "Boots" } }),
+  },
+  {
+    method: "PUT",
+    path: "/api/payment-adjustments/:id",
+    permissions: ["adjustment.approve"],
+    request: async () => ({ url: `/api/payment-adjustments/${(await createPendingAdjustment()).id}`, body: { status: "rejected" } }),
+  },
+  {
+    method: "DELETE",
+    path: "/api/payment-adjustments/:id",
+    permissions: ["adjustment.manage"],
+    request: async () => ({ url: `/api/payment-adjustments/${(await createPendingAdjustment()).id}` }),
+  },
+
+  // Payment files, batches and payslips
+  { method: "GET", path: "/api/payment-periods/:id/payment-file", permissions: ["payment_file.download"], request: async () => ({ url: `/api/payment-periods/${approvedPeriod.id}/payment-file` }) },
+  {
+    // A period only gets one live batch, so each call pays a period of its own
+    method: "POST",
+    path: "/api/payment-periods/:id/payment-file",
+    permissions: ["payment_file.download"],
+    request: async () => {
+      const period = await insertPeriod("approved", "100.00");
+      await insertEntry(period, "100.00");
+      return { url: `/api/payment-periods/${period.id}/payment-file`, body: {} };
+    },
+  },
+  { method: "GET", path: "/api/payment-periods/:id/batches", permissions: ["payment_file.download"], request: async () => ({ url: `/api/payment-periods/${approvedPeriod.id}/batches` }) },
+  { method: "GET", path: "/api/payment-batches/:id", permissions: ["payment_file.download"], request: async () => ({ url: `/api/payment-batches/${batch.id}` }) },
+  {
+    method: "POST",
+    path: "/api/payment-batches/:id/reconcile",
+    permissions: ["payment_batch.reconcile"],
+    request: async () => {
+      const form = new FormData();
+      form.append("file", new Blob(["Account Number,Amount,Status\r\n"], { type: "text/csv" }), "response.csv");
+      return { url: `/api/payment-batches/${batch.id}/reconcile`, form };
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/payment-batches/:id/void",
+    permissions: ["payment_file.download"],
+    request: async () => ({ url: `/api/payment-batches/${(await insertBatch()).id}/void`, body: { reason: "Wrong file format" } }),
+  },
+  { method: "GET", path: "/api/payment-period-entries/:entryId/payslip", permissions: ["payment_file.download"], request: async () => ({ url: `/api/payment-period-entries/${approvedEntry.id}/payslip` }) },
+  { method: "GET", path: "/api/payment-periods/:id/payslips", permissions: ["payslip.bulk_download"], request: async () => ({ url: `/api/payment-periods/${approvedPeriod.id}/payslips` }) },
+
+  // Correction requests
+  { method: "GET", path: "/api/correction-requests/:id", permissions: null, request: async () => ({ url: `/api/correction-requests/${correctionRequest.id}` }) },
+  {
+    method: "POST",
+    path: "/api/correction-requests",
+    permissions: null,
+    request: async () => ({
+      url: "/api/correction-requests",
+      body: { entityType: "work_log", entityId: workLog.id, fieldName: "openTrenchingMeters", oldValue: "0", newValue: "2", reason: "Measured again" },
+    }),
+  },
+  {
+    method: "PUT",
+    path: "/api/correction-requests/:id",
+    permissions: ["correction.review"],
+    request: async () => ({ url: `/api/correction-requests/${(await insertCorrectionRequest()).id}`, body: { status: "rejected", reviewNotes: "Not needed" } }),
+  },
+];
+
+function isAllowed(route: RouteSpec, caller: Caller): boolean {
+  const granted = [...DEFAULT_ROLE_PERMISSIONS[caller.role], ...(LOCKED_ROLE_PERMISSIONS[caller.role] ?? [])];
+  const permitted = route.permissions === null || route.permissions.some(permission => granted.includes(permission));
+  return permitted && (caller.assigned || GLOBAL_PROJECT_ROLES.includes(caller.role));
+}
+
+function describeCaller(caller: Caller): string {
+  return `${caller.role} (${caller.assigned ? "assigned" : "other project"})`;
+}
+
+async function send(route: RouteSpec, caller: Caller): Promise<string> {
+  const { url, body, form } = await route.request();
+  const headers: Record<string, string> = { "X-Test-User": caller.user.email! };
+  if (body !== undefined) headers["Content-Type"] = "application/json";
+
+  const response = await fetch(`${baseUrl}${url}`, {
+    method: route.method,
+    headers,
+    body: form ?? (body === undefined ? undefined : JSON.stringify(body)),
+  });
+  const text = await response.text();
+  if (response.status >= 200 && response.status < 300) return "2xx";
+  // Anything other than a plain refusal is reported with its message so a broken fixture is easy to spot
+  return response.status === 403 ? "403" : `${response.status} ${text.slice(0, 200)}`;
+}
+
+before(async () => {
+  process.env.GOOGLE_CLIENT_ID ??= "test";
+  process.env.GOOGLE_CLIENT_SECRET ??= "test";
+  process.env.SESSION_SECRET ??= "test";
+  await prepareTestDatabase();
+
+  owner = await insertUser("super_admin", "owner");
+  [{ id: employeeTypeId }] = await db.insert(employeeTypes).values({ name: "General Worker" }).returning();
+  [{ id: projectId }] = await db.insert(projects).values({ name: "Matrix Project", createdBy: owner.id }).returning();
+  [{ id: otherProjectId }] = await db.insert(projects).values({ name: "Other Project", createdBy: owner.id }).returning();
+  await db.insert(payRates).values({
+    projectId,
+    employeeTypeId,
+    category: "open_trenching",
+    amount: "10.00",
+    effectiveDate: "2019-01-01",
+    createdBy: owner.id,
+  });
+
+  labourer = await insertLabourer(projectId);
+  [workLog] = await db
+    .insert(workLogs)
+    .values({ projectId, labourerId: labourer.id, workDate: today(), totalEarnings: "0", recordedBy: owner.id })
+    .returning();
+  openPeriod = await insertPeriod("open");
+  openEntry = await insertEntry(openPeriod, "0.00");
+  approvedPeriod = await insertPeriod("approved", "100.00");
+  approvedEntry = await insertEntry(approvedPeriod, "100.00");
+  batch = await insertBatch();
+  correctionRequest = await insertCorrectionRequest();
+
+  for (const role of ROLES) {
+    const member = await insertUser(role, `${role}-member`);
+    const outsider = await insertUser(role, `${role}-outsider`);
+    await assignToProject(member, projectId);
+    await assignToProject(outsider, otherProjectId);
+    callers.push({ role, assigned: true, user: member }, { role, assigned: false, user: outsider });
+  }
+
+  // Stands in for the Google sign-in: the session user is whoever the request names
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    const email = req.get("X-Test-User");
+    if (email) req.user = { id: email, email } as Express.User;
+    next();
+  });
+  const { registerRoutes } = await import("./routes");
+  server = (await registerRoutes(app)).listen(0);
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server?.close();
+});
+
+describe("project-scoped routes", () => {
+  for (const route of ROUTES) {
+    test(`${route.method} ${route.path}`, async () => {
+      const expected: Record<string, string> = {};
+      const actual: Record<string, string> = {};
+      for (const caller of callers) {
+        expected[describeCaller(caller)] = isAllowed(route, caller) ? "2xx" : "403";
+        actual[describeCaller(caller)] = await send(route, caller);
+      }
+      assert.deepEqual(actual, expected);
+    });
+  }
+});
+
+test("available labourers on an inactive project are only listed to staff who can access it", async () => {
+  const [finished, otherFinished] = await db
+    .insert(projects)
+    .values([
+      { name: "Finished", status: "completed", createdBy: owner.id },
+      { name: "Other Finished", status: "completed", createdBy: owner.id },
+    ])
+    .returning();
+  const unassigned = await insertLabourer(null);
+  const onFinished = await insertLabourer(finished.id);
+  const onOtherFinished = await insertLabourer(otherFinished.id);
+  const manager = await insertUser("project_manager", "available");
+  await assignToProject(manager, finished.id);
+
+  const listed = async (user: User) => {
+    const response = await fetch(`${baseUrl}/api/labourers/available`, { headers: { "X-Test-User": user.email! } });
+    assert.equal(response.status, 200);
+    const ids = ((await response.json()) as Labourer[]).map(l => l.id);
+    return [unassigned, onFinished, onOtherFinished].map(l => ids.includes(l.id));
+  };
+  assert.deepEqual(await listed(manager), [true, true, false]);
+  assert.deepEqual(await listed(owner), [true, true, true]);
+});
@@ -0,0 +1,151 @@
+import type { Request, RequestHandler } from "express";
+import { storage } from "./storage";
+import { getRequestUser } from "./permissionService";
+import type { CorrectionRequest, User, UserRole } from "@shared/schema";
+
+/**
+ * Raised when the caller may not act on a project, or the resource naming the project does not exist
+ */
+export class ProjectAccessError extends Error {
+  status: number;
+
+  constructor(message: string, status = 403) {
+    super(message);
+    this.name = "ProjectAccessError";
+    this.status = status;
+    Object.setPrototypeOf(this, ProjectAccessError.prototype);
+  }
+}
+
+// Roles that see every project; everyone else only sees projects they are assigned to
+export const GLOBAL_PROJECT_ROLES: UserRole[] = ["super_admin", "admin"];
+
+/**
+ * Resolves the project a request acts on. Returns null for resources that belong to no project
+ * (e.g. an unassigned labourer) and throws a 404 ProjectAccessError when the resource is missing.
+ */
+export type ProjectIdResolver = (req: Request) => Promise<string | null>;
+
+/**
+ * IDs of the projects the user is assigned to, or null when the role can access every project.
+ * Managers and supervisors are assigned through projectManagers/projectSupervisors; project admins
+ * through either; a staff account with the labourer role through its labourer record.
+ */
+export async function getAccessibleProjectIds(user: User): Promise<string[] | null> {
+  if (GLOBAL_PROJECT_ROLES.includes(user.role)) return null;
+
+  switch (user.role) {
+    case "project_manager":
+      return (await storage.getProjectsByManager(user.id)).map(p => p.id);
+    case "supervisor":
+      return (await storage.getProjectsBySupervisor(user.id)).map(p => p.id);
+    case "project_admin": {
+      const [managed, supervised] = await Promise.all([
+        storage.getProjectsByManager(user.id),
+        storage.getProjectsBySupervisor(user.id),
+      ]);
+      return Array.from(new Set([...managed, ...supervised].map(p => p.id)));
+    }
+    default: {
+      const labourer = await storage.getLabourerByUserId(user.id);
+      return labourer?.projectId ? [labourer.projectId] : [];
+    }
+  }
+}
+
+export async function hasProjectAccess(user: User, projectId: string): Promise<boolean> {
+  const projectIds = await getAccessibleProjectIds(user);
+  return projectIds === null || projectIds.includes(projectId);
+}
+
+export async function assertProjectAccess(user: User, projectId: string | null): Promise<void> {
+  if (projectId && !(await hasProjectAccess(user, projectId))) {
+    throw new ProjectAccessError("Forbidden: You do not have access to this project");
+  }
+}
+
+/**
+ * Project a correction request targets, following its entity
+ */
+export async function getCorrectionRequestProjectId(request: CorrectionRequest): Promise<string | null> {
+  switch (request.entityType) {
+    case "project":
+      return request.entityId;
+    case "work_log":
+      return (await storage.getWorkLog(request.entityId))?.projectId ?? null;
+    case "labourer":
+      return (await storage.getLabourer(request.entityId))?.projectId ?? null;
+    case "payment_period":
+      return (await storage.getPaymentPeriod(request.entityId))?.projectId ?? null;
+    default:
+      return null;
+  }
+}
+
+function notFound(resource: string): never {
+  throw new ProjectAccessError(`${resource} not found`, 404);
+}
+
+// Resolvers for the ways routes identify a project
+export const projectFrom = {
+  param: (name = "projectId"): ProjectIdResolver => async (req) => req.params[name] || notFound("Project"),
+  query: (name = "projectId"): ProjectIdResolver => async (req) => (req.query[name] as string) || null,
+  body: (name = "projectId"): ProjectIdResolver => async (req) => req.body?.[name] || null,
+  labourer: (param = "id"): ProjectIdResolver => async (req) => {
+    const labourer = await storage.getLabourer(req.params[param]);
+    return labourer ? labourer.projectId : notFound("Labourer");
+  },
+  workLog: (param = "id"): ProjectIdResolver => async (req) => {
+    const log = await storage.getWorkLog(req.params[param]);
+    return log ? log.projectId : notFound("Work log");
+  },
+  paymentPeriod: (param = "id"): ProjectIdResolver => async (req) => {
+    const period = await storage.getPaymentPeriod(req.params[param]);
+    return period ? period.projectId : notFound("Payment period");
+  },
+  paymentPeriodEntry: (param = "entryId"): ProjectIdResolver => async (req) => {
+    const entry = await storage.getPaymentPeriodEntry(req.params[param]);
+    const period = entry && await storage.getPaymentPeriod(entry.periodId);
+    return period ? period.projectId : notFound("Payment period entry");
+  },
+  paymentBatch: (param = "id"): ProjectIdResolver => async (req) => {
+    const batch = await storage.getPaymentBatch(req.params[param]);
+    const period = batch && await storage.getPaymentPeriod(batch.periodId);
+    return period ? period.projectId : notFound("Payment batch");
+  },
+  paymentAdjustment: (param = "id"): ProjectIdResolver => async (req) => {
+    const adjustment = await storage.getPaymentAdjustment(req.params[param]);
+    const period = adjustment && await storage.getPaymentPeriod(adjustment.periodId);
+    return period ? period.projectId : notFound("Adjustment");
+  },
+  correctionRequest: (param = "id"): ProjectIdResolver => async (req) => {
+    const request = await storage.getCorrectionRequest(req.params[param]);
+    return request ? getCorrectionRequestProjectId(request) : notFound("Correction request");
+  },
+};
+
+/**
+ * Only let the request through when the user is assigned to every project the resolvers name.
+ * Reuses the user attached by requirePermission, otherwise looks it up and attaches it as req.dbUser.
+ */
+export function requireProjectAccess(...resolvers: ProjectIdResolver[]): RequestHandler {
+  return async (req: any, res, next) => {
+    try {
+      const dbUser = await getRequestUser(req);
+      if (!dbUser) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      for (const resolve of resolvers) {
+        await assertProjectAccess(dbUser, await resolve(req));
+      }
+      next();
+    } catch (error: any) {
+      if (error instanceof ProjectAccessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error checking project access:", error);
+      res.status(500).json({ message: "Failed to check project access" });
+    }
+  };
+}
@@ -1,7 +1,6 @@
 import * as client from "openid-client";
 import { Strategy, type VerifyFunction } from "openid-client/passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import bcrypt from "bcrypt";
 
 import passport from "passport";
 import session from "express-session";
@@ -9,6 +8,9 @@ import type { Express, RequestHandler } from "express";
 import memoize from "memoizee";
 import connectPg from "connect-pg-simple";
 import { storage } from "./storage";
+import { verifyLabourerCredentials } from "./labourerAuthService";
+import { completeStaffSignIn, resolveStaffAccess } from "./staffAccessService";
+import { getClientIp, recordLoginAttempt, throttleLogin } from "./loginThrottleService";
 
 // Extend session data to include labourer session properties
 declare module 'express-session' {
@@ -60,61 +62,27 @@ function updateUserSession(
   user.expires_at = user.claims?.exp;
 }
 
-// Domain restriction check
-function isAllowedDomain(email: string | null | undefined): boolean {
-  if (!email) return false;
-  const allowedDomains = ["@mooya.co.za", "@mooyawireless.co.za", "@xnext.co.za"];
-  return allowedDomains.some(domain => email.endsWith(domain));
-}
-
 async function upsertUser(
   claims: any,
 ) {
-  // Check if email is from allowed domain
-  if (!isAllowedDomain(claims["email"])) {
-    throw new Error("Access restricted to @mooya.co.za, @mooyawireless.co.za, and @xnext.co.za email addresses");
-  }
+  // Allowed domains, invitations and SUPER_ADMIN_EMAILS decide who may sign in and with which role
+  const access = await resolveStaffAccess(claims["email"]);
 
-  const userId = claims["sub"];
-  // IMPORTANT: Look up user by email (not sub) to handle OIDC sub rotation
-  // This ensures existing users keep their roles when their sub changes
-  const existingUser = await storage.getUserByEmail(claims["email"]);
-  
-  // Determine role priority:
-  // 1. Super Admin for kholofelo@mooya.co.za (ALWAYS - cannot be overridden)
-  // 2. Role from OIDC claims if present (ALWAYS overrides existing role - for testing)
-  // 3. Existing user role (if user exists and no OIDC role claim)
-  // 4. Default based on email domain:
-  //    - @xnext.co.za → admin
-  //    - @mooya.co.za, @mooyawireless.co.za → supervisor
-  let role: string;
-  
-  if (claims["email"] === "kholofelo@mooya.co.za") {
-    // kholofelo is always super_admin, cannot be overridden
-    role = "super_admin";
-  } else if (claims["role"]) {
-    // OIDC role claim ALWAYS overrides any existing role (for testing and role changes)
-    role = claims["role"];
-  } else if (existingUser?.role) {
-    // Keep existing role if no OIDC role claim
-    role = existingUser.role;
-  } else {
-    // New user with no OIDC role claim - assign default based on email domain
-    if (claims["email"]?.endsWith("@xnext.co.za")) {
-      role = "admin";
-    } else {
-      role = "supervisor";
-    }
-  }
-  
-  await storage.upsertUser({
-    id: userId,
+  // An OIDC role claim overrides the resolved role (for testing and role changes),
+  // except for super admins bootstrapped from SUPER_ADMIN_EMAILS
+  const role = claims["role"] && access.source !== "bootstrap" ? claims["role"] : access.role;
+
+  // IMPORTANT: storage.upsertUser matches by email as well as sub to handle OIDC sub rotation,
+  // so existing users keep their record when their sub changes
+  const user = await storage.upsertUser({
+    id: claims["sub"],
     email: claims["email"],
     firstName: claims["first_name"],
     lastName: claims["last_name"],
     profileImageUrl: claims["profile_image_url"],
-    role: role as any,
+    role,
   });
+  await completeStaffSignIn(access, user);
 }
 
 export async function setupAuth(app: Express) {
@@ -165,35 +133,21 @@ export async function setupAuth(app: Express) {
   passport.use('labourer-local', new LocalStrategy(
     {
       usernameField: 'identifier', // phone or email
-      passwordField: 'password', // RSA ID or passport
+      passwordField: 'password', // PIN
     },
     async (identifier, password, done) => {
       try {
-        // Find labourer by phone or email
-        const labourer = await storage.getLabourerByPhoneOrEmail(identifier);
-        
-        if (!labourer) {
-          return done(null, false, { message: 'Invalid credentials' });
-        }
-
-        // Check if password hash exists
-        if (!labourer.passwordHash) {
-          return done(null, false, { message: 'Account not set up for login. Please contact your supervisor.' });
-        }
-
-        // Verify password (RSA ID or Passport)
-        const isValid = await bcrypt.compare(password, labourer.passwordHash);
-        
-        if (!isValid) {
-          return done(null, false, { message: 'Invalid credentials' });
+        const result = await verifyLabourerCredentials(identifier, password);
+        if (!result.ok) {
+          return done(null, false, { message: result.message, status: result.status, labourerId: result.labourerId } as any);
         }
 
         // Return labourer info for session
         return done(null, {
-          labourerId: labourer.id,
+          labourerId: result.labourer.id,
           isLabourerSession: true,
-          firstName: labourer.firstName,
-          surname: labourer.surname,
+          firstName: result.labourer.firstName,
+          surname: result.labourer.surname,
         });
       } catch (error) {
         return done(error);
@@ -204,7 +158,7 @@ export async function setupAuth(app: Express) {
   passport.serializeUser((user: Express.User, cb) => cb(null, user));
   passport.deserializeUser((user: Express.User, cb) => cb(null, user));
 
-  app.get("/api/login", (req, res, next) => {
+  app.get("/api/login", throttleLogin(), (req, res, next) => {
     ensureStrategy(req.hostname);
     passport.authenticate(`replitauth:${req.hostname}`, {
       prompt: "login consent",
@@ -212,11 +166,24 @@ export async function setupAuth(app: Express) {
     })(req, res, next);
   });
 
-  app.get("/api/callback", (req, res, next) => {
+  app.get("/api/callback", throttleLogin(), (req, res, next) => {
     ensureStrategy(req.hostname);
-    passport.authenticate(`replitauth:${req.hostname}`, {
-      successReturnToOrRedirect: "/",
-      failureRedirect: "/api/login",
+    passport.authenticate(`replitauth:${req.hostname}`, async (err: any, user: any) => {
+      const ipAddress = getClientIp(req);
+      if (err || !user) {
+        // Includes sign-ins from email domains that are not allowed
+        await recordLoginAttempt({ flow: "staff", ipAddress, success: false, reason: err?.message || "Replit sign-in failed" })
+          .catch(console.error);
+        return res.redirect("/api/login");
+      }
+
+      req.logIn(user, (err) => {
+        if (err) {
+          return next(err);
+        }
+        recordLoginAttempt({ flow: "staff", identifier: user.claims?.email, ipAddress, success: true }).catch(console.error);
+        res.redirect("/");
+      });
     })(req, res, next);
   });
 
@@ -232,14 +199,18 @@ export async function setupAuth(app: Express) {
   });
 
   // Labourer login routes
-  app.post("/api/labourer/login", (req, res, next) => {
-    passport.authenticate('labourer-local', (err: any, user: any, info: any) => {
+  app.post("/api/labourer/login", throttleLogin(req => req.body?.identifier), (req, res, next) => {
+    passport.authenticate('labourer-local', async (err: any, user: any, info: any) => {
       if (err) {
         return next(err);
       }
+      const attempt = { flow: "labourer" as const, identifier: req.body?.identifier, ipAddress: getClientIp(req) };
       if (!user) {
-        return res.status(401).json({ message: info?.message || 'Invalid credentials' });
+        await recordLoginAttempt({ ...attempt, success: false, reason: info?.message, labourerId: info?.labourerId })
+          .catch(console.error);
+        return res.status(info?.status || 401).json({ message: info?.message || 'Invalid credentials' });
       }
+      recordLoginAttempt({ ...attempt, success: true }).catch(console.error);
       
       // Regenerate session to prevent session fixation attacks
       req.session.regenerate((err) => {
@@ -331,6 +302,9 @@ export const isLabourerAuthenticated: RequestHandler = async (req, res, next) =>
     if (!labourer) {
       return res.status(401).json({ message: "Labourer not found" });
     }
+    if (!labourer.isActive) {
+      return res.status(401).json({ message: "Your account has been deactivated" });
+    }
     (req as any).labourer = labourer;
     next();
   } catch (error) {
@@ -0,0 +1,35 @@
+import { findDuplicateWorkLogGroups } from "./workLogDuplicateService";
+
+/**
+ * Lists labourer project days with more than one work log. The unique index on work_logs cannot be
+ * pushed while any remain; resolve them on the Duplicate Work Logs page and run this again.
+ */
+async function reportDuplicateWorkLogs() {
+  const groups = await findDuplicateWorkLogGroups();
+
+  if (groups.length === 0) {
+    console.log("No duplicate work logs found. It is safe to run db:push.");
+    return;
+  }
+
+  console.log(`Found ${groups.length} labourer project day(s) with more than one work log:\n`);
+  for (const group of groups) {
+    console.log(`${group.workDate}  ${group.projectName}  ${group.labourerName} (${group.labourerId})`);
+    for (const log of group.logs) {
+      console.log(
+        `    ${log.id}  open ${log.openTrenchingMeters ?? "0"} m, close ${log.closeTrenchingMeters ?? "0"} m, ` +
+        `R ${log.totalEarnings}, recorded by ${log.recordedBy} at ${log.recordedAt?.toISOString() ?? "unknown"}`
+      );
+    }
+  }
+  console.log("\nKeep or combine each group before running db:push.");
+}
+
+reportDuplicateWorkLogs()
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("\nError reporting duplicate work logs:", error);
+    process.exit(1);
+  });
@@ -1,8 +1,7 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
 import { storage } from "./storage";
-import bcrypt from "bcrypt";
 import {
   R2StorageService,
   ObjectNotFoundError as R2ObjectNotFoundError,
@@ -11,12 +10,24 @@ import {
   insertEmployeeTypeSchema,
   insertProjectSchema,
   insertLabourerSchema,
+  updateLabourerSchema,
   insertPayRateSchema,
-  insertWorkLogSchema,
+  workLogInputSchema,
   insertPaymentPeriodSchema,
   insertCorrectionRequestSchema,
+  insertPaymentAdjustmentSchema,
+  insertLabourerAdvanceSchema,
+  reviewPaymentAdjustmentSchema,
+  insertTaxTableSchema,
+  insertAllowedDomainSchema,
+  insertStaffInvitationSchema,
   updateUserRoleSchema,
   updateUserSchema,
+  type InsertPaymentPeriod,
+  type AdditionalWorkItem,
+  type InsertWorkLog,
+  type CorrectionRequest,
+  type Labourer,
   paymentPeriodEntries,
   paymentPeriods,
   projects,
@@ -24,9 +35,127 @@ import {
 } from "@shared/schema";
 import { db } from "./db";
 import { eq, desc } from "drizzle-orm";
+import { calculateWorkLogEarnings, combineAdditionalItems } from "./earningsService";
+import { applyCorrectionRequest, CorrectionConflictError } from "./correctionService";
+import {
+  assertPaymentPeriodTransition,
+  assertValidPeriodRange,
+  assertWorkDateUnlocked,
+  calculatePeriodTotal,
+  generatePaymentPeriodCalendar,
+  getUncoveredWorkDates,
+  previewPaymentPeriodRecalculation,
+  recalculatePaymentPeriodEntries,
+  transitionPaymentPeriod,
+  PaymentPeriodWorkflowError,
+} from "./paymentPeriodService";
+import { PAYMENT_FILE_EXPORTERS } from "./paymentFileExporters";
+import {
+  AdjustmentError,
+  createAdjustment,
+  createAdvance,
+  deleteAdjustment,
+  getAdvancesWithBalances,
+  reviewAdjustment,
+} from "./adjustmentService";
+import {
+  assertPaymentPeriodReconciled,
+  buildPeriodPaymentFile,
+  createPaymentBatch,
+  PaymentFileError,
+  reconcilePaymentBatch,
+  voidPaymentBatch,
+  type PeriodPaymentFile,
+} from "./paymentBatchService";
+import { getPayslipData, getPayslipFilename, renderPayslipPdf, writePeriodPayslipsZip } from "./payslipService";
+import { buildUifDeclaration, getStatutoryContext, renderUfilingCsv } from "./statutoryService";
+import { calculateStatutoryDeductions, DEFAULT_TAX_TABLE } from "@shared/statutory";
+import { validateIdentityDocument } from "@shared/identityDocument";
+import { datesInRange, dateInTimeZone, resolveTimeZone, startOfWeek, toDateOnly } from "@shared/workDate";
+import {
+  assertProjectAccess,
+  getAccessibleProjectIds,
+  getCorrectionRequestProjectId,
+  projectFrom,
+  ProjectAccessError,
+  requireProjectAccess,
+} from "./projectAccess";
+import {
+  getPermissionMatrix,
+  getRolePermissions,
+  hasPermission,
+  PermissionError,
+  requirePermission,
+  setRolePermissions,
+} from "./permissionService";
+import { PERMISSIONS } from "@shared/permissions";
+import { logAction, logAuditEvent } from "./auditService";
+import {
+  confirmPinReset,
+  LabourerAuthError,
+  requestPinReset,
+  requireLabourerPin,
+  resetLabourerPinBySupervisor,
+  setLabourerPin,
+  withoutCredentials,
+} from "./labourerAuthService";
+import {
+  getClientIp,
+  getLockedLogins,
+  LoginThrottleError,
+  recordLoginAttempt,
+  releaseLockedLogin,
+  throttleLogin,
+} from "./loginThrottleService";
+import { addAllowedDomain, getAllowedDomains, inviteStaff, StaffAccessError } from "./staffAccessService";
+import {
+  deactivateLabourer,
+  deactivateUser,
+  getProjectAssignments,
+  OffboardingError,
+  reactivateLabourer,
+  reactivateUser,
+  type AssignmentDecision,
+} from "./offboardingService";
+import {
+  assertNotDuplicate,
+  findBatchDuplicates,
+  findDuplicateLabourers,
+  getProbableDuplicates,
+  LabourerDuplicateError,
+  mergeLabourers,
+  type LabourerDuplicateMatch,
+} from "./labourerDuplicateService";
+import {
+  WorkLogSyncError,
+  findReplayedWorkLog,
+  findWorkLogToUpdate,
+  getIdempotencyKey,
+  getWorkLogForDay,
+  mergeWorkLogValues,
+  parseExistingWorkLogMode,
+} from "./workLogSyncService";
+import { saveWorkLogBatch } from "./workLogBatchService";
+import {
+  assertCaptureWorkDateOpen,
+  assertWorkDateOpen,
+  getProjectWorkDateSettings,
+  getProjectWorkLogEntryWindow,
+  logLateCapture,
+  WorkDateError,
+} from "./workDateService";
+import { findDuplicateWorkLogGroups, resolveDuplicateWorkLogs } from "./workLogDuplicateService";
 
 const upload = multer({ storage: multer.memoryStorage() });
 
+// Entries left out of the file (zero net pay, unusable bank details) go in a header, so nobody goes unpaid unnoticed
+function sendPaymentFile(res: Response, file: PeriodPaymentFile): void {
+  res.setHeader('X-Payment-File-Excluded', encodeURIComponent(JSON.stringify(file.excluded)));
+  res.setHeader('Content-Type', file.exporter.contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+  res.send(file.content);
+}
+
 // Environment detection
 const IS_REPLIT = process.env.REPL_ID !== undefined;
 
@@ -36,7 +165,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     ? await import('./replitAuth.js')
     : await import('./auth.js');
 
-  const { setupAuth, isAuthenticated, isLabourerAuthenticated, requireRole } = authModule;
+  const { setupAuth, isAuthenticated, isLabourerAuthenticated } = authModule;
 
   // Storage service selection
   const StorageService = IS_REPLIT
@@ -67,6 +196,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
+      if (!user.isActive) {
+        return res.status(401).json({ message: "Your account has been deactivated" });
+      }
       res.json(user);
     } catch (error) {
       console.error("Error fetching user:", error);
@@ -81,6 +213,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
+      if (!user.isActive) {
+        return res.status(401).json({ message: "Your account has been deactivated" });
+      }
       res.json(user);
     } catch (error) {
       console.error("Error fetching user:", error);
@@ -89,7 +224,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // ============= User Management Routes =============
-  app.get('/api/users', isAuthenticated, requireRole("super_admin", "admin"), async (req: any, res) => {
+  app.get('/api/users', isAuthenticated, requirePermission("user.manage"), async (req: any, res) => {
     try {
       const users = await storage.getAllUsers();
       res.json(users);
@@ -99,7 +234,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/users/:id', isAuthenticated, requireRole("super_admin", "admin"), async (req: any, res) => {
+  app.put('/api/users/:id', isAuthenticated, requirePermission("user.manage"), async (req: any, res) => {
     try {
       const updateData = updateUserSchema.parse(req.body);
       
@@ -111,7 +246,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Admins cannot assign super_admin role - only super_admin can do that
-      if (req.dbUser.role === "admin" && updateData.role === "super_admin") {
+      if (req.dbUser.role !== "super_admin" && updateData.role === "super_admin") {
         return res.status(403).json({ 
           message: "Only Super Admins can assign the Super Admin role" 
         });
@@ -125,6 +260,193 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Offboarding review: the projects the user manages or supervises and who could take them over
+  app.get('/api/users/:id/offboarding', isAuthenticated, requirePermission("user.manage"), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user || user.role === "labourer") {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const [assignments, users] = await Promise.all([
+        getProjectAssignments(user.id),
+        storage.getAllUsers(),
+      ]);
+      const candidates = users.filter(u => u.isActive && u.role !== "labourer" && u.id !== user.id);
+      res.json({ user, assignments, candidates });
+    } catch (error) {
+      console.error("Error fetching offboarding review:", error);
+      res.status(500).json({ message: "Failed to fetch offboarding review" });
+    }
+  });
+
+  app.post('/api/users/:id/deactivate', isAuthenticated, requirePermission("user.manage"), async (req: any, res) => {
+    try {
+      const decisions = req.body.assignments ?? [];
+      if (!Array.isArray(decisions)) {
+        return res.status(400).json({ message: "assignments must be an array" });
+      }
+      const result = await deactivateUser(req.params.id, decisions as AssignmentDecision[], req.dbUser);
+      res.json(result);
+    } catch (error: any) {
+      console.error("Error deactivating user:", error);
+      const status = error instanceof OffboardingError ? error.status : 400;
+      res.status(status).json({ message: error.message || "Failed to deactivate user" });
+    }
+  });
+
+  app.post('/api/users/:id/reactivate', isAuthenticated, requirePermission("user.manage"), async (req: any, res) => {
+    try {
+      const user = await reactivateUser(req.params.id, req.dbUser);
+      res.json(user);
+    } catch (error: any) {
+      console.error("Error reactivating user:", error);
+      const status = error instanceof OffboardingError ? error.status : 400;
+      res.status(status).json({ message: error.message || "Failed to reactivate user" });
+    }
+  });
+
+  // ============= Permission Routes =============
+  app.get('/api/my-permissions', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUserByEmail(getUserEmail(req));
+      res.json(user ? await getRolePermissions(user.role) : []);
+    } catch (error) {
+      console.error("Error fetching permissions:", error);
+      res.status(500).json({ message: "Failed to fetch permissions" });
+    }
+  });
+
+  app.get('/api/permissions', isAuthenticated, async (req, res) => {
+    try {
+      res.json({ permissions: PERMISSIONS, roles: await getPermissionMatrix() });
+    } catch (error) {
+      console.error("Error fetching permission matrix:", error);
+      res.status(500).json({ message: "Failed to fetch permission matrix" });
+    }
+  });
+
+  app.put('/api/roles/:role/permissions', isAuthenticated, requirePermission("role.manage"), async (req: any, res) => {
+    try {
+      const { permissions } = req.body;
+      if (!Array.isArray(permissions) || permissions.some(p => typeof p !== "string")) {
+        return res.status(400).json({ message: "permissions must be an array of permission keys" });
+      }
+      const granted = await setRolePermissions(req.params.role, permissions, req.dbUser);
+      res.json({ role: req.params.role, permissions: granted });
+    } catch (error: any) {
+      console.error("Error updating role permissions:", error);
+      const status = error instanceof PermissionError ? error.status : 400;
+      res.status(status).json({ message: error.message || "Failed to update role permissions" });
+    }
+  });
+
+  // ============= Staff Access Routes =============
+  // Email domains staff may sign in from and per-email invitations; every change is audited in storage
+  app.get('/api/allowed-domains', isAuthenticated, requirePermission("access.manage"), async (req, res) => {
+    try {
+      res.json(await getAllowedDomains());
+    } catch (error) {
+      console.error("Error fetching allowed domains:", error);
+      res.status(500).json({ message: "Failed to fetch allowed domains" });
+    }
+  });
+
+  app.post('/api/allowed-domains', isAuthenticated, requirePermission("access.manage"), async (req: any, res) => {
+    try {
+      const data = insertAllowedDomainSchema.parse(req.body);
+      const domain = await addAllowedDomain(data, req.dbUser);
+      res.status(201).json(domain);
+    } catch (error: any) {
+      console.error("Error adding allowed domain:", error);
+      const status = error instanceof StaffAccessError ? error.status : 400;
+      res.status(status).json({ message: error.message || "Failed to add allowed domain" });
+    }
+  });
+
+  app.put('/api/allowed-domains/:id', isAuthenticated, requirePermission("access.manage"), async (req: any, res) => {
+    try {
+      // The domain itself is fixed; add a new one instead of renaming
+      const data = insertAllowedDomainSchema.pick({ defaultRole: true, isActive: true }).partial().parse(req.body);
+      const domain = await storage.updateAllowedDomain(req.params.id, data, req.dbUser.id);
+      res.json(domain);
+    } catch (error: any) {
+      console.error("Error updating allowed domain:", error);
+      res.status(400).json({ message: error.message || "Failed to update allowed domain" });
+    }
+  });
+
+  app.delete('/api/allowed-domains/:id', isAuthenticated, requirePermission("access.manage"), async (req: any, res) => {
+    try {
+      const existing = await storage.getAllowedDomain(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Allowed domain not found" });
+      }
+      if (!existing.isActive) {
+        // Already inactive - idempotent response
+        return res.json({ message: "Domain already deactivated" });
+      }
+      await storage.updateAllowedDomain(req.params.id, { isActive: false }, req.dbUser.id);
+      res.json({ message: "Domain deactivated successfully" });
+    } catch (error: any) {
+      console.error("Error deactivating allowed domain:", error);
+      res.status(500).json({ message: error.message || "Failed to deactivate allowed domain" });
+    }
+  });
+
+  app.get('/api/staff-invitations', isAuthenticated, requirePermission("access.manage"), async (req, res) => {
+    try {
+      res.json(await storage.getStaffInvitations());
+    } catch (error) {
+      console.error("Error fetching staff invitations:", error);
+      res.status(500).json({ message: "Failed to fetch staff invitations" });
+    }
+  });
+
+  app.post('/api/staff-invitations', isAuthenticated, requirePermission("access.manage"), async (req: any, res) => {
+    try {
+      const data = insertStaffInvitationSchema.parse(req.body);
+      const invitation = await inviteStaff(data, req.dbUser);
+      res.status(201).json(invitation);
+    } catch (error: any) {
+      console.error("Error creating staff invitation:", error);
+      const status = error instanceof StaffAccessError ? error.status : 400;
+      res.status(status).json({ message: error.message || "Failed to create invitation" });
+    }
+  });
+
+  // Revoking also removes access from an account that signed in through the invitation
+  app.delete('/api/staff-invitations/:id', isAuthenticated, requirePermission("access.manage"), async (req: any, res) => {
+    try {
+      await storage.revokeStaffInvitation(req.params.id, req.dbUser.id);
+      res.json({ message: "Invitation revoked successfully" });
+    } catch (error: any) {
+      console.error("Error revoking staff invitation:", error);
+      res.status(400).json({ message: error.message || "Failed to revoke invitation" });
+    }
+  });
+
+  // ============= Login Lockout Routes =============
+  app.get('/api/login-lockouts', isAuthenticated, requirePermission("login.unlock"), async (req, res) => {
+    try {
+      res.json(await getLockedLogins());
+    } catch (error) {
+      console.error("Error fetching login lockouts:", error);
+      res.status(500).json({ message: "Failed to fetch login lockouts" });
+    }
+  });
+
+  // kind is identifier, ip or labourer (an account locked after wrong PINs)
+  app.post('/api/login-lockouts/:kind/:id/release', isAuthenticated, requirePermission("login.unlock"), async (req: any, res) => {
+    try {
+      await releaseLockedLogin(req.params.kind, req.params.id, req.dbUser);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error releasing login lockout:", error);
+      const status = error instanceof LoginThrottleError ? error.status : 400;
+      res.status(status).json({ message: error.message || "Failed to release login lockout" });
+    }
+  });
+
   // ============= Object Storage Routes =============
   // Serve public objects
   app.get("/public-objects/:filePath(*)", async (req, res) => {
@@ -258,13 +580,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(400).json({ error: "visibility must be 'public' or 'private'" });
     }
 
-    // Only admins, project managers, and super admins can set visibility to public
+    // Only roles with file.publish can set visibility to public
     const userId = getUserId(req);
     const user = await storage.getUser(userId);
     
     if (visibility === "public") {
-      const allowedRoles = ["super_admin", "admin", "project_manager"];
-      if (!user || !allowedRoles.includes(user.role)) {
+      if (!user || !(await hasPermission(user, "file.publish"))) {
         return res.status(403).json({ error: "Insufficient permissions to set public visibility" });
       }
     }
@@ -299,7 +620,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/employee-types", isAuthenticated, requireRole("super_admin", "admin"), async (req: any, res) => {
+  app.post("/api/employee-types", isAuthenticated, requirePermission("employee_type.manage"), async (req: any, res) => {
     try {
       const data = insertEmployeeTypeSchema.parse(req.body);
       const type = await storage.createEmployeeType(data);
@@ -310,7 +631,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/employee-types/:id", isAuthenticated, requireRole("super_admin", "admin"), async (req: any, res) => {
+  app.put("/api/employee-types/:id", isAuthenticated, requirePermission("employee_type.manage"), async (req: any, res) => {
     try {
       const data = insertEmployeeTypeSchema.partial().parse(req.body);
       const type = await storage.updateEmployeeType(req.params.id, data);
@@ -321,7 +642,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/employee-types/:id", isAuthenticated, requireRole("super_admin", "admin"), async (req: any, res) => {
+  app.delete("/api/employee-types/:id", isAuthenticated, requirePermission("employee_type.manage"), async (req: any, res) => {
     try {
       const existingType = await storage.getEmployeeType(req.params.id);
       if (!existingType) {
@@ -339,6 +660,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ============= Tax Table Routes =============
+  // PAYE tax tables; periods ending outside every configured table use the built-in SARS table
+  app.get("/api/tax-tables", isAuthenticated, requirePermission("tax_table.manage"), async (req, res) => {
+    try {
+      const tables = await storage.getTaxTables();
+      res.json({ tables, defaultTable: DEFAULT_TAX_TABLE });
+    } catch (error) {
+      console.error("Error fetching tax tables:", error);
+      res.status(500).json({ message: "Failed to fetch tax tables" });
+    }
+  });
+
+  app.post("/api/tax-tables", isAuthenticated, requirePermission("tax_table.manage"), async (req: any, res) => {
+    try {
+      const data = insertTaxTableSchema.parse(req.body);
+      const table = await storage.createTaxTable({ ...data, createdBy: req.dbUser.id });
+      res.status(201).json(table);
+    } catch (error: any) {
+      console.error("Error creating tax table:", error);
+      res.status(400).json({ message: error.message || "Failed to create tax table" });
+    }
+  });
+
+  app.delete("/api/tax-tables/:id", isAuthenticated, requirePermission("tax_table.manage"), async (req: any, res) => {
+    try {
+      await storage.deleteTaxTable(req.params.id, req.dbUser.id);
+      res.json({ message: "Tax table deleted successfully" });
+    } catch (error: any) {
+      console.error("Error deleting tax table:", error);
+      res.status(500).json({ message: error.message || "Failed to delete tax table" });
+    }
+  });
+
   // ============= Project Routes =============
   app.get("/api/projects", isAuthenticated, async (req: any, res) => {
     try {
@@ -349,30 +703,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "User not found" });
       }
       
-      let projects: any[] = [];
-      if (user.role === "super_admin" || user.role === "admin") {
-        projects = await storage.getProjects();
-      } else if (user.role === "project_manager") {
-        projects = await storage.getProjectsByManager(user.id);
-      } else if (user.role === "supervisor") {
-        projects = await storage.getProjectsBySupervisor(user.id);
-      } else {
-        // Labourers can only see their assigned project
-        const labourer = await storage.getLabourerByUserId(user.id);
-        if (labourer && labourer.projectId) {
-          const project = await storage.getProject(labourer.projectId);
-          projects = project ? [project] : [];
-        }
-      }
-      
-      res.json(projects);
+      // Admins see every project; everyone else only the projects they are assigned to
+      const projectIds = await getAccessibleProjectIds(user);
+      const projects = await storage.getProjects();
+      res.json(projectIds === null ? projects : projects.filter(p => projectIds.includes(p.id)));
     } catch (error) {
       console.error("Error fetching projects:", error);
       res.status(500).json({ message: "Failed to fetch projects" });
     }
   });
 
-  app.get("/api/projects/:id", isAuthenticated, async (req, res) => {
+  app.get("/api/projects/:id", isAuthenticated, requirePermission("project.view"), requireProjectAccess(projectFrom.param("id")), async (req, res) => {
     try {
       const project = await storage.getProject(req.params.id);
       if (!project) {
@@ -385,7 +726,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/projects/:id/managers", isAuthenticated, async (req, res) => {
+  app.get("/api/projects/:id/managers", isAuthenticated, requirePermission("project.view"), requireProjectAccess(projectFrom.param("id")), async (req, res) => {
     try {
       const managers = await storage.getProjectManagers(req.params.id);
       res.json(managers);
@@ -395,7 +736,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/projects/:id/supervisors", isAuthenticated, async (req, res) => {
+  app.get("/api/projects/:id/team-history", isAuthenticated, requirePermission("project.view"), requireProjectAccess(projectFrom.param("id")), async (req, res) => {
+    try {
+      res.json(await storage.getProjectAssignmentHistory(req.params.id));
+    } catch (error) {
+      console.error("Error fetching project team history:", error);
+      res.status(500).json({ message: "Failed to fetch project team history" });
+    }
+  });
+
+  app.get("/api/projects/:id/supervisors", isAuthenticated, requirePermission("project.view"), requireProjectAccess(projectFrom.param("id")), async (req, res) => {
     try {
       const supervisors = await storage.getProjectSupervisors(req.params.id);
       res.json(supervisors);
@@ -405,9 +755,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/projects", isAuthenticated, requireRole("super_admin", "admin", "project_manager"), async (req: any, res) => {
+  app.post("/api/projects", isAuthenticated, requirePermission("project.create"), async (req: any, res) => {
     try {
-      // Use dbUser.id (attached by requireRole middleware)
+      // Use dbUser.id (attached by requirePermission middleware)
       const userId = req.dbUser.id;
       const { supervisorId, ...projectData } = req.body;
       const data = insertProjectSchema.parse({ ...projectData, createdBy: userId });
@@ -415,7 +765,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // If supervisorId is provided, assign them to the project
       if (supervisorId) {
-        await storage.assignProjectSupervisor(project.id, supervisorId);
+        await storage.assignProjectSupervisor(project.id, supervisorId, userId);
       }
       
       res.status(201).json(project);
@@ -425,21 +775,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/projects/:id", isAuthenticated, requireRole("super_admin", "admin", "project_manager"), async (req: any, res) => {
+  app.put("/api/projects/:id", isAuthenticated, requirePermission("project.edit", "project.edit_status"), requireProjectAccess(projectFrom.param("id")), async (req: any, res) => {
     try {
       const data = insertProjectSchema.partial().parse(req.body);
       
-      // Project managers can only update status, not other fields
-      if (req.dbUser.role === "project_manager") {
-        const allowedFields = ["status"];
-        const submittedFields = Object.keys(data);
-        const unauthorizedFields = submittedFields.filter(field => !allowedFields.includes(field));
-        
-        if (unauthorizedFields.length > 0) {
-          return res.status(403).json({ 
-            message: `Project managers can only update status. Unauthorized fields: ${unauthorizedFields.join(", ")}` 
-          });
-        }
+      // project.edit covers every field except status, which needs project.edit_status
+      const [canEdit, canEditStatus] = await Promise.all([
+        hasPermission(req.dbUser, "project.edit"),
+        hasPermission(req.dbUser, "project.edit_status"),
+      ]);
+      const unauthorizedFields = Object.keys(data).filter(field =>
+        field === "status" ? !canEditStatus : !canEdit
+      );
+      
+      if (unauthorizedFields.length > 0) {
+        return res.status(403).json({ 
+          message: `You do not have permission to update: ${unauthorizedFields.join(", ")}` 
+        });
       }
       
       // Add user ID for audit logging
@@ -454,18 +806,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Assign project manager
-  app.post("/api/projects/:id/managers", isAuthenticated, requireRole("super_admin", "admin"), async (req, res) => {
+  app.post("/api/projects/:id/managers", isAuthenticated, requirePermission("project.assign_manager"), requireProjectAccess(projectFrom.param("id")), async (req: any, res) => {
     try {
       if (!req.body.userId) {
         return res.status(400).json({ message: "userId is required" });
       }
       
-      const result = await storage.assignProjectManager(req.params.id, req.body.userId);
+      const assignee = await storage.getUser(req.body.userId);
+      if (!assignee?.isActive) {
+        return res.status(400).json({ message: "Only active users can be assigned to a project" });
+      }
+      
+      const result = await storage.assignProjectManager(req.params.id, req.body.userId, req.dbUser.id);
       
       if (result.alreadyAssigned) {
         return res.status(200).json({ message: "Manager already assigned", alreadyAssigned: true });
       }
       
+      await logAction("ASSIGN", "project", req.params.id, req.dbUser.id, { relation: "manager", userId: req.body.userId })
+        .catch(console.error);
+      
       res.status(201).json({ message: "Manager assigned successfully", alreadyAssigned: false });
     } catch (error) {
       console.error("Error assigning manager:", error);
@@ -473,19 +833,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Unassign project manager; the assignment history keeps the period they covered
+  app.delete("/api/projects/:id/managers/:userId", isAuthenticated, requirePermission("project.assign_manager"), requireProjectAccess(projectFrom.param("id")), async (req: any, res) => {
+    try {
+      const removed = await storage.removeProjectManager(req.params.id, req.params.userId, req.dbUser.id);
+      if (!removed) {
+        return res.status(404).json({ message: "Manager is not assigned to this project" });
+      }
+      
+      await logAuditEvent({
+        action: "DELETE",
+        entityType: "project",
+        entityId: req.params.id,
+        userId: req.dbUser.id,
+        changes: { manager: { old: req.params.userId, new: null } },
+        metadata: { operation: "unassign", relation: "manager" },
+      }).catch(console.error);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error unassigning manager:", error);
+      res.status(500).json({ message: "Failed to unassign manager" });
+    }
+  });
+
   // Assign project supervisor
-  app.post("/api/projects/:id/supervisors", isAuthenticated, requireRole("super_admin", "admin", "project_manager"), async (req, res) => {
+  app.post("/api/projects/:id/supervisors", isAuthenticated, requirePermission("project.assign_supervisor"), requireProjectAccess(projectFrom.param("id")), async (req: any, res) => {
     try {
       if (!req.body.userId) {
         return res.status(400).json({ message: "userId is required" });
       }
       
-      const result = await storage.assignProjectSupervisor(req.params.id, req.body.userId);
+      const assignee = await storage.getUser(req.body.userId);
+      if (!assignee?.isActive) {
+        return res.status(400).json({ message: "Only active users can be assigned to a project" });
+      }
+      
+      const result = await storage.assignProjectSupervisor(req.params.id, req.body.userId, req.dbUser.id);
       
       if (result.alreadyAssigned) {
         return res.status(200).json({ message: "Supervisor already assigned", alreadyAssigned: true });
       }
       
+      await logAction("ASSIGN", "project", req.params.id, req.dbUser.id, { relation: "supervisor", userId: req.body.userId })
+        .catch(console.error);
+      
       res.status(201).json({ message: "Supervisor assigned successfully", alreadyAssigned: false });
     } catch (error) {
       console.error("Error assigning supervisor:", error);
@@ -493,63 +884,129 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Unassign project supervisor; the assignment history keeps the period they covered
+  app.delete("/api/projects/:id/supervisors/:userId", isAuthenticated, requirePermission("project.assign_supervisor"), requireProjectAccess(projectFrom.param("id")), async (req: any, res) => {
+    try {
+      const removed = await storage.removeProjectSupervisor(req.params.id, req.params.userId, req.dbUser.id);
+      if (!removed) {
+        return res.status(404).json({ message: "Supervisor is not assigned to this project" });
+      }
+      
+      await logAuditEvent({
+        action: "DELETE",
+        entityType: "project",
+        entityId: req.params.id,
+        userId: req.dbUser.id,
+        changes: { supervisor: { old: req.params.userId, new: null } },
+        metadata: { operation: "unassign", relation: "supervisor" },
+      }).catch(console.error);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error unassigning supervisor:", error);
+      res.status(500).json({ message: "Failed to unassign supervisor" });
+    }
+  });
+
   // ============= Labourer Routes =============
-  app.get("/api/projects/:projectId/labourers", isAuthenticated, async (req, res) => {
+  // Without labourer.banking.view only the last digits of the account number are shown
+  async function withBankingAccess(req: any, list: Labourer[]) {
+    const canViewBanking = await hasPermission(req.dbUser, "labourer.banking.view");
+    return list.map(labourer => withoutCredentials(canViewBanking ? labourer : {
+      ...labourer,
+      accountNumber: `****${labourer.accountNumber.slice(-4)}`,
+      bankingProofPath: null,
+    }));
+  }
+
+  // Moves take effect on a given day (default the project's today); backdating is allowed, scheduling ahead is not
+  function parseEffectiveDate(value: unknown, timeZone?: string | null): string {
+    const today = dateInTimeZone(new Date(), resolveTimeZone(timeZone));
+    if (value === undefined || value === null || value === "") return today;
+    if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      throw new Error("effectiveDate must be a date in yyyy-MM-dd format");
+    }
+    if (value > today) {
+      throw new Error("effectiveDate cannot be in the future");
+    }
+    return value;
+  }
+
+  // ?asOf=yyyy-MM-dd lists the labourers who were on the project that day
+  app.get("/api/projects/:projectId/labourers", isAuthenticated, requirePermission("labourer.view"), requireProjectAccess(projectFrom.param()), async (req, res) => {
     try {
-      const labourers = await storage.getLabourers(req.params.projectId);
-      res.json(labourers);
+      const asOf = req.query.asOf as string | undefined;
+      if (asOf && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+        return res.status(400).json({ message: "asOf must be a date in yyyy-MM-dd format" });
+      }
+      const labourers = await storage.getLabourers(req.params.projectId, asOf);
+      res.json(await withBankingAccess(req, labourers));
     } catch (error) {
       console.error("Error fetching labourers:", error);
       res.status(500).json({ message: "Failed to fetch labourers" });
     }
   });
 
-  app.get("/api/labourers/available", isAuthenticated, async (req, res) => {
+  // Unassigned labourers are open to anyone who assigns labourers; those left on an inactive project only to staff who can access it
+  app.get("/api/labourers/available", isAuthenticated, requirePermission("labourer.view"), async (req: any, res) => {
     try {
-      const labourers = await storage.getAvailableLabourers();
-      res.json(labourers);
+      const projectIds = await getAccessibleProjectIds(req.dbUser);
+      const labourers = (await storage.getAvailableLabourers()).filter(labourer =>
+        projectIds === null || !labourer.projectId || projectIds.includes(labourer.projectId)
+      );
+      res.json(await withBankingAccess(req, labourers));
     } catch (error) {
       console.error("Error fetching available labourers:", error);
       res.status(500).json({ message: "Failed to fetch available labourers" });
     }
   });
 
-  app.get("/api/labourers/:id", isAuthenticated, async (req, res) => {
+  app.get("/api/labourers/:id", isAuthenticated, requirePermission("labourer.view"), requireProjectAccess(projectFrom.labourer()), async (req, res) => {
     try {
       const labourer = await storage.getLabourer(req.params.id);
       if (!labourer) {
         return res.status(404).json({ message: "Labourer not found" });
       }
-      res.json(labourer);
+      const [visible] = await withBankingAccess(req, [labourer]);
+      res.json(visible);
     } catch (error) {
       console.error("Error fetching labourer:", error);
       res.status(500).json({ message: "Failed to fetch labourer" });
     }
   });
 
-  app.post("/api/labourers", isAuthenticated, requireRole("super_admin", "admin", "project_manager", "supervisor", "project_admin"), async (req: any, res) => {
+  // Matches returned with a 409 on onboarding; only enough to recognise the person, since they may be on another project
+  function duplicateSummaries(duplicates: LabourerDuplicateMatch[]) {
+    return duplicates.map(({ labourer, fields }) => ({
+      id: labourer.id,
+      firstName: labourer.firstName,
+      surname: labourer.surname,
+      projectId: labourer.projectId,
+      fields,
+    }));
+  }
+
+  app.post("/api/labourers", isAuthenticated, requirePermission("labourer.create"), requireProjectAccess(projectFrom.body()), async (req: any, res) => {
     try {
-      // Use dbUser.id (attached by requireRole middleware)
+      // Use dbUser.id (attached by requirePermission middleware)
       const userId = req.dbUser.id;
       const data = insertLabourerSchema.parse({ ...req.body, createdBy: userId });
-      
-      // Hash the ID number for password authentication (only if idNumber exists and is non-empty)
-      if (data.idNumber && data.idNumber.trim()) {
-        const passwordHash = await bcrypt.hash(data.idNumber.trim(), 10);
-        data.passwordHash = passwordHash;
-      }
-      
+      await assertNotDuplicate(data, req.body.allowDuplicates === true);
+
+      // No login credential is derived from the ID number; the labourer sets a PIN with a code sent to their phone
       const labourer = await storage.createLabourer(data);
-      res.status(201).json(labourer);
+      res.status(201).json(withoutCredentials(labourer));
     } catch (error: any) {
       console.error("Error creating labourer:", error);
+      if (error instanceof LabourerDuplicateError) {
+        return res.status(error.status).json({ message: error.message, duplicates: duplicateSummaries(error.duplicates) });
+      }
       res.status(400).json({ message: error.message || "Failed to create labourer" });
     }
   });
 
-  app.post("/api/labourers/bulk", isAuthenticated, requireRole("super_admin", "admin", "project_manager", "supervisor", "project_admin"), async (req: any, res) => {
+  app.post("/api/labourers/bulk", isAuthenticated, requirePermission("labourer.create"), async (req: any, res) => {
     try {
-      // Use dbUser.id (attached by requireRole middleware)
+      // Use dbUser.id (attached by requirePermission middleware)
       const userId = req.dbUser.id;
       const { labourers: labourersData } = req.body;
       
@@ -557,67 +1014,276 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "labourers array is required and must not be empty" });
       }
 
-      // Validate, add createdBy, and hash passwords for each labourer
+      // Validate and add createdBy for each labourer
       const validatedData = await Promise.all(
         labourersData.map(async (labourer) => {
           const data = insertLabourerSchema.parse({ ...labourer, createdBy: userId });
-          
-          // Hash the ID number for password authentication (only if idNumber exists and is non-empty)
-          if (data.idNumber && data.idNumber.trim()) {
-            data.passwordHash = await bcrypt.hash(data.idNumber.trim(), 10);
-          }
-          
+          await assertProjectAccess(req.dbUser, data.projectId ?? null);
           return data;
         })
       );
       
+      const duplicates = await findBatchDuplicates(validatedData, req.body.allowDuplicates === true);
+      if (duplicates.length > 0) {
+        return res.status(409).json({
+          message: `${duplicates.length} labourer(s) match existing records or other rows: ${duplicates.map(d => `row ${d.row}: ${d.message}`).join("; ")}`,
+          duplicates,
+        });
+      }
+      
       const created = await storage.bulkCreateLabourers(validatedData);
       res.status(201).json({ 
         message: `Successfully created ${created.length} labourers`,
-        labourers: created 
+        labourers: created.map(labourer => withoutCredentials(labourer))
       });
     } catch (error: any) {
       console.error("Error bulk creating labourers:", error);
-      res.status(400).json({ message: error.message || "Failed to bulk create labourers" });
+      const status = error instanceof ProjectAccessError ? error.status : 400;
+      res.status(status).json({ message: error.message || "Failed to bulk create labourers" });
     }
   });
 
-  app.put("/api/labourers/:id", isAuthenticated, requireRole("super_admin", "admin", "project_manager", "supervisor", "project_admin"), async (req: any, res) => {
+  app.put("/api/labourers/:id", isAuthenticated, requirePermission("labourer.edit"), requireProjectAccess(projectFrom.labourer(), projectFrom.body()), async (req: any, res) => {
     try {
-      const data = insertLabourerSchema.partial().parse(req.body);
+      const data = updateLabourerSchema.parse(req.body);
+      const existing = await storage.getLabourer(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Labourer not found" });
+      }
+      
+      // Cross-check the document against the stored date of birth and gender when only some of them change
+      if (data.idNumber || data.idDocumentType || data.idIssuingCountry || data.dateOfBirth || data.gender) {
+        const errors = validateIdentityDocument({ ...existing, ...data });
+        if (errors.length > 0) {
+          return res.status(400).json({ message: errors.map(e => e.message).join("; "), errors });
+        }
+      }
+      
+      // Another labourer already holding the ID number is one person onboarded twice; merge them instead
+      if (data.idNumber) {
+        const sameId = (await findDuplicateLabourers({ ...existing, ...data }, req.params.id))
+          .filter(match => match.fields.includes("idNumber"));
+        if (sameId.length > 0) {
+          return res.status(409).json({
+            message: `ID number ${data.idNumber} is already registered to ${sameId[0].labourer.firstName} ${sameId[0].labourer.surname}. Merge the two records instead.`,
+            duplicates: duplicateSummaries(sameId),
+          });
+        }
+      }
+      
+      // Banking details the user cannot see are left as they are
+      if (!(await hasPermission(req.dbUser, "labourer.banking.view"))) {
+        delete data.bankName;
+        delete data.accountNumber;
+        delete data.accountType;
+        delete data.branchCode;
+        delete data.bankingProofPath;
+      }
       
       // Add user ID for audit logging
       (data as any).updatedBy = req.dbUser.id;
       
       const labourer = await storage.updateLabourer(req.params.id, data);
-      res.json(labourer);
+      const [visible] = await withBankingAccess(req, [labourer]);
+      res.json(visible);
     } catch (error: any) {
       console.error("Error updating labourer:", error);
       res.status(400).json({ message: error.message || "Failed to update labourer" });
     }
   });
 
-  app.post("/api/projects/:projectId/labourers", isAuthenticated, requireRole("super_admin", "admin", "project_manager", "supervisor", "project_admin"), async (req, res) => {
+  app.post("/api/projects/:projectId/labourers", isAuthenticated, requirePermission("labourer.assign"), requireProjectAccess(projectFrom.param()), async (req: any, res) => {
     try {
       const { labourerIds } = req.body;
       
       if (!labourerIds || !Array.isArray(labourerIds) || labourerIds.length === 0) {
         return res.status(400).json({ message: "labourerIds array is required" });
       }
+      const project = await storage.getProject(req.params.projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const effectiveDate = parseEffectiveDate(req.body.effectiveDate, project.timezone);
+      
+      // Labourers can only be taken from projects the caller also has access to
+      for (const labourerId of labourerIds) {
+        const labourer = await storage.getLabourer(labourerId);
+        await assertProjectAccess(req.dbUser, labourer?.projectId ?? null);
+      }
       
-      await storage.assignLabourersToProject(labourerIds, req.params.projectId);
+      await storage.assignLabourersToProject(labourerIds, req.params.projectId, effectiveDate, req.dbUser.id);
       res.status(200).json({ message: "Labourers assigned successfully" });
     } catch (error: any) {
       console.error("Error assigning labourers:", error);
-      res.status(400).json({ message: error.message || "Failed to assign labourers" });
+      const status = error instanceof ProjectAccessError ? error.status : 400;
+      res.status(status).json({ message: error.message || "Failed to assign labourers" });
+    }
+  });
+
+  // Move a labourer to another project (or off every project with projectId null) from an effective date
+  app.post("/api/labourers/:id/transfer", isAuthenticated, requirePermission("labourer.assign"), requireProjectAccess(projectFrom.labourer(), projectFrom.body()), async (req: any, res) => {
+    try {
+      const projectId = req.body.projectId || null;
+      const project = projectId ? await storage.getProject(projectId) : undefined;
+      if (projectId && !project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      // Moves off every project take effect in the timezone of the project being left
+      const current = await storage.getLabourer(req.params.id);
+      const fromProject = current?.projectId ? await storage.getProject(current.projectId) : undefined;
+      const effectiveDate = parseEffectiveDate(req.body.effectiveDate, (project ?? fromProject)?.timezone);
+      const labourer = await storage.transferLabourer(req.params.id, projectId, effectiveDate, req.dbUser.id);
+      res.json(withoutCredentials(labourer));
+    } catch (error: any) {
+      console.error("Error transferring labourer:", error);
+      const status = error instanceof ProjectAccessError ? error.status : 400;
+      res.status(status).json({ message: error.message || "Failed to transfer labourer" });
+    }
+  });
+
+  app.get("/api/labourers/:id/assignments", isAuthenticated, requirePermission("labourer.view"), requireProjectAccess(projectFrom.labourer()), async (req, res) => {
+    try {
+      res.json(await storage.getLabourerAssignmentTimeline(req.params.id));
+    } catch (error) {
+      console.error("Error fetching labourer assignments:", error);
+      res.status(500).json({ message: "Failed to fetch labourer assignments" });
+    }
+  });
+
+  // Pairs of labourers sharing an ID number, phone number, email or bank account, for review
+  app.get("/api/labourer-duplicates", isAuthenticated, requirePermission("labourer.merge"), async (req: any, res) => {
+    try {
+      const pairs = await getProbableDuplicates(req.dbUser);
+      res.json(await Promise.all(pairs.map(async (pair) => {
+        const [first, second] = await withBankingAccess(req, [pair.first, pair.second]);
+        return { first, second, fields: pair.fields };
+      })));
+    } catch (error) {
+      console.error("Error fetching duplicate labourers:", error);
+      res.status(500).json({ message: "Failed to fetch duplicate labourers" });
+    }
+  });
+
+  // Fold duplicateId into survivorId; the duplicate's work logs and payment history move to the survivor
+  app.post("/api/labourer-duplicates/merge", isAuthenticated, requirePermission("labourer.merge"), async (req: any, res) => {
+    try {
+      const { survivorId, duplicateId } = req.body;
+      if (!survivorId || !duplicateId) {
+        return res.status(400).json({ message: "survivorId and duplicateId are required" });
+      }
+      for (const id of [survivorId, duplicateId]) {
+        const labourer = await storage.getLabourer(id);
+        await assertProjectAccess(req.dbUser, labourer?.projectId ?? null);
+      }
+      const result = await mergeLabourers(survivorId, duplicateId, req.dbUser);
+      res.json({ ...result, labourer: withoutCredentials(result.labourer) });
+    } catch (error: any) {
+      console.error("Error merging labourers:", error);
+      const status = error instanceof LabourerDuplicateError || error instanceof ProjectAccessError ? error.status : 400;
+      res.status(status).json({ message: error.message || "Failed to merge labourers" });
+    }
+  });
+
+  // Supervisor-initiated PIN reset: clears the PIN and lockout and texts the labourer a reset code
+  app.post("/api/labourers/:id/pin-reset", isAuthenticated, requirePermission("labourer.pin_reset"), requireProjectAccess(projectFrom.labourer()), async (req: any, res) => {
+    try {
+      const labourer = await storage.getLabourer(req.params.id);
+      if (!labourer) {
+        return res.status(404).json({ message: "Labourer not found" });
+      }
+      const result = await resetLabourerPinBySupervisor(labourer, req.dbUser);
+      res.json(result);
+    } catch (error: any) {
+      console.error("Error resetting labourer PIN:", error);
+      const status = error instanceof LabourerAuthError ? error.status : 400;
+      res.status(status).json({ message: error.message || "Failed to reset PIN" });
+    }
+  });
+
+  // Deactivated labourers cannot sign in to the portal; their open sessions are revoked
+  app.post("/api/labourers/:id/deactivate", isAuthenticated, requirePermission("labourer.edit"), requireProjectAccess(projectFrom.labourer()), async (req: any, res) => {
+    try {
+      const labourer = await storage.getLabourer(req.params.id);
+      if (!labourer) {
+        return res.status(404).json({ message: "Labourer not found" });
+      }
+      const result = await deactivateLabourer(labourer, req.dbUser);
+      res.json({ labourer: withoutCredentials(result.labourer), sessionsRevoked: result.sessionsRevoked });
+    } catch (error: any) {
+      console.error("Error deactivating labourer:", error);
+      const status = error instanceof OffboardingError ? error.status : 400;
+      res.status(status).json({ message: error.message || "Failed to deactivate labourer" });
+    }
+  });
+
+  app.post("/api/labourers/:id/reactivate", isAuthenticated, requirePermission("labourer.edit"), requireProjectAccess(projectFrom.labourer()), async (req: any, res) => {
+    try {
+      const labourer = await storage.getLabourer(req.params.id);
+      if (!labourer) {
+        return res.status(404).json({ message: "Labourer not found" });
+      }
+      res.json(withoutCredentials(await reactivateLabourer(labourer, req.dbUser)));
+    } catch (error: any) {
+      console.error("Error reactivating labourer:", error);
+      const status = error instanceof OffboardingError ? error.status : 400;
+      res.status(status).json({ message: error.message || "Failed to reactivate labourer" });
     }
   });
 
   // ============= Labourer Portal Routes (for labourer authentication via phone/email) =============
+  // Set or change the signed-in labourer's PIN (also reachable before the first PIN is set)
+  app.post("/api/labourer/pin", isLabourerAuthenticated, async (req: any, res) => {
+    try {
+      await setLabourerPin(req.labourer, req.body.pin, req.body.currentPin, req.body.code);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error setting labourer PIN:", error);
+      const status = error instanceof LabourerAuthError ? error.status : 400;
+      res.status(status).json({ message: error.message || "Failed to set PIN" });
+    }
+  });
+
+  // Send a PIN code to the labourer's phone; the response, throttle included, is the same whether or not the labourer exists
+  app.post("/api/labourer/pin-reset/request", async (req, res) => {
+    try {
+      if (!req.body.identifier) {
+        return res.status(400).json({ message: "Phone number or email is required" });
+      }
+      await requestPinReset(String(req.body.identifier).trim(), getClientIp(req));
+      res.json({ message: "If the details match a registered labourer, a reset code has been sent to their phone" });
+    } catch (error: any) {
+      console.error("Error requesting PIN reset:", error);
+      const status = error instanceof LabourerAuthError ? error.status : 500;
+      res.status(status).json({ message: status === 500 ? "Failed to send reset code" : error.message });
+    }
+  });
+
+  // Wrong codes count as failed labourer logins, so guessing codes is throttled and locked out like guessing PINs
+  app.post("/api/labourer/pin-reset/confirm", throttleLogin(req => req.body?.identifier), async (req, res) => {
+    const attempt = { flow: "labourer" as const, identifier: req.body?.identifier, ipAddress: getClientIp(req) };
+    try {
+      const { identifier, code, pin } = req.body;
+      if (!identifier || !code) {
+        return res.status(400).json({ message: "Phone number or email and reset code are required" });
+      }
+      const labourer = await confirmPinReset(String(identifier).trim(), String(code).trim(), pin);
+      recordLoginAttempt({ ...attempt, success: true, labourerId: labourer.id }).catch(console.error);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error confirming PIN reset:", error);
+      // 401 is a wrong or expired code; a PIN that fails validation is not a guess
+      if (error instanceof LabourerAuthError && error.status === 401) {
+        await recordLoginAttempt({ ...attempt, success: false, reason: "Invalid PIN reset code" }).catch(console.error);
+      }
+      const status = error instanceof LabourerAuthError ? error.status : 400;
+      res.status(status).json({ message: error.message || "Failed to reset PIN" });
+    }
+  });
+
   // Get labourer's own profile
-  app.get("/api/my-labourer-profile", isLabourerAuthenticated, async (req: any, res) => {
+  app.get("/api/my-labourer-profile", isLabourerAuthenticated, requireLabourerPin, async (req: any, res) => {
     try {
-      res.json(req.labourer);
+      res.json(withoutCredentials(req.labourer));
     } catch (error) {
       console.error("Error fetching labourer profile:", error);
       res.status(500).json({ message: "Failed to fetch profile" });
@@ -625,7 +1291,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get labourer's own work logs
-  app.get("/api/my-work-logs", isLabourerAuthenticated, async (req: any, res) => {
+  app.get("/api/my-work-logs", isLabourerAuthenticated, requireLabourerPin, async (req: any, res) => {
     try {
       const workLogs = await storage.getWorkLogsByLabourer(req.labourer.id);
       res.json(workLogs);
@@ -636,7 +1302,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get labourer's payment entries across all payment periods
-  app.get("/api/my-payments", isLabourerAuthenticated, async (req: any, res) => {
+  app.get("/api/my-payments", isLabourerAuthenticated, requireLabourerPin, async (req: any, res) => {
     try {
       // Get all payment period entries for this labourer
       const entries = await db
@@ -651,15 +1317,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .where(eq(paymentPeriodEntries.labourerId, req.labourer.id))
         .orderBy(desc(paymentPeriods.endDate));
       
-      res.json(entries);
+      // Attach the approved deductions/bonuses behind each entry's net amount
+      const adjustments = await storage.getPaymentAdjustmentsByLabourer(req.labourer.id, "approved");
+      res.json(entries.map(item => ({
+        ...item,
+        adjustments: adjustments
+          .filter(a => a.periodId === item.period.id)
+          .map(({ id, type, amount, reason }) => ({ id, type, amount, reason })),
+      })));
     } catch (error) {
       console.error("Error fetching payment entries:", error);
       res.status(500).json({ message: "Failed to fetch payment information" });
     }
   });
 
-  // Get labourer's current period summary (for dashboard)
-  app.get("/api/my-current-period", isLabourerAuthenticated, async (req: any, res) => {
+  // Labourer's own payslip, available once the period has been approved
+  app.get("/api/my-payslips/:entryId", isLabourerAuthenticated, requireLabourerPin, async (req: any, res) => {
+    try {
+      const entry = await storage.getPaymentPeriodEntry(req.params.entryId);
+      if (!entry || entry.labourerId !== req.labourer.id) {
+        return res.status(404).json({ message: "Payslip not found" });
+      }
+
+      const data = await getPayslipData(entry);
+      if (data.period.status !== "approved" && data.period.status !== "paid") {
+        return res.status(409).json({ message: "Payslip is available once the payment period is approved" });
+      }
+
+      const pdf = await renderPayslipPdf(data);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${getPayslipFilename(data)}"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating payslip:", error);
+      res.status(500).json({ message: "Failed to generate payslip" });
+    }
+  });
+
+  // Get labourer's current period summary (for dashboard)
+  app.get("/api/my-current-period", isLabourerAuthenticated, requireLabourerPin, async (req: any, res) => {
     try {
       const labourerId = req.labourer.id;
       const today = new Date();
@@ -692,9 +1388,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           
           // Calculate metrics for current period
           const periodWorkLogs = workLogs.filter(log => {
-            const logDate = new Date(log.workDate);
-            return logDate >= new Date(currentPeriod.startDate) && 
-                   logDate <= new Date(currentPeriod.endDate);
+            const workDate = toDateOnly(log.workDate);
+            return workDate >= currentPeriod.startDate && workDate <= currentPeriod.endDate;
           });
           
           currentPeriodEarnings = periodWorkLogs.reduce((sum, log) => 
@@ -718,7 +1413,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // ============= Reports Routes =============
-  app.get("/api/reports/payroll", isAuthenticated, async (req, res) => {
+  app.get("/api/reports/payroll", isAuthenticated, requirePermission("report.view"), requireProjectAccess(projectFrom.query()), async (req, res) => {
     try {
       const { projectId, startDate, endDate } = req.query;
 
@@ -738,8 +1433,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         endDate as string
       );
 
-      // Get all labourers in the project
-      const labourers = await storage.getLabourers(projectId as string);
+      // Everyone who worked on the project in the range, including labourers who have since moved
+      const labourers = await storage.getLabourersForPeriod(projectId as string, startDate as string, endDate as string);
 
       // Get pay rates for the project
       const payRates = await storage.getPayRates(projectId as string);
@@ -751,6 +1446,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         idNumber: string;
         totalOpenMeters: number;
         totalCloseMeters: number;
+        additionalItems: AdditionalWorkItem[];
         totalEarnings: number;
       }>();
 
@@ -761,28 +1457,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
           idNumber: "",
           totalOpenMeters: 0,
           totalCloseMeters: 0,
+          additionalItems: [],
           totalEarnings: 0,
         };
 
         existing.totalOpenMeters += parseFloat(log.openTrenchingMeters || "0");
         existing.totalCloseMeters += parseFloat(log.closeTrenchingMeters || "0");
+        existing.additionalItems = combineAdditionalItems(existing.additionalItems, log.additionalItems);
         existing.totalEarnings += parseFloat(log.totalEarnings || "0");
 
         labourerTotals.set(log.labourerId, existing);
       });
 
-      // Enrich with labourer details
+      // Enrich with labourer details and the statutory deductions on the gross
+      const statutoryContext = await getStatutoryContext(project, endDate as string);
       const entries = Array.from(labourerTotals.values()).map(entry => {
         const labourer = labourers.find((l: any) => l.id === entry.labourerId);
+        const statutory = calculateStatutoryDeductions({ ...statutoryContext, remuneration: entry.totalEarnings });
         return {
           ...entry,
           labourerName: labourer ? `${labourer.firstName} ${labourer.surname}` : "Unknown",
           idNumber: labourer?.idNumber || "",
+          ...statutory,
+          netPay: Math.round((entry.totalEarnings - statutory.uifEmployee - statutory.paye) * 100) / 100,
         };
       });
 
-      // Calculate grand total
+      // Calculate grand totals
       const grandTotal = entries.reduce((sum, entry) => sum + entry.totalEarnings, 0);
+      const statutoryTotals = {
+        uifEmployee: entries.reduce((sum, entry) => sum + entry.uifEmployee, 0),
+        uifEmployer: entries.reduce((sum, entry) => sum + entry.uifEmployer, 0),
+        sdl: entries.reduce((sum, entry) => sum + entry.sdl, 0),
+        paye: entries.reduce((sum, entry) => sum + entry.paye, 0),
+      };
 
       // Get average rates (simplified - using first rate found for each category)
       const openRate = payRates.find((r: any) => r.category === "open_trenching");
@@ -796,8 +1504,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         paymentPeriod: project.paymentPeriod,
         openRate: openRate ? parseFloat(openRate.amount) : 0,
         closeRate: closeRate ? parseFloat(closeRate.amount) : 0,
+        // Custom rate items recorded in the range, one report column each
+        itemNames: combineAdditionalItems(...entries.map(entry => entry.additionalItems)).map(item => item.categoryName),
         entries,
         grandTotal,
+        statutoryTotals,
       };
 
       res.json(report);
@@ -808,7 +1519,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Worker Activity Report - detailed daily breakdown
-  app.get("/api/reports/worker-activity", isAuthenticated, async (req, res) => {
+  // Monthly UIF declaration across all projects (uFiling CSV), month as YYYY-MM
+  app.get("/api/reports/uif-declaration", isAuthenticated, requirePermission("report.statutory"), async (req, res) => {
+    try {
+      const month = req.query.month as string;
+      if (!month || !/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+        return res.status(400).json({ message: "month is required in YYYY-MM format" });
+      }
+
+      const rows = await buildUifDeclaration(month);
+      if (req.query.format === "json") {
+        return res.json(rows);
+      }
+
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="UIF_DECLARATION_${month.replace('-', '')}.csv"`);
+      res.send(renderUfilingCsv(month, rows));
+    } catch (error) {
+      console.error("Error generating UIF declaration:", error);
+      res.status(500).json({ message: "Failed to generate UIF declaration" });
+    }
+  });
+
+  app.get("/api/reports/worker-activity", isAuthenticated, requirePermission("report.view"), requireProjectAccess(projectFrom.query()), async (req, res) => {
     try {
       const { projectId, labourerId, startDate, endDate, groupBy = 'daily' } = req.query;
 
@@ -833,8 +1566,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         workLogs = workLogs.filter(log => log.labourerId === labourerId);
       }
 
-      // Get all labourers to enrich data
-      const labourers = await storage.getLabourers(projectId as string);
+      // Everyone who worked on the project in the range, including labourers who have since moved
+      const labourers = await storage.getLabourersForPeriod(projectId as string, startDate as string, endDate as string);
       const labourerMap = new Map(labourers.map((l: any) => [l.id, l]));
 
       // Enrich work logs with labourer details
@@ -848,6 +1581,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           openMeters: parseFloat(log.openTrenchingMeters || "0"),
           closeMeters: parseFloat(log.closeTrenchingMeters || "0"),
           totalMeters: parseFloat(log.openTrenchingMeters || "0") + parseFloat(log.closeTrenchingMeters || "0"),
+          additionalItems: combineAdditionalItems(log.additionalItems),
           earnings: parseFloat(log.totalEarnings || "0"),
         };
       });
@@ -862,19 +1596,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Group by week
         const weeklyMap = new Map<string, any>();
         enrichedLogs.forEach(log => {
-          const date = new Date(log.workDate);
-          const weekStart = new Date(date);
-          weekStart.setDate(date.getDate() - date.getDay()); // Start of week (Sunday)
-          const weekKey = `${log.labourerId}-${weekStart.toISOString().split('T')[0]}`;
+          const weekStart = startOfWeek(toDateOnly(log.workDate));
+          const weekKey = `${log.labourerId}-${weekStart}`;
           
           const existing = weeklyMap.get(weekKey) || {
-            weekStart: weekStart.toISOString().split('T')[0],
+            weekStart,
             labourerId: log.labourerId,
             labourerName: log.labourerName,
             idNumber: log.idNumber,
             openMeters: 0,
             closeMeters: 0,
             totalMeters: 0,
+            additionalItems: [],
             earnings: 0,
             daysWorked: 0,
           };
@@ -882,6 +1615,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           existing.openMeters += log.openMeters;
           existing.closeMeters += log.closeMeters;
           existing.totalMeters += log.totalMeters;
+          existing.additionalItems = combineAdditionalItems(existing.additionalItems, log.additionalItems);
           existing.earnings += log.earnings;
           existing.daysWorked += 1;
           
@@ -892,17 +1626,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Group by month
         const monthlyMap = new Map<string, any>();
         enrichedLogs.forEach(log => {
-          const date = new Date(log.workDate);
-          const monthKey = `${log.labourerId}-${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+          const month = toDateOnly(log.workDate).slice(0, 7);
+          const monthKey = `${log.labourerId}-${month}`;
           
           const existing = monthlyMap.get(monthKey) || {
-            month: `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`,
+            month,
             labourerId: log.labourerId,
             labourerName: log.labourerName,
             idNumber: log.idNumber,
             openMeters: 0,
             closeMeters: 0,
             totalMeters: 0,
+            additionalItems: [],
             earnings: 0,
             daysWorked: 0,
           };
@@ -910,6 +1645,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           existing.openMeters += log.openMeters;
           existing.closeMeters += log.closeMeters;
           existing.totalMeters += log.totalMeters;
+          existing.additionalItems = combineAdditionalItems(existing.additionalItems, log.additionalItems);
           existing.earnings += log.earnings;
           existing.daysWorked += 1;
           
@@ -923,6 +1659,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const totalCloseMeters = groupedData.reduce((sum, row) => sum + row.closeMeters, 0);
       const totalMeters = groupedData.reduce((sum, row) => sum + row.totalMeters, 0);
       const totalEarnings = groupedData.reduce((sum, row) => sum + row.earnings, 0);
+      const totalItems = combineAdditionalItems(...groupedData.map(row => row.additionalItems));
 
       res.json({
         projectId: project.id,
@@ -930,11 +1667,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         startDate,
         endDate,
         groupBy,
+        itemNames: totalItems.map(item => item.categoryName),
         data: groupedData,
         totals: {
           openMeters: totalOpenMeters,
           closeMeters: totalCloseMeters,
           totalMeters,
+          additionalItems: totalItems,
           earnings: totalEarnings,
         },
       });
@@ -945,13 +1684,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Worker Activity Matrix - pivot table with workers as rows, dates as columns
-  app.get("/api/reports/worker-activity-matrix", isAuthenticated, async (req, res) => {
+  app.get("/api/reports/worker-activity-matrix", isAuthenticated, requirePermission("report.view"), requireProjectAccess(projectFrom.query()), async (req, res) => {
     try {
       const { projectId, startDate, endDate, metricType = 'total' } = req.query;
 
       if (!projectId || !startDate || !endDate) {
         return res.status(400).json({ message: "projectId, startDate, and endDate are required" });
       }
+      if (!toDateOnly(startDate) || !toDateOnly(endDate)) {
+        return res.status(400).json({ message: "startDate and endDate must be dates in yyyy-MM-dd format" });
+      }
 
       const project = await storage.getProject(projectId as string);
       if (!project) {
@@ -965,17 +1707,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         endDate as string
       );
 
-      // Get all labourers for the project
-      const labourers = await storage.getLabourers(projectId as string);
+      // Everyone who worked on the project in the range, including labourers who have since moved
+      const labourers = await storage.getLabourersForPeriod(projectId as string, startDate as string, endDate as string);
       const labourerMap = new Map(labourers.map((l: any) => [l.id, l]));
 
       // Generate all dates in the range
-      const start = new Date(startDate as string);
-      const end = new Date(endDate as string);
-      const dates: string[] = [];
-      for (let d = new Date(start); d <= end; d.setDate(d.getDate() + 1)) {
-        dates.push(d.toISOString().split('T')[0]);
-      }
+      const dates = datesInRange(toDateOnly(startDate), toDateOnly(endDate));
 
       // Build matrix data structure
       // Map: labourerId -> Map: date -> { opens, closes, total, earnings }
@@ -1065,7 +1802,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // ============= Pay Rate Routes =============
-  app.get("/api/projects/:projectId/pay-rates", isAuthenticated, async (req, res) => {
+  app.get("/api/projects/:projectId/pay-rates", isAuthenticated, requireProjectAccess(projectFrom.param()), async (req, res) => {
     try {
       const rates = await storage.getPayRates(req.params.projectId);
       res.json(rates);
@@ -1075,9 +1812,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/pay-rates", isAuthenticated, requireRole("super_admin", "admin", "project_manager"), async (req: any, res) => {
+  app.post("/api/pay-rates", isAuthenticated, requirePermission("pay_rate.manage"), requireProjectAccess(projectFrom.body()), async (req: any, res) => {
     try {
-      // Use dbUser.id (attached by requireRole middleware)
+      // Use dbUser.id (attached by requirePermission middleware)
       const userId = req.dbUser.id;
       const data = insertPayRateSchema.parse({ ...req.body, createdBy: userId });
       const rate = await storage.createPayRate(data);
@@ -1089,13 +1826,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // ============= Work Log Routes =============
-  app.get("/api/projects/:projectId/work-logs", isAuthenticated, async (req, res) => {
+  app.get("/api/projects/:projectId/work-logs", isAuthenticated, requireProjectAccess(projectFrom.param()), async (req, res) => {
     try {
       const { startDate, endDate } = req.query;
       const logs = await storage.getWorkLogs(
         req.params.projectId,
-        startDate ? new Date(startDate as string) : undefined,
-        endDate ? new Date(endDate as string) : undefined
+        startDate ? toDateOnly(startDate) : undefined,
+        endDate ? toDateOnly(endDate) : undefined
       );
       res.json(logs);
     } catch (error) {
@@ -1104,88 +1841,146 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/labourers/:labourerId/work-logs", isAuthenticated, async (req, res) => {
+  app.get("/api/labourers/:labourerId/work-logs", isAuthenticated, requireProjectAccess(projectFrom.labourer("labourerId")), async (req: any, res) => {
     try {
+      // A labourer's history may include projects they have since moved from
+      const projectIds = await getAccessibleProjectIds(req.dbUser);
       const logs = await storage.getWorkLogsByLabourer(req.params.labourerId);
-      res.json(logs);
+      res.json(projectIds === null ? logs : logs.filter(log => projectIds.includes(log.projectId)));
     } catch (error) {
       console.error("Error fetching work logs:", error);
       res.status(500).json({ message: "Failed to fetch work logs" });
     }
   });
 
-  app.post("/api/work-logs", isAuthenticated, requireRole("super_admin", "admin", "project_manager", "supervisor", "project_admin"), async (req: any, res) => {
+  // Labourer project days with more than one log, left over from before one log per day was enforced
+  app.get("/api/work-logs/duplicates", isAuthenticated, requirePermission("work_log.edit"), async (req: any, res) => {
     try {
-      // Use dbUser.id (attached by requireRole middleware)
+      const projectIds = await getAccessibleProjectIds(req.dbUser);
+      res.json(await findDuplicateWorkLogGroups(projectIds ?? undefined));
+    } catch (error) {
+      console.error("Error fetching duplicate work logs:", error);
+      res.status(500).json({ message: "Failed to fetch duplicate work logs" });
+    }
+  });
+
+  // Reduce one duplicate group to keepId, either dropping the other logs or adding them into it
+  app.post("/api/work-logs/duplicates/resolve", isAuthenticated, requirePermission("work_log.edit"), requireProjectAccess(projectFrom.body()), async (req: any, res) => {
+    try {
+      const { labourerId, projectId, workDate, keepId, resolution } = req.body;
+      if (!labourerId || !projectId || !workDate || !keepId) {
+        return res.status(400).json({ message: "labourerId, projectId, workDate and keepId are required" });
+      }
+      if (resolution !== "keep" && resolution !== "combine") {
+        return res.status(400).json({ message: "resolution must be keep or combine" });
+      }
+      const log = await resolveDuplicateWorkLogs({ labourerId, projectId, workDate }, keepId, resolution, req.dbUser);
+      res.json(log);
+    } catch (error: any) {
+      console.error("Error resolving duplicate work logs:", error);
+      const status = error instanceof PaymentPeriodWorkflowError || error instanceof WorkLogSyncError ? error.status : 400;
+      res.status(status).json({ message: error.message || "Failed to resolve duplicate work logs" });
+    }
+  });
+
+  // Save a whole day's sheet: every row is validated and either all are saved or none are
+  app.post("/api/work-logs/batch", isAuthenticated, requirePermission("work_log.create"), requireProjectAccess(projectFrom.body()), async (req: any, res) => {
+    try {
+      const result = await saveWorkLogBatch(req.body, req.dbUser);
+      res.status(result.saved ? 201 : 422).json(result);
+    } catch (error: any) {
+      console.error("Error saving work log batch:", error);
+      // A unique key violation means another delivery of the same captures is being saved right now
+      if (error.code === "23505") {
+        return res.status(409).json({ message: "These work logs are already being saved; try again shortly" });
+      }
+      const status = error instanceof WorkDateError ? error.status : 400;
+      res.status(status).json({ message: error.message || "Failed to save work logs" });
+    }
+  });
+
+  app.post("/api/work-logs", isAuthenticated, requirePermission("work_log.create"), requireProjectAccess(projectFrom.body()), async (req: any, res) => {
+    try {
+      // Use dbUser.id (attached by requirePermission middleware)
       const userId = req.dbUser.id;
-      const data = insertWorkLogSchema.parse({ ...req.body, recordedBy: userId });
+      // Client-supplied totalEarnings/appliedRateIds are stripped and recalculated below
+      const data = workLogInputSchema.parse({ ...req.body, recordedBy: userId });
+      // Sent by the offline queue so a sync that is retried after a dropped response is only applied once
+      const idempotencyKey = getIdempotencyKey(req.get("Idempotency-Key"));
+      const onExisting = parseExistingWorkLogMode(req.body.onExisting);
       
-      // Helper to extract yyyy-MM-dd from any date value without UTC drift
-      const toLocalDateString = (dateValue: any): string => {
-        if (!dateValue) return '';
-        
-        // If string, extract yyyy-MM-dd part only (handles "2024-01-01" and "2024-01-01T..." formats)
-        if (typeof dateValue === 'string') {
-          const match = dateValue.match(/^(\d{4})-(\d{2})-(\d{2})/);
-          return match ? `${match[1]}-${match[2]}-${match[3]}` : '';
-        }
-        
-        // For Date objects, extract local components (server's "today")
-        if (dateValue instanceof Date) {
-          return `${dateValue.getFullYear()}-${String(dateValue.getMonth() + 1).padStart(2, '0')}-${String(dateValue.getDate()).padStart(2, '0')}`;
-        }
-        
-        // Reject all other types (numbers, objects, etc.) to prevent drift
-        return '';
-      };
-      
-      // Server-side validation: Only allow today's date for new work logs (PRD requirement)
-      const today = toLocalDateString(new Date());
-      const workDate = toLocalDateString(data.workDate);
+      const workDate = toDateOnly(data.workDate);
       
       if (!workDate) {
         return res.status(400).json({ message: "Invalid work date format" });
       }
       
-      if (workDate !== today) {
-        return res.status(400).json({ 
-          message: "Can only create work logs for today. To modify historical data, submit a correction request." 
-        });
+      // A replay of a capture that already synced answers with the stored log, even after the day has passed
+      const submission = { ...data, workDate };
+      if (idempotencyKey) {
+        const replayed = await findReplayedWorkLog(idempotencyKey, submission, userId, onExisting);
+        if (replayed) {
+          return res.status(200).json(replayed);
+        }
+      }
+      
+      // Server-side validation: only the project's today, plus yesterday during its grace window (PRD requirement).
+      // Queued offline captures are checked against the window of the moment they were captured on the device
+      const lateCapture = assertCaptureWorkDateOpen(
+        await getProjectWorkDateSettings(data.projectId),
+        workDate,
+        { capturedAt: req.body.capturedAt, idempotencyKey }
+      );
+      
+      // Work inside an approved or paid payment period is immutable
+      await assertWorkDateUnlocked(data.projectId, workDate);
+      
+      // One log per labourer per project day: saving again updates the existing log
+      const existing = await findWorkLogToUpdate(submission, userId, onExisting);
+      if (existing) {
+        const values = mergeWorkLogValues(existing, submission, onExisting);
+        const earnings = await calculateWorkLogEarnings({ ...submission, ...values });
+        const log = await storage.updateWorkLog(existing.id, {
+          ...values,
+          totalEarnings: earnings.totalEarnings,
+          appliedRateIds: earnings.appliedRateIds,
+          idempotencyKey: idempotencyKey ?? existing.idempotencyKey,
+          updatedBy: userId,
+        } as Partial<InsertWorkLog>);
+        if (lateCapture) await logLateCapture(log, lateCapture, userId);
+        return res.status(200).json(log);
       }
       
-      const log = await storage.createWorkLog(data);
+      const earnings = await calculateWorkLogEarnings(submission);
+      const log = await storage.createWorkLog({
+        ...data,
+        totalEarnings: earnings.totalEarnings,
+        appliedRateIds: earnings.appliedRateIds,
+        idempotencyKey,
+      }).catch(async (error: any) => {
+        if (error.code !== "23505") throw error;
+        // Two deliveries of the same capture raced; the unique key let only one insert through
+        const replayed = idempotencyKey ? await findReplayedWorkLog(idempotencyKey, submission, userId, onExisting) : undefined;
+        if (!replayed) {
+          throw new WorkLogSyncError("Another request saved this labourer's work log for that day at the same time; try again", 409);
+        }
+        return replayed;
+      });
+      if (lateCapture) await logLateCapture(log, lateCapture, userId);
       res.status(201).json(log);
     } catch (error: any) {
       console.error("Error creating work log:", error);
-      res.status(400).json({ message: error.message || "Failed to create work log" });
+      const status = error instanceof PaymentPeriodWorkflowError || error instanceof WorkLogSyncError || error instanceof WorkDateError ? error.status : 400;
+      res.status(status).json({
+        message: error.message || "Failed to create work log",
+        conflict: error instanceof WorkLogSyncError ? error.conflict : undefined,
+      });
     }
   });
 
-  app.put("/api/work-logs/:id", isAuthenticated, requireRole("super_admin", "admin", "project_manager"), async (req, res) => {
+  app.put("/api/work-logs/:id", isAuthenticated, requirePermission("work_log.edit"), requireProjectAccess(projectFrom.workLog(), projectFrom.body()), async (req, res) => {
     try {
-      const data = insertWorkLogSchema.partial().parse(req.body);
-      
-      // Helper to extract yyyy-MM-dd from any date value without UTC drift
-      const toLocalDateString = (dateValue: any): string => {
-        if (!dateValue) return '';
-        
-        // If string, extract yyyy-MM-dd part only (handles "2024-01-01" and "2024-01-01T..." formats)
-        if (typeof dateValue === 'string') {
-          const match = dateValue.match(/^(\d{4})-(\d{2})-(\d{2})/);
-          return match ? `${match[1]}-${match[2]}-${match[3]}` : '';
-        }
-        
-        // For Date objects, extract local components (server's "today")
-        if (dateValue instanceof Date) {
-          return `${dateValue.getFullYear()}-${String(dateValue.getMonth() + 1).padStart(2, '0')}-${String(dateValue.getDate()).padStart(2, '0')}`;
-        }
-        
-        // Reject all other types (numbers, objects, etc.) to prevent drift
-        return '';
-      };
-      
-      // Get today's date in local timezone
-      const today = toLocalDateString(new Date());
+      const data = workLogInputSchema.partial().parse(req.body);
       
       // Fetch existing work log to validate its date (PRD requirement: only today's logs can be edited)
       const existingLog = await storage.getWorkLog(req.params.id);
@@ -1193,40 +1988,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Work log not found" });
       }
       
-      // Check existing log's workDate is today
-      const existingWorkDate = toLocalDateString(existingLog.workDate);
-      if (existingWorkDate !== today) {
-        return res.status(400).json({ 
-          message: "Can only update today's work logs. To modify historical data, submit a correction request." 
-        });
-      }
+      // Check existing log's workDate is still open in its project's timezone
+      const existingWorkDate = toDateOnly(existingLog.workDate);
+      assertWorkDateOpen(existingWorkDate, await getProjectWorkLogEntryWindow(existingLog.projectId), "update work logs for");
       
-      // If payload includes workDate, validate it's also today (prevent changing date to historical)
-      if (data.workDate) {
-        const payloadWorkDate = toLocalDateString(data.workDate);
+      // If payload moves the log, validate the new placement too (prevent changing date to historical)
+      const targetProjectId = data.projectId ?? existingLog.projectId;
+      if (data.workDate || data.projectId) {
+        const payloadWorkDate = data.workDate ? toDateOnly(data.workDate) : existingWorkDate;
         if (!payloadWorkDate) {
           return res.status(400).json({ message: "Invalid work date format in payload" });
         }
-        if (payloadWorkDate !== today) {
-          return res.status(400).json({ 
-            message: "Can only set work date to today. To modify historical data, submit a correction request." 
-          });
-        }
+        assertWorkDateOpen(payloadWorkDate, await getProjectWorkLogEntryWindow(targetProjectId), "set the work date to");
+      }
+      
+      // Work inside an approved or paid payment period is immutable (check both the old and new placement)
+      const targetWorkDate = data.workDate ? toDateOnly(data.workDate) : existingWorkDate;
+      await assertWorkDateUnlocked(existingLog.projectId, existingWorkDate);
+      await assertWorkDateUnlocked(targetProjectId, targetWorkDate);
+      
+      // Moving the log must not give the labourer a second log for the target project day
+      const targetLabourerId = data.labourerId ?? existingLog.labourerId;
+      const occupying = await getWorkLogForDay(targetLabourerId, targetProjectId, targetWorkDate);
+      if (occupying && occupying.id !== existingLog.id) {
+        return res.status(409).json({ message: "That labourer already has a work log for that day on this project" });
       }
       
+      // Recalculate earnings from the merged log so totals always match current rates
+      const earnings = await calculateWorkLogEarnings({
+        projectId: targetProjectId,
+        labourerId: targetLabourerId,
+        workDate: targetWorkDate,
+        openTrenchingMeters: data.openTrenchingMeters ?? existingLog.openTrenchingMeters,
+        closeTrenchingMeters: data.closeTrenchingMeters ?? existingLog.closeTrenchingMeters,
+        additionalItems: data.additionalItems !== undefined ? data.additionalItems : existingLog.additionalItems,
+      });
+      
       // Add user ID for audit logging
       (data as any).updatedBy = (req as any).dbUser.id;
       
-      const log = await storage.updateWorkLog(req.params.id, data);
+      const log = await storage.updateWorkLog(req.params.id, {
+        ...data,
+        totalEarnings: earnings.totalEarnings,
+        appliedRateIds: earnings.appliedRateIds,
+      });
       res.json(log);
     } catch (error: any) {
       console.error("Error updating work log:", error);
-      res.status(400).json({ message: error.message || "Failed to update work log" });
+      const status = error instanceof PaymentPeriodWorkflowError || error instanceof WorkDateError ? error.status : 400;
+      res.status(status).json({ message: error.message || "Failed to update work log" });
     }
   });
 
   // ============= Payment Period Routes =============
-  app.get("/api/projects/:projectId/payment-periods", isAuthenticated, async (req, res) => {
+  app.get("/api/projects/:projectId/payment-periods", isAuthenticated, requirePermission("payment_period.view"), requireProjectAccess(projectFrom.param()), async (req, res) => {
     try {
       const periods = await storage.getPaymentPeriods(req.params.projectId);
       res.json(periods);
@@ -1236,7 +2051,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/payment-periods/:id", isAuthenticated, async (req, res) => {
+  // Dates with logged work that no payment period covers yet
+  app.get("/api/projects/:projectId/payment-periods/coverage", isAuthenticated, requirePermission("payment_period.view"), requireProjectAccess(projectFrom.param()), async (req, res) => {
+    try {
+      const uncoveredDates = await getUncoveredWorkDates(req.params.projectId);
+      res.json({ uncoveredDates });
+    } catch (error) {
+      console.error("Error fetching payment period coverage:", error);
+      res.status(500).json({ message: "Failed to fetch payment period coverage" });
+    }
+  });
+
+  app.get("/api/payment-periods/:id", isAuthenticated, requirePermission("payment_period.view"), requireProjectAccess(projectFrom.paymentPeriod()), async (req, res) => {
     try {
       const period = await storage.getPaymentPeriod(req.params.id);
       if (!period) {
@@ -1249,7 +2075,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/payment-periods/:id/entries", isAuthenticated, async (req, res) => {
+  app.get("/api/payment-periods/:id/entries", isAuthenticated, requirePermission("payment_period.view"), requireProjectAccess(projectFrom.paymentPeriod()), async (req, res) => {
     try {
       const entries = await storage.getPaymentPeriodEntries(req.params.id);
       res.json(entries);
@@ -1259,290 +2085,409 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/payment-periods/:id/payment-file", isAuthenticated, requireRole("super_admin", "admin", "project_manager"), async (req: any, res) => {
+  // Bank payment file formats available for download
+  app.get("/api/payment-file-formats", isAuthenticated, async (req, res) => {
+    res.json(Object.values(PAYMENT_FILE_EXPORTERS).map(({ format, label, extension }) => ({ format, label, extension })));
+  });
+
+  // Draft payment file: rendered for checking at any status and never recorded
+  app.get("/api/payment-periods/:id/payment-file", isAuthenticated, requirePermission("payment_file.download"), requireProjectAccess(projectFrom.paymentPeriod()), async (req: any, res) => {
     try {
-      // Fetch payment period
       const period = await storage.getPaymentPeriod(req.params.id);
       if (!period) {
         return res.status(404).json({ message: "Payment period not found" });
       }
 
-      // Fetch project for naming
-      const project = await storage.getProject(period.projectId);
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
+      // Bank format: explicit ?format= for this download, otherwise the project's configured format
+      const file = await buildPeriodPaymentFile(period, req.query.format as string | undefined);
+      sendPaymentFile(res, file);
+    } catch (error: any) {
+      console.error("Error generating payment file:", error);
+      if (error instanceof PaymentFileError) {
+        return res.status(error.status).json({ message: error.message, errors: error.errors });
       }
+      res.status(500).json({ message: "Failed to generate payment file" });
+    }
+  });
 
-      // Check project-level authorization (unless admin/super_admin)
-      const user = req.dbUser;
-      if (user.role === "project_manager") {
-        const assignedProjects = await storage.getProjectsByManager(user.id);
-        const hasAccess = assignedProjects.some((p: any) => p.id === period.projectId);
-        if (!hasAccess) {
-          return res.status(403).json({ message: "Forbidden: You do not have access to this project" });
-        }
+  // Payment file for the bank: approved periods only, recorded as a batch so the bank's response can be reconciled against it
+  app.post("/api/payment-periods/:id/payment-file", isAuthenticated, requirePermission("payment_file.download"), requireProjectAccess(projectFrom.paymentPeriod()), async (req: any, res) => {
+    try {
+      const period = await storage.getPaymentPeriod(req.params.id);
+      if (!period) {
+        return res.status(404).json({ message: "Payment period not found" });
       }
 
-      // Fetch entries with full labourer details
-      const entries = await db
-        .select({
-          entry: paymentPeriodEntries,
-          labourer: labourers,
-        })
-        .from(paymentPeriodEntries)
-        .innerJoin(labourers, eq(paymentPeriodEntries.labourerId, labourers.id))
-        .where(eq(paymentPeriodEntries.periodId, req.params.id));
-
-      // Validation checks
-      const validationErrors: string[] = [];
-      const accountNumbers = new Set<string>();
-      let totalAmount = 0;
-
-      for (const { entry, labourer } of entries) {
-        // Check all amounts are positive
-        const amount = parseFloat(entry.totalEarnings);
-        if (amount <= 0) {
-          validationErrors.push(`Entry for ${labourer.firstName} ${labourer.surname} has non-positive amount: ${amount}`);
-        }
-        totalAmount += amount;
+      const { batch, file } = await createPaymentBatch(period, req.body?.format, req.dbUser.id);
+      res.setHeader('X-Payment-Batch-Id', batch.id);
+      sendPaymentFile(res, file);
+    } catch (error: any) {
+      console.error("Error generating payment batch:", error);
+      if (error instanceof PaymentFileError) {
+        return res.status(error.status).json({ message: error.message, errors: error.errors });
+      }
+      if (error instanceof PaymentPeriodWorkflowError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to generate payment file" });
+    }
+  });
 
-        // Check all banking details present
-        if (!labourer.accountNumber || !labourer.accountType || !labourer.branchCode) {
-          validationErrors.push(`Missing banking details for ${labourer.firstName} ${labourer.surname}`);
-        }
+  // Payment files generated for a period, newest first
+  app.get("/api/payment-periods/:id/batches", isAuthenticated, requirePermission("payment_file.download"), requireProjectAccess(projectFrom.paymentPeriod()), async (req, res) => {
+    try {
+      const batches = await storage.getPaymentBatches(req.params.id);
+      res.json(batches);
+    } catch (error) {
+      console.error("Error fetching payment batches:", error);
+      res.status(500).json({ message: "Failed to fetch payment batches" });
+    }
+  });
 
-        // Check for duplicate account numbers
-        if (accountNumbers.has(labourer.accountNumber)) {
-          validationErrors.push(`Duplicate account number: ${labourer.accountNumber}`);
-        }
-        accountNumbers.add(labourer.accountNumber);
+  app.get("/api/payment-batches/:id", isAuthenticated, requirePermission("payment_file.download"), requireProjectAccess(projectFrom.paymentBatch()), async (req, res) => {
+    try {
+      const batch = await storage.getPaymentBatch(req.params.id);
+      if (!batch) {
+        return res.status(404).json({ message: "Payment batch not found" });
       }
+      const lines = await storage.getPaymentBatchLines(batch.id);
+      res.json({ ...batch, lines });
+    } catch (error) {
+      console.error("Error fetching payment batch:", error);
+      res.status(500).json({ message: "Failed to fetch payment batch" });
+    }
+  });
 
-      // Check total matches period total
-      const periodTotal = parseFloat(period.totalAmount);
-      if (Math.abs(totalAmount - periodTotal) > 0.01) {
-        validationErrors.push(`Total amount mismatch: Entries sum to ${totalAmount.toFixed(2)}, period total is ${periodTotal.toFixed(2)}`);
+  // Import the bank's response/statement CSV for a batch
+  app.post("/api/payment-batches/:id/reconcile", isAuthenticated, requirePermission("payment_batch.reconcile"), requireProjectAccess(projectFrom.paymentBatch()), upload.single('file'), async (req: any, res) => {
+    try {
+      const batch = await storage.getPaymentBatch(req.params.id);
+      if (!batch) {
+        return res.status(404).json({ message: "Payment batch not found" });
       }
-
-      if (validationErrors.length > 0) {
-        return res.status(400).json({ 
-          message: "Validation failed", 
-          errors: validationErrors 
-        });
+      if (!req.file) {
+        return res.status(400).json({ message: "No bank response file provided" });
       }
-
-      // Generate CSV content - Universal bank-compatible format
-      const csvRows: string[] = [];
       
-      // Universal CSV Header - Standard format recognized by all banks
-      csvRows.push('Account Number,Beneficiary Name,Amount,Branch Code,Account Type,Reference');
-
-      const endDate = typeof period.endDate === 'string' 
-        ? period.endDate.split('T')[0].replace(/-/g, '')
-        : new Date(period.endDate).toISOString().split('T')[0].replace(/-/g, '');
-
-      // Helper function to escape CSV fields per RFC 4180 standard
-      const escapeCsvField = (field: string | null | undefined): string => {
-        if (field == null || field === undefined) return '';
-        const str = String(field).trim();
-        if (str.includes(',') || str.includes('"') || str.includes('\n') || str.includes('\r')) {
-          return `"${str.replace(/"/g, '""')}"`;
-        }
-        return str;
-      };
-
-      // Convert account type to numeric code for universal bank compatibility
-      const formatAccountTypeCode = (type: string): string => {
-        const normalized = type.toLowerCase().trim();
-        if (normalized === 'cheque' || normalized === 'check' || normalized === 'current') return '1';
-        if (normalized === 'savings' || normalized === 'saving') return '2';
-        return '1';
-      };
-
-      // Sanitize beneficiary name
-      const sanitizeName = (name: string): string => {
-        if (!name) return '';
-        return name.trim()
-          .replace(/[^\w\s\-']/g, '')
-          .replace(/\s+/g, ' ')
-          .substring(0, 50)
-          .toUpperCase();
-      };
-
-      // Format reference - fixed to "mooyawireless"
-      const formatReference = (): string => {
-        return 'mooyawireless';
-      };
-
-      // Format amount
-      const formatAmount = (value: string | number): string => {
-        const num = typeof value === 'string' ? parseFloat(value) : value;
-        if (isNaN(num) || num <= 0) return '0.00';
-        return num.toFixed(2);
-      };
+      const result = await reconcilePaymentBatch(batch, req.file.buffer.toString("utf-8"), req.dbUser);
+      res.json(result);
+    } catch (error: any) {
+      console.error("Error reconciling payment batch:", error);
+      const status = error instanceof PaymentPeriodWorkflowError ? error.status : 400;
+      res.status(status).json({ message: error.message || "Failed to reconcile payment batch" });
+    }
+  });
 
-      // Add data rows
-      for (const { entry, labourer } of entries) {
-        const amount = formatAmount(entry.totalEarnings);
-        if (parseFloat(amount) <= 0) continue;
+  // Withdraw a batch the bank has not paid from, so the period can be paid from a new one
+  app.post("/api/payment-batches/:id/void", isAuthenticated, requirePermission("payment_file.download"), requireProjectAccess(projectFrom.paymentBatch()), async (req: any, res) => {
+    try {
+      const batch = await storage.getPaymentBatch(req.params.id);
+      if (!batch) {
+        return res.status(404).json({ message: "Payment batch not found" });
+      }
+      const reason = typeof req.body?.reason === "string" ? req.body.reason.trim() : "";
+      if (!reason) {
+        return res.status(400).json({ message: "A reason is required to void a payment batch" });
+      }
 
-        const accountNumber = (labourer.accountNumber?.trim() || '').replace(/\s+/g, '');
-        const beneficiaryName = sanitizeName(`${labourer.firstName} ${labourer.surname}`);
-        const branchCode = (labourer.branchCode?.trim() || '').replace(/\s+/g, '');
-        const accountType = formatAccountTypeCode(labourer.accountType);
-        const reference = formatReference();
+      const voided = await voidPaymentBatch(batch, reason, req.dbUser);
+      res.json(voided);
+    } catch (error: any) {
+      console.error("Error voiding payment batch:", error);
+      if (error instanceof PaymentFileError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to void payment batch" });
+    }
+  });
 
-        if (!accountNumber || !beneficiaryName || !branchCode) continue;
+  // Payslip PDF for a single labourer's entry
+  app.get("/api/payment-period-entries/:entryId/payslip", isAuthenticated, requirePermission("payment_file.download"), requireProjectAccess(projectFrom.paymentPeriodEntry()), async (req: any, res) => {
+    try {
+      const entry = await storage.getPaymentPeriodEntry(req.params.entryId);
+      if (!entry) {
+        return res.status(404).json({ message: "Payment period entry not found" });
+      }
 
-        const row = [
-          escapeCsvField(accountNumber),
-          escapeCsvField(beneficiaryName),
-          amount,
-          escapeCsvField(branchCode),
-          accountType,
-          escapeCsvField(reference),
-        ].join(',');
+      const data = await getPayslipData(entry);
+      const pdf = await renderPayslipPdf(data);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${getPayslipFilename(data)}"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating payslip:", error);
+      res.status(500).json({ message: "Failed to generate payslip" });
+    }
+  });
 
-        csvRows.push(row);
+  // All payslips of a period as one ZIP
+  app.get("/api/payment-periods/:id/payslips", isAuthenticated, requirePermission("payslip.bulk_download"), requireProjectAccess(projectFrom.paymentPeriod()), async (req, res) => {
+    try {
+      const period = await storage.getPaymentPeriod(req.params.id);
+      if (!period) {
+        return res.status(404).json({ message: "Payment period not found" });
       }
+      const project = await storage.getProject(period.projectId);
+      const projectName = (project?.name || "PROJECT").replace(/[^A-Z0-9]/gi, '_').toUpperCase();
 
-      const csvContent = csvRows.join('\r\n');
-      const filename = `PAYMENT_${project.name.replace(/[^A-Z0-9]/gi, '_').toUpperCase()}_${endDate}.csv`;
-      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
-      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
-      res.send('\ufeff' + csvContent);
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="PAYSLIPS_${projectName}_${String(period.endDate).replace(/-/g, '')}.zip"`);
+      await writePeriodPayslipsZip(period, res);
     } catch (error) {
-      console.error("Error generating payment file:", error);
-      res.status(500).json({ message: "Failed to generate payment file" });
+      console.error("Error generating payslips:", error);
+      // Once streaming has started the archive is truncated and the client sees a broken download
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to generate payslips" });
+      } else {
+        res.end();
+      }
     }
   });
 
-  app.post("/api/payment-periods", isAuthenticated, requireRole("super_admin", "admin", "project_manager"), async (req, res) => {
+  app.post("/api/payment-periods", isAuthenticated, requirePermission("payment_period.manage"), requireProjectAccess(projectFrom.body()), async (req, res) => {
     try {
-      const data = insertPaymentPeriodSchema.parse(req.body);
+      const parsed = insertPaymentPeriodSchema.parse(req.body);
       
-      // Auto-calculate total amount from work logs in the date range
-      // Convert dates to yyyy-MM-dd strings
-      const startDateStr = typeof data.startDate === 'string' 
-        ? data.startDate.split('T')[0]
-        : (data.startDate as Date).toISOString().split('T')[0];
-      const endDateStr = typeof data.endDate === 'string'
-        ? data.endDate.split('T')[0]
-        : (data.endDate as Date).toISOString().split('T')[0];
+      // New periods always start open - workflow columns are set through status transitions
+      const { status, submittedBy, approvedBy, rejectedBy, paidBy, ...data } = parsed;
       
-      // Fetch all work logs for this project in the date range
-      const workLogs = await storage.getWorkLogsByDateRange(
-        data.projectId,
-        startDateStr,
-        endDateStr
-      );
+      const project = await storage.getProject(data.projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      // Auto-calculate total amount from work logs in the date range, as yyyy-MM-dd in the project's timezone
+      const timeZone = resolveTimeZone(project.timezone);
+      const startDateStr = toDateOnly(data.startDate, timeZone);
+      const endDateStr = toDateOnly(data.endDate, timeZone);
       
-      // Calculate total earnings from work logs
-      const totalAmount = workLogs.reduce((sum, log) => sum + Number(log.totalEarnings || 0), 0);
+      // Periods of the same project may not overlap
+      await assertValidPeriodRange(data.projectId, startDateStr, endDateStr);
       
       // Set the calculated total amount
-      data.totalAmount = totalAmount.toString();
+      data.totalAmount = await calculatePeriodTotal(data.projectId, startDateStr, endDateStr);
       
       const period = await storage.createPaymentPeriod(data);
       res.status(201).json(period);
     } catch (error: any) {
       console.error("Error creating payment period:", error);
-      res.status(400).json({ message: error.message || "Failed to create payment period" });
+      const status = error instanceof PaymentPeriodWorkflowError ? error.status : 400;
+      res.status(status).json({ message: error.message || "Failed to create payment period" });
     }
   });
 
-  app.put("/api/payment-periods/:id", isAuthenticated, requireRole("super_admin", "admin", "project_manager"), async (req, res) => {
+  // Generate the project's full calendar of payment periods from its start date
+  app.post("/api/projects/:projectId/payment-periods/generate", isAuthenticated, requirePermission("payment_period.manage"), requireProjectAccess(projectFrom.param()), async (req: any, res) => {
     try {
-      const data = insertPaymentPeriodSchema.partial().parse(req.body);
+      const project = await storage.getProject(req.params.projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
       
-      // If status is being changed to "submitted", generate payment entries from work logs
-      if (data.status === "submitted") {
-        const period = await storage.getPaymentPeriod(req.params.id);
-        if (period) {
-          // Check if entries already exist (idempotency - don't recreate if already submitted)
-          const existingEntries = await storage.getPaymentPeriodEntries(req.params.id);
-          
-          if (existingEntries.length === 0) {
-            // No entries exist yet - create them from work logs
-            // Convert dates to strings (handle both Date objects and strings from DB)
-            const startDate: any = period.startDate;
-            const endDate: any = period.endDate;
-            const startDateStr = startDate instanceof Date 
-              ? startDate.toISOString().split('T')[0]
-              : String(startDate).split('T')[0];
-            const endDateStr = endDate instanceof Date
-              ? endDate.toISOString().split('T')[0]
-              : String(endDate).split('T')[0];
-            
-            // Fetch all work logs for this project in the date range
-            const workLogs = await storage.getWorkLogsByDateRange(
-              period.projectId,
-              startDateStr,
-              endDateStr
-            );
-            
-            // Aggregate work logs by labourer
-            const labourerData = new Map<string, {
-              openMeters: number;
-              closeMeters: number;
-              totalEarnings: number;
-              daysWorked: Set<string>;
-            }>();
-            
-            for (const log of workLogs) {
-              const current = labourerData.get(log.labourerId) || {
-                openMeters: 0,
-                closeMeters: 0,
-                totalEarnings: 0,
-                daysWorked: new Set<string>(),
-              };
-              
-              current.openMeters += Number(log.openTrenchingMeters || 0);
-              current.closeMeters += Number(log.closeTrenchingMeters || 0);
-              current.totalEarnings += Number(log.totalEarnings || 0);
-              current.daysWorked.add(log.workDate);
-              
-              labourerData.set(log.labourerId, current);
-            }
-            
-            // Create payment period entries for each labourer
-            let totalAmount = 0;
-            for (const [labourerId, data] of Array.from(labourerData.entries())) {
-              const totalMeters = data.openMeters + data.closeMeters;
-              await storage.createPaymentPeriodEntry({
-                periodId: req.params.id,
-                labourerId,
-                daysWorked: data.daysWorked.size,
-                openMeters: data.openMeters.toString(),
-                closeMeters: data.closeMeters.toString(),
-                totalMeters: totalMeters.toString(),
-                totalEarnings: data.totalEarnings.toString(),
-              });
-              totalAmount += data.totalEarnings;
-            }
-            
-            // Update the payment period's totalAmount field
-            if (totalAmount > 0) {
-              data.totalAmount = totalAmount.toString();
-            }
-          } else {
-            // Entries already exist - calculate total from existing entries
-            const totalAmount = existingEntries.reduce((sum, e) => sum + Number(e.totalEarnings), 0);
-            data.totalAmount = totalAmount.toString();
-          }
+      const result = await generatePaymentPeriodCalendar(project, req.dbUser.id);
+      res.status(201).json(result);
+    } catch (error: any) {
+      console.error("Error generating payment periods:", error);
+      res.status(400).json({ message: error.message || "Failed to generate payment periods" });
+    }
+  });
+
+  app.put("/api/payment-periods/:id", isAuthenticated, requirePermission("payment_period.manage", "payment_period.submit", "payment_period.approve", "payment_period.reject", "payment_period.reopen", "payment_period.pay"), requireProjectAccess(projectFrom.paymentPeriod()), async (req: any, res) => {
+    try {
+      const parsed = insertPaymentPeriodSchema.partial().parse(req.body);
+      
+      // Workflow columns and totals are managed by the server, never taken from the client
+      const { status, submittedBy, approvedBy, rejectedBy, paidBy, totalAmount, ...data } = parsed;
+      
+      const period = await storage.getPaymentPeriod(req.params.id);
+      if (!period) {
+        return res.status(404).json({ message: "Payment period not found" });
+      }
+      
+      if (Object.keys(data).length > 0) {
+        if (!(await hasPermission(req.dbUser, "payment_period.manage"))) {
+          return res.status(403).json({ message: "You do not have permission to edit payment periods" });
+        }
+        if (period.status !== "open") {
+          return res.status(409).json({ message: `Only open payment periods can be edited (this period is ${period.status})` });
+        }
+        if (data.projectId && data.projectId !== period.projectId) {
+          return res.status(400).json({ message: "A payment period cannot be moved to another project" });
+        }
+        if (data.startDate || data.endDate) {
+          await assertValidPeriodRange(
+            period.projectId,
+            toDateOnly(data.startDate ?? period.startDate),
+            toDateOnly(data.endDate ?? period.endDate),
+            period.id
+          );
         }
       }
       
-      const period = await storage.updatePaymentPeriod(req.params.id, data);
-      res.json(period);
+      if (!status || status === period.status) {
+        const updated = await storage.updatePaymentPeriod(req.params.id, data);
+        return res.json(updated);
+      }
+      
+      // Validate the transition before doing any work for it
+      await assertPaymentPeriodTransition(period, status, req.dbUser);
+      
+      // Paid is only reachable once the bank has confirmed every entry
+      if (status === "paid") {
+        await assertPaymentPeriodReconciled(period);
+      }
+      
+      // If status is being changed to "submitted", generate payment entries from work logs
+      const updates: Partial<InsertPaymentPeriod> = { ...data };
+      if (status === "submitted") {
+        // Always rebuild entries from the current work logs so a resubmission after rejection isn't stale
+        const recalculated = await recalculatePaymentPeriodEntries(period, req.dbUser, "submit");
+        updates.totalAmount = recalculated.period.totalAmount;
+      }
+      
+      const updated = await transitionPaymentPeriod(period, status, req.dbUser, updates);
+      res.json(updated);
     } catch (error: any) {
       console.error("Error updating payment period:", error);
-      res.status(400).json({ message: error.message || "Failed to update payment period" });
+      const status = error instanceof PaymentPeriodWorkflowError ? error.status : 400;
+      res.status(status).json({ message: error.message || "Failed to update payment period" });
+    }
+  });
+
+  // Preview how the period's entries would change if recalculated from current work logs
+  app.get("/api/payment-periods/:id/recalculate", isAuthenticated, requirePermission("payment_period.manage"), requireProjectAccess(projectFrom.paymentPeriod()), async (req, res) => {
+    try {
+      const period = await storage.getPaymentPeriod(req.params.id);
+      if (!period) {
+        return res.status(404).json({ message: "Payment period not found" });
+      }
+      
+      const recalculation = await previewPaymentPeriodRecalculation(period);
+      res.json(recalculation);
+    } catch (error: any) {
+      console.error("Error previewing payment period recalculation:", error);
+      res.status(500).json({ message: error.message || "Failed to preview recalculation" });
+    }
+  });
+
+  app.post("/api/payment-periods/:id/recalculate", isAuthenticated, requirePermission("payment_period.manage"), requireProjectAccess(projectFrom.paymentPeriod()), async (req: any, res) => {
+    try {
+      const period = await storage.getPaymentPeriod(req.params.id);
+      if (!period) {
+        return res.status(404).json({ message: "Payment period not found" });
+      }
+      
+      const result = await recalculatePaymentPeriodEntries(period, req.dbUser);
+      res.json(result);
+    } catch (error: any) {
+      console.error("Error recalculating payment period:", error);
+      const status = error instanceof PaymentPeriodWorkflowError ? error.status : 400;
+      res.status(status).json({ message: error.message || "Failed to recalculate payment period" });
+    }
+  });
+
+  // ============= Payment Adjustment Routes =============
+  app.get("/api/payment-periods/:id/adjustments", isAuthenticated, requirePermission("adjustment.manage"), requireProjectAccess(projectFrom.paymentPeriod()), async (req, res) => {
+    try {
+      const adjustments = await storage.getPaymentAdjustments(req.params.id);
+      res.json(adjustments);
+    } catch (error) {
+      console.error("Error fetching payment adjustments:", error);
+      res.status(500).json({ message: "Failed to fetch payment adjustments" });
+    }
+  });
+
+  app.post("/api/payment-period-entries/:entryId/adjustments", isAuthenticated, requirePermission("adjustment.manage"), requireProjectAccess(projectFrom.paymentPeriodEntry()), async (req: any, res) => {
+    try {
+      const entry = await storage.getPaymentPeriodEntry(req.params.entryId);
+      if (!entry) {
+        return res.status(404).json({ message: "Payment entry not found" });
+      }
+      const period = await storage.getPaymentPeriod(entry.periodId);
+      if (!period) {
+        return res.status(404).json({ message: "Payment period not found" });
+      }
+      
+      const data = insertPaymentAdjustmentSchema.pick({ type: true, amount: true, reason: true }).parse(req.body);
+      const adjustment = await createAdjustment(period, entry, data, req.dbUser);
+      res.status(201).json(adjustment);
+    } catch (error: any) {
+      console.error("Error creating payment adjustment:", error);
+      const status = error instanceof AdjustmentError ? error.status : 400;
+      res.status(status).json({ message: error.message || "Failed to create payment adjustment" });
+    }
+  });
+
+  app.put("/api/payment-adjustments/:id", isAuthenticated, requirePermission("adjustment.approve"), requireProjectAccess(projectFrom.paymentAdjustment()), async (req: any, res) => {
+    try {
+      const { status } = reviewPaymentAdjustmentSchema.parse(req.body);
+      const adjustment = await storage.getPaymentAdjustment(req.params.id);
+      if (!adjustment) {
+        return res.status(404).json({ message: "Adjustment not found" });
+      }
+      const period = await storage.getPaymentPeriod(adjustment.periodId);
+      if (!period) {
+        return res.status(404).json({ message: "Payment period not found" });
+      }
+      
+      const updated = await reviewAdjustment(period, adjustment, status, req.dbUser);
+      res.json(updated);
+    } catch (error: any) {
+      console.error("Error reviewing payment adjustment:", error);
+      const status = error instanceof AdjustmentError ? error.status : 400;
+      res.status(status).json({ message: error.message || "Failed to review payment adjustment" });
+    }
+  });
+
+  app.delete("/api/payment-adjustments/:id", isAuthenticated, requirePermission("adjustment.manage"), requireProjectAccess(projectFrom.paymentAdjustment()), async (req: any, res) => {
+    try {
+      const adjustment = await storage.getPaymentAdjustment(req.params.id);
+      if (!adjustment) {
+        return res.status(404).json({ message: "Adjustment not found" });
+      }
+      const period = await storage.getPaymentPeriod(adjustment.periodId);
+      if (!period) {
+        return res.status(404).json({ message: "Payment period not found" });
+      }
+      
+      await deleteAdjustment(period, adjustment, req.dbUser);
+      res.status(204).send();
+    } catch (error: any) {
+      console.error("Error deleting payment adjustment:", error);
+      const status = error instanceof AdjustmentError ? error.status : 400;
+      res.status(status).json({ message: error.message || "Failed to delete payment adjustment" });
+    }
+  });
+
+  app.get("/api/labourers/:id/advances", isAuthenticated, requirePermission("advance.view"), requireProjectAccess(projectFrom.labourer()), async (req, res) => {
+    try {
+      const advances = await getAdvancesWithBalances(req.params.id);
+      res.json(advances);
+    } catch (error) {
+      console.error("Error fetching advances:", error);
+      res.status(500).json({ message: "Failed to fetch advances" });
+    }
+  });
+
+  app.post("/api/labourers/:id/advances", isAuthenticated, requirePermission("advance.create"), requireProjectAccess(projectFrom.labourer()), async (req: any, res) => {
+    try {
+      const labourer = await storage.getLabourer(req.params.id);
+      if (!labourer) {
+        return res.status(404).json({ message: "Labourer not found" });
+      }
+      
+      const data = insertLabourerAdvanceSchema.parse({ ...req.body, labourerId: labourer.id });
+      const advance = await createAdvance(data, req.dbUser);
+      res.status(201).json(advance);
+    } catch (error: any) {
+      console.error("Error creating advance:", error);
+      const status = error instanceof AdjustmentError ? error.status : 400;
+      res.status(status).json({ message: error.message || "Failed to create advance" });
     }
   });
 
   // ============= Audit Log Routes =============
-  app.get("/api/audit-logs", isAuthenticated, requireRole("super_admin", "admin"), async (req: any, res) => {
+  app.get("/api/audit-logs", isAuthenticated, requirePermission("audit.view"), async (req: any, res) => {
     try {
       const { entityType, entityId, userId, action, startDate, endDate } = req.query;
       const filters: any = {};
@@ -1560,7 +2505,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/audit-logs/:id", isAuthenticated, requireRole("super_admin", "admin"), async (req, res) => {
+  app.get("/api/audit-logs/:id", isAuthenticated, requirePermission("audit.view"), async (req, res) => {
     try {
       const log = await storage.getAuditLog(req.params.id);
       if (!log) {
@@ -1574,18 +2519,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // ============= Correction Request Routes =============
-  app.get("/api/correction-requests", isAuthenticated, async (req, res) => {
+  app.get("/api/correction-requests", isAuthenticated, requireProjectAccess(), async (req: any, res) => {
     try {
       const { status } = req.query;
       const requests = await storage.getCorrectionRequests(status as string | undefined);
-      res.json(requests);
+      
+      // Only requests against projects the user is assigned to
+      const projectIds = await getAccessibleProjectIds(req.dbUser);
+      if (projectIds === null) {
+        return res.json(requests);
+      }
+      const requestProjectIds = await Promise.all(requests.map(getCorrectionRequestProjectId));
+      res.json(requests.filter((_, i) => {
+        const projectId = requestProjectIds[i];
+        return projectId === null || projectIds.includes(projectId);
+      }));
     } catch (error) {
       console.error("Error fetching correction requests:", error);
       res.status(500).json({ message: "Failed to fetch correction requests" });
     }
   });
 
-  app.get("/api/correction-requests/:id", isAuthenticated, async (req, res) => {
+  app.get("/api/correction-requests/:id", isAuthenticated, requireProjectAccess(projectFrom.correctionRequest()), async (req, res) => {
     try {
       const request = await storage.getCorrectionRequest(req.params.id);
       if (!request) {
@@ -1606,28 +2561,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "User not found" });
       }
       const data = insertCorrectionRequestSchema.parse({ ...req.body, requestedBy: user.id });
+      await assertProjectAccess(user, await getCorrectionRequestProjectId(data as CorrectionRequest));
       const request = await storage.createCorrectionRequest(data);
       res.status(201).json(request);
     } catch (error: any) {
       console.error("Error creating correction request:", error);
-      res.status(400).json({ message: error.message || "Failed to create correction request" });
+      const status = error instanceof ProjectAccessError ? error.status : 400;
+      res.status(status).json({ message: error.message || "Failed to create correction request" });
     }
   });
 
-  app.put("/api/correction-requests/:id", isAuthenticated, requireRole("super_admin", "admin", "project_manager"), async (req: any, res) => {
+  app.put("/api/correction-requests/:id", isAuthenticated, requirePermission("correction.review"), requireProjectAccess(projectFrom.correctionRequest()), async (req: any, res) => {
     try {
-      // Use dbUser.id (attached by requireRole middleware)
+      // Use dbUser.id (attached by requirePermission middleware)
       const userId = req.dbUser.id;
-      const data = insertCorrectionRequestSchema.partial().parse({ 
-        ...req.body, 
+      const data = insertCorrectionRequestSchema.partial().parse({
+        ...req.body,
         reviewedBy: userId,
         reviewedAt: new Date()
       });
+
+      const existing = await storage.getCorrectionRequest(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Correction request not found" });
+      }
+      if (data.status && data.status !== "pending" && existing.status !== "pending") {
+        return res.status(409).json({ message: `Correction request has already been ${existing.status}` });
+      }
+
+      // Approval applies the correction to the target entity in the same transaction
+      if (data.status === "approved") {
+        const approved = await applyCorrectionRequest(existing, userId, data.reviewNotes);
+        return res.json(approved);
+      }
+
       const request = await storage.updateCorrectionRequest(req.params.id, data);
       res.json(request);
     } catch (error: any) {
       console.error("Error updating correction request:", error);
-      res.status(400).json({ message: error.message || "Failed to update correction request" });
+      const status = error instanceof CorrectionConflictError ? 409
+        : error instanceof PaymentPeriodWorkflowError ? error.status
+        : 400;
+      res.status(status).json({ message: error.message || "Failed to update correction request" });
     }
   });
 
@@ -1,6 +1,5 @@
 import { db } from "./db";
 import { storage } from "./storage";
-import bcrypt from "bcrypt";
 
 // South African Names
 const saFirstNames = [
@@ -303,7 +302,6 @@ async function seedData() {
     const birthDay = 1 + Math.floor(Math.random() * 28);
     
     const idNumber = generateRSAID(1900 + birthYear, birthMonth, birthDay, gender);
-    const hashedId = await bcrypt.hash(idNumber, 10);
     const dateOfBirth = getdobFromID(birthYear, birthMonth, birthDay);
     
     // Random employee type (weighted toward General Worker)
@@ -313,7 +311,6 @@ async function seedData() {
       firstName,
       surname,
       idNumber,
-      passwordHash: hashedId,
       dateOfBirth,
       contactNumber: `+27${Math.floor(Math.random() * 900000000 + 600000000)}`,
       email: `${firstName.toLowerCase()}.${surname.toLowerCase()}${i}@worker.mooya.co.za`,
@@ -337,7 +334,6 @@ async function seedData() {
   for (let i = 0; i < 12; i++) {
     const foreignWorker = foreignNames[i];
     const passportNumber = generatePassport(foreignWorker.country);
-    const hashedPassport = await bcrypt.hash(passportNumber, 10);
     
     // Foreign workers tend to be in lower tiers
     const employeeTypeIndex = Math.random() < 0.7 ? 0 : 1;
@@ -346,7 +342,6 @@ async function seedData() {
       firstName: foreignWorker.first,
       surname: foreignWorker.last,
       idNumber: passportNumber,
-      passwordHash: hashedPassport,
       dateOfBirth: "1990-01-01", // Placeholder
       contactNumber: `+27${Math.floor(Math.random() * 900000000 + 600000000)}`,
       email: `${foreignWorker.first.toLowerCase()}.${foreignWorker.last.toLowerCase()}@worker.mooya.co.za`,
@@ -0,0 +1,162 @@
+import { storage } from "./storage";
+import type { AllowedDomain, StaffInvitation, User, UserRole } from "@shared/schema";
+
+/**
+ * Raised when a staff sign-in is refused or an access rule change is rejected
+ */
+export class StaffAccessError extends Error {
+  status: number;
+
+  constructor(message: string, status = 403) {
+    super(message);
+    this.name = "StaffAccessError";
+    this.status = status;
+    Object.setPrototypeOf(this, StaffAccessError.prototype);
+  }
+}
+
+// Domains that could sign in before they were configurable; seeded once into allowed_domains
+const LEGACY_ALLOWED_DOMAINS: { domain: string; defaultRole: UserRole }[] = [
+  { domain: "mooya.co.za", defaultRole: "supervisor" },
+  { domain: "mooyawireless.co.za", defaultRole: "supervisor" },
+  { domain: "xnext.co.za", defaultRole: "admin" },
+];
+
+export interface StaffAccess {
+  email: string;
+  role: UserRole;
+  // Which rule admitted the email; bootstrap super admins and existing accounts keep their role
+  source: "bootstrap" | "existing" | "invitation" | "domain";
+  invitation?: StaffInvitation;
+}
+
+/**
+ * Emails listed in SUPER_ADMIN_EMAILS (comma separated) always sign in as super admin,
+ * whatever their domain, so a fresh install can be configured
+ */
+export function getSuperAdminEmails(): string[] {
+  return (process.env.SUPER_ADMIN_EMAILS || "")
+    .split(",")
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function emailDomain(email: string): string {
+  return email.slice(email.lastIndexOf("@") + 1);
+}
+
+let seeded: Promise<void> | null = null;
+
+/**
+ * Seed the legacy domains the first time the table is read. Domains are deactivated rather than
+ * deleted, so the table never empties and the seed never returns.
+ */
+async function ensureAllowedDomainsSeeded(): Promise<void> {
+  if (!seeded) {
+    seeded = (async () => {
+      if ((await storage.getAllowedDomains()).length === 0) {
+        await storage.seedAllowedDomains(LEGACY_ALLOWED_DOMAINS);
+      }
+    })().catch(error => {
+      seeded = null;
+      throw error;
+    });
+  }
+  return seeded;
+}
+
+export async function getAllowedDomains(): Promise<AllowedDomain[]> {
+  await ensureAllowedDomainsSeeded();
+  return storage.getAllowedDomains();
+}
+
+/**
+ * Decide whether an email may sign in and with which role. Existing accounts keep their role but,
+ * like new ones, need an active domain or an unrevoked invitation.
+ */
+export async function resolveStaffAccess(rawEmail: string | null | undefined): Promise<StaffAccess> {
+  const email = rawEmail?.trim().toLowerCase();
+  if (!email) {
+    throw new StaffAccessError("Your account has no email address");
+  }
+
+  if (getSuperAdminEmails().includes(email)) {
+    return { email, role: "super_admin", source: "bootstrap" };
+  }
+
+  await ensureAllowedDomainsSeeded();
+  const [existingUser, invitation, domain] = await Promise.all([
+    storage.getUserByEmail(rawEmail!),
+    storage.getActiveStaffInvitation(email),
+    storage.getAllowedDomainByName(emailDomain(email)),
+  ]);
+
+  if (!invitation && !domain?.isActive) {
+    throw new StaffAccessError(`Access restricted. Ask an administrator to invite ${email} or allow its email domain.`);
+  }
+
+  if (existingUser) {
+    if (!existingUser.isActive) {
+      throw new StaffAccessError("Your account has been deactivated. Contact an administrator.");
+    }
+    return { email, role: existingUser.role, source: "existing", invitation };
+  }
+  if (invitation) {
+    return { email, role: invitation.role, source: "invitation", invitation };
+  }
+  return { email, role: domain!.defaultRole, source: "domain" };
+}
+
+/**
+ * Accept a pending invitation once its account exists and assign the invited project
+ */
+export async function completeStaffSignIn(access: StaffAccess, user: User): Promise<void> {
+  const invitation = access.invitation;
+  if (!invitation || invitation.acceptedAt) return;
+
+  if (invitation.projectId) {
+    if (invitation.role === "project_manager") {
+      await storage.assignProjectManager(invitation.projectId, user.id, invitation.invitedBy);
+    } else if (invitation.role === "supervisor" || invitation.role === "project_admin") {
+      await storage.assignProjectSupervisor(invitation.projectId, user.id, invitation.invitedBy);
+    }
+  }
+  await storage.acceptStaffInvitation(invitation.id, user.id);
+}
+
+/**
+ * Invite an email that has no account yet; an existing account's role is changed on the Users page instead
+ */
+export async function inviteStaff(
+  data: { email: string; role: UserRole; projectId?: string | null },
+  user: User
+): Promise<StaffInvitation> {
+  if (await storage.getUserByEmail(data.email)) {
+    throw new StaffAccessError(`${data.email} already has an account. Change their role on the Users page.`, 409);
+  }
+  const pending = await storage.getActiveStaffInvitation(data.email);
+  if (pending && !pending.acceptedAt) {
+    throw new StaffAccessError(`${data.email} already has a pending invitation. Revoke it first to change the role or project.`, 409);
+  }
+  if (data.projectId && !(await storage.getProject(data.projectId))) {
+    throw new StaffAccessError("Project not found", 404);
+  }
+
+  return storage.createStaffInvitation({
+    email: data.email,
+    role: data.role,
+    projectId: data.projectId || null,
+    invitedBy: user.id,
+  });
+}
+
+export async function addAllowedDomain(
+  data: { domain: string; defaultRole: UserRole; isActive?: boolean },
+  user: User
+): Promise<AllowedDomain> {
+  await ensureAllowedDomainsSeeded();
+  if (await storage.getAllowedDomainByName(data.domain)) {
+    throw new StaffAccessError(`${data.domain} is already listed. Reactivate or edit it instead.`, 409);
+  }
+  return storage.createAllowedDomain(data, user.id);
+}
@@ -0,0 +1,133 @@
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+import { eq } from "drizzle-orm";
+import { employeeTypes, paymentPeriodEntries, paymentPeriods, projects, users, type Labourer, type PaymentPeriod } from "@shared/schema";
+import {
+  DEFAULT_TAX_TABLE,
+  UIF_MONTHLY_CEILING,
+  calculatePaye,
+  calculateStatutoryDeductions,
+  calculateUif,
+} from "@shared/statutory";
+import { db } from "./db";
+import { storage } from "./storage";
+import { refreshPeriodNetTotals } from "./adjustmentService";
+import { buildUifDeclaration } from "./statutoryService";
+import { prepareTestDatabase } from "./testDatabase";
+
+const monthly = { periodsPerYear: 12, sdlExempt: false, taxTable: null };
+
+test("UIF is 1% from each side below the ceiling", () => {
+  assert.deepEqual(calculateUif(5000), { uifRemuneration: 5000, uifEmployee: 50, uifEmployer: 50 });
+});
+
+test("later periods of the month only use what is left of the monthly ceiling", () => {
+  const first = calculateUif(10000);
+  const second = calculateUif(10000, first);
+  assert.deepEqual(second, { uifRemuneration: UIF_MONTHLY_CEILING - 10000, uifEmployee: 77.12, uifEmployer: 77.12 });
+
+  const monthToDate = {
+    uifRemuneration: first.uifRemuneration + second.uifRemuneration,
+    uifEmployee: first.uifEmployee + second.uifEmployee,
+    uifEmployer: first.uifEmployer + second.uifEmployer,
+  };
+  assert.deepEqual(calculateUif(4000, monthToDate), { uifRemuneration: 0, uifEmployee: 0, uifEmployer: 0 });
+});
+
+test("a month's contributions add up to 1% of its UIF remuneration despite rounding", () => {
+  let monthToDate = { uifRemuneration: 0, uifEmployee: 0, uifEmployer: 0 };
+  for (const remuneration of [100.5, 100.5, 100.5, 0.5]) {
+    const uif = calculateUif(remuneration, monthToDate);
+    monthToDate = {
+      uifRemuneration: monthToDate.uifRemuneration + uif.uifRemuneration,
+      uifEmployee: Math.round((monthToDate.uifEmployee + uif.uifEmployee) * 100) / 100,
+      uifEmployer: Math.round((monthToDate.uifEmployer + uif.uifEmployer) * 100) / 100,
+    };
+  }
+  assert.equal(monthToDate.uifRemuneration, 302);
+  assert.equal(monthToDate.uifEmployee, 3.02);
+  assert.equal(monthToDate.uifEmployer, 3.02);
+});
+
+test("PAYE annualises the period's pay and applies the primary rebate", () => {
+  // R30 000 a month is R360 000 a year: 42 678 + 26% of 122 900, less the 17 235 rebate, over 12 months
+  assert.equal(calculatePaye(30000, 12, DEFAULT_TAX_TABLE), 4783.08);
+  // Below the tax threshold the rebate covers everything
+  assert.equal(calculatePaye(5000, 12, DEFAULT_TAX_TABLE), 0);
+});
+
+test("SDL is 1% of remuneration unless the employer is exempt", () => {
+  assert.equal(calculateStatutoryDeductions({ ...monthly, remuneration: 20000 }).sdl, 200);
+  assert.equal(calculateStatutoryDeductions({ ...monthly, sdlExempt: true, remuneration: 20000 }).sdl, 0);
+  assert.equal(calculateStatutoryDeductions({ ...monthly, remuneration: 20000 }).paye, 0);
+});
+
+let labourer: Labourer;
+let firstHalf: PaymentPeriod;
+let secondHalf: PaymentPeriod;
+
+before(async () => {
+  await prepareTestDatabase();
+  const [owner] = await db.insert(users).values({ email: "owner@statutory.test", role: "super_admin" }).returning();
+  const [employeeType] = await db.insert(employeeTypes).values({ name: "General Worker" }).returning();
+  const [north, south] = await db
+    .insert(projects)
+    .values([
+      { name: "North", createdBy: owner.id },
+      { name: "South", createdBy: owner.id },
+    ])
+    .returning();
+  labourer = await storage.createLabourer({
+    employeeTypeId: employeeType.id,
+    firstName: "Thabo",
+    surname: "Nkosi",
+    idNumber: "P1234567",
+    idDocumentType: "passport",
+    idIssuingCountry: "ZWE",
+    dateOfBirth: "1990-01-01",
+    contactNumber: "0821234567",
+    bankName: "Test Bank",
+    accountNumber: "100000001",
+    accountType: "savings",
+    branchCode: "250655",
+    createdBy: owner.id,
+  });
+
+  [firstHalf, secondHalf] = await db
+    .insert(paymentPeriods)
+    .values([
+      { projectId: north.id, startDate: "2026-01-01", endDate: "2026-01-15" },
+      { projectId: south.id, startDate: "2026-01-16", endDate: "2026-01-31" },
+    ])
+    .returning();
+  for (const period of [firstHalf, secondHalf]) {
+    await db.insert(paymentPeriodEntries).values({ periodId: period.id, labourerId: labourer.id, daysWorked: 10, totalEarnings: "12000.00" });
+  }
+});
+
+async function entryFor(period: PaymentPeriod) {
+  const [entry] = await db.select().from(paymentPeriodEntries).where(eq(paymentPeriodEntries.periodId, period.id));
+  return entry;
+}
+
+test("the monthly ceiling is shared across a labourer's periods and projects", async () => {
+  // Working out the later period first, then the earlier one, brings the later one back into line
+  await refreshPeriodNetTotals(secondHalf.id);
+  assert.equal(Number((await entryFor(secondHalf)).uifRemuneration), 12000);
+  await refreshPeriodNetTotals(firstHalf.id);
+
+  const first = await entryFor(firstHalf);
+  const second = await entryFor(secondHalf);
+  assert.deepEqual([Number(first.uifRemuneration), Number(first.uifEmployee)], [12000, 120]);
+  assert.deepEqual([Number(second.uifRemuneration), Number(second.uifEmployee)], [5712, 57.12]);
+  assert.equal(Number(second.netAmount), 12000 - 57.12);
+
+  await db.update(paymentPeriods).set({ status: "approved" }).where(eq(paymentPeriods.projectId, firstHalf.projectId));
+  await db.update(paymentPeriods).set({ status: "approved" }).where(eq(paymentPeriods.projectId, secondHalf.projectId));
+  const [row] = await buildUifDeclaration("2026-01");
+  assert.equal(row.labourerId, labourer.id);
+  assert.equal(row.grossRemuneration, 24000);
+  assert.equal(row.uifRemuneration, UIF_MONTHLY_CEILING);
+  assert.equal(row.uifEmployee, UIF_MONTHLY_CEILING / 100);
+  assert.equal(row.uifEmployer, UIF_MONTHLY_CEILING / 100);
+});
@@ -0,0 +1,171 @@
+import { db } from "./db";
+import { storage } from "./storage";
+import {
+  labourers,
+  paymentPeriodEntries,
+  paymentPeriods,
+  projects,
+  type Project,
+} from "@shared/schema";
+import {
+  DEFAULT_TAX_TABLE,
+  PERIODS_PER_YEAR,
+  UIF_MONTHLY_CEILING,
+  type PayeTaxTable,
+  type StatutoryInput,
+} from "@shared/statutory";
+import { endOfMonth } from "@shared/workDate";
+import { and, eq, gte, inArray, lte } from "drizzle-orm";
+
+// Hours declared to UIF per day worked
+const HOURS_PER_DAY = 8;
+
+export interface UifDeclarationRow {
+  labourerId: string;
+  idNumber: string;
+  surname: string;
+  firstNames: string;
+  dateOfBirth: string;
+  daysWorked: number;
+  grossRemuneration: number;
+  uifRemuneration: number;
+  uifEmployee: number;
+  uifEmployer: number;
+  projects: string[];
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Employers with an annual payroll under R500 000 do not pay SDL
+ */
+export function isSdlExempt(): boolean {
+  return process.env.SDL_EXEMPT === "true";
+}
+
+/**
+ * PAYE table effective on the given date; falls back to the built-in SARS table
+ */
+export async function resolvePayeTaxTable(date: string): Promise<PayeTaxTable> {
+  const table = await storage.getTaxTableForDate(date);
+  if (!table) return DEFAULT_TAX_TABLE;
+  return { name: table.name, brackets: table.brackets, primaryRebate: Number(table.primaryRebate) };
+}
+
+/**
+ * Everything except the remuneration needed to calculate a period entry's statutory deductions
+ */
+export async function getStatutoryContext(
+  project: Project,
+  payDate: string
+): Promise<Omit<StatutoryInput, "remuneration">> {
+  return {
+    periodsPerYear: PERIODS_PER_YEAR[project.paymentPeriod],
+    sdlExempt: isSdlExempt(),
+    taxTable: project.payeEnabled ? await resolvePayeTaxTable(payDate) : null,
+  };
+}
+
+/**
+ * Per-labourer UIF totals for every approved or paid period ending in the month, across all projects
+ */
+export async function buildUifDeclaration(month: string): Promise<UifDeclarationRow[]> {
+  const monthStart = `${month}-01`;
+  const monthEnd = endOfMonth(monthStart);
+
+  const rows = await db
+    .select({ entry: paymentPeriodEntries, labourer: labourers, project: projects })
+    .from(paymentPeriodEntries)
+    .innerJoin(paymentPeriods, eq(paymentPeriodEntries.periodId, paymentPeriods.id))
+    .innerJoin(projects, eq(paymentPeriods.projectId, projects.id))
+    .innerJoin(labourers, eq(paymentPeriodEntries.labourerId, labourers.id))
+    .where(and(
+      inArray(paymentPeriods.status, ["approved", "paid"]),
+      gte(paymentPeriods.endDate, monthStart),
+      lte(paymentPeriods.endDate, monthEnd)
+    ));
+
+  const byLabourer = new Map<string, UifDeclarationRow>();
+  for (const { entry, labourer, project } of rows) {
+    const row = byLabourer.get(labourer.id) || {
+      labourerId: labourer.id,
+      idNumber: labourer.idNumber,
+      surname: labourer.surname,
+      firstNames: labourer.firstName,
+      dateOfBirth: String(labourer.dateOfBirth),
+      daysWorked: 0,
+      grossRemuneration: 0,
+      uifRemuneration: 0,
+      uifEmployee: 0,
+      uifEmployer: 0,
+      projects: [],
+    };
+    row.daysWorked += entry.daysWorked;
+    row.grossRemuneration = round2(row.grossRemuneration + Number(entry.totalEarnings) + Number(entry.bonusesTotal));
+    row.uifRemuneration = round2(row.uifRemuneration + Number(entry.uifRemuneration));
+    row.uifEmployee = round2(row.uifEmployee + Number(entry.uifEmployee));
+    row.uifEmployer = round2(row.uifEmployer + Number(entry.uifEmployer));
+    if (!row.projects.includes(project.name)) row.projects.push(project.name);
+    byLabourer.set(labourer.id, row);
+  }
+
+  // Entries are already worked out against the month's ceiling across periods and projects (see calculateUif);
+  // the cap only guards entries calculated before that
+  return Array.from(byLabourer.values())
+    .map(row => ({ ...row, uifRemuneration: Math.min(row.uifRemuneration, UIF_MONTHLY_CEILING) }))
+    .sort((a, b) => a.surname.localeCompare(b.surname) || a.firstNames.localeCompare(b.firstNames));
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Monthly UIF declaration in the column layout of the uFiling bulk employee upload
+ */
+export function renderUfilingCsv(month: string, rows: UifDeclarationRow[]): string {
+  const uifReference = process.env.UIF_REFERENCE_NUMBER || '';
+  const payeReference = process.env.PAYE_REFERENCE_NUMBER || '';
+  const period = month.replace('-', '');
+
+  const header = [
+    "UIF Reference Number",
+    "PAYE Reference Number",
+    "Declaration Period",
+    "ID Number",
+    "Passport Number",
+    "Surname",
+    "First Names",
+    "Date of Birth",
+    "Gross Taxable Remuneration",
+    "Remuneration Subject to UIF",
+    "UIF Contribution",
+    "Hours Worked",
+    "Employment Status",
+  ];
+
+  const lines = rows.map(row => {
+    // SA ID numbers are 13 digits; anything else was captured as a passport number
+    const isSaId = /^\d{13}$/.test(row.idNumber);
+    return [
+      uifReference,
+      payeReference,
+      period,
+      isSaId ? row.idNumber : '',
+      isSaId ? '' : row.idNumber,
+      row.surname,
+      row.firstNames,
+      row.dateOfBirth.replace(/-/g, ''),
+      row.grossRemuneration.toFixed(2),
+      row.uifRemuneration.toFixed(2),
+      round2(row.uifEmployee + row.uifEmployer).toFixed(2),
+      row.daysWorked * HOURS_PER_DAY,
+      "01", // Active, contributing employee
+    ].map(csvField).join(',');
+  });
+
+  return [header.map(csvField).join(','), ...lines].join('\r\n') + '\r\n';
+}
@@ -7,10 +7,21 @@ import {
   workLogs,
   paymentPeriods,
   paymentPeriodEntries,
+  paymentBatches,
+  paymentBatchLines,
+  paymentAdjustments,
+  taxTables,
+  rolePermissions,
+  seededPermissions,
+  allowedDomains,
+  staffInvitations,
   correctionRequests,
   auditLogs,
   projectManagers,
   projectSupervisors,
+  projectAssignmentHistory,
+  labourerProjectAssignments,
+  sessions,
   type User,
   type UpsertUser,
   type EmployeeType,
@@ -27,14 +38,46 @@ import {
   type InsertPaymentPeriod,
   type PaymentPeriodEntry,
   type InsertPaymentPeriodEntry,
+  type PaymentAdjustment,
+  type PaymentBatch,
+  type PaymentBatchLine,
+  type TaxTable,
+  type InsertTaxTable,
+  type RolePermission,
+  type InsertRolePermission,
+  type UserRole,
+  type AllowedDomain,
+  type InsertAllowedDomain,
+  type StaffInvitation,
+  type InsertStaffInvitation,
   type CorrectionRequest,
   type InsertCorrectionRequest,
   type AuditLog,
+  type ProjectAssignmentHistoryEntry,
+  type ProjectTeamRole,
+  type LabourerAssignmentTimelineEntry,
 } from "@shared/schema";
+import { LOCKED_PAYMENT_PERIOD_STATUSES } from "@shared/paymentPeriodWorkflow";
+import { dateInTimeZone, resolveTimeZone } from "@shared/workDate";
 import { db } from "./db";
-import { eq, and, or, desc, gte, lte, sql, inArray } from "drizzle-orm";
+import { eq, ne, and, or, desc, asc, gt, gte, lte, sql, inArray, isNull, notExists } from "drizzle-orm";
 import { logCreate, logUpdate, logDelete, logAction } from "./auditService";
 
+// Either the shared db handle or the handle of an open transaction
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Today's date as yyyy-MM-dd in the project's timezone, the format of date columns
+function today(timeZone?: string | null): string {
+  return dateInTimeZone(new Date(), resolveTimeZone(timeZone));
+}
+
+// The timezone a project's dates are read in; the default when there is no project
+async function projectTimeZone(projectId: string | null | undefined, executor: DbExecutor = db): Promise<string> {
+  if (!projectId) return resolveTimeZone(null);
+  const [project] = await executor.select({ timezone: projects.timezone }).from(projects).where(eq(projects.id, projectId));
+  return resolveTimeZone(project?.timezone);
+}
+
 // Storage interface
 export interface IStorage {
   // User operations (required for Replit Auth)
@@ -45,6 +88,8 @@ export interface IStorage {
   getAllUsers(): Promise<User[]>;
   updateUserRole(id: string, role: string): Promise<User>;
   updateUser(id: string, data: Partial<{ firstName: string; lastName: string; email: string; role: string }>): Promise<User>;
+  setUserActive(id: string, isActive: boolean, actorId: string, executor?: DbExecutor): Promise<User>;
+  deleteUserSessions(user: User, executor?: DbExecutor): Promise<number>;
   
   // Employee Type operations
   getEmployeeTypes(): Promise<EmployeeType[]>;
@@ -59,29 +104,37 @@ export interface IStorage {
   getProjectsBySupervisor(userId: string): Promise<Project[]>;
   createProject(data: InsertProject): Promise<Project>;
   updateProject(id: string, data: Partial<InsertProject>): Promise<Project>;
-  assignProjectManager(projectId: string, userId: string): Promise<{ success: boolean; alreadyAssigned: boolean }>;
-  assignProjectSupervisor(projectId: string, userId: string): Promise<{ success: boolean; alreadyAssigned: boolean }>;
+  assignProjectManager(projectId: string, userId: string, assignedBy?: string, executor?: DbExecutor): Promise<{ success: boolean; alreadyAssigned: boolean }>;
+  assignProjectSupervisor(projectId: string, userId: string, assignedBy?: string, executor?: DbExecutor): Promise<{ success: boolean; alreadyAssigned: boolean }>;
+  removeProjectManager(projectId: string, userId: string, removedBy?: string, executor?: DbExecutor): Promise<boolean>;
+  removeProjectSupervisor(projectId: string, userId: string, removedBy?: string, executor?: DbExecutor): Promise<boolean>;
+  getProjectAssignmentHistory(projectId: string): Promise<ProjectAssignmentHistoryEntry[]>;
   getProjectManagers(projectId: string): Promise<User[]>;
   getProjectSupervisors(projectId: string): Promise<User[]>;
   
   // Labourer operations
-  getLabourers(projectId: string): Promise<Labourer[]>;
+  getLabourers(projectId: string, asOf?: string): Promise<Labourer[]>;
+  getLabourersForPeriod(projectId: string, startDate: string, endDate: string): Promise<Labourer[]>;
   getAvailableLabourers(): Promise<Labourer[]>;
-  getLabourer(id: string): Promise<Labourer | undefined>;
+  getLabourer(id: string, executor?: DbExecutor): Promise<Labourer | undefined>;
   getLabourerByUserId(userId: string): Promise<Labourer | undefined>;
   getLabourerByPhoneOrEmail(identifier: string): Promise<Labourer | undefined>;
   createLabourer(data: InsertLabourer): Promise<Labourer>;
   bulkCreateLabourers(data: InsertLabourer[]): Promise<Labourer[]>;
   updateLabourer(id: string, data: Partial<InsertLabourer>): Promise<Labourer>;
-  assignLabourersToProject(labourerIds: string[], projectId: string): Promise<void>;
+  setLabourerActive(id: string, isActive: boolean, actorId: string): Promise<Labourer>;
+  deleteLabourerSessions(labourerId: string): Promise<number>;
+  assignLabourersToProject(labourerIds: string[], projectId: string, effectiveDate?: string, actorId?: string): Promise<void>;
+  transferLabourer(id: string, projectId: string | null, effectiveDate: string, actorId: string): Promise<Labourer>;
+  getLabourerAssignmentTimeline(labourerId: string): Promise<LabourerAssignmentTimelineEntry[]>;
   
   // Pay Rate operations
   getPayRates(projectId: string): Promise<PayRate[]>;
-  getPayRateForEmployeeType(projectId: string, employeeTypeId: string, category: string, effectiveDate: Date): Promise<PayRate | undefined>;
+  getPayRateForEmployeeType(projectId: string, employeeTypeId: string, category: string, effectiveDate: string, categoryName?: string, executor?: DbExecutor): Promise<PayRate | undefined>;
   createPayRate(data: InsertPayRate): Promise<PayRate>;
   
   // Work Log operations
-  getWorkLogs(projectId: string, startDate?: Date, endDate?: Date): Promise<WorkLog[]>;
+  getWorkLogs(projectId: string, startDate?: string, endDate?: string): Promise<WorkLog[]>;
   getWorkLogsByDateRange(projectId: string, startDate: string, endDate: string): Promise<WorkLog[]>;
   getWorkLogsByLabourer(labourerId: string): Promise<WorkLog[]>;
   getWorkLog(id: string): Promise<WorkLog | undefined>;
@@ -93,8 +146,47 @@ export interface IStorage {
   getPaymentPeriod(id: string): Promise<PaymentPeriod | undefined>;
   createPaymentPeriod(data: InsertPaymentPeriod): Promise<PaymentPeriod>;
   updatePaymentPeriod(id: string, data: Partial<InsertPaymentPeriod>): Promise<PaymentPeriod>;
+  getLockedPaymentPeriodForDate(projectId: string, workDate: string, executor?: DbExecutor): Promise<PaymentPeriod | undefined>;
+  getOverlappingPaymentPeriods(projectId: string, startDate: string, endDate: string, excludeId?: string, executor?: DbExecutor): Promise<PaymentPeriod[]>;
   getPaymentPeriodEntries(periodId: string): Promise<PaymentPeriodEntry[]>;
   createPaymentPeriodEntry(data: InsertPaymentPeriodEntry): Promise<PaymentPeriodEntry>;
+  getPaymentPeriodEntry(id: string): Promise<PaymentPeriodEntry | undefined>;
+  
+  // Payment Adjustment operations
+  getPaymentAdjustments(periodId: string): Promise<PaymentAdjustment[]>;
+  getPaymentAdjustmentsByLabourer(labourerId: string, status?: string): Promise<PaymentAdjustment[]>;
+  getPaymentAdjustment(id: string): Promise<PaymentAdjustment | undefined>;
+  
+  // Payment Batch operations
+  getPaymentBatches(periodId: string): Promise<PaymentBatch[]>;
+  getPaymentBatch(id: string): Promise<PaymentBatch | undefined>;
+  getPaymentBatchLines(batchId: string): Promise<PaymentBatchLine[]>;
+  
+  // Tax Table operations
+  getTaxTables(): Promise<TaxTable[]>;
+  getTaxTableForDate(date: string): Promise<TaxTable | undefined>;
+  createTaxTable(data: InsertTaxTable): Promise<TaxTable>;
+  deleteTaxTable(id: string, userId: string): Promise<void>;
+  
+  // Role Permission operations
+  getRolePermissions(): Promise<RolePermission[]>;
+  getSeededPermissions(): Promise<string[]>;
+  seedRolePermissions(permissions: string[], data: InsertRolePermission[]): Promise<void>;
+  setRolePermissions(role: UserRole, permissions: string[], userId: string): Promise<RolePermission[]>;
+  
+  // Staff sign-in access operations
+  getAllowedDomains(): Promise<AllowedDomain[]>;
+  getAllowedDomain(id: string): Promise<AllowedDomain | undefined>;
+  getAllowedDomainByName(domain: string): Promise<AllowedDomain | undefined>;
+  seedAllowedDomains(data: InsertAllowedDomain[]): Promise<void>;
+  createAllowedDomain(data: InsertAllowedDomain, userId: string): Promise<AllowedDomain>;
+  updateAllowedDomain(id: string, data: Partial<InsertAllowedDomain>, userId: string): Promise<AllowedDomain>;
+  getStaffInvitations(): Promise<StaffInvitation[]>;
+  getStaffInvitation(id: string): Promise<StaffInvitation | undefined>;
+  getActiveStaffInvitation(email: string): Promise<StaffInvitation | undefined>;
+  createStaffInvitation(data: InsertStaffInvitation): Promise<StaffInvitation>;
+  revokeStaffInvitation(id: string, userId: string): Promise<StaffInvitation>;
+  acceptStaffInvitation(id: string, userId: string): Promise<StaffInvitation>;
   
   // Correction Request operations
   getCorrectionRequests(status?: string): Promise<CorrectionRequest[]>;
@@ -201,6 +293,38 @@ export class DatabaseStorage implements IStorage {
     }
     return user;
   }
+  async setUserActive(id: string, isActive: boolean, actorId: string, executor: DbExecutor = db): Promise<User> {
+    const [user] = await executor
+      .update(users)
+      .set({
+        isActive,
+        deactivatedAt: isActive ? null : new Date(),
+        deactivatedBy: isActive ? null : actorId,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, id))
+      .returning();
+    if (!user) {
+      throw new Error("User not found");
+    }
+    return user;
+  }
+
+  async deleteUserSessions(user: User, executor: DbExecutor = db): Promise<number> {
+    // Staff sessions hold the passport user: { id, email } for Google, { claims: { sub, email } } for Replit Auth
+    const email = user.email?.toLowerCase() ?? "";
+    const deleted = await executor
+      .delete(sessions)
+      .where(or(
+        sql`${sessions.sess}->'passport'->'user'->>'id' = ${user.id}`,
+        sql`${sessions.sess}->'passport'->'user'->'claims'->>'sub' = ${user.id}`,
+        sql`lower(${sessions.sess}->'passport'->'user'->>'email') = ${email}`,
+        sql`lower(${sessions.sess}->'passport'->'user'->'claims'->>'email') = ${email}`
+      ))
+      .returning({ sid: sessions.sid });
+    return deleted.length;
+  }
+
 
   // Employee Type operations
   async getEmployeeTypes(): Promise<EmployeeType[]> {
@@ -279,9 +403,14 @@ export class DatabaseStorage implements IStorage {
     return project;
   }
 
-  async assignProjectManager(projectId: string, userId: string): Promise<{ success: boolean; alreadyAssigned: boolean }> {
+  async assignProjectManager(
+    projectId: string,
+    userId: string,
+    assignedBy?: string,
+    executor: DbExecutor = db
+  ): Promise<{ success: boolean; alreadyAssigned: boolean }> {
     // Check if already assigned
-    const [existing] = await db
+    const [existing] = await executor
       .select()
       .from(projectManagers)
       .where(and(eq(projectManagers.projectId, projectId), eq(projectManagers.userId, userId)));
@@ -291,7 +420,8 @@ export class DatabaseStorage implements IStorage {
     }
 
     try {
-      await db.insert(projectManagers).values({ projectId, userId });
+      const [assignment] = await executor.insert(projectManagers).values({ projectId, userId }).returning();
+      await this.openAssignmentHistory(executor, projectId, userId, "manager", assignment.assignedAt, assignedBy);
       return { success: true, alreadyAssigned: false };
     } catch (error: any) {
       // Handle race condition: if unique constraint is violated, treat as already assigned
@@ -304,9 +434,14 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async assignProjectSupervisor(projectId: string, userId: string): Promise<{ success: boolean; alreadyAssigned: boolean }> {
+  async assignProjectSupervisor(
+    projectId: string,
+    userId: string,
+    assignedBy?: string,
+    executor: DbExecutor = db
+  ): Promise<{ success: boolean; alreadyAssigned: boolean }> {
     // Check if already assigned
-    const [existing] = await db
+    const [existing] = await executor
       .select()
       .from(projectSupervisors)
       .where(and(eq(projectSupervisors.projectId, projectId), eq(projectSupervisors.userId, userId)));
@@ -316,7 +451,8 @@ export class DatabaseStorage implements IStorage {
     }
 
     try {
-      await db.insert(projectSupervisors).values({ projectId, userId });
+      const [assignment] = await executor.insert(projectSupervisors).values({ projectId, userId }).returning();
+      await this.openAssignmentHistory(executor, projectId, userId, "supervisor", assignment.assignedAt, assignedBy);
       return { success: true, alreadyAssigned: false };
     } catch (error: any) {
       // Handle race condition: if unique constraint is violated, treat as already assigned
@@ -329,6 +465,127 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async removeProjectManager(projectId: string, userId: string, removedBy?: string, executor: DbExecutor = db): Promise<boolean> {
+    const [removed] = await executor
+      .delete(projectManagers)
+      .where(and(eq(projectManagers.projectId, projectId), eq(projectManagers.userId, userId)))
+      .returning();
+    if (!removed) return false;
+    await this.closeAssignmentHistory(executor, projectId, userId, "manager", removed.assignedAt, removedBy);
+    return true;
+  }
+
+  async removeProjectSupervisor(projectId: string, userId: string, removedBy?: string, executor: DbExecutor = db): Promise<boolean> {
+    const [removed] = await executor
+      .delete(projectSupervisors)
+      .where(and(eq(projectSupervisors.projectId, projectId), eq(projectSupervisors.userId, userId)))
+      .returning();
+    if (!removed) return false;
+    await this.closeAssignmentHistory(executor, projectId, userId, "supervisor", removed.assignedAt, removedBy);
+    return true;
+  }
+
+  private async openAssignmentHistory(
+    executor: DbExecutor,
+    projectId: string,
+    userId: string,
+    relation: ProjectTeamRole,
+    assignedAt: Date | null,
+    assignedBy?: string
+  ): Promise<void> {
+    await executor.insert(projectAssignmentHistory).values({
+      projectId,
+      userId,
+      relation,
+      assignedFrom: assignedAt ?? new Date(),
+      assignedBy: assignedBy ?? null,
+    });
+  }
+
+  // Assignments made before the history table existed have no open row; they are recorded on removal
+  private async closeAssignmentHistory(
+    executor: DbExecutor,
+    projectId: string,
+    userId: string,
+    relation: ProjectTeamRole,
+    assignedAt: Date | null,
+    removedBy?: string
+  ): Promise<void> {
+    const now = new Date();
+    const closed = await executor
+      .update(projectAssignmentHistory)
+      .set({ assignedTo: now, unassignedBy: removedBy ?? null })
+      .where(and(
+        eq(projectAssignmentHistory.projectId, projectId),
+        eq(projectAssignmentHistory.userId, userId),
+        eq(projectAssignmentHistory.relation, relation),
+        isNull(projectAssignmentHistory.assignedTo)
+      ))
+      .returning();
+    if (closed.length === 0) {
+      await executor.insert(projectAssignmentHistory).values({
+        projectId,
+        userId,
+        relation,
+        assignedFrom: assignedAt ?? now,
+        assignedTo: now,
+        unassignedBy: removedBy ?? null,
+      });
+    }
+  }
+
+  /**
+   * Past and present managers and supervisors of a project, newest first. Current assignments that
+   * predate the history table are listed from the junction tables with no history id.
+   */
+  async getProjectAssignmentHistory(projectId: string): Promise<ProjectAssignmentHistoryEntry[]> {
+    const userColumns = {
+      id: users.id,
+      firstName: users.firstName,
+      lastName: users.lastName,
+      email: users.email,
+      isActive: users.isActive,
+    };
+    const [history, managers, supervisors] = await Promise.all([
+      db
+        .select({ entry: projectAssignmentHistory, user: userColumns })
+        .from(projectAssignmentHistory)
+        .innerJoin(users, eq(projectAssignmentHistory.userId, users.id))
+        .where(eq(projectAssignmentHistory.projectId, projectId)),
+      db
+        .select({ assignedAt: projectManagers.assignedAt, user: userColumns })
+        .from(projectManagers)
+        .innerJoin(users, eq(projectManagers.userId, users.id))
+        .where(eq(projectManagers.projectId, projectId)),
+      db
+        .select({ assignedAt: projectSupervisors.assignedAt, user: userColumns })
+        .from(projectSupervisors)
+        .innerJoin(users, eq(projectSupervisors.userId, users.id))
+        .where(eq(projectSupervisors.projectId, projectId)),
+    ]);
+
+    const entries: ProjectAssignmentHistoryEntry[] = history.map(({ entry, user }) => ({ ...entry, user }));
+    const current: [ProjectTeamRole, typeof managers][] = [["manager", managers], ["supervisor", supervisors]];
+    for (const [relation, rows] of current) {
+      for (const { assignedAt, user } of rows) {
+        const recorded = entries.some(e => e.userId === user.id && e.relation === relation && !e.assignedTo);
+        if (recorded) continue;
+        entries.push({
+          id: "",
+          projectId,
+          userId: user.id,
+          relation,
+          assignedFrom: assignedAt ?? new Date(0),
+          assignedTo: null,
+          assignedBy: null,
+          unassignedBy: null,
+          user,
+        });
+      }
+    }
+    return entries.sort((a, b) => b.assignedFrom.getTime() - a.assignedFrom.getTime());
+  }
+
   async getProjectManagers(projectId: string): Promise<User[]> {
     const assignments = await db
       .select()
@@ -358,12 +615,58 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Labourer operations
-  async getLabourers(projectId: string): Promise<Labourer[]> {
-    return db.select().from(labourers).where(eq(labourers.projectId, projectId));
+  /**
+   * Labourers on a project now, or on a given date when asOf (yyyy-MM-dd) is set. Labourers with no
+   * assignment history yet count as being on their current project.
+   */
+  async getLabourers(projectId: string, asOf?: string): Promise<Labourer[]> {
+    if (!asOf) {
+      return db.select().from(labourers).where(eq(labourers.projectId, projectId));
+    }
+    return this.getLabourersAssignedBetween(projectId, asOf, asOf);
+  }
+
+  /**
+   * Everyone who worked on a project at any point in a date range: assigned to it for part of the range
+   * or with work logged on it, so reports still name labourers who have since moved
+   */
+  async getLabourersForPeriod(projectId: string, startDate: string, endDate: string): Promise<Labourer[]> {
+    const logged = db
+      .selectDistinct({ labourerId: workLogs.labourerId })
+      .from(workLogs)
+      .where(and(eq(workLogs.projectId, projectId), gte(workLogs.workDate, startDate), lte(workLogs.workDate, endDate)));
+    const assigned = await this.getLabourersAssignedBetween(projectId, startDate, endDate);
+    const others = await db
+      .select()
+      .from(labourers)
+      .where(inArray(labourers.id, logged));
+    return Array.from(new Map([...assigned, ...others].map(l => [l.id, l])).values());
+  }
+
+  private async getLabourersAssignedBetween(projectId: string, startDate: string, endDate: string): Promise<Labourer[]> {
+    const assigned = db
+      .select({ labourerId: labourerProjectAssignments.labourerId })
+      .from(labourerProjectAssignments)
+      .where(and(
+        eq(labourerProjectAssignments.projectId, projectId),
+        lte(labourerProjectAssignments.effectiveFrom, endDate),
+        or(isNull(labourerProjectAssignments.effectiveTo), gt(labourerProjectAssignments.effectiveTo, startDate))
+      ));
+    const anyHistory = db
+      .select({ id: labourerProjectAssignments.id })
+      .from(labourerProjectAssignments)
+      .where(eq(labourerProjectAssignments.labourerId, labourers.id));
+    return db
+      .select()
+      .from(labourers)
+      .where(or(
+        inArray(labourers.id, assigned),
+        and(eq(labourers.projectId, projectId), notExists(anyHistory))
+      ));
   }
 
-  async getLabourer(id: string): Promise<Labourer | undefined> {
-    const [labourer] = await db.select().from(labourers).where(eq(labourers.id, id));
+  async getLabourer(id: string, executor: DbExecutor = db): Promise<Labourer | undefined> {
+    const [labourer] = await executor.select().from(labourers).where(eq(labourers.id, id));
     return labourer || undefined;
   }
 
@@ -387,6 +690,9 @@ export class DatabaseStorage implements IStorage {
 
   async createLabourer(data: InsertLabourer): Promise<Labourer> {
     const [labourer] = await db.insert(labourers).values(data).returning();
+    if (labourer.projectId) {
+      await this.recordLabourerMove(db, labourer, labourer.projectId, today(await projectTimeZone(labourer.projectId)), data.createdBy);
+    }
     await logCreate("labourer", labourer.id.toString(), data.createdBy, labourer as any).catch(console.error);
     return labourer;
   }
@@ -394,6 +700,19 @@ export class DatabaseStorage implements IStorage {
   async bulkCreateLabourers(data: InsertLabourer[]): Promise<Labourer[]> {
     if (data.length === 0) return [];
     const created = await db.insert(labourers).values(data).returning();
+    const assigned = created.filter(labourer => labourer.projectId);
+    if (assigned.length > 0) {
+      const timeZones = new Map<string, string>();
+      for (const projectId of Array.from(new Set(assigned.map(labourer => labourer.projectId!)))) {
+        timeZones.set(projectId, await projectTimeZone(projectId));
+      }
+      await db.insert(labourerProjectAssignments).values(assigned.map(labourer => ({
+        labourerId: labourer.id,
+        projectId: labourer.projectId!,
+        effectiveFrom: today(timeZones.get(labourer.projectId!)),
+        assignedBy: labourer.createdBy,
+      })));
+    }
     return created;
   }
 
@@ -401,6 +720,12 @@ export class DatabaseStorage implements IStorage {
     // Fetch old labourer data for audit trail
     const oldLabourer = await this.getLabourer(id);
     
+    // Project changes made through an edit take effect today, in the new project's timezone (or the old one's when leaving)
+    if (oldLabourer && data.projectId !== undefined && (data.projectId ?? null) !== oldLabourer.projectId) {
+      const effectiveDate = today(await projectTimeZone(data.projectId ?? oldLabourer.projectId));
+      await this.recordLabourerMove(db, oldLabourer, data.projectId ?? null, effectiveDate, (data as any).updatedBy);
+    }
+    
     const [labourer] = await db
       .update(labourers)
       .set({ ...data, updatedAt: new Date() })
@@ -415,6 +740,34 @@ export class DatabaseStorage implements IStorage {
     
     return labourer;
   }
+  async setLabourerActive(id: string, isActive: boolean, actorId: string): Promise<Labourer> {
+    const [labourer] = await db
+      .update(labourers)
+      .set({
+        isActive,
+        deactivatedAt: isActive ? null : new Date(),
+        deactivatedBy: isActive ? null : actorId,
+        updatedAt: new Date(),
+      })
+      .where(eq(labourers.id, id))
+      .returning();
+    if (!labourer) {
+      throw new Error("Labourer not found");
+    }
+    return labourer;
+  }
+
+  async deleteLabourerSessions(labourerId: string): Promise<number> {
+    const deleted = await db
+      .delete(sessions)
+      .where(or(
+        sql`${sessions.sess}->>'labourerId' = ${labourerId}`,
+        sql`${sessions.sess}->'passport'->'user'->>'labourerId' = ${labourerId}`
+      ))
+      .returning({ sid: sessions.sid });
+    return deleted.length;
+  }
+
 
   async getAvailableLabourers(): Promise<Labourer[]> {
     // Get labourers who are either:
@@ -434,16 +787,133 @@ export class DatabaseStorage implements IStorage {
     return result.map(r => r.labourer);
   }
 
-  async assignLabourersToProject(labourerIds: string[], projectId: string): Promise<void> {
+  async assignLabourersToProject(labourerIds: string[], projectId: string, effectiveDate?: string, actorId?: string): Promise<void> {
     if (labourerIds.length === 0) return;
+    const movedOn = effectiveDate ?? today(await projectTimeZone(projectId));
     
-    await db
-      .update(labourers)
-      .set({ 
-        projectId, 
-        updatedAt: new Date() 
-      })
-      .where(inArray(labourers.id, labourerIds));
+    await db.transaction(async (tx) => {
+      const moving = await tx.select().from(labourers).where(inArray(labourers.id, labourerIds));
+      for (const labourer of moving) {
+        if (labourer.projectId === projectId) continue;
+        await this.recordLabourerMove(tx, labourer, projectId, movedOn, actorId);
+      }
+      await tx
+        .update(labourers)
+        .set({ 
+          projectId, 
+          updatedAt: new Date() 
+        })
+        .where(inArray(labourers.id, labourerIds));
+    });
+  }
+
+  async transferLabourer(id: string, projectId: string | null, effectiveDate: string, actorId: string): Promise<Labourer> {
+    const oldLabourer = await this.getLabourer(id);
+    if (!oldLabourer) {
+      throw new Error("Labourer not found");
+    }
+    if (oldLabourer.projectId === projectId) {
+      return oldLabourer;
+    }
+
+    const labourer = await db.transaction(async (tx) => {
+      await this.recordLabourerMove(tx, oldLabourer, projectId, effectiveDate, actorId);
+      const [updated] = await tx
+        .update(labourers)
+        .set({ projectId, updatedAt: new Date() })
+        .where(eq(labourers.id, id))
+        .returning();
+      return updated;
+    });
+
+    await logUpdate("labourer", id, actorId, { projectId: oldLabourer.projectId }, { projectId }, { operation: "transfer", effectiveDate })
+      .catch(console.error);
+    return labourer;
+  }
+
+  /**
+   * Close the labourer's open assignment on effectiveDate and open one on the new project.
+   * A move on the day the open assignment started replaces it rather than leaving an empty period.
+   */
+  private async recordLabourerMove(
+    executor: DbExecutor,
+    labourer: Labourer,
+    toProjectId: string | null,
+    effectiveDate: string,
+    actorId?: string | null
+  ): Promise<void> {
+    const [open] = await executor
+      .select()
+      .from(labourerProjectAssignments)
+      .where(and(eq(labourerProjectAssignments.labourerId, labourer.id), isNull(labourerProjectAssignments.effectiveTo)))
+      .orderBy(desc(labourerProjectAssignments.effectiveFrom))
+      .limit(1);
+
+    if (open) {
+      if (effectiveDate < open.effectiveFrom) {
+        throw new Error(`The move date cannot be before the current assignment started on ${open.effectiveFrom}`);
+      }
+      if (effectiveDate === open.effectiveFrom) {
+        await executor.delete(labourerProjectAssignments).where(eq(labourerProjectAssignments.id, open.id));
+      } else {
+        await executor
+          .update(labourerProjectAssignments)
+          .set({ effectiveTo: effectiveDate })
+          .where(eq(labourerProjectAssignments.id, open.id));
+      }
+    } else if (labourer.projectId) {
+      // Assigned before the history was kept: record the period since the labourer was added
+      const since = labourer.createdAt
+        ? dateInTimeZone(labourer.createdAt, await projectTimeZone(labourer.projectId, executor))
+        : effectiveDate;
+      if (since < effectiveDate) {
+        await executor.insert(labourerProjectAssignments).values({
+          labourerId: labourer.id,
+          projectId: labourer.projectId,
+          effectiveFrom: since,
+          effectiveTo: effectiveDate,
+        });
+      }
+    }
+
+    if (toProjectId) {
+      await executor.insert(labourerProjectAssignments).values({
+        labourerId: labourer.id,
+        projectId: toProjectId,
+        effectiveFrom: effectiveDate,
+        assignedBy: actorId ?? null,
+      });
+    }
+  }
+
+  /**
+   * Every project the labourer has worked on, newest first. A current project that predates the
+   * history is listed from the labourer record with no assignment id.
+   */
+  async getLabourerAssignmentTimeline(labourerId: string): Promise<LabourerAssignmentTimelineEntry[]> {
+    const rows = await db
+      .select({ assignment: labourerProjectAssignments, projectName: projects.name })
+      .from(labourerProjectAssignments)
+      .innerJoin(projects, eq(labourerProjectAssignments.projectId, projects.id))
+      .where(eq(labourerProjectAssignments.labourerId, labourerId))
+      .orderBy(desc(labourerProjectAssignments.effectiveFrom));
+    const timeline = rows.map(({ assignment, projectName }) => ({ ...assignment, projectName }));
+
+    const labourer = await this.getLabourer(labourerId);
+    if (labourer?.projectId && !timeline.some(entry => !entry.effectiveTo)) {
+      const project = await this.getProject(labourer.projectId);
+      timeline.unshift({
+        id: "",
+        labourerId,
+        projectId: labourer.projectId,
+        projectName: project?.name ?? "Unknown",
+        effectiveFrom: labourer.createdAt ? dateInTimeZone(labourer.createdAt, resolveTimeZone(project?.timezone)) : "",
+        effectiveTo: null,
+        assignedBy: null,
+        createdAt: labourer.createdAt,
+      });
+    }
+    return timeline;
   }
 
   // Pay Rate operations
@@ -455,19 +925,25 @@ export class DatabaseStorage implements IStorage {
     projectId: string,
     employeeTypeId: string,
     category: string,
-    effectiveDate: Date
+    effectiveDate: string,
+    categoryName?: string,
+    executor: DbExecutor = db
   ): Promise<PayRate | undefined> {
-    const [rate] = await db
+    const conditions = [
+      eq(payRates.projectId, projectId),
+      eq(payRates.employeeTypeId, employeeTypeId),
+      eq(payRates.category, category as any),
+      lte(payRates.effectiveDate, effectiveDate),
+    ];
+    // Custom categories are distinguished by name
+    if (categoryName) {
+      conditions.push(eq(payRates.categoryName, categoryName));
+    }
+
+    const [rate] = await executor
       .select()
       .from(payRates)
-      .where(
-        and(
-          eq(payRates.projectId, projectId),
-          eq(payRates.employeeTypeId, employeeTypeId),
-          eq(payRates.category, category as any),
-          lte(payRates.effectiveDate, effectiveDate.toISOString().split('T')[0])
-        )
-      )
+      .where(and(...conditions))
       .orderBy(desc(payRates.effectiveDate))
       .limit(1);
     return rate || undefined;
@@ -479,7 +955,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Work Log operations
-  async getWorkLogs(projectId: string, startDate?: Date, endDate?: Date): Promise<WorkLog[]> {
+  async getWorkLogs(projectId: string, startDate?: string, endDate?: string): Promise<WorkLog[]> {
     if (startDate && endDate) {
       return db
         .select()
@@ -487,8 +963,8 @@ export class DatabaseStorage implements IStorage {
         .where(
           and(
             eq(workLogs.projectId, projectId),
-            gte(workLogs.workDate, startDate.toISOString().split('T')[0]),
-            lte(workLogs.workDate, endDate.toISOString().split('T')[0])
+            gte(workLogs.workDate, startDate),
+            lte(workLogs.workDate, endDate)
           )
         )
         .orderBy(desc(workLogs.workDate));
@@ -573,6 +1049,40 @@ export class DatabaseStorage implements IStorage {
     return period;
   }
 
+  async getLockedPaymentPeriodForDate(projectId: string, workDate: string, executor: DbExecutor = db): Promise<PaymentPeriod | undefined> {
+    const [period] = await executor
+      .select()
+      .from(paymentPeriods)
+      .where(
+        and(
+          eq(paymentPeriods.projectId, projectId),
+          lte(paymentPeriods.startDate, workDate),
+          gte(paymentPeriods.endDate, workDate),
+          inArray(paymentPeriods.status, LOCKED_PAYMENT_PERIOD_STATUSES)
+        )
+      )
+      .limit(1);
+    return period || undefined;
+  }
+
+  async getOverlappingPaymentPeriods(
+    projectId: string,
+    startDate: string,
+    endDate: string,
+    excludeId?: string,
+    executor: DbExecutor = db
+  ): Promise<PaymentPeriod[]> {
+    const conditions = [
+      eq(paymentPeriods.projectId, projectId),
+      lte(paymentPeriods.startDate, endDate),
+      gte(paymentPeriods.endDate, startDate),
+    ];
+    if (excludeId) {
+      conditions.push(ne(paymentPeriods.id, excludeId));
+    }
+    return executor.select().from(paymentPeriods).where(and(...conditions)).orderBy(paymentPeriods.startDate);
+  }
+
   async getPaymentPeriodEntries(periodId: string): Promise<PaymentPeriodEntry[]> {
     return db.select().from(paymentPeriodEntries).where(eq(paymentPeriodEntries.periodId, periodId));
   }
@@ -582,6 +1092,205 @@ export class DatabaseStorage implements IStorage {
     return entry;
   }
 
+  async getPaymentPeriodEntry(id: string): Promise<PaymentPeriodEntry | undefined> {
+    const [entry] = await db.select().from(paymentPeriodEntries).where(eq(paymentPeriodEntries.id, id));
+    return entry;
+  }
+
+  // Payment Adjustment operations
+  async getPaymentAdjustments(periodId: string): Promise<PaymentAdjustment[]> {
+    return db.select().from(paymentAdjustments).where(eq(paymentAdjustments.periodId, periodId)).orderBy(paymentAdjustments.createdAt);
+  }
+
+  async getPaymentAdjustmentsByLabourer(labourerId: string, status?: string): Promise<PaymentAdjustment[]> {
+    const conditions = [eq(paymentAdjustments.labourerId, labourerId)];
+    if (status) {
+      conditions.push(eq(paymentAdjustments.status, status as any));
+    }
+    return db.select().from(paymentAdjustments).where(and(...conditions)).orderBy(paymentAdjustments.createdAt);
+  }
+
+  async getPaymentAdjustment(id: string): Promise<PaymentAdjustment | undefined> {
+    const [adjustment] = await db.select().from(paymentAdjustments).where(eq(paymentAdjustments.id, id));
+    return adjustment;
+  }
+
+  // Payment Batch operations
+  async getPaymentBatches(periodId: string): Promise<PaymentBatch[]> {
+    return db.select().from(paymentBatches).where(eq(paymentBatches.periodId, periodId)).orderBy(desc(paymentBatches.generatedAt));
+  }
+
+  async getPaymentBatch(id: string): Promise<PaymentBatch | undefined> {
+    const [batch] = await db.select().from(paymentBatches).where(eq(paymentBatches.id, id));
+    return batch;
+  }
+
+  async getPaymentBatchLines(batchId: string): Promise<PaymentBatchLine[]> {
+    return db.select().from(paymentBatchLines).where(eq(paymentBatchLines.batchId, batchId));
+  }
+
+  // Tax Table operations
+  async getTaxTables(): Promise<TaxTable[]> {
+    return db.select().from(taxTables).orderBy(desc(taxTables.effectiveFrom));
+  }
+
+  async getTaxTableForDate(date: string): Promise<TaxTable | undefined> {
+    const [table] = await db
+      .select()
+      .from(taxTables)
+      .where(and(lte(taxTables.effectiveFrom, date), gte(taxTables.effectiveTo, date)))
+      .orderBy(desc(taxTables.effectiveFrom))
+      .limit(1);
+    return table;
+  }
+
+  async createTaxTable(data: InsertTaxTable): Promise<TaxTable> {
+    const [table] = await db.insert(taxTables).values(data).returning();
+    await logCreate("tax_table", table.id, data.createdBy, table as any).catch(console.error);
+    return table;
+  }
+
+  async deleteTaxTable(id: string, userId: string): Promise<void> {
+    const [table] = await db.delete(taxTables).where(eq(taxTables.id, id)).returning();
+    if (table) {
+      await logDelete("tax_table", id, userId, table as any).catch(console.error);
+    }
+  }
+
+  // Role Permission operations
+  async getRolePermissions(): Promise<RolePermission[]> {
+    return db.select().from(rolePermissions);
+  }
+
+  async getSeededPermissions(): Promise<string[]> {
+    return (await db.select().from(seededPermissions)).map(row => row.permission);
+  }
+
+  // Write the default grants and mark the permissions as seeded together, so neither happens without the other
+  async seedRolePermissions(permissions: string[], data: InsertRolePermission[]): Promise<void> {
+    if (permissions.length === 0) return;
+    await db.transaction(async (tx) => {
+      if (data.length > 0) {
+        await tx.insert(rolePermissions).values(data).onConflictDoNothing();
+      }
+      await tx.insert(seededPermissions).values(permissions.map(permission => ({ permission }))).onConflictDoNothing();
+    });
+  }
+
+  async setRolePermissions(role: UserRole, permissions: string[], userId: string): Promise<RolePermission[]> {
+    const { previous, granted } = await db.transaction(async (tx) => {
+      const previous = await tx.delete(rolePermissions).where(eq(rolePermissions.role, role)).returning();
+      const granted = permissions.length > 0
+        ? await tx.insert(rolePermissions)
+            .values(permissions.map(permission => ({ role, permission, grantedBy: userId })))
+            .returning()
+        : [];
+      return { previous, granted };
+    });
+
+    await logUpdate(
+      "role_permissions",
+      role,
+      userId,
+      { permissions: previous.map(p => p.permission).sort().join(", ") },
+      { permissions: granted.map(p => p.permission).sort().join(", ") }
+    ).catch(console.error);
+    return granted;
+  }
+
+  // Staff sign-in access operations
+  async getAllowedDomains(): Promise<AllowedDomain[]> {
+    return db.select().from(allowedDomains).orderBy(asc(allowedDomains.domain));
+  }
+
+  async getAllowedDomain(id: string): Promise<AllowedDomain | undefined> {
+    const [domain] = await db.select().from(allowedDomains).where(eq(allowedDomains.id, id));
+    return domain || undefined;
+  }
+
+  async getAllowedDomainByName(domain: string): Promise<AllowedDomain | undefined> {
+    const [row] = await db.select().from(allowedDomains).where(eq(allowedDomains.domain, domain.toLowerCase()));
+    return row || undefined;
+  }
+
+  async seedAllowedDomains(data: InsertAllowedDomain[]): Promise<void> {
+    if (data.length === 0) return;
+    await db.insert(allowedDomains).values(data).onConflictDoNothing();
+  }
+
+  async createAllowedDomain(data: InsertAllowedDomain, userId: string): Promise<AllowedDomain> {
+    const [domain] = await db.insert(allowedDomains).values({ ...data, createdBy: userId }).returning();
+    await logCreate("allowed_domain", domain.id, userId, domain as any).catch(console.error);
+    return domain;
+  }
+
+  async updateAllowedDomain(id: string, data: Partial<InsertAllowedDomain>, userId: string): Promise<AllowedDomain> {
+    const existing = await this.getAllowedDomain(id);
+    if (!existing) {
+      throw new Error("Allowed domain not found");
+    }
+    const [domain] = await db
+      .update(allowedDomains)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(allowedDomains.id, id))
+      .returning();
+    await logUpdate("allowed_domain", id, userId, existing as any, domain as any).catch(console.error);
+    return domain;
+  }
+
+  async getStaffInvitations(): Promise<StaffInvitation[]> {
+    return db.select().from(staffInvitations).orderBy(desc(staffInvitations.createdAt));
+  }
+
+  async getStaffInvitation(id: string): Promise<StaffInvitation | undefined> {
+    const [invitation] = await db.select().from(staffInvitations).where(eq(staffInvitations.id, id));
+    return invitation || undefined;
+  }
+
+  async getActiveStaffInvitation(email: string): Promise<StaffInvitation | undefined> {
+    // Latest invitation for the email that has not been revoked, whether or not it was accepted
+    const [invitation] = await db
+      .select()
+      .from(staffInvitations)
+      .where(and(eq(staffInvitations.email, email.toLowerCase()), isNull(staffInvitations.revokedAt)))
+      .orderBy(desc(staffInvitations.createdAt))
+      .limit(1);
+    return invitation || undefined;
+  }
+
+  async createStaffInvitation(data: InsertStaffInvitation): Promise<StaffInvitation> {
+    const [invitation] = await db.insert(staffInvitations).values(data).returning();
+    await logCreate("staff_invitation", invitation.id, data.invitedBy, invitation as any).catch(console.error);
+    return invitation;
+  }
+
+  async revokeStaffInvitation(id: string, userId: string): Promise<StaffInvitation> {
+    const [invitation] = await db
+      .update(staffInvitations)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(staffInvitations.id, id), isNull(staffInvitations.revokedAt)))
+      .returning();
+    if (!invitation) {
+      throw new Error("Invitation not found or already revoked");
+    }
+    await logUpdate("staff_invitation", id, userId, { revokedAt: null }, { revokedAt: invitation.revokedAt }).catch(console.error);
+    return invitation;
+  }
+
+  async acceptStaffInvitation(id: string, userId: string): Promise<StaffInvitation> {
+    const [invitation] = await db
+      .update(staffInvitations)
+      .set({ acceptedAt: new Date(), acceptedUserId: userId })
+      .where(eq(staffInvitations.id, id))
+      .returning();
+    await logAction("ASSIGN", "staff_invitation", id, userId, {
+      operation: "accept",
+      role: invitation.role,
+      projectId: invitation.projectId,
+    }).catch(console.error);
+    return invitation;
+  }
+
   // Correction Request operations
   async getCorrectionRequests(status?: string): Promise<CorrectionRequest[]> {
     if (status) {
@@ -0,0 +1,20 @@
+import { createRequire } from "module";
+import * as schema from "@shared/schema";
+import { db } from "./db";
+
+let ready: Promise<void> | null = null;
+
+/**
+ * Create every table in the in-memory test database, once per test process
+ */
+export function prepareTestDatabase(): Promise<void> {
+  if (process.env.NODE_ENV !== "test") {
+    throw new Error("prepareTestDatabase only runs with NODE_ENV=test");
+  }
+  if (!ready) {
+    // drizzle-kit's ESM build cannot load its own dependencies, so use the CommonJS one
+    const { pushSchema } = createRequire(import.meta.url)("drizzle-kit/api") as typeof import("drizzle-kit/api");
+    ready = pushSchema(schema, db as unknown as Parameters<typeof pushSchema>[1]).then(({ apply }) => apply());
+  }
+  return ready;
+}
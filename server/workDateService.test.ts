@@ -0,0 +1,60 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isWorkDateOpen } from "@shared/workDate";
+import { assertCaptureWorkDateOpen, getCaptureEntryWindow, WorkDateError } from "./workDateService";
+
+const project = { timezone: "Africa/Johannesburg", workLogGraceUntil: "10:00" };
+
+// 00:30 on 6 January in Johannesburg (UTC+2)
+const afterMidnight = new Date("2026-01-05T22:30:00Z");
+
+test("a capture synced after midnight is judged by the day it was captured", () => {
+  const window = getCaptureEntryWindow(project, "2026-01-05T15:00:00Z", afterMidnight);
+  assert.equal(window.today, "2026-01-05");
+  assert.ok(isWorkDateOpen("2026-01-05", window));
+});
+
+test("a capture synced after the grace window keeps the grace window it was captured in", () => {
+  const syncedAtNoon = new Date("2026-01-06T10:00:00Z");
+  // 09:00 on 6 January, still inside the grace window for 5 January
+  const window = getCaptureEntryWindow(project, "2026-01-06T07:00:00Z", syncedAtNoon);
+  assert.ok(isWorkDateOpen("2026-01-05", window));
+  assert.ok(!isWorkDateOpen("2026-01-05", getCaptureEntryWindow(project, null, syncedAtNoon)));
+});
+
+test("captures older than the maximum offline age or from the future are refused", () => {
+  const previous = process.env.WORK_LOG_MAX_OFFLINE_HOURS;
+  process.env.WORK_LOG_MAX_OFFLINE_HOURS = "24";
+  try {
+    assert.throws(() => getCaptureEntryWindow(project, "2026-01-04T20:00:00Z", afterMidnight), WorkDateError);
+    assert.throws(() => getCaptureEntryWindow(project, "2026-01-06T00:00:00Z", afterMidnight), WorkDateError);
+    assert.throws(() => getCaptureEntryWindow(project, "yesterday", afterMidnight), WorkDateError);
+  } finally {
+    if (previous === undefined) delete process.env.WORK_LOG_MAX_OFFLINE_HOURS;
+    else process.env.WORK_LOG_MAX_OFFLINE_HOURS = previous;
+  }
+});
+
+test("only keyed offline captures are judged by their capture time", () => {
+  const syncedAtNoon = new Date("2026-01-06T10:00:00Z");
+  // 09:00 on 6 January, inside the grace window for 5 January
+  const capturedAt = "2026-01-06T07:00:00Z";
+
+  assert.throws(() => assertCaptureWorkDateOpen(project, "2026-01-05", { capturedAt }, syncedAtNoon), WorkDateError);
+  const late = assertCaptureWorkDateOpen(project, "2026-01-05", { capturedAt, idempotencyKey: "queued-1" }, syncedAtNoon);
+  assert.equal(late?.toISOString(), "2026-01-06T07:00:00.000Z");
+  // Inside the current window there is nothing to audit
+  assert.equal(assertCaptureWorkDateOpen(project, "2026-01-06", { capturedAt, idempotencyKey: "queued-2" }, syncedAtNoon), null);
+});
+
+test("by default a capture may wait 12 hours to sync", () => {
+  const previous = process.env.WORK_LOG_MAX_OFFLINE_HOURS;
+  delete process.env.WORK_LOG_MAX_OFFLINE_HOURS;
+  try {
+    const nextMorning = new Date("2026-01-06T05:00:00Z");
+    assert.ok(isWorkDateOpen("2026-01-05", getCaptureEntryWindow(project, "2026-01-05T17:30:00Z", nextMorning)));
+    assert.throws(() => getCaptureEntryWindow(project, "2026-01-05T15:00:00Z", nextMorning), WorkDateError);
+  } finally {
+    if (previous !== undefined) process.env.WORK_LOG_MAX_OFFLINE_HOURS = previous;
+  }
+});
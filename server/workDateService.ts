@@ -0,0 +1,130 @@
+import { storage } from "./storage";
+import { logAuditEvent } from "./auditService";
+import type { WorkLog } from "@shared/schema";
+import {
+  describeWorkLogEntryWindow,
+  getWorkLogEntryWindow,
+  isWorkDateOpen,
+  type WorkDateSettings,
+  type WorkLogEntryWindow,
+} from "@shared/workDate";
+
+// Long enough for a sheet captured in the afternoon to sync the next morning
+const DEFAULT_MAX_OFFLINE_HOURS = 12;
+
+// Device clocks that run slightly fast are tolerated
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export class WorkDateError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "WorkDateError";
+    this.status = status;
+    Object.setPrototypeOf(this, WorkDateError.prototype);
+  }
+}
+
+/**
+ * How long an offline capture may wait on the device before it can no longer be synced (WORK_LOG_MAX_OFFLINE_HOURS)
+ */
+export function getMaxOfflineHours(): number {
+  const hours = Number(process.env.WORK_LOG_MAX_OFFLINE_HOURS);
+  return hours > 0 ? hours : DEFAULT_MAX_OFFLINE_HOURS;
+}
+
+/**
+ * The entry window a work log is judged by. Offline captures send the device time they were captured at and get
+ * the window that applied then, so a sync after midnight or after the grace window still goes through.
+ * Captures from the future or older than the maximum offline age are refused.
+ */
+export function getCaptureEntryWindow(settings: WorkDateSettings, capturedAt?: string | null, now: Date = new Date()): WorkLogEntryWindow {
+  if (!capturedAt) {
+    return getWorkLogEntryWindow(settings, now);
+  }
+
+  const captured = new Date(capturedAt);
+  if (isNaN(captured.getTime())) {
+    throw new WorkDateError("capturedAt must be a date and time");
+  }
+  if (captured.getTime() > now.getTime() + CLOCK_SKEW_MS) {
+    throw new WorkDateError("The capture time is in the future. Check the date and time on this device.");
+  }
+  const maxOfflineHours = getMaxOfflineHours();
+  if (now.getTime() - captured.getTime() > maxOfflineHours * 60 * 60 * 1000) {
+    throw new WorkDateError(
+      `This capture waited more than ${maxOfflineHours} hours to sync and can no longer be saved. To record it, submit a correction request.`
+    );
+  }
+  return getWorkLogEntryWindow(settings, captured);
+}
+
+export async function getProjectWorkDateSettings(projectId: string): Promise<WorkDateSettings> {
+  const project = await storage.getProject(projectId);
+  if (!project) {
+    throw new WorkDateError("Project not found", 404);
+  }
+  return project;
+}
+
+/**
+ * The dates the project accepts work logs for right now, in the project's own timezone
+ */
+export async function getProjectWorkLogEntryWindow(projectId: string): Promise<WorkLogEntryWindow> {
+  return getWorkLogEntryWindow(await getProjectWorkDateSettings(projectId));
+}
+
+export interface WorkLogCapture {
+  capturedAt?: string | null;
+  idempotencyKey?: string | null;
+}
+
+/**
+ * Check the work date of a new log. Only rows from the offline queue, which always carry an idempotency key,
+ * may be judged by the time they were captured. Returns that time when it let in a date the current window
+ * refuses, so the late sync can be audited; null when the current window allows the date.
+ */
+export function assertCaptureWorkDateOpen(
+  settings: WorkDateSettings,
+  workDate: string,
+  capture: WorkLogCapture,
+  now: Date = new Date()
+): Date | null {
+  if (isWorkDateOpen(workDate, getWorkLogEntryWindow(settings, now))) {
+    return null;
+  }
+  const capturedAt = capture.idempotencyKey ? capture.capturedAt : null;
+  assertWorkDateOpen(workDate, getCaptureEntryWindow(settings, capturedAt, now), "create work logs for");
+  return new Date(capturedAt!);
+}
+
+/**
+ * Audit a work log accepted outside the current entry window on the strength of its capture time
+ */
+export async function logLateCapture(log: WorkLog, capturedAt: Date, userId: string): Promise<void> {
+  await logAuditEvent({
+    action: "CREATE",
+    entityType: "work_log",
+    entityId: log.id,
+    userId,
+    metadata: {
+      operation: "late_offline_capture",
+      projectId: log.projectId,
+      workDate: log.workDate,
+      capturedAt: capturedAt.toISOString(),
+      idempotencyKey: log.idempotencyKey,
+    },
+  }).catch(console.error);
+}
+
+/**
+ * Refuse work dates outside the entry window; older work goes through a correction request instead
+ */
+export function assertWorkDateOpen(workDate: string, window: WorkLogEntryWindow, action = "capture work logs for"): void {
+  if (!isWorkDateOpen(workDate, window)) {
+    throw new WorkDateError(
+      `Can only ${action} ${describeWorkLogEntryWindow(window)}. To modify historical data, submit a correction request.`
+    );
+  }
+}
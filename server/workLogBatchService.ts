@@ -0,0 +1,202 @@
+import { db } from "./db";
+import { additionalWorkItemsSchema, workLogInputSchema, workLogs, type InsertWorkLog, type User, type WorkLog } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import { z, ZodError } from "zod";
+import { logAuditEvent } from "./auditService";
+import { calculateWorkLogEarnings } from "./earningsService";
+import { assertWorkDateUnlocked } from "./paymentPeriodService";
+import { assertCaptureWorkDateOpen, getProjectWorkDateSettings, logLateCapture } from "./workDateService";
+import {
+  EXISTING_WORK_LOG_MODES,
+  WorkLogSyncError,
+  findReplayedWorkLog,
+  findWorkLogToUpdate,
+  mergeWorkLogValues,
+  type WorkLogConflict,
+} from "./workLogSyncService";
+
+const MAX_BATCH_ROWS = 500;
+
+const workLogBatchSchema = z.object({
+  projectId: z.string().min(1, "Project is required"),
+  workDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Work date must be in yyyy-MM-dd format"),
+  rows: z.array(z.object({
+    labourerId: z.string().min(1, "Labourer is required"),
+    openTrenchingMeters: z.string().optional(),
+    closeTrenchingMeters: z.string().optional(),
+    additionalItems: additionalWorkItemsSchema.optional(),
+    // Offline captures carry their own key per row, as they do on POST /api/work-logs
+    idempotencyKey: z.string().min(1).max(100).optional(),
+    // When the row was captured on the device; keyed offline rows are checked against the entry window of that moment
+    capturedAt: z.string().optional(),
+    onExisting: z.enum(EXISTING_WORK_LOG_MODES).optional(),
+  })).min(1, "The sheet has no rows").max(MAX_BATCH_ROWS, `A sheet can hold at most ${MAX_BATCH_ROWS} rows`),
+});
+
+/**
+ * created: inserted by this request; updated: the labourer's existing log for the day was updated;
+ * replayed: an earlier delivery already saved it; valid: passed validation but was not saved because another row failed
+ */
+export interface WorkLogBatchRowResult {
+  index: number;
+  labourerId: string;
+  idempotencyKey?: string;
+  status: "created" | "updated" | "replayed" | "valid" | "failed";
+  log?: WorkLog;
+  message?: string;
+  conflict?: WorkLogConflict;
+}
+
+export interface WorkLogBatchResult {
+  saved: boolean;
+  results: WorkLogBatchRowResult[];
+}
+
+function rowErrorMessage(error: any): string {
+  if (error instanceof ZodError) {
+    return error.errors.map(issue => issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message).join("; ");
+  }
+  return error?.message || "Invalid row";
+}
+
+/**
+ * Validate every row of a day's sheet, then save all of them in one transaction or none at all.
+ * The result reports each row, so the sheet can highlight the ones that need fixing.
+ */
+export async function saveWorkLogBatch(body: unknown, user: User): Promise<WorkLogBatchResult> {
+  const { projectId, workDate, rows } = workLogBatchSchema.parse(body);
+
+  // The same project timezone and grace window POST /api/work-logs checks against
+  const workDateSettings = await getProjectWorkDateSettings(projectId);
+  const lockError = await assertWorkDateUnlocked(projectId, workDate).then(() => null, (error: Error) => error);
+
+  const results: WorkLogBatchRowResult[] = [];
+  const inserts: { index: number; data: InsertWorkLog }[] = [];
+  const updates: { index: number; id: string; data: Partial<InsertWorkLog> }[] = [];
+  const lateCaptures = new Map<number, Date>();
+  const seenLabourers = new Set<string>();
+  const seenKeys = new Set<string>();
+
+  for (let index = 0; index < rows.length; index++) {
+    const row = rows[index];
+    const result: WorkLogBatchRowResult = { index, labourerId: row.labourerId, idempotencyKey: row.idempotencyKey, status: "valid" };
+    results.push(result);
+
+    try {
+      const data = workLogInputSchema.parse({
+        projectId,
+        workDate,
+        labourerId: row.labourerId,
+        openTrenchingMeters: row.openTrenchingMeters,
+        closeTrenchingMeters: row.closeTrenchingMeters,
+        additionalItems: row.additionalItems,
+        recordedBy: user.id,
+      });
+      const submission = { ...data, workDate };
+
+      if (seenLabourers.has(row.labourerId)) {
+        throw new Error("This labourer appears more than once on the sheet");
+      }
+      seenLabourers.add(row.labourerId);
+      if (row.idempotencyKey) {
+        if (seenKeys.has(row.idempotencyKey)) {
+          throw new Error("This Idempotency-Key appears more than once on the sheet");
+        }
+        seenKeys.add(row.idempotencyKey);
+
+        const replayed = await findReplayedWorkLog(row.idempotencyKey, submission, user.id, row.onExisting);
+        if (replayed) {
+          Object.assign(result, { status: "replayed", log: replayed });
+          continue;
+        }
+      }
+
+      const lateCapture = assertCaptureWorkDateOpen(workDateSettings, workDate, row);
+      if (lockError) throw lockError;
+      if (lateCapture) lateCaptures.set(index, lateCapture);
+
+      // One log per labourer per project day: saving the sheet again updates the existing log
+      const existing = await findWorkLogToUpdate(submission, user.id, row.onExisting);
+      if (existing) {
+        const values = mergeWorkLogValues(existing, submission, row.onExisting);
+        const earnings = await calculateWorkLogEarnings({ ...submission, ...values });
+        updates.push({
+          index,
+          id: existing.id,
+          data: {
+            ...values,
+            totalEarnings: earnings.totalEarnings,
+            appliedRateIds: earnings.appliedRateIds,
+            idempotencyKey: row.idempotencyKey ?? existing.idempotencyKey,
+          },
+        });
+        continue;
+      }
+
+      const earnings = await calculateWorkLogEarnings(submission);
+      inserts.push({
+        index,
+        data: {
+          ...data,
+          totalEarnings: earnings.totalEarnings,
+          appliedRateIds: earnings.appliedRateIds,
+          idempotencyKey: row.idempotencyKey,
+        },
+      });
+    } catch (error: any) {
+      Object.assign(result, {
+        status: "failed",
+        message: rowErrorMessage(error),
+        conflict: error instanceof WorkLogSyncError ? error.conflict : undefined,
+      });
+    }
+  }
+
+  if (results.some(result => result.status === "failed")) {
+    return { saved: false, results };
+  }
+  if (inserts.length === 0 && updates.length === 0) {
+    return { saved: true, results };
+  }
+
+  const { created, updated } = await db.transaction(async (tx) => {
+    const created = inserts.length > 0
+      ? await tx.insert(workLogs).values(inserts.map(insert => insert.data)).returning()
+      : [];
+    const updated: WorkLog[] = [];
+    for (const update of updates) {
+      const [log] = await tx.update(workLogs).set(update.data).where(eq(workLogs.id, update.id)).returning();
+      updated.push(log);
+    }
+    return { created, updated };
+  });
+  inserts.forEach((insert, i) => {
+    Object.assign(results[insert.index], { status: "created", log: created[i] });
+  });
+  updates.forEach((update, i) => {
+    Object.assign(results[update.index], { status: "updated", log: updated[i] });
+  });
+
+  // Rows let in by their capture time are audited one by one
+  for (const [index, capturedAt] of Array.from(lateCaptures)) {
+    await logLateCapture(results[index].log!, capturedAt, user.id);
+  }
+
+  // One entry for the sheet rather than one per labourer
+  await logAuditEvent({
+    action: "CREATE",
+    entityType: "work_log_batch",
+    entityId: `${projectId}:${workDate}`,
+    userId: user.id,
+    metadata: {
+      projectId,
+      workDate,
+      created: created.length,
+      updated: updated.length,
+      replayed: results.filter(result => result.status === "replayed").length,
+      workLogIds: [...created, ...updated].map(log => log.id),
+    },
+  }).catch(console.error);
+
+  return { saved: true, results };
+}
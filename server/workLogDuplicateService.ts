@@ -0,0 +1,122 @@
+import { db } from "./db";
+import { labourers, projects, workLogs, type User, type WorkLog } from "@shared/schema";
+import { and, eq, inArray, sql } from "drizzle-orm";
+import { logAuditEvent } from "./auditService";
+import { calculateWorkLogEarnings } from "./earningsService";
+import { assertWorkDateUnlocked } from "./paymentPeriodService";
+import { WorkLogSyncError, mergeWorkLogValues } from "./workLogSyncService";
+
+/**
+ * Logs recorded before one log per labourer per project day was enforced; each group is paid more than once
+ */
+export interface DuplicateWorkLogGroup {
+  labourerId: string;
+  labourerName: string;
+  projectId: string;
+  projectName: string;
+  workDate: string;
+  logs: WorkLog[];
+}
+
+/**
+ * keep: keep the chosen log and delete the others (a sheet saved twice)
+ * combine: add the others' meters and items to the chosen log, then delete them (genuinely separate work)
+ */
+export type DuplicateWorkLogResolution = "keep" | "combine";
+
+/**
+ * Every labourer project day with more than one log, optionally limited to some projects
+ */
+export async function findDuplicateWorkLogGroups(projectIds?: string[]): Promise<DuplicateWorkLogGroup[]> {
+  if (projectIds && projectIds.length === 0) return [];
+
+  const keys = await db
+    .select({ labourerId: workLogs.labourerId, projectId: workLogs.projectId, workDate: workLogs.workDate })
+    .from(workLogs)
+    .where(projectIds ? inArray(workLogs.projectId, projectIds) : undefined)
+    .groupBy(workLogs.labourerId, workLogs.projectId, workLogs.workDate)
+    .having(sql`count(*) > 1`)
+    .orderBy(workLogs.workDate);
+  if (keys.length === 0) return [];
+
+  const rows = await db
+    .select({ log: workLogs, firstName: labourers.firstName, surname: labourers.surname, projectName: projects.name })
+    .from(workLogs)
+    .innerJoin(labourers, eq(workLogs.labourerId, labourers.id))
+    .innerJoin(projects, eq(workLogs.projectId, projects.id))
+    .where(inArray(workLogs.labourerId, Array.from(new Set(keys.map(key => key.labourerId)))))
+    .orderBy(workLogs.recordedAt);
+
+  return keys.map(key => {
+    const matching = rows.filter(row =>
+      row.log.labourerId === key.labourerId && row.log.projectId === key.projectId && row.log.workDate === key.workDate
+    );
+    return {
+      ...key,
+      labourerName: `${matching[0].firstName} ${matching[0].surname}`,
+      projectName: matching[0].projectName,
+      logs: matching.map(row => row.log),
+    };
+  });
+}
+
+/**
+ * Reduce one group to the chosen log. Refused inside approved or paid payment periods, which are immutable.
+ */
+export async function resolveDuplicateWorkLogs(
+  group: { labourerId: string; projectId: string; workDate: string },
+  keepId: string,
+  resolution: DuplicateWorkLogResolution,
+  user: User
+): Promise<WorkLog> {
+  const logs = await db
+    .select()
+    .from(workLogs)
+    .where(and(
+      eq(workLogs.labourerId, group.labourerId),
+      eq(workLogs.projectId, group.projectId),
+      eq(workLogs.workDate, group.workDate),
+    ));
+  const kept = logs.find(log => log.id === keepId);
+  if (!kept) {
+    throw new WorkLogSyncError("Work log not found in this group", 404);
+  }
+  const removed = logs.filter(log => log.id !== keepId);
+  if (removed.length === 0) return kept;
+
+  await assertWorkDateUnlocked(group.projectId, group.workDate);
+
+  let values: Partial<WorkLog> = {};
+  if (resolution === "combine") {
+    const combined = removed.reduce<WorkLog>((acc, log) => ({ ...acc, ...mergeWorkLogValues(acc, log, "add") }), kept);
+    const merged = {
+      openTrenchingMeters: combined.openTrenchingMeters,
+      closeTrenchingMeters: combined.closeTrenchingMeters,
+      additionalItems: combined.additionalItems,
+    };
+    const earnings = await calculateWorkLogEarnings({ ...group, ...merged });
+    values = { ...merged, totalEarnings: earnings.totalEarnings, appliedRateIds: earnings.appliedRateIds };
+  }
+
+  const log = await db.transaction(async (tx) => {
+    await tx.delete(workLogs).where(inArray(workLogs.id, removed.map(log => log.id)));
+    if (Object.keys(values).length === 0) return kept;
+    const [updated] = await tx.update(workLogs).set(values).where(eq(workLogs.id, keepId)).returning();
+    return updated;
+  });
+
+  await logAuditEvent({
+    action: "UPDATE",
+    entityType: "work_log",
+    entityId: keepId,
+    userId: user.id,
+    changes: resolution === "combine" ? {
+      openTrenchingMeters: { old: kept.openTrenchingMeters, new: log.openTrenchingMeters },
+      closeTrenchingMeters: { old: kept.closeTrenchingMeters, new: log.closeTrenchingMeters },
+      totalEarnings: { old: kept.totalEarnings, new: log.totalEarnings },
+    } : undefined,
+    metadata: { operation: "resolve_duplicates", resolution, removedLogs: removed },
+  }).catch(console.error);
+
+  return log;
+}
@@ -0,0 +1,153 @@
+import { db } from "./db";
+import { workLogs, type AdditionalWorkItem, type WorkLog } from "@shared/schema";
+import { and, eq } from "drizzle-orm";
+import { combineAdditionalItems } from "./earningsService";
+
+/**
+ * Raised when an offline capture cannot be applied as sent; the client shows it as a resolution prompt
+ */
+export class WorkLogSyncError extends Error {
+  status: number;
+  conflict?: WorkLogConflict;
+
+  constructor(message: string, status = 409, conflict?: WorkLogConflict) {
+    super(message);
+    this.name = "WorkLogSyncError";
+    this.status = status;
+    this.conflict = conflict;
+    Object.setPrototypeOf(this, WorkLogSyncError.prototype);
+  }
+}
+
+/**
+ * edited: the log this key created has since been changed on the server (e.g. a PM edit or a correction)
+ * duplicate: someone else already logged the labourer for that project day
+ */
+export interface WorkLogConflict {
+  reason: "edited" | "duplicate";
+  existing: WorkLog;
+}
+
+export interface WorkLogSubmission {
+  projectId: string;
+  labourerId: string;
+  workDate: string;
+  openTrenchingMeters?: string | null;
+  closeTrenchingMeters?: string | null;
+  additionalItems?: AdditionalWorkItem[] | null;
+}
+
+/**
+ * What to do with a labourer's existing log for the same project day:
+ * replace its meters with the submitted ones, or add the submitted meters to it
+ */
+export const EXISTING_WORK_LOG_MODES = ["replace", "add"] as const;
+export type ExistingWorkLogMode = typeof EXISTING_WORK_LOG_MODES[number];
+
+const MAX_KEY_LENGTH = 100;
+
+/**
+ * Read the Idempotency-Key header; undefined when the request was not sent from the offline queue
+ */
+export function getIdempotencyKey(header: unknown): string | undefined {
+  if (header === undefined) return undefined;
+  if (typeof header !== "string" || !header.trim() || header.length > MAX_KEY_LENGTH) {
+    throw new WorkLogSyncError(`Idempotency-Key must be 1-${MAX_KEY_LENGTH} characters`, 400);
+  }
+  return header.trim();
+}
+
+function sameMeters(stored: string | null, submitted: string | null | undefined): boolean {
+  return parseFloat(stored ?? "0") === parseFloat(submitted ?? "0");
+}
+
+function sameItems(stored: unknown, submitted: AdditionalWorkItem[] | null | undefined): boolean {
+  return JSON.stringify(combineAdditionalItems(stored)) === JSON.stringify(combineAdditionalItems(submitted));
+}
+
+/**
+ * Look up an earlier delivery of the same capture. Returns the log it created when nothing has changed since,
+ * so the replay can answer with it; raises a conflict when the log was edited on the server in the meantime.
+ */
+export async function findReplayedWorkLog(
+  key: string,
+  submission: WorkLogSubmission,
+  userId: string,
+  onExisting?: ExistingWorkLogMode
+): Promise<WorkLog | undefined> {
+  const [existing] = await db.select().from(workLogs).where(eq(workLogs.idempotencyKey, key));
+  if (!existing) return undefined;
+
+  if (existing.recordedBy !== userId || existing.labourerId !== submission.labourerId) {
+    throw new WorkLogSyncError("This Idempotency-Key was already used for a different work log", 422);
+  }
+  // Added meters were summed into the log, so the stored values cannot be compared with the submission
+  if (onExisting === "add") return existing;
+
+  const unchanged = existing.projectId === submission.projectId
+    && existing.workDate === submission.workDate
+    && sameMeters(existing.openTrenchingMeters, submission.openTrenchingMeters)
+    && sameMeters(existing.closeTrenchingMeters, submission.closeTrenchingMeters)
+    && (submission.additionalItems === undefined || sameItems(existing.additionalItems, submission.additionalItems));
+  if (!unchanged) {
+    throw new WorkLogSyncError("This work log was changed on the server after it was captured", 409, { reason: "edited", existing });
+  }
+  return existing;
+}
+
+export function parseExistingWorkLogMode(value: unknown): ExistingWorkLogMode | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!EXISTING_WORK_LOG_MODES.includes(value as ExistingWorkLogMode)) {
+    throw new WorkLogSyncError(`onExisting must be one of ${EXISTING_WORK_LOG_MODES.join(", ")}`, 400);
+  }
+  return value as ExistingWorkLogMode;
+}
+
+export async function getWorkLogForDay(labourerId: string, projectId: string, workDate: string): Promise<WorkLog | undefined> {
+  const [existing] = await db
+    .select()
+    .from(workLogs)
+    .where(and(eq(workLogs.labourerId, labourerId), eq(workLogs.projectId, projectId), eq(workLogs.workDate, workDate)));
+  return existing;
+}
+
+/**
+ * The log a capture should update, when the labourer already has one for that project day.
+ * A log the same user recorded is replaced (saving the sheet again); anyone else's is a conflict
+ * unless the capture says whether to replace it or add to it.
+ */
+export async function findWorkLogToUpdate(
+  submission: WorkLogSubmission,
+  userId: string,
+  onExisting?: ExistingWorkLogMode
+): Promise<WorkLog | undefined> {
+  const existing = await getWorkLogForDay(submission.labourerId, submission.projectId, submission.workDate);
+  if (existing && !onExisting && existing.recordedBy !== userId) {
+    throw new WorkLogSyncError("This labourer already has a work log for that day", 409, { reason: "duplicate", existing });
+  }
+  return existing;
+}
+
+/**
+ * Values to store on an existing log; added custom items are summed with the ones already recorded
+ */
+export function mergeWorkLogValues(
+  existing: WorkLog,
+  submission: WorkLogSubmission,
+  mode: ExistingWorkLogMode = "replace"
+): { openTrenchingMeters: string; closeTrenchingMeters: string; additionalItems: AdditionalWorkItem[] | null } {
+  if (mode === "replace") {
+    return {
+      openTrenchingMeters: submission.openTrenchingMeters ?? "0",
+      closeTrenchingMeters: submission.closeTrenchingMeters ?? "0",
+      additionalItems: submission.additionalItems !== undefined ? submission.additionalItems : existing.additionalItems,
+    };
+  }
+  const sum = (a: string | null | undefined, b: string | null | undefined) =>
+    (parseFloat(a ?? "0") + parseFloat(b ?? "0")).toFixed(2);
+  return {
+    openTrenchingMeters: sum(existing.openTrenchingMeters, submission.openTrenchingMeters),
+    closeTrenchingMeters: sum(existing.closeTrenchingMeters, submission.closeTrenchingMeters),
+    additionalItems: combineAdditionalItems(existing.additionalItems, submission.additionalItems),
+  };
+}
@@ -0,0 +1,269 @@
+/**
+ * Identity document validation shared by the onboarding forms and the API
+ *
+ * SA ID Format: YYMMDD SSSS C A Z (13 digits)
+ * - YYMMDD: Date of birth (year, month, day)
+ * - SSSS: Gender indicator (0000-4999 = female, 5000-9999 = male)
+ * - C: Citizenship (0 = SA citizen, 1 = permanent resident, 2 = refugee)
+ * - A: Usually 8 or 9
+ * - Z: Checksum digit (Luhn algorithm)
+ *
+ * Passports carry the ICAO 9303 document number (6-9 letters and digits) and the issuing country.
+ * Asylum seeker permits carry the Home Affairs file reference: a three-letter refugee reception office,
+ * the holder's three-letter nationality and a sequence number, e.g. CTRCOD000123410.
+ */
+
+export const ID_DOCUMENT_TYPES = ["sa_id", "passport", "asylum_permit"] as const;
+export type IdDocumentType = typeof ID_DOCUMENT_TYPES[number];
+
+export const ID_DOCUMENT_TYPE_LABELS: Record<IdDocumentType, string> = {
+  sa_id: "South African ID",
+  passport: "Passport",
+  asylum_permit: "Asylum Seeker Permit",
+};
+
+// ISO 3166-1 alpha-3; SA IDs and asylum permits are always issued by South Africa
+export const SOUTH_AFRICA = "ZAF";
+
+const SA_ID_PATTERN = /^[0-9]{13}$/;
+const PASSPORT_PATTERN = /^[A-Z0-9]{6,9}$/;
+const ASYLUM_PERMIT_PATTERN = /^[A-Z]{3}[A-Z]{3}[0-9]{6,10}$/;
+const COUNTRY_PATTERN = /^[A-Z]{3}$/;
+
+export interface SAIdInfo {
+  isValid: boolean;
+  dateOfBirth: Date | null;
+  gender: "male" | "female" | null;
+  isCitizen: boolean | null;
+  error?: string;
+}
+
+export interface IdentityDocumentFields {
+  idNumber?: string | null;
+  idDocumentType?: IdDocumentType | null;
+  idIssuingCountry?: string | null;
+  dateOfBirth?: string | null;
+  gender?: string | null;
+}
+
+export interface IdentityDocumentIssue {
+  field: "idNumber" | "idDocumentType" | "idIssuingCountry" | "dateOfBirth" | "gender";
+  message: string;
+}
+
+/**
+ * Strip spaces, dashes and slashes and upper-case, the form every document number is stored in
+ */
+export function normaliseIdNumber(idNumber: string): string {
+  return idNumber.replace(/[\s\-/]/g, "").toUpperCase();
+}
+
+/**
+ * Guess the document type from the number; used for records captured before the type was recorded
+ */
+export function inferIdDocumentType(idNumber: string): IdDocumentType {
+  const clean = normaliseIdNumber(idNumber);
+  if (SA_ID_PATTERN.test(clean)) return "sa_id";
+  if (ASYLUM_PERMIT_PATTERN.test(clean)) return "asylum_permit";
+  return "passport";
+}
+
+/**
+ * Validates and extracts information from a South African ID number
+ */
+export function validateSAId(idNumber: string): SAIdInfo {
+  const cleanId = normaliseIdNumber(idNumber);
+
+  if (!SA_ID_PATTERN.test(cleanId)) {
+    return {
+      isValid: false,
+      dateOfBirth: null,
+      gender: null,
+      isCitizen: null,
+      error: "SA ID number must be 13 digits",
+    };
+  }
+
+  // Extract components
+  const yearStr = cleanId.substring(0, 2);
+  const monthStr = cleanId.substring(2, 4);
+  const dayStr = cleanId.substring(4, 6);
+  const genderDigits = cleanId.substring(6, 10);
+  const citizenDigit = cleanId.substring(10, 11);
+
+  // Parse date components
+  const month = parseInt(monthStr, 10);
+  const day = parseInt(dayStr, 10);
+
+  // Determine century (assume anyone born after current year is from 1900s)
+  const currentYear = new Date().getFullYear();
+  const currentCentury = Math.floor(currentYear / 100) * 100;
+  const yearTwoDigit = parseInt(yearStr, 10);
+  let year = currentCentury + yearTwoDigit;
+
+  // If the year is in the future, assume it's from the previous century
+  if (year > currentYear) {
+    year -= 100;
+  }
+
+  // Validate date
+  const dateOfBirth = new Date(year, month - 1, day);
+  if (
+    dateOfBirth.getFullYear() !== year ||
+    dateOfBirth.getMonth() !== month - 1 ||
+    dateOfBirth.getDate() !== day ||
+    month < 1 ||
+    month > 12 ||
+    day < 1 ||
+    day > 31
+  ) {
+    return {
+      isValid: false,
+      dateOfBirth: null,
+      gender: null,
+      isCitizen: null,
+      error: "Invalid date in ID number",
+    };
+  }
+
+  // Validate age (must be at least 16 years old)
+  const age = Math.floor(
+    (Date.now() - dateOfBirth.getTime()) / (365.25 * 24 * 60 * 60 * 1000)
+  );
+  if (age < 16) {
+    return {
+      isValid: false,
+      dateOfBirth,
+      gender: null,
+      isCitizen: null,
+      error: "Person must be at least 16 years old",
+    };
+  }
+
+  // Determine gender (0000-4999 = female, 5000-9999 = male)
+  const genderValue = parseInt(genderDigits, 10);
+  const gender = genderValue < 5000 ? "female" : "male";
+
+  if (!["0", "1", "2"].includes(citizenDigit)) {
+    return {
+      isValid: false,
+      dateOfBirth,
+      gender,
+      isCitizen: null,
+      error: "Invalid citizenship digit in ID number",
+    };
+  }
+
+  // Determine citizenship
+  const isCitizen = citizenDigit === "0";
+
+  // Validate checksum using Luhn algorithm
+  if (!validateLuhnChecksum(cleanId)) {
+    return {
+      isValid: false,
+      dateOfBirth,
+      gender,
+      isCitizen,
+      error: "Invalid ID number checksum",
+    };
+  }
+
+  return {
+    isValid: true,
+    dateOfBirth,
+    gender,
+    isCitizen,
+  };
+}
+
+/**
+ * Validates the checksum digit using the Luhn algorithm
+ * SA IDs include the checksum in the sum and check if total % 10 == 0
+ */
+function validateLuhnChecksum(idNumber: string): boolean {
+  let sum = 0;
+
+  // Process all 13 digits from left to right
+  for (let i = 0; i < 13; i++) {
+    let digit = parseInt(idNumber[i], 10);
+
+    // Double every second digit from the left (positions with odd index: 1, 3, 5, 7, 9, 11)
+    if (i % 2 === 1) {
+      digit *= 2;
+      // If doubling produces a number > 9, subtract 9
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+
+    sum += digit;
+  }
+
+  // Valid if sum is divisible by 10
+  return (sum % 10) === 0;
+}
+
+/**
+ * Check the document number against its type, and an SA ID against the captured date of birth and gender.
+ * Fields that are absent are skipped, so partial updates only check what they change.
+ */
+export function validateIdentityDocument(fields: IdentityDocumentFields): IdentityDocumentIssue[] {
+  const issues: IdentityDocumentIssue[] = [];
+  if (!fields.idNumber) return issues;
+
+  const idNumber = normaliseIdNumber(fields.idNumber);
+  const type = fields.idDocumentType || inferIdDocumentType(idNumber);
+  const country = fields.idIssuingCountry?.trim().toUpperCase() || null;
+
+  if (type === "sa_id") {
+    const info = validateSAId(idNumber);
+    if (!info.isValid) {
+      issues.push({ field: "idNumber", message: info.error || "Invalid SA ID number" });
+    }
+    if (country && country !== SOUTH_AFRICA) {
+      issues.push({ field: "idIssuingCountry", message: `SA ID numbers are issued by South Africa (${SOUTH_AFRICA})` });
+    }
+    if (info.dateOfBirth && fields.dateOfBirth) {
+      // Compare YYMMDD only; the century cannot be read from the ID number
+      const idDate = formatDateForInput(info.dateOfBirth).slice(2);
+      if (fields.dateOfBirth.slice(2, 10) !== idDate) {
+        issues.push({ field: "dateOfBirth", message: "Date of birth does not match the ID number" });
+      }
+    }
+    if (info.gender && fields.gender && fields.gender !== info.gender) {
+      issues.push({ field: "gender", message: `ID number belongs to a ${info.gender} holder` });
+    }
+    return issues;
+  }
+
+  if (type === "passport") {
+    if (!PASSPORT_PATTERN.test(idNumber)) {
+      issues.push({ field: "idNumber", message: "Passport number must be 6-9 letters and digits" });
+    }
+    if (!country) {
+      issues.push({ field: "idIssuingCountry", message: "Issuing country is required for passports" });
+    } else if (!COUNTRY_PATTERN.test(country)) {
+      issues.push({ field: "idIssuingCountry", message: "Issuing country must be a three-letter country code, e.g. ZWE" });
+    }
+    return issues;
+  }
+
+  if (!ASYLUM_PERMIT_PATTERN.test(idNumber)) {
+    issues.push({ field: "idNumber", message: "Asylum permit number must be the office code, nationality code and file number, e.g. CTRCOD000123410" });
+  }
+  if (country && country !== SOUTH_AFRICA) {
+    issues.push({ field: "idIssuingCountry", message: `Asylum seeker permits are issued by South Africa (${SOUTH_AFRICA})` });
+  }
+  return issues;
+}
+
+/**
+ * Formats a date as YYYY-MM-DD for date input fields
+ */
+export function formatDateForInput(date: Date | null): string {
+  if (!date) return "";
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
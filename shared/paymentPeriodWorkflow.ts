@@ -0,0 +1,49 @@
+import type { PaymentPeriod } from "./schema";
+import type { Permission } from "./permissions";
+
+export type PaymentPeriodStatus = PaymentPeriod["status"];
+
+export interface PaymentPeriodTransition {
+  from: PaymentPeriodStatus;
+  to: PaymentPeriodStatus;
+  label: string;
+  permission: Permission;
+}
+
+// Allowed payment period status changes: open → submitted → approved/rejected → paid, plus rejected → open
+export const PAYMENT_PERIOD_TRANSITIONS: PaymentPeriodTransition[] = [
+  { from: "open", to: "submitted", label: "Submit", permission: "payment_period.submit" },
+  { from: "submitted", to: "approved", label: "Approve", permission: "payment_period.approve" },
+  { from: "submitted", to: "rejected", label: "Reject", permission: "payment_period.reject" },
+  { from: "approved", to: "paid", label: "Mark Paid", permission: "payment_period.pay" },
+  { from: "rejected", to: "open", label: "Reopen", permission: "payment_period.reopen" },
+];
+
+// Work logs dated inside a period with one of these statuses can no longer change
+export const LOCKED_PAYMENT_PERIOD_STATUSES: PaymentPeriodStatus[] = ["approved", "paid"];
+
+// Entries and adjustments can only change while the period is still being prepared
+export const EDITABLE_PAYMENT_PERIOD_STATUSES: PaymentPeriodStatus[] = ["open", "rejected"];
+
+export function findPaymentPeriodTransition(
+  from: PaymentPeriodStatus,
+  to: PaymentPeriodStatus
+): PaymentPeriodTransition | undefined {
+  return PAYMENT_PERIOD_TRANSITIONS.find(t => t.from === from && t.to === to);
+}
+
+export function canTransitionPaymentPeriod(
+  from: PaymentPeriodStatus,
+  to: PaymentPeriodStatus,
+  permissions: Permission[]
+): boolean {
+  const transition = findPaymentPeriodTransition(from, to);
+  return !!transition && permissions.includes(transition.permission);
+}
+
+export function getAvailablePaymentPeriodTransitions(
+  from: PaymentPeriodStatus,
+  permissions: Permission[]
+): PaymentPeriodTransition[] {
+  return PAYMENT_PERIOD_TRANSITIONS.filter(t => t.from === from && permissions.includes(t.permission));
+}
@@ -0,0 +1,127 @@
+import type { UserRole } from "./schema";
+
+export interface PermissionDefinition {
+  label: string;
+  group: string;
+}
+
+// Every permission the server checks and the client gates features on
+export const PERMISSIONS = {
+  "user.manage": { label: "Manage users and assign roles", group: "Administration" },
+  "role.manage": { label: "Edit the role permission matrix", group: "Administration" },
+  "access.manage": { label: "Manage sign-in domains and staff invitations", group: "Administration" },
+  "employee_type.manage": { label: "Manage employee types", group: "Administration" },
+  "tax_table.manage": { label: "Manage PAYE tax tables", group: "Administration" },
+  "audit.view": { label: "View the audit log", group: "Administration" },
+  "login.unlock": { label: "View and release login lockouts", group: "Administration" },
+  "file.publish": { label: "Make uploaded files public", group: "Administration" },
+
+  "project.view": { label: "View projects", group: "Projects" },
+  "project.create": { label: "Create projects", group: "Projects" },
+  "project.edit": { label: "Edit project details and payment settings", group: "Projects" },
+  "project.edit_status": { label: "Change project status", group: "Projects" },
+  "project.assign_manager": { label: "Assign project managers", group: "Projects" },
+  "project.assign_supervisor": { label: "Assign supervisors", group: "Projects" },
+
+  "labourer.view": { label: "View labourers", group: "Labourers" },
+  "labourer.create": { label: "Onboard labourers", group: "Labourers" },
+  "labourer.edit": { label: "Edit labourer details", group: "Labourers" },
+  "labourer.assign": { label: "Assign labourers to projects", group: "Labourers" },
+  "labourer.banking.view": { label: "View and change labourer banking details", group: "Labourers" },
+  "labourer.pin_reset": { label: "Reset labourer login PINs", group: "Labourers" },
+  "labourer.merge": { label: "Review and merge duplicate labourers", group: "Labourers" },
+
+  "work_log.create": { label: "Capture today's work logs", group: "Work" },
+  "work_log.edit": { label: "Edit work logs", group: "Work" },
+  "pay_rate.manage": { label: "Manage pay rates", group: "Work" },
+  "correction.review": { label: "Review correction requests", group: "Work" },
+
+  "payment_period.view": { label: "View payment periods", group: "Payments" },
+  "payment_period.manage": { label: "Create, edit and recalculate payment periods", group: "Payments" },
+  "payment_period.submit": { label: "Submit payment periods", group: "Payments" },
+  "payment_period.approve": { label: "Approve payment periods", group: "Payments" },
+  "payment_period.reject": { label: "Reject payment periods", group: "Payments" },
+  "payment_period.reopen": { label: "Reopen rejected payment periods", group: "Payments" },
+  "payment_period.pay": { label: "Mark payment periods paid", group: "Payments" },
+  "payment_file.download": { label: "Download payment files and payslips", group: "Payments" },
+  "payment_batch.reconcile": { label: "Import bank responses", group: "Payments" },
+  "payslip.bulk_download": { label: "Download all payslips of a period", group: "Payments" },
+  "adjustment.manage": { label: "Add and remove deductions and bonuses", group: "Payments" },
+  "adjustment.approve": { label: "Approve deductions and bonuses", group: "Payments" },
+  "advance.view": { label: "View labourer advances", group: "Payments" },
+  "advance.create": { label: "Record labourer advances", group: "Payments" },
+
+  "report.view": { label: "View reports", group: "Reports" },
+  "report.statutory": { label: "Export UIF declarations", group: "Reports" },
+} satisfies Record<string, PermissionDefinition>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const PERMISSION_KEYS = Object.keys(PERMISSIONS) as Permission[];
+
+export function isPermission(value: string): value is Permission {
+  return value in PERMISSIONS;
+}
+
+// Super admins always keep these so the matrix can never lock everyone out
+export const LOCKED_ROLE_PERMISSIONS: Partial<Record<UserRole, Permission[]>> = {
+  super_admin: ["role.manage", "user.manage"],
+};
+
+// Grants used to seed the database matrix, once per permission: on first start and for permissions added to the catalogue later
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  super_admin: PERMISSION_KEYS,
+  admin: PERMISSION_KEYS.filter(p => p !== "role.manage"),
+  project_manager: [
+    "file.publish",
+    "project.view",
+    "project.create",
+    "project.edit_status",
+    "project.assign_supervisor",
+    "labourer.view",
+    "labourer.create",
+    "labourer.edit",
+    "labourer.assign",
+    "labourer.banking.view",
+    "labourer.pin_reset",
+    "work_log.create",
+    "work_log.edit",
+    "pay_rate.manage",
+    "correction.review",
+    "payment_period.view",
+    "payment_period.manage",
+    "payment_period.submit",
+    "payment_period.approve",
+    "payment_period.reject",
+    "payment_period.reopen",
+    "payment_file.download",
+    "adjustment.manage",
+    "advance.view",
+    "report.view",
+  ],
+  supervisor: [
+    "labourer.view",
+    "labourer.create",
+    "labourer.edit",
+    "labourer.assign",
+    "labourer.banking.view",
+    "labourer.pin_reset",
+    "work_log.create",
+    "payment_period.view",
+    "payment_period.submit",
+    "report.view",
+  ],
+  project_admin: [
+    "project.view",
+    "labourer.view",
+    "labourer.create",
+    "labourer.edit",
+    "labourer.assign",
+    "labourer.banking.view",
+    "labourer.pin_reset",
+    "work_log.create",
+    "payment_period.view",
+    "report.view",
+  ],
+  labourer: [],
+};
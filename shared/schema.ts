@@ -2,6 +2,7 @@ import { sql } from 'drizzle-orm';
 import { relations } from 'drizzle-orm';
 import {
   index,
+  uniqueIndex,
   jsonb,
   pgTable,
   timestamp,
@@ -16,6 +17,15 @@ import {
 } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
+import {
+  ID_DOCUMENT_TYPES,
+  SOUTH_AFRICA,
+  inferIdDocumentType,
+  normaliseIdNumber,
+  validateIdentityDocument,
+  type IdentityDocumentFields,
+} from "./identityDocument";
+import { DEFAULT_PROJECT_TIMEZONE, TIME_OF_DAY_PATTERN, isValidTimeZone } from "./workDate";
 
 // Session storage table (required for Replit Auth)
 export const sessions = pgTable(
@@ -46,6 +56,10 @@ export const users = pgTable("users", {
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
   role: userRoleEnum("role").notNull().default("labourer"),
+  // Deactivated users cannot sign in; their sessions are purged when they are deactivated
+  isActive: boolean("is_active").notNull().default(true),
+  deactivatedAt: timestamp("deactivated_at"),
+  deactivatedBy: varchar("deactivated_by"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -88,6 +102,15 @@ export const paymentPeriodEnum = pgEnum("payment_period", [
   "fortnightly"
 ]);
 
+// Bulk payment file format enum (see server/paymentFileExporters.ts)
+export const paymentFileFormatEnum = pgEnum("payment_file_format", [
+  "generic_csv",
+  "acb",
+  "fnb_csv",
+  "standard_bank_bizdirect",
+  "absa_cash_focus"
+]);
+
 // Projects table
 export const projects = pgTable("projects", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -96,6 +119,11 @@ export const projects = pgTable("projects", {
   budget: decimal("budget", { precision: 12, scale: 2 }),
   status: projectStatusEnum("status").notNull().default("active"),
   paymentPeriod: paymentPeriodEnum("payment_period").notNull().default("fortnightly"),
+  paymentFileFormat: paymentFileFormatEnum("payment_file_format").notNull().default("generic_csv"),
+  paymentReferenceTemplate: varchar("payment_reference_template", { length: 100 }), // e.g. "{project}-{periodEnd}-{idSuffix}"
+  payeEnabled: boolean("paye_enabled").notNull().default(false), // Withhold PAYE from the tax tables (see shared/statutory.ts)
+  timezone: varchar("timezone", { length: 64 }).notNull().default(DEFAULT_PROJECT_TIMEZONE), // IANA name; decides the project's "today" (see shared/workDate.ts)
+  workLogGraceUntil: varchar("work_log_grace_until", { length: 5 }), // HH:mm; yesterday's work can still be captured until then. Null for no grace window
   defaultOpenRate: decimal("default_open_rate", { precision: 10, scale: 2 }),
   defaultCloseRate: decimal("default_close_rate", { precision: 10, scale: 2 }),
   startDate: timestamp("start_date").defaultNow(),
@@ -158,6 +186,25 @@ export const projectSupervisorsRelations = relations(projectSupervisors, ({ one
   }),
 }));
 
+// Role a staff member holds on a project team
+export const projectTeamRoleEnum = pgEnum("project_team_role", ["manager", "supervisor"]);
+
+// Every manager and supervisor assignment with the period it covered. The junction tables above hold
+// only current assignments; a row here stays open (assignedTo null) until the person is unassigned.
+export const projectAssignmentHistory = pgTable("project_assignment_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  relation: projectTeamRoleEnum("relation").notNull(),
+  assignedFrom: timestamp("assigned_from").notNull().defaultNow(),
+  assignedTo: timestamp("assigned_to"),
+  assignedBy: varchar("assigned_by").references(() => users.id),
+  unassignedBy: varchar("unassigned_by").references(() => users.id),
+}, (table) => [
+  index("idx_project_assignment_history_project").on(table.projectId),
+  index("idx_project_assignment_history_user").on(table.userId),
+]);
+
 // Pay rate category enum
 export const rateCategoryEnum = pgEnum("rate_category", [
   "open_trenching",
@@ -204,6 +251,9 @@ export const payRatesRelations = relations(payRates, ({ one }) => ({
 // Account type enum
 export const accountTypeEnum = pgEnum("account_type", ["cheque", "savings"]);
 
+// Identity document a labourer was onboarded with
+export const idDocumentTypeEnum = pgEnum("id_document_type", ID_DOCUMENT_TYPES);
+
 // Labourers table
 export const labourers = pgTable("labourers", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -212,8 +262,13 @@ export const labourers = pgTable("labourers", {
   employeeTypeId: varchar("employee_type_id").notNull().references(() => employeeTypes.id),
   firstName: varchar("first_name", { length: 100 }).notNull(),
   surname: varchar("surname", { length: 100 }).notNull(),
-  idNumber: varchar("id_number", { length: 50 }).notNull(), // SA ID or Passport
-  passwordHash: varchar("password_hash", { length: 255 }), // Hashed RSA ID/Passport for login
+  idNumber: varchar("id_number", { length: 50 }).notNull(), // SA ID, passport or asylum permit number
+  idDocumentType: idDocumentTypeEnum("id_document_type"), // Null on records captured before the type was recorded
+  idIssuingCountry: varchar("id_issuing_country", { length: 3 }), // ISO 3166-1 alpha-3
+  pinHash: varchar("pin_hash", { length: 255 }), // Personal login PIN
+  pinSetAt: timestamp("pin_set_at"), // First PIN set; tells a reset PIN apart from one never set
+  failedLoginAttempts: integer("failed_login_attempts").notNull().default(0),
+  lockedUntil: timestamp("locked_until"),
   dateOfBirth: date("date_of_birth").notNull(),
   gender: varchar("gender", { length: 20 }),
   contactNumber: varchar("contact_number", { length: 20 }).notNull(),
@@ -227,6 +282,10 @@ export const labourers = pgTable("labourers", {
   accountType: accountTypeEnum("account_type").notNull(),
   branchCode: varchar("branch_code", { length: 20 }).notNull(),
   bankingProofPath: varchar("banking_proof_path"),
+  // Deactivated labourers cannot sign in to the labourer portal
+  isActive: boolean("is_active").notNull().default(true),
+  deactivatedAt: timestamp("deactivated_at"),
+  deactivatedBy: varchar("deactivated_by").references(() => users.id),
   createdBy: varchar("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -251,8 +310,33 @@ export const labourersRelations = relations(labourers, ({ one, many }) => ({
   }),
   workLogs: many(workLogs),
   paymentEntries: many(paymentPeriodEntries),
+  adjustments: many(paymentAdjustments),
+  advances: many(labourerAdvances),
+  projectAssignments: many(labourerProjectAssignments),
 }));
 
+// Effective-dated history of the project each labourer works on. labourers.projectId mirrors the open row.
+// effectiveFrom is inclusive and effectiveTo exclusive, so a move on a date closes one row and opens the next.
+export const labourerProjectAssignments = pgTable("labourer_project_assignments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  labourerId: varchar("labourer_id").notNull().references(() => labourers.id, { onDelete: 'cascade' }),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  effectiveFrom: date("effective_from").notNull(),
+  effectiveTo: date("effective_to"),
+  assignedBy: varchar("assigned_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_labourer_project_assignments_labourer").on(table.labourerId),
+  index("idx_labourer_project_assignments_project").on(table.projectId),
+]);
+
+// Quantity of a custom pay rate recorded on a work log, matched to the rate by categoryName.
+// per_meter items carry meters; per_day and fixed items are paid once when the quantity is above zero.
+export interface AdditionalWorkItem {
+  categoryName: string;
+  quantity: number;
+}
+
 // Work logs table
 export const workLogs = pgTable("work_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -261,13 +345,18 @@ export const workLogs = pgTable("work_logs", {
   workDate: date("work_date").notNull(),
   openTrenchingMeters: decimal("open_trenching_meters", { precision: 10, scale: 2 }).notNull().default("0"),
   closeTrenchingMeters: decimal("close_trenching_meters", { precision: 10, scale: 2 }).notNull().default("0"),
-  additionalItems: jsonb("additional_items"), // For custom rate items
+  additionalItems: jsonb("additional_items").$type<AdditionalWorkItem[]>(), // Custom rate items
   totalEarnings: decimal("total_earnings", { precision: 10, scale: 2 }).notNull(),
+  appliedRateIds: jsonb("applied_rate_ids").$type<string[]>(), // Pay rates used to calculate totalEarnings
   recordedBy: varchar("recorded_by").notNull().references(() => users.id),
   recordedAt: timestamp("recorded_at").defaultNow(),
+  // Client-generated key sent with offline captures, so a replayed sync returns the log instead of duplicating it
+  idempotencyKey: varchar("idempotency_key", { length: 100 }).unique(),
 }, (table) => [
   index("idx_work_logs_date").on(table.workDate),
   index("idx_work_logs_labourer").on(table.labourerId),
+  // One log per labourer per project day; run npm run db:duplicate-work-logs and resolve duplicates before pushing
+  uniqueIndex("uq_work_logs_labourer_project_date").on(table.labourerId, table.projectId, table.workDate),
 ]);
 
 export const workLogsRelations = relations(workLogs, ({ one }) => ({
@@ -306,6 +395,10 @@ export const paymentPeriods = pgTable("payment_periods", {
   submittedAt: timestamp("submitted_at"),
   approvedBy: varchar("approved_by").references(() => users.id),
   approvedAt: timestamp("approved_at"),
+  rejectedBy: varchar("rejected_by").references(() => users.id),
+  rejectedAt: timestamp("rejected_at"),
+  paidBy: varchar("paid_by").references(() => users.id),
+  paidAt: timestamp("paid_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
@@ -325,7 +418,17 @@ export const paymentPeriodsRelations = relations(paymentPeriods, ({ one, many })
     fields: [paymentPeriods.approvedBy],
     references: [users.id],
   }),
+  rejecter: one(users, {
+    fields: [paymentPeriods.rejectedBy],
+    references: [users.id],
+  }),
+  payer: one(users, {
+    fields: [paymentPeriods.paidBy],
+    references: [users.id],
+  }),
   entries: many(paymentPeriodEntries),
+  adjustments: many(paymentAdjustments),
+  batches: many(paymentBatches),
 }));
 
 // Payment period entries table
@@ -337,7 +440,17 @@ export const paymentPeriodEntries = pgTable("payment_period_entries", {
   openMeters: decimal("open_meters", { precision: 10, scale: 2 }).notNull().default("0"),
   closeMeters: decimal("close_meters", { precision: 10, scale: 2 }).notNull().default("0"),
   totalMeters: decimal("total_meters", { precision: 10, scale: 2 }).notNull().default("0"),
-  totalEarnings: decimal("total_earnings", { precision: 10, scale: 2 }).notNull().default("0"),
+  additionalItems: jsonb("additional_items").$type<AdditionalWorkItem[]>(), // Custom rate items summed from the period's work logs
+  totalEarnings: decimal("total_earnings", { precision: 10, scale: 2 }).notNull().default("0"), // Gross earnings from work logs
+  bonusesTotal: decimal("bonuses_total", { precision: 10, scale: 2 }).notNull().default("0"),
+  deductionsTotal: decimal("deductions_total", { precision: 10, scale: 2 }).notNull().default("0"),
+  // Statutory breakdown (see shared/statutory.ts)
+  uifRemuneration: decimal("uif_remuneration", { precision: 10, scale: 2 }).notNull().default("0"), // Remuneration subject to UIF, capped at the ceiling
+  uifEmployee: decimal("uif_employee", { precision: 10, scale: 2 }).notNull().default("0"),
+  uifEmployer: decimal("uif_employer", { precision: 10, scale: 2 }).notNull().default("0"),
+  sdlAmount: decimal("sdl_amount", { precision: 10, scale: 2 }).notNull().default("0"), // Employer-only skills development levy
+  payeAmount: decimal("paye_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  netAmount: decimal("net_amount", { precision: 10, scale: 2 }), // Gross + bonuses - deductions - employee UIF - PAYE; null on entries created before adjustments
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -352,6 +465,311 @@ export const paymentPeriodEntriesRelations = relations(paymentPeriodEntries, ({
   }),
 }));
 
+// Adjustment type enum - bonuses add to gross pay, every other type is deducted.
+// UIF is not an adjustment: it is deducted automatically (see shared/statutory.ts)
+export const adjustmentTypeEnum = pgEnum("adjustment_type", [
+  "bonus",
+  "advance_repayment",
+  "ppe_deduction",
+  "equipment_deduction",
+  "other_deduction"
+]);
+
+// Adjustment status enum
+export const adjustmentStatusEnum = pgEnum("adjustment_status", [
+  "pending",
+  "approved",
+  "rejected"
+]);
+
+// Advance status enum
+export const advanceStatusEnum = pgEnum("advance_status", [
+  "active",
+  "settled",
+  "cancelled"
+]);
+
+// Cash advances paid to labourers, recovered in instalments from later payment periods
+export const labourerAdvances = pgTable("labourer_advances", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  labourerId: varchar("labourer_id").notNull().references(() => labourers.id, { onDelete: 'cascade' }),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  instalmentAmount: decimal("instalment_amount", { precision: 10, scale: 2 }).notNull(),
+  reason: text("reason").notNull(),
+  status: advanceStatusEnum("status").notNull().default("active"),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const labourerAdvancesRelations = relations(labourerAdvances, ({ one, many }) => ({
+  labourer: one(labourers, {
+    fields: [labourerAdvances.labourerId],
+    references: [labourers.id],
+  }),
+  creator: one(users, {
+    fields: [labourerAdvances.createdBy],
+    references: [users.id],
+  }),
+  repayments: many(paymentAdjustments),
+}));
+
+// Payment adjustments table - line items applied to a labourer's entry in a payment period.
+// Keyed by period and labourer (not entry id) so they survive entry recalculation.
+export const paymentAdjustments = pgTable("payment_adjustments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  periodId: varchar("period_id").notNull().references(() => paymentPeriods.id, { onDelete: 'cascade' }),
+  labourerId: varchar("labourer_id").notNull().references(() => labourers.id, { onDelete: 'cascade' }),
+  type: adjustmentTypeEnum("type").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // Always positive; the type decides the sign
+  reason: text("reason").notNull(),
+  advanceId: varchar("advance_id").references(() => labourerAdvances.id, { onDelete: 'set null' }),
+  status: adjustmentStatusEnum("status").notNull().default("pending"),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  approvedBy: varchar("approved_by").references(() => users.id),
+  approvedAt: timestamp("approved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_payment_adjustments_period_labourer").on(table.periodId, table.labourerId),
+]);
+
+export const paymentAdjustmentsRelations = relations(paymentAdjustments, ({ one }) => ({
+  period: one(paymentPeriods, {
+    fields: [paymentAdjustments.periodId],
+    references: [paymentPeriods.id],
+  }),
+  labourer: one(labourers, {
+    fields: [paymentAdjustments.labourerId],
+    references: [labourers.id],
+  }),
+  advance: one(labourerAdvances, {
+    fields: [paymentAdjustments.advanceId],
+    references: [labourerAdvances.id],
+  }),
+  creator: one(users, {
+    fields: [paymentAdjustments.createdBy],
+    references: [users.id],
+  }),
+  approver: one(users, {
+    fields: [paymentAdjustments.approvedBy],
+    references: [users.id],
+  }),
+}));
+
+// Payment batch status enum
+export const paymentBatchStatusEnum = pgEnum("payment_batch_status", [
+  "generated",
+  "reconciling",
+  "reconciled",
+  "void" // Withdrawn before the bank paid anything, so the period can be paid from a new batch
+]);
+
+// Payment batch line status enum
+export const paymentBatchLineStatusEnum = pgEnum("payment_batch_line_status", [
+  "pending",
+  "paid",
+  "failed",
+  "mismatch"
+]);
+
+// Payment batches table - one row per generated bank payment file
+export const paymentBatches = pgTable("payment_batches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  periodId: varchar("period_id").notNull().references(() => paymentPeriods.id, { onDelete: 'cascade' }),
+  format: paymentFileFormatEnum("format").notNull(),
+  filename: varchar("filename", { length: 255 }).notNull(),
+  checksum: varchar("checksum", { length: 64 }).notNull(), // SHA-256 of the file content
+  lineCount: integer("line_count").notNull().default(0),
+  totalAmount: decimal("total_amount", { precision: 12, scale: 2 }).notNull().default("0"),
+  status: paymentBatchStatusEnum("status").notNull().default("generated"),
+  generatedBy: varchar("generated_by").notNull().references(() => users.id),
+  generatedAt: timestamp("generated_at").defaultNow(),
+  reconciledAt: timestamp("reconciled_at"),
+  voidedBy: varchar("voided_by").references(() => users.id),
+  voidedAt: timestamp("voided_at"),
+  voidReason: text("void_reason"),
+}, (table) => [
+  index("idx_payment_batches_period").on(table.periodId),
+]);
+
+// Payment batch lines table - the amount sent to each labourer in a batch
+export const paymentBatchLines = pgTable("payment_batch_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  batchId: varchar("batch_id").notNull().references(() => paymentBatches.id, { onDelete: 'cascade' }),
+  entryId: varchar("entry_id").references(() => paymentPeriodEntries.id, { onDelete: 'set null' }),
+  labourerId: varchar("labourer_id").notNull().references(() => labourers.id, { onDelete: 'cascade' }),
+  accountNumber: varchar("account_number", { length: 50 }).notNull(),
+  branchCode: varchar("branch_code", { length: 20 }).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  reference: varchar("reference", { length: 50 }),
+  status: paymentBatchLineStatusEnum("status").notNull().default("pending"),
+  bankAmount: decimal("bank_amount", { precision: 10, scale: 2 }),
+  bankReference: varchar("bank_reference", { length: 100 }),
+  failureReason: text("failure_reason"),
+  reconciledAt: timestamp("reconciled_at"),
+}, (table) => [
+  index("idx_payment_batch_lines_batch").on(table.batchId),
+]);
+
+export const paymentBatchesRelations = relations(paymentBatches, ({ one, many }) => ({
+  period: one(paymentPeriods, {
+    fields: [paymentBatches.periodId],
+    references: [paymentPeriods.id],
+  }),
+  generator: one(users, {
+    fields: [paymentBatches.generatedBy],
+    references: [users.id],
+  }),
+  lines: many(paymentBatchLines),
+}));
+
+export const paymentBatchLinesRelations = relations(paymentBatchLines, ({ one }) => ({
+  batch: one(paymentBatches, {
+    fields: [paymentBatchLines.batchId],
+    references: [paymentBatches.id],
+  }),
+  entry: one(paymentPeriodEntries, {
+    fields: [paymentBatchLines.entryId],
+    references: [paymentPeriodEntries.id],
+  }),
+  labourer: one(labourers, {
+    fields: [paymentBatchLines.labourerId],
+    references: [labourers.id],
+  }),
+}));
+
+// PAYE tax tables - the table effective on a period's end date is used
+export const taxTables = pgTable("tax_tables", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 100 }).notNull(), // e.g. "2026/27"
+  effectiveFrom: date("effective_from").notNull(),
+  effectiveTo: date("effective_to").notNull(),
+  brackets: jsonb("brackets").$type<TaxBracket[]>().notNull(),
+  primaryRebate: decimal("primary_rebate", { precision: 10, scale: 2 }).notNull(),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Permissions granted to each role; keys are defined in shared/permissions.ts
+export const rolePermissions = pgTable("role_permissions", {
+  role: userRoleEnum("role").notNull(),
+  permission: varchar("permission", { length: 100 }).notNull(),
+  grantedBy: varchar("granted_by").references(() => users.id),
+  grantedAt: timestamp("granted_at").defaultNow(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.role, table.permission] }),
+}));
+
+// Catalogue permissions whose default grants have been written once, so a permission revoked from every role stays revoked
+export const seededPermissions = pgTable("seeded_permissions", {
+  permission: varchar("permission", { length: 100 }).primaryKey(),
+  seededAt: timestamp("seeded_at").defaultNow(),
+});
+
+// Email domains staff may sign in from, with the role a new account from the domain starts with
+export const allowedDomains = pgTable("allowed_domains", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  domain: varchar("domain", { length: 255 }).notNull().unique(), // lowercase, without the @
+  defaultRole: userRoleEnum("default_role").notNull().default("supervisor"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Per-email invitations with a pre-assigned role and optional project; also admits emails outside the allowed domains
+export const staffInvitations = pgTable("staff_invitations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  email: varchar("email", { length: 255 }).notNull(), // lowercase
+  role: userRoleEnum("role").notNull(),
+  projectId: varchar("project_id").references(() => projects.id, { onDelete: 'set null' }),
+  invitedBy: varchar("invited_by").notNull().references(() => users.id),
+  acceptedAt: timestamp("accepted_at"),
+  acceptedUserId: varchar("accepted_user_id").references(() => users.id),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_staff_invitations_email").on(table.email),
+]);
+
+// Labourer one-time passwords for PIN resets
+export const labourerOtpPurposeEnum = pgEnum("labourer_otp_purpose", ["pin_reset"]);
+
+export const labourerOtps = pgTable("labourer_otps", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  labourerId: varchar("labourer_id").notNull().references(() => labourers.id, { onDelete: 'cascade' }),
+  purpose: labourerOtpPurposeEnum("purpose").notNull(),
+  codeHash: varchar("code_hash", { length: 255 }).notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  expiresAt: timestamp("expires_at").notNull(),
+  consumedAt: timestamp("consumed_at"),
+  requestedBy: varchar("requested_by").references(() => users.id), // Set when a supervisor initiated the reset
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_labourer_otps_labourer").on(table.labourerId, table.createdAt),
+]);
+
+// Message channel enum
+export const messageChannelEnum = pgEnum("message_channel", ["sms", "whatsapp"]);
+
+// Every SMS/WhatsApp message handed to a message provider; the outbox provider only records them here
+export const outboundMessages = pgTable("outbound_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  channel: messageChannelEnum("channel").notNull(),
+  recipient: varchar("recipient", { length: 30 }).notNull(),
+  body: text("body").notNull(),
+  provider: varchar("provider", { length: 50 }).notNull(),
+  providerMessageId: varchar("provider_message_id", { length: 100 }),
+  labourerId: varchar("labourer_id").references(() => labourers.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Login flow enum
+export const loginFlowEnum = pgEnum("login_flow", ["staff", "labourer"]);
+
+// Every sign-in attempt, used for the sliding-window login throttle
+export const loginAttempts = pgTable("login_attempts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  flow: loginFlowEnum("flow").notNull(),
+  identifier: varchar("identifier", { length: 255 }), // normalised phone/email; null when unknown (e.g. failed OAuth callback)
+  ipAddress: varchar("ip_address", { length: 64 }).notNull(),
+  success: boolean("success").notNull(),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_login_attempts_identifier").on(table.identifier, table.createdAt),
+  index("idx_login_attempts_ip").on(table.ipAddress, table.createdAt),
+]);
+
+// Lockout scope enum
+export const loginLockoutScopeEnum = pgEnum("login_lockout_scope", ["identifier", "ip"]);
+
+// Temporary lockouts raised by the login throttle; released early by an admin or when lockedUntil passes
+export const loginLockouts = pgTable("login_lockouts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scope: loginLockoutScopeEnum("scope").notNull(),
+  key: varchar("key", { length: 255 }).notNull(),
+  flow: loginFlowEnum("flow").notNull(),
+  failures: integer("failures").notNull(),
+  lockedUntil: timestamp("locked_until").notNull(),
+  releasedAt: timestamp("released_at"),
+  releasedBy: varchar("released_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_login_lockouts_key").on(table.scope, table.key),
+]);
+
+// Self-service PIN reset requests per normalised phone/email, registered or not, so the resend throttle answers alike for both
+export const pinResetRequests = pgTable("pin_reset_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  identifier: varchar("identifier", { length: 255 }).notNull(),
+  ipAddress: varchar("ip_address", { length: 64 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_pin_reset_requests_identifier").on(table.identifier, table.createdAt),
+  index("idx_pin_reset_requests_ip").on(table.ipAddress, table.createdAt),
+]);
+
 // Audit action enum
 export const auditActionEnum = pgEnum("audit_action", [
   "CREATE",
@@ -360,7 +778,10 @@ export const auditActionEnum = pgEnum("audit_action", [
   "ASSIGN",
   "SUBMIT",
   "APPROVE",
-  "REJECT"
+  "REJECT",
+  "LOGIN_FAILED",
+  "LOCK",
+  "UNLOCK"
 ]);
 
 // Audit logs table
@@ -369,7 +790,7 @@ export const auditLogs = pgTable("audit_logs", {
   action: auditActionEnum("action").notNull(),
   entityType: varchar("entity_type", { length: 50 }).notNull(),
   entityId: varchar("entity_id").notNull(),
-  userId: varchar("user_id").notNull().references(() => users.id),
+  userId: varchar("user_id").references(() => users.id), // null for anonymous events such as failed logins
   userName: varchar("user_name", { length: 255 }),
   userEmail: varchar("user_email", { length: 255 }),
   changes: jsonb("changes"),
@@ -435,6 +856,14 @@ export type EmployeeType = typeof employeeTypes.$inferSelect;
 
 export type InsertProject = typeof projects.$inferInsert;
 export type Project = typeof projects.$inferSelect;
+export type PaymentFileFormat = Project["paymentFileFormat"];
+
+export type ProjectAssignmentHistory = typeof projectAssignmentHistory.$inferSelect;
+export type ProjectTeamRole = ProjectAssignmentHistory["relation"];
+// A history row with the person it describes, as shown in the Team Management dialog
+export type ProjectAssignmentHistoryEntry = ProjectAssignmentHistory & {
+  user: Pick<User, "id" | "firstName" | "lastName" | "email" | "isActive">;
+};
 
 export type InsertPayRate = typeof payRates.$inferInsert;
 export type PayRate = typeof payRates.$inferSelect;
@@ -442,6 +871,10 @@ export type PayRate = typeof payRates.$inferSelect;
 export type InsertLabourer = typeof labourers.$inferInsert;
 export type Labourer = typeof labourers.$inferSelect;
 
+export type LabourerProjectAssignment = typeof labourerProjectAssignments.$inferSelect;
+// An assignment with its project's name, as shown on the labourer's timeline
+export type LabourerAssignmentTimelineEntry = LabourerProjectAssignment & { projectName: string };
+
 export type InsertWorkLog = typeof workLogs.$inferInsert;
 export type WorkLog = typeof workLogs.$inferSelect;
 
@@ -451,6 +884,51 @@ export type PaymentPeriod = typeof paymentPeriods.$inferSelect;
 export type InsertPaymentPeriodEntry = typeof paymentPeriodEntries.$inferInsert;
 export type PaymentPeriodEntry = typeof paymentPeriodEntries.$inferSelect;
 
+export type InsertPaymentAdjustment = typeof paymentAdjustments.$inferInsert;
+export type PaymentAdjustment = typeof paymentAdjustments.$inferSelect;
+export type PaymentAdjustmentType = PaymentAdjustment["type"];
+
+export type InsertLabourerAdvance = typeof labourerAdvances.$inferInsert;
+export type LabourerAdvance = typeof labourerAdvances.$inferSelect;
+
+export type InsertPaymentBatch = typeof paymentBatches.$inferInsert;
+export type PaymentBatch = typeof paymentBatches.$inferSelect;
+
+export type InsertPaymentBatchLine = typeof paymentBatchLines.$inferInsert;
+export type PaymentBatchLine = typeof paymentBatchLines.$inferSelect;
+
+export type InsertTaxTable = typeof taxTables.$inferInsert;
+export type TaxTable = typeof taxTables.$inferSelect;
+
+export type InsertRolePermission = typeof rolePermissions.$inferInsert;
+export type RolePermission = typeof rolePermissions.$inferSelect;
+
+export type InsertAllowedDomain = typeof allowedDomains.$inferInsert;
+export type AllowedDomain = typeof allowedDomains.$inferSelect;
+
+export type InsertStaffInvitation = typeof staffInvitations.$inferInsert;
+export type StaffInvitation = typeof staffInvitations.$inferSelect;
+
+export type InsertLabourerOtp = typeof labourerOtps.$inferInsert;
+export type LabourerOtp = typeof labourerOtps.$inferSelect;
+
+export type InsertOutboundMessage = typeof outboundMessages.$inferInsert;
+export type OutboundMessage = typeof outboundMessages.$inferSelect;
+
+export type InsertLoginAttempt = typeof loginAttempts.$inferInsert;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type LoginFlow = LoginAttempt["flow"];
+
+export type InsertLoginLockout = typeof loginLockouts.$inferInsert;
+export type LoginLockout = typeof loginLockouts.$inferSelect;
+
+// Annual taxable income from `threshold` upwards is taxed at `rate` on top of `baseTax`
+export interface TaxBracket {
+  threshold: number;
+  baseTax: number;
+  rate: number;
+}
+
 export type InsertCorrectionRequest = typeof correctionRequests.$inferInsert;
 export type CorrectionRequest = typeof correctionRequests.$inferSelect;
 
@@ -471,6 +949,13 @@ export const insertProjectSchema = createInsertSchema(projects).omit({
   startDate: true,
   defaultOpenRate: true,
   defaultCloseRate: true,
+}).extend({
+  timezone: z.string().refine(isValidTimeZone, "Must be a timezone name such as Africa/Johannesburg").optional(),
+  // Transform empty string to null for projects without a grace window
+  workLogGraceUntil: z.preprocess(
+    val => val === "" ? null : val,
+    z.string().regex(TIME_OF_DAY_PATTERN, "Must be a time in HH:mm format, e.g. 10:00").nullable().optional()
+  ),
 });
 
 export const insertPayRateSchema = createInsertSchema(payRates).omit({
@@ -478,13 +963,24 @@ export const insertPayRateSchema = createInsertSchema(payRates).omit({
   createdAt: true,
 });
 
-export const insertLabourerSchema = createInsertSchema(labourers).omit({
+const labourerFieldsSchema = createInsertSchema(labourers).omit({
   id: true,
+  pinHash: true,
+  pinSetAt: true,
+  failedLoginAttempts: true,
+  lockedUntil: true,
+  isActive: true,
+  deactivatedAt: true,
+  deactivatedBy: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
-  // South African ID validation: 13 digits
-  idNumber: z.string().regex(/^[0-9]{13}$|^[A-Z0-9]{6-9}$/, "Must be valid SA ID (13 digits) or Passport (6-9 characters)"),
+  // SA ID, passport or asylum permit; checked against the document type in refineIdentityDocument
+  idNumber: z.string().min(1, "ID number is required").transform(normaliseIdNumber),
+  idIssuingCountry: z.preprocess(
+    val => typeof val === "string" ? val.trim().toUpperCase() || null : val,
+    z.string().nullable().optional()
+  ),
   // South African phone number validation
   contactNumber: z.string().regex(/^(\+27|0)[0-9]{9}$/, "Must be valid SA phone number"),
   email: z.string().email().optional().or(z.literal("")),
@@ -495,17 +991,137 @@ export const insertLabourerSchema = createInsertSchema(labourers).omit({
   ),
 });
 
+// Report each identity document problem against the field it belongs to
+function refineIdentityDocument(data: IdentityDocumentFields, ctx: z.RefinementCtx) {
+  for (const issue of validateIdentityDocument(data)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [issue.field], message: issue.message });
+  }
+}
+
+// Record the document type (inferred when not chosen) and the issuing country of South African documents
+function withIdentityDefaults<T extends IdentityDocumentFields>(data: T): T {
+  if (!data.idNumber) return data;
+  const idDocumentType = data.idDocumentType || inferIdDocumentType(data.idNumber);
+  const idIssuingCountry = idDocumentType === "passport" ? data.idIssuingCountry : SOUTH_AFRICA;
+  return { ...data, idDocumentType, idIssuingCountry };
+}
+
+export const insertLabourerSchema = labourerFieldsSchema
+  .superRefine(refineIdentityDocument)
+  .transform(withIdentityDefaults);
+
+export const updateLabourerSchema = labourerFieldsSchema
+  .partial()
+  .superRefine(refineIdentityDocument)
+  .transform(withIdentityDefaults);
+
 export const insertWorkLogSchema = createInsertSchema(workLogs).omit({
   id: true,
   recordedAt: true,
 });
 
+export const additionalWorkItemSchema = z.object({
+  categoryName: z.string().trim().min(1, "Item name is required"),
+  quantity: z.coerce.number().min(0, "Quantity cannot be negative"),
+});
+
+export const additionalWorkItemsSchema = z
+  .array(additionalWorkItemSchema)
+  .refine(
+    items => new Set(items.map(item => item.categoryName)).size === items.length,
+    "Each custom item can only appear once per work log"
+  );
+
+// Work log payload accepted from clients - earnings are always calculated server-side
+export const workLogInputSchema = insertWorkLogSchema.omit({
+  totalEarnings: true,
+  appliedRateIds: true,
+  idempotencyKey: true,
+}).extend({
+  additionalItems: additionalWorkItemsSchema.nullish(),
+});
+
 export const insertPaymentPeriodSchema = createInsertSchema(paymentPeriods).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
   submittedAt: true,
   approvedAt: true,
+  rejectedAt: true,
+  paidAt: true,
+});
+
+export const insertPaymentAdjustmentSchema = createInsertSchema(paymentAdjustments).omit({
+  id: true,
+  status: true,
+  advanceId: true,
+  createdBy: true,
+  approvedBy: true,
+  approvedAt: true,
+  createdAt: true,
+}).extend({
+  amount: z.string().regex(/^\d+(\.\d{1,2})?$/, "Amount must be a positive number with up to 2 decimals"),
+  reason: z.string().min(1, "Reason is required"),
+});
+
+export const reviewPaymentAdjustmentSchema = z.object({
+  status: z.enum(["approved", "rejected"]),
+});
+
+export const insertLabourerAdvanceSchema = createInsertSchema(labourerAdvances).omit({
+  id: true,
+  status: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  amount: z.string().regex(/^\d+(\.\d{1,2})?$/, "Amount must be a positive number with up to 2 decimals"),
+  instalmentAmount: z.string().regex(/^\d+(\.\d{1,2})?$/, "Instalment must be a positive number with up to 2 decimals"),
+  reason: z.string().min(1, "Reason is required"),
+});
+
+export const insertTaxTableSchema = createInsertSchema(taxTables).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+}).extend({
+  name: z.string().min(1, "Name is required"),
+  brackets: z.array(z.object({
+    threshold: z.number().min(0),
+    baseTax: z.number().min(0),
+    rate: z.number().min(0).max(1),
+  })).min(1, "At least one bracket is required"),
+  primaryRebate: z.string().regex(/^\d+(\.\d{1,2})?$/, "Rebate must be a positive number with up to 2 decimals"),
+}).refine(data => data.effectiveFrom <= data.effectiveTo, {
+  message: "Effective from must be on or before effective to",
+  path: ["effectiveTo"],
+});
+
+export const insertAllowedDomainSchema = createInsertSchema(allowedDomains).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  domain: z.string()
+    .trim()
+    .toLowerCase()
+    .transform(domain => domain.replace(/^@/, ''))
+    .pipe(z.string().regex(/^[a-z0-9-]+(\.[a-z0-9-]+)+$/, "Enter a domain such as example.co.za")),
+  defaultRole: z.enum(["admin", "project_manager", "supervisor", "project_admin"]),
+});
+
+export const insertStaffInvitationSchema = createInsertSchema(staffInvitations).omit({
+  id: true,
+  invitedBy: true,
+  acceptedAt: true,
+  acceptedUserId: true,
+  revokedAt: true,
+  createdAt: true,
+}).extend({
+  email: z.string().trim().toLowerCase().pipe(z.string().email("Invalid email address")),
+  role: z.enum(["admin", "project_manager", "supervisor", "project_admin"]),
+  projectId: z.string().nullable().optional(),
 });
 
 export const insertCorrectionRequestSchema = createInsertSchema(correctionRequests).omit({
@@ -0,0 +1,111 @@
+import type { Project, TaxBracket } from "./schema";
+
+// UIF: 1% from the employee and 1% from the employer, on remuneration up to the monthly ceiling
+export const UIF_EMPLOYEE_RATE = 0.01;
+export const UIF_EMPLOYER_RATE = 0.01;
+export const UIF_MONTHLY_CEILING = 17712;
+
+// Skills development levy, paid by the employer only
+export const SDL_RATE = 0.01;
+
+export const PERIODS_PER_YEAR: Record<Project["paymentPeriod"], number> = {
+  monthly: 12,
+  fortnightly: 26,
+};
+
+export interface PayeTaxTable {
+  name: string;
+  brackets: TaxBracket[];
+  primaryRebate: number;
+}
+
+// SARS individual tax table used when no table covering the period has been configured
+export const DEFAULT_TAX_TABLE: PayeTaxTable = {
+  name: "SARS 2025/26",
+  brackets: [
+    { threshold: 0, baseTax: 0, rate: 0.18 },
+    { threshold: 237100, baseTax: 42678, rate: 0.26 },
+    { threshold: 370500, baseTax: 77362, rate: 0.31 },
+    { threshold: 512800, baseTax: 121475, rate: 0.36 },
+    { threshold: 673000, baseTax: 179147, rate: 0.39 },
+    { threshold: 857900, baseTax: 251258, rate: 0.41 },
+    { threshold: 1817000, baseTax: 644489, rate: 0.45 },
+  ],
+  primaryRebate: 17235,
+};
+
+/**
+ * UIF already counted for the labourer in earlier pay periods of the same calendar month, across all projects
+ */
+export interface UifMonthToDate {
+  uifRemuneration: number;
+  uifEmployee: number;
+  uifEmployer: number;
+}
+
+export const EMPTY_UIF_MONTH_TO_DATE: UifMonthToDate = { uifRemuneration: 0, uifEmployee: 0, uifEmployer: 0 };
+
+export interface StatutoryInput {
+  remuneration: number; // Gross earnings plus bonuses for the period
+  uifMonthToDate?: UifMonthToDate; // None when this is the labourer's first period of the month
+  periodsPerYear: number;
+  sdlExempt: boolean;
+  taxTable: PayeTaxTable | null; // null when PAYE is not withheld
+}
+
+export interface StatutoryBreakdown {
+  uifRemuneration: number;
+  uifEmployee: number;
+  uifEmployer: number;
+  sdl: number;
+  paye: number;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Annual tax before rebates
+ */
+export function calculateAnnualTax(annualIncome: number, brackets: TaxBracket[]): number {
+  const bracket = [...brackets]
+    .sort((a, b) => b.threshold - a.threshold)
+    .find(b => annualIncome > b.threshold);
+  if (!bracket) return 0;
+  return bracket.baseTax + (annualIncome - bracket.threshold) * bracket.rate;
+}
+
+/**
+ * PAYE for one period: the period's remuneration is annualised, taxed, reduced by the
+ * primary rebate and spread back over the periods of the year
+ */
+export function calculatePaye(remuneration: number, periodsPerYear: number, table: PayeTaxTable): number {
+  const annualTax = calculateAnnualTax(remuneration * periodsPerYear, table.brackets) - table.primaryRebate;
+  return annualTax > 0 ? round2(annualTax / periodsPerYear) : 0;
+}
+
+/**
+ * UIF for one period. The monthly ceiling covers every period and project of the month, so the period only
+ * contributes on what is left of it; contributions are worked out on the month's running total and less what
+ * earlier periods already took, so the month adds up to exactly 1% + 1% of its UIF remuneration.
+ */
+export function calculateUif(remuneration: number, monthToDate: UifMonthToDate = EMPTY_UIF_MONTH_TO_DATE): UifMonthToDate {
+  const monthRemuneration = Math.min(monthToDate.uifRemuneration + Math.max(remuneration, 0), UIF_MONTHLY_CEILING);
+  const contribution = (rate: number, alreadyTaken: number) => Math.max(round2(round2(monthRemuneration * rate) - alreadyTaken), 0);
+  return {
+    uifRemuneration: Math.max(round2(monthRemuneration - monthToDate.uifRemuneration), 0),
+    uifEmployee: contribution(UIF_EMPLOYEE_RATE, monthToDate.uifEmployee),
+    uifEmployer: contribution(UIF_EMPLOYER_RATE, monthToDate.uifEmployer),
+  };
+}
+
+export function calculateStatutoryDeductions(input: StatutoryInput): StatutoryBreakdown {
+  const remuneration = Math.max(input.remuneration, 0);
+
+  return {
+    ...calculateUif(remuneration, input.uifMonthToDate),
+    sdl: input.sdlExempt ? 0 : round2(remuneration * SDL_RATE),
+    paye: input.taxTable ? calculatePaye(remuneration, input.periodsPerYear, input.taxTable) : 0,
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Calendar dates as the people on site see them. The server runs in UTC, so "today" is always worked out
+ * in the project's timezone rather than from the server clock.
+ *
+ * Work logs can be captured for the project's today. Projects with a grace window also accept
+ * yesterday's work until that time of the morning; anything older needs a correction request.
+ */
+
+export const DEFAULT_PROJECT_TIMEZONE = "Africa/Johannesburg";
+
+// 24-hour HH:mm, e.g. "10:00"
+export const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// The project fields the entry window depends on; Project satisfies this
+export interface WorkDateSettings {
+  timezone?: string | null;
+  workLogGraceUntil?: string | null;
+}
+
+export interface WorkLogEntryWindow {
+  timezone: string;
+  today: string;
+  yesterday: string;
+  // Set while yesterday still accepts work logs
+  graceUntil: string | null;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The project's timezone, or the default when it has none or it is not a valid IANA name
+ */
+export function resolveTimeZone(timeZone?: string | null): string {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_PROJECT_TIMEZONE;
+}
+
+function zonedParts(instant: Date, timeZone: string): Record<string, string> {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(instant);
+  const values: Record<string, string> = {};
+  for (const part of parts) values[part.type] = part.value;
+  return values;
+}
+
+/**
+ * yyyy-MM-dd of an instant in the given timezone
+ */
+export function dateInTimeZone(instant: Date, timeZone: string = DEFAULT_PROJECT_TIMEZONE): string {
+  const { year, month, day } = zonedParts(instant, timeZone);
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * HH:mm of an instant in the given timezone
+ */
+export function timeInTimeZone(instant: Date, timeZone: string = DEFAULT_PROJECT_TIMEZONE): string {
+  const { hour, minute } = zonedParts(instant, timeZone);
+  return `${hour}:${minute}`;
+}
+
+/**
+ * Extract yyyy-MM-dd from a date value without drift: strings keep their date part ("2024-01-01" or
+ * "2024-01-01T..."), Date objects are read in the given timezone. Anything else gives ''.
+ */
+export function toDateOnly(value: unknown, timeZone: string = DEFAULT_PROJECT_TIMEZONE): string {
+  if (typeof value === "string") {
+    const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    return match ? `${match[1]}-${match[2]}-${match[3]}` : "";
+  }
+  if (value instanceof Date && !isNaN(value.getTime())) {
+    return dateInTimeZone(value, timeZone);
+  }
+  return "";
+}
+
+// Date arithmetic on yyyy-MM-dd strings in UTC so results don't drift with the local timezone
+export function addDaysToDate(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+export function endOfMonth(date: string): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).toISOString().split("T")[0];
+}
+
+// The Sunday on or before the date
+export function startOfWeek(date: string): string {
+  return addDaysToDate(date, -new Date(`${date}T00:00:00Z`).getUTCDay());
+}
+
+// Every date from start to end inclusive
+export function datesInRange(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  for (let date = startDate; date <= endDate; date = addDaysToDate(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * The dates a project accepts new or changed work logs for at the given moment
+ */
+export function getWorkLogEntryWindow(settings: WorkDateSettings, now: Date = new Date()): WorkLogEntryWindow {
+  const timezone = resolveTimeZone(settings.timezone);
+  const today = dateInTimeZone(now, timezone);
+  const graceUntil = settings.workLogGraceUntil && TIME_OF_DAY_PATTERN.test(settings.workLogGraceUntil)
+    ? settings.workLogGraceUntil
+    : null;
+  return {
+    timezone,
+    today,
+    yesterday: addDaysToDate(today, -1),
+    graceUntil: graceUntil && timeInTimeZone(now, timezone) < graceUntil ? graceUntil : null,
+  };
+}
+
+export function isWorkDateOpen(workDate: string, window: WorkLogEntryWindow): boolean {
+  return workDate === window.today || (window.graceUntil !== null && workDate === window.yesterday);
+}
+
+/**
+ * "today (2026-01-05)" or "today (2026-01-05), or yesterday until 10:00"
+ */
+export function describeWorkLogEntryWindow(window: WorkLogEntryWindow): string {
+  const today = `today (${window.today})`;
+  return window.graceUntil ? `${today}, or yesterday until ${window.graceUntil}` : today;
+}